@@ -11,17 +11,22 @@ const requiredEnvVars = [
 const optionalEnvVars = {
   'NODE_ENV': 'development',
   'PORT': '3001',
-  'JWT_EXPIRES_IN': '7d',
+  'JWT_EXPIRES_IN': '15m',
+  'REFRESH_TOKEN_TTL_DAYS': '30',
   'FRONTEND_URL': 'http://localhost:3000',
   'REDIS_URL': 'redis://localhost:6379',
   'MAX_FILE_SIZE': '10485760',
   'UPLOAD_PATH': 'uploads/',
   'RATE_LIMIT_WINDOW_MS': '900000',
   'RATE_LIMIT_MAX_REQUESTS': '100',
+  'AI_PROVIDER': 'openrouter',
   'OPENROUTER_API_KEY': '',
   'OPENROUTER_MODEL': 'anthropic/claude-3-5-haiku',
+  'OPENROUTER_MODEL_SMALL': 'google/gemini-2.5-flash-lite',
+  'OPENROUTER_MODEL_LARGE': 'anthropic/claude-3.5-sonnet',
   'OPENROUTER_RECIPE_URL_MODEL': 'anthropic/claude-3-5-haiku',
   'AI_ENABLE_CACHING': 'true',
+  'AI_CACHE_STORE': 'redis',
   'AI_CACHE_TTL': '3600',
   'AI_MAX_RETRIES': '3',
   'AI_TIMEOUT': '30000',
@@ -30,6 +35,7 @@ const optionalEnvVars = {
   'AI_RATE_LIMIT_TOKENS_PER_DAY': '1000000',
   'AI_ENABLE_COST_MONITORING': 'true',
   'AI_COST_ALERT_THRESHOLD': '100',
+  'AI_MAX_COST_PER_USER_DAILY': '5',
   'AI_MAX_COST_PER_USER_MONTHLY': '50'
 };
 
@@ -1,9 +1,18 @@
 const express = require('express');
 const bcrypt = require('bcryptjs');
-const jwt = require('jsonwebtoken');
-const { body, validationResult } = require('express-validator');
-const { query } = require('../config/database');
+const { body, param } = require('express-validator');
+const { query, pool } = require('../config/database');
 const { handleValidationErrors } = require('../middleware/validation');
+const { authenticateToken } = require('../middleware/auth');
+const {
+  getClientMeta,
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  findSessionId,
+  listSessions
+} = require('../services/auth/tokenService');
 
 const router = express.Router();
 
@@ -32,18 +41,14 @@ router.post('/register', [
     const result = await query(
       `INSERT INTO users (email, password_hash, first_name, last_name, dietary_preference, health_goal) 
        VALUES ($1, $2, $3, $4, $5, $6) 
-       RETURNING id, email, first_name, last_name, dietary_preference, health_goal, created_at`,
+       RETURNING id, email, first_name, last_name, dietary_preference, health_goal, token_version, created_at`,
       [email, passwordHash, firstName, lastName, dietaryPreference || 'none', healthGoal || 'maintain']
     );
 
     const user = result.rows[0];
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '7d' }
-    );
+    // Start a session: short-lived access token plus rotating refresh token
+    const tokens = await createSession(pool, user, getClientMeta(req));
 
     res.status(201).json({
       message: 'User created successfully',
@@ -55,7 +60,7 @@ router.post('/register', [
         dietaryPreference: user.dietary_preference,
         healthGoal: user.health_goal
       },
-      token
+      ...tokens
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -89,12 +94,8 @@ router.post('/login', [
     // Update last login
     await query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1', [user.id]);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '7d' }
-    );
+    // Start a session: short-lived access token plus rotating refresh token
+    const tokens = await createSession(pool, user, getClientMeta(req));
 
     res.json({
       message: 'Login successful',
@@ -106,7 +107,7 @@ router.post('/login', [
         dietaryPreference: user.dietary_preference,
         healthGoal: user.health_goal
       },
-      token
+      ...tokens
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -115,11 +116,109 @@ router.post('/login', [
 });
 
 // Verify token endpoint
-router.get('/verify', require('../middleware/auth').authenticateToken, (req, res) => {
+router.get('/verify', authenticateToken, (req, res) => {
   res.json({
     user: req.user,
     message: 'Token is valid'
   });
 });
 
-module.exports = router;
\ No newline at end of file
+// Exchange a refresh token for a new access/refresh pair
+router.post('/refresh', [
+  body('refreshToken').isString().notEmpty(),
+  handleValidationErrors
+], async (req, res) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await rotateRefreshToken(client, req.body.refreshToken, getClientMeta(req));
+    await client.query('COMMIT');
+
+    if (result.status === 'reused') {
+      console.warn('Refresh token reuse detected; session revoked');
+    }
+    if (result.status !== 'ok') {
+      return res.status(401).json({ error: 'Invalid or expired refresh token', code: 'REFRESH_INVALID' });
+    }
+
+    res.json(result.tokens);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  } finally {
+    client.release();
+  }
+});
+
+// Sign out this device
+router.post('/logout', [
+  body('refreshToken').optional().isString(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const sessionId = req.body.refreshToken
+      ? await findSessionId(pool, req.body.refreshToken)
+      : null;
+
+    if (sessionId) {
+      await revokeSession(pool, sessionId);
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to logout' });
+  }
+});
+
+// Sign out everywhere: every access and refresh token stops working
+router.post('/logout-all', authenticateToken, async (req, res) => {
+  try {
+    await revokeAllSessions(pool, req.user.id);
+    res.json({ message: 'Logged out of all sessions' });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Failed to logout of all sessions' });
+  }
+});
+
+// List signed-in devices
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await listSessions(pool, req.user.id);
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === req.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+// Sign out a single device, e.g. a lost phone
+router.delete('/sessions/:id', authenticateToken, [
+  param('id').isUUID(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const result = await query(
+      'SELECT 1 FROM refresh_tokens WHERE family_id = $1 AND user_id = $2 LIMIT 1',
+      [req.params.id, req.user.id]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    await revokeSession(pool, req.params.id);
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+module.exports = router;
@@ -1,13 +1,27 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
-const { query } = require('../config/database');
+const { query, pool } = require('../config/database');
 const { authenticateToken } = require('../middleware/auth');
 const { handleValidationErrors } = require('../middleware/validation');
+const { attachHouseholdScope, requireWriteAccess } = require('../middleware/household');
+const { scopeCondition, scopeValue } = require('../services/households/householdService');
+const { getMeasurementSystem } = require('../services/preferences/preferencesService');
+const { servingsFactor, scaleQuantity } = require('../utils/recipeScaling');
+const { matchPantry, needsBuying } = require('../utils/pantryMatching');
+const {
+  MEASUREMENT_SYSTEMS,
+  findUnit,
+  addQuantities,
+  toPreferredUnit
+} = require('../utils/unitConversion');
 
 const router = express.Router();
 
-// Get all grocery lists for user
-router.get('/', authenticateToken, async (req, res) => {
+// Values of the unit_of_measure enum
+const STORED_UNITS = ['pieces', 'cups', 'tablespoons', 'teaspoons', 'ounces', 'pounds', 'grams', 'kilograms', 'liters', 'milliliters'];
+
+// Get all grocery lists for the user's household (or the user alone)
+router.get('/', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
     const result = await query(
       `SELECT gl.id, gl.name, gl.meal_plan_id, gl.is_completed, gl.created_at, gl.updated_at,
@@ -15,10 +29,10 @@ router.get('/', authenticateToken, async (req, res) => {
               SUM(CASE WHEN gli.is_purchased = true THEN 1 ELSE 0 END) as purchased_items
        FROM grocery_lists gl
        LEFT JOIN grocery_list_items gli ON gl.id = gli.grocery_list_id
-       WHERE gl.user_id = $1
+       WHERE ${scopeCondition('gl', req.scope, '$1')}
        GROUP BY gl.id
        ORDER BY gl.created_at DESC`,
-      [req.user.id]
+      [scopeValue(req.scope)]
     );
 
     res.json(result.rows);
@@ -29,15 +43,15 @@ router.get('/', authenticateToken, async (req, res) => {
 });
 
 // Get single grocery list with items
-router.get('/:id', authenticateToken, async (req, res) => {
+router.get('/:id', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
     const groceryListResult = await query(
       `SELECT gl.id, gl.name, gl.meal_plan_id, gl.is_completed, gl.created_at, gl.updated_at,
               mp.name as meal_plan_name
        FROM grocery_lists gl
        LEFT JOIN meal_plans mp ON gl.meal_plan_id = mp.id
-       WHERE gl.id = $1 AND gl.user_id = $2`,
-      [req.params.id, req.user.id]
+       WHERE gl.id = $1 AND ${scopeCondition('gl', req.scope, '$2')}`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (groceryListResult.rows.length === 0) {
@@ -75,18 +89,18 @@ router.get('/:id', authenticateToken, async (req, res) => {
 });
 
 // Create new grocery list
-router.post('/', authenticateToken, [
+router.post('/', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('name').notEmpty().trim(),
   handleValidationErrors
 ], async (req, res) => {
   try {
     const { name, mealPlanId } = req.body;
 
-    // If mealPlanId is provided, check if it exists and belongs to user
+    // If mealPlanId is provided, check if it exists and belongs to the household
     if (mealPlanId) {
       const mealPlanResult = await query(
-        'SELECT id FROM meal_plans WHERE id = $1 AND user_id = $2',
-        [mealPlanId, req.user.id]
+        `SELECT id FROM meal_plans WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')}`,
+        [mealPlanId, scopeValue(req.scope)]
       );
 
       if (mealPlanResult.rows.length === 0) {
@@ -95,10 +109,10 @@ router.post('/', authenticateToken, [
     }
 
     const result = await query(
-      `INSERT INTO grocery_lists (user_id, name, meal_plan_id) 
-       VALUES ($1, $2, $3) 
+      `INSERT INTO grocery_lists (user_id, household_id, name, meal_plan_id) 
+       VALUES ($1, $2, $3, $4) 
        RETURNING id, name, meal_plan_id, is_completed, created_at, updated_at`,
-      [req.user.id, name, mealPlanId]
+      [req.scope.userId, req.scope.householdId, name, mealPlanId]
     );
 
     res.status(201).json({
@@ -112,14 +126,22 @@ router.post('/', authenticateToken, [
 });
 
 // Generate grocery list from meal plan
-router.post('/generate/:mealPlanId', authenticateToken, async (req, res) => {
+router.post('/generate/:mealPlanId', authenticateToken, attachHouseholdScope, requireWriteAccess, [
+  body('measurementSystem').optional().isIn(MEASUREMENT_SYSTEMS),
+  body('buyAnyway').optional().isArray(),
+  body('buyAnyway.*').isString(),
+  handleValidationErrors
+], async (req, res) => {
   try {
     const { name } = req.body;
+    // Ingredients to buy in full even when the pantry has some
+    const buyAnyway = new Set((req.body.buyAnyway || []).map(ingredient => ingredient.trim().toLowerCase()));
+    const measurementSystem = req.body.measurementSystem || await getMeasurementSystem(pool, req.user.id);
 
-    // Check if meal plan exists and belongs to user
+    // Check if meal plan exists and belongs to the household
     const mealPlanResult = await query(
-      'SELECT id, name FROM meal_plans WHERE id = $1 AND user_id = $2',
-      [req.params.mealPlanId, req.user.id]
+      `SELECT id, name FROM meal_plans WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')}`,
+      [req.params.mealPlanId, scopeValue(req.scope)]
     );
 
     if (mealPlanResult.rows.length === 0) {
@@ -128,75 +150,73 @@ router.post('/generate/:mealPlanId', authenticateToken, async (req, res) => {
 
     const mealPlan = mealPlanResult.rows[0];
 
-    const client = await require('../config/database').pool.connect();
+    const client = await pool.connect();
 
     try {
       await client.query('BEGIN');
 
       // Create grocery list
       const groceryListResult = await client.query(
-        `INSERT INTO grocery_lists (user_id, name, meal_plan_id) 
-         VALUES ($1, $2, $3) 
+        `INSERT INTO grocery_lists (user_id, household_id, name, meal_plan_id) 
+         VALUES ($1, $2, $3, $4) 
          RETURNING id, name, meal_plan_id, is_completed, created_at, updated_at`,
-        [req.user.id, name || `Grocery List for ${mealPlan.name}`, req.params.mealPlanId]
+        [req.scope.userId, req.scope.householdId, name || `Grocery List for ${mealPlan.name}`, req.params.mealPlanId]
       );
 
       const groceryList = groceryListResult.rows[0];
 
-      // Get all ingredients from meal plan recipes
+      // Get all ingredients from meal plan recipes; a recipe planned twice needs twice the ingredients,
+      // each scaled to the servings planned for that meal
       const ingredientsResult = await client.query(
-        `SELECT DISTINCT ri.name, ri.quantity, ri.unit, ri.notes
+        `SELECT ri.name, ri.quantity, ri.unit, ri.notes,
+                mpe.servings AS planned_servings, r.servings AS recipe_servings
          FROM meal_plan_entries mpe
+         JOIN recipes r ON mpe.recipe_id = r.id
          JOIN recipe_ingredients ri ON mpe.recipe_id = ri.recipe_id
          WHERE mpe.meal_plan_id = $1`,
         [req.params.mealPlanId]
       );
 
-      // Get user's pantry items to exclude
+      // Get the household's pantry items to subtract
       const pantryResult = await client.query(
-        'SELECT name, quantity, unit FROM pantry_items WHERE user_id = $1',
-        [req.user.id]
+        `SELECT name, quantity, unit FROM pantry_items WHERE ${scopeCondition(null, req.scope, '$1')}`,
+        [scopeValue(req.scope)]
       );
 
-      const pantryItems = pantryResult.rows;
-
-      // Process ingredients and create grocery list items
       const groceryItems = [];
-      const ingredientMap = new Map();
-
-      // Aggregate ingredients by name and unit
-      ingredientsResult.rows.forEach(ingredient => {
-        const key = `${ingredient.name.toLowerCase()}-${ingredient.unit}`;
-        if (ingredientMap.has(key)) {
-          const existing = ingredientMap.get(key);
-          existing.quantity += ingredient.quantity;
-        } else {
-          ingredientMap.set(key, { ...ingredient });
+      const fromPantry = [];
+      const matches = matchPantry(
+        aggregateIngredients(ingredientsResult.rows),
+        pantryResult.rows,
+        ingredient => !buyAnyway.has(ingredient.name.toLowerCase())
+      );
+
+      // Create grocery list items for whatever the pantry doesn't cover
+      for (const match of matches) {
+        const { ingredient } = match;
+        if (match.pantryItem) {
+          fromPantry.push({ name: ingredient.name, pantryItem: match.pantryItem, quantity: match.have, unit: ingredient.unit });
+        }
+        if (!needsBuying(match)) {
+          continue;
         }
-      });
 
-      // Create grocery list items, excluding items available in pantry
-      for (const [key, ingredient] of ingredientMap) {
-        // Check if item is available in pantry
-        const pantryItem = pantryItems.find(item => 
-          item.name.toLowerCase() === ingredient.name.toLowerCase() && 
-          item.unit === ingredient.unit &&
-          item.quantity >= ingredient.quantity
+        const { amount, unit } = toPreferredUnit(
+          { amount: match.buy ?? ingredient.amount, unit: ingredient.unit },
+          measurementSystem,
+          ingredient.name,
+          STORED_UNITS
         );
+        const aisle = determineAisle(ingredient.name);
 
-        if (!pantryItem) {
-          // Determine aisle based on item category
-          const aisle = determineAisle(ingredient.name);
-
-          const itemResult = await client.query(
-            `INSERT INTO grocery_list_items (grocery_list_id, name, quantity, unit, aisle, notes) 
-             VALUES ($1, $2, $3, $4, $5, $6) 
-             RETURNING id, name, quantity, unit, aisle, is_purchased, notes, created_at, updated_at`,
-            [groceryList.id, ingredient.name, ingredient.quantity, ingredient.unit, aisle, ingredient.notes]
-          );
+        const itemResult = await client.query(
+          `INSERT INTO grocery_list_items (grocery_list_id, name, quantity, unit, aisle, notes)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING id, name, quantity, unit, aisle, is_purchased, notes, created_at, updated_at`,
+          [groceryList.id, ingredient.name, amount, unit, aisle, ingredient.notes]
+        );
 
-          groceryItems.push(itemResult.rows[0]);
-        }
+        groceryItems.push(itemResult.rows[0]);
       }
 
       await client.query('COMMIT');
@@ -206,7 +226,8 @@ router.post('/generate/:mealPlanId', authenticateToken, async (req, res) => {
         groceryList: {
           ...groceryList,
           items: groceryItems
-        }
+        },
+        fromPantry
       });
     } catch (error) {
       await client.query('ROLLBACK');
@@ -221,7 +242,7 @@ router.post('/generate/:mealPlanId', authenticateToken, async (req, res) => {
 });
 
 // Update grocery list
-router.put('/:id', authenticateToken, [
+router.put('/:id', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('name').optional().notEmpty().trim(),
   body('isCompleted').optional().isBoolean(),
   handleValidationErrors
@@ -234,9 +255,9 @@ router.put('/:id', authenticateToken, [
        SET name = COALESCE($1, name), 
            is_completed = COALESCE($2, is_completed),
            updated_at = CURRENT_TIMESTAMP 
-       WHERE id = $3 AND user_id = $4 
+       WHERE id = $3 AND ${scopeCondition(null, req.scope, '$4')} 
        RETURNING id, name, meal_plan_id, is_completed, created_at, updated_at`,
-      [name, isCompleted, req.params.id, req.user.id]
+      [name, isCompleted, req.params.id, scopeValue(req.scope)]
     );
 
     if (result.rows.length === 0) {
@@ -254,11 +275,11 @@ router.put('/:id', authenticateToken, [
 });
 
 // Delete grocery list
-router.delete('/:id', authenticateToken, async (req, res) => {
+router.delete('/:id', authenticateToken, attachHouseholdScope, requireWriteAccess, async (req, res) => {
   try {
     const result = await query(
-      'DELETE FROM grocery_lists WHERE id = $1 AND user_id = $2 RETURNING id',
-      [req.params.id, req.user.id]
+      `DELETE FROM grocery_lists WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')} RETURNING id`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (result.rows.length === 0) {
@@ -273,20 +294,20 @@ router.delete('/:id', authenticateToken, async (req, res) => {
 });
 
 // Add item to grocery list
-router.post('/:id/items', authenticateToken, [
+router.post('/:id/items', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('name').notEmpty().trim(),
   body('quantity').isFloat({ min: 0 }),
-  body('unit').isIn(['pieces', 'cups', 'tablespoons', 'teaspoons', 'ounces', 'pounds', 'grams', 'kilograms', 'liters', 'milliliters']),
+  body('unit').isIn(STORED_UNITS),
   body('aisle').optional().isIn(['produce', 'dairy', 'meat', 'bakery', 'frozen', 'canned', 'dry_goods', 'beverages', 'snacks', 'household', 'other']),
   handleValidationErrors
 ], async (req, res) => {
   try {
     const { name, quantity, unit, aisle, notes } = req.body;
 
-    // Check if grocery list exists and belongs to user
+    // Check if grocery list exists and belongs to the household
     const groceryListResult = await query(
-      'SELECT id FROM grocery_lists WHERE id = $1 AND user_id = $2',
-      [req.params.id, req.user.id]
+      `SELECT id FROM grocery_lists WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')}`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (groceryListResult.rows.length === 0) {
@@ -314,10 +335,10 @@ router.post('/:id/items', authenticateToken, [
 });
 
 // Update grocery list item
-router.put('/items/:itemId', authenticateToken, [
+router.put('/items/:itemId', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('name').optional().notEmpty().trim(),
   body('quantity').optional().isFloat({ min: 0 }),
-  body('unit').optional().isIn(['pieces', 'cups', 'tablespoons', 'teaspoons', 'ounces', 'pounds', 'grams', 'kilograms', 'liters', 'milliliters']),
+  body('unit').optional().isIn(STORED_UNITS),
   body('aisle').optional().isIn(['produce', 'dairy', 'meat', 'bakery', 'frozen', 'canned', 'dry_goods', 'beverages', 'snacks', 'household', 'other']),
   body('isPurchased').optional().isBoolean(),
   handleValidationErrors
@@ -335,9 +356,9 @@ router.put('/items/:itemId', authenticateToken, [
            notes = COALESCE($6, notes),
            updated_at = CURRENT_TIMESTAMP 
        WHERE id = $7 AND 
-             grocery_list_id IN (SELECT id FROM grocery_lists WHERE user_id = $8) 
+             grocery_list_id IN (SELECT id FROM grocery_lists WHERE ${scopeCondition(null, req.scope, '$8')}) 
        RETURNING id, name, quantity, unit, aisle, is_purchased, notes, created_at, updated_at`,
-      [name, quantity, unit, aisle, isPurchased, notes, req.params.itemId, req.user.id]
+      [name, quantity, unit, aisle, isPurchased, notes, req.params.itemId, scopeValue(req.scope)]
     );
 
     if (result.rows.length === 0) {
@@ -355,14 +376,14 @@ router.put('/items/:itemId', authenticateToken, [
 });
 
 // Delete grocery list item
-router.delete('/items/:itemId', authenticateToken, async (req, res) => {
+router.delete('/items/:itemId', authenticateToken, attachHouseholdScope, requireWriteAccess, async (req, res) => {
   try {
     const result = await query(
       `DELETE FROM grocery_list_items 
        WHERE id = $1 AND 
-             grocery_list_id IN (SELECT id FROM grocery_lists WHERE user_id = $2) 
+             grocery_list_id IN (SELECT id FROM grocery_lists WHERE ${scopeCondition(null, req.scope, '$2')}) 
        RETURNING id`,
-      [req.params.itemId, req.user.id]
+      [req.params.itemId, scopeValue(req.scope)]
     );
 
     if (result.rows.length === 0) {
@@ -376,6 +397,34 @@ router.delete('/items/:itemId', authenticateToken, async (req, res) => {
   }
 });
 
+// Sum recipe ingredients by name, converting between units where they measure
+// the same thing (or volume and mass, for ingredients with a known density).
+// Each row is first scaled from the recipe's servings to the planned ones.
+function aggregateIngredients(rows) {
+  const aggregated = [];
+
+  rows.forEach(row => {
+    const name = row.name.trim();
+    const quantity = scaleQuantity(
+      { amount: parseFloat(row.quantity) || 0, unit: findUnit(row.unit) || 'pieces' },
+      servingsFactor(row.planned_servings, row.recipe_servings),
+      name
+    );
+    const existing = aggregated.find(ingredient =>
+      ingredient.name.toLowerCase() === name.toLowerCase() &&
+      addQuantities(ingredient, quantity, name) !== null
+    );
+
+    if (existing) {
+      existing.amount = addQuantities(existing, quantity, name).amount;
+    } else {
+      aggregated.push({ name, ...quantity, notes: row.notes });
+    }
+  });
+
+  return aggregated;
+}
+
 // Helper function to determine aisle based on item name
 function determineAisle(itemName) {
   const name = itemName.toLowerCase();
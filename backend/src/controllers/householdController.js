@@ -0,0 +1,451 @@
+const express = require('express');
+const { body, param } = require('express-validator');
+const { query, pool } = require('../config/database');
+const { authenticateToken } = require('../middleware/auth');
+const { handleValidationErrors } = require('../middleware/validation');
+const { attachHouseholdScope } = require('../middleware/household');
+const {
+  HOUSEHOLD_ROLES,
+  INVITATION_ROLES,
+  INVITATION_TTL_DAYS,
+  canManageHousehold,
+  getMembership,
+  moveUserDataIntoHousehold
+} = require('../services/households/householdService');
+
+const router = express.Router();
+
+// The household with its members; owners also see pending invitations
+async function loadHousehold(db, householdId, role) {
+  const householdResult = await db.query(
+    'SELECT id, name, created_by, created_at FROM households WHERE id = $1',
+    [householdId]
+  );
+  const household = householdResult.rows[0];
+
+  const membersResult = await db.query(
+    `SELECT u.id, u.email, u.first_name, u.last_name, u.dietary_preference, hm.role, hm.joined_at
+     FROM household_members hm
+     JOIN users u ON u.id = hm.user_id
+     WHERE hm.household_id = $1
+     ORDER BY hm.joined_at`,
+    [householdId]
+  );
+
+  const invitationsResult = canManageHousehold(role)
+    ? await db.query(
+      `SELECT id, email, role, status, expires_at, created_at
+       FROM household_invitations
+       WHERE household_id = $1 AND status = 'pending' AND expires_at > CURRENT_TIMESTAMP
+       ORDER BY created_at`,
+      [householdId]
+    )
+    : { rows: [] };
+
+  return {
+    id: household.id,
+    name: household.name,
+    role,
+    createdAt: household.created_at,
+    members: membersResult.rows.map(member => ({
+      userId: member.id,
+      email: member.email,
+      firstName: member.first_name,
+      lastName: member.last_name,
+      dietaryPreference: member.dietary_preference,
+      role: member.role,
+      joinedAt: member.joined_at
+    })),
+    invitations: invitationsResult.rows.map(invitation => ({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expires_at,
+      createdAt: invitation.created_at
+    }))
+  };
+}
+
+const requireOwner = (req, res, next) => {
+  if (!req.scope.householdId) {
+    return res.status(404).json({ error: 'You are not in a household' });
+  }
+  if (!canManageHousehold(req.scope.role)) {
+    return res.status(403).json({ error: 'Only the household owner can do that' });
+  }
+  next();
+};
+
+// Get the household the user belongs to
+router.get('/current', authenticateToken, attachHouseholdScope, async (req, res) => {
+  try {
+    if (!req.scope.householdId) {
+      return res.json({ household: null });
+    }
+
+    res.json({ household: await loadHousehold(pool, req.scope.householdId, req.scope.role) });
+  } catch (error) {
+    console.error('Get household error:', error);
+    res.status(500).json({ error: 'Failed to get household' });
+  }
+});
+
+// Create a household; by default the creator's pantry, meal plans and lists move into it
+router.post('/', authenticateToken, [
+  body('name').notEmpty().trim().isLength({ max: 255 }),
+  body('shareExistingData').optional().isBoolean(),
+  handleValidationErrors
+], async (req, res) => {
+  const { name, shareExistingData = true } = req.body;
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    if (await getMembership(client, req.user.id)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Leave your current household before creating another' });
+    }
+
+    const householdResult = await client.query(
+      'INSERT INTO households (name, created_by) VALUES ($1, $2) RETURNING id',
+      [name, req.user.id]
+    );
+    const householdId = householdResult.rows[0].id;
+
+    await client.query(
+      "INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'owner')",
+      [householdId, req.user.id]
+    );
+
+    if (shareExistingData) {
+      await moveUserDataIntoHousehold(client, req.user.id, householdId);
+    }
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: 'Household created successfully',
+      household: await loadHousehold(pool, householdId, 'owner')
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Create household error:', error);
+    res.status(500).json({ error: 'Failed to create household' });
+  } finally {
+    client.release();
+  }
+});
+
+// Rename the household
+router.put('/current', authenticateToken, attachHouseholdScope, requireOwner, [
+  body('name').notEmpty().trim().isLength({ max: 255 }),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    await query(
+      'UPDATE households SET name = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [req.body.name, req.scope.householdId]
+    );
+
+    res.json({
+      message: 'Household updated successfully',
+      household: await loadHousehold(pool, req.scope.householdId, req.scope.role)
+    });
+  } catch (error) {
+    console.error('Update household error:', error);
+    res.status(500).json({ error: 'Failed to update household' });
+  }
+});
+
+// Delete the household; shared rows go back to whoever created them
+router.delete('/current', authenticateToken, attachHouseholdScope, requireOwner, async (req, res) => {
+  try {
+    await query('DELETE FROM households WHERE id = $1', [req.scope.householdId]);
+    res.json({ message: 'Household deleted successfully' });
+  } catch (error) {
+    console.error('Delete household error:', error);
+    res.status(500).json({ error: 'Failed to delete household' });
+  }
+});
+
+// Invite someone by email
+router.post('/current/invitations', authenticateToken, attachHouseholdScope, requireOwner, [
+  body('email').isEmail().normalizeEmail(),
+  body('role').optional().isIn(INVITATION_ROLES),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const { email, role = 'member' } = req.body;
+
+    const memberResult = await query(
+      `SELECT 1 FROM household_members hm
+       JOIN users u ON u.id = hm.user_id
+       WHERE hm.household_id = $1 AND LOWER(u.email) = LOWER($2)`,
+      [req.scope.householdId, email]
+    );
+    if (memberResult.rows.length > 0) {
+      return res.status(409).json({ error: 'That person is already in your household' });
+    }
+
+    // Inviting the same address again refreshes the pending invitation
+    await query(
+      `UPDATE household_invitations SET status = 'revoked', responded_at = CURRENT_TIMESTAMP
+       WHERE household_id = $1 AND LOWER(email) = LOWER($2) AND status = 'pending'`,
+      [req.scope.householdId, email]
+    );
+
+    const result = await query(
+      `INSERT INTO household_invitations (household_id, email, role, invited_by, expires_at)
+       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(days => $5))
+       RETURNING id, email, role, expires_at, created_at`,
+      [req.scope.householdId, email, role, req.user.id, INVITATION_TTL_DAYS]
+    );
+    const invitation = result.rows[0];
+
+    res.status(201).json({
+      message: 'Invitation sent',
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expires_at,
+        createdAt: invitation.created_at
+      }
+    });
+  } catch (error) {
+    console.error('Create household invitation error:', error);
+    res.status(500).json({ error: 'Failed to send invitation' });
+  }
+});
+
+// Withdraw a pending invitation
+router.delete('/current/invitations/:id', authenticateToken, attachHouseholdScope, requireOwner, [
+  param('id').isUUID(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const result = await query(
+      `UPDATE household_invitations SET status = 'revoked', responded_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND household_id = $2 AND status = 'pending'
+       RETURNING id`,
+      [req.params.id, req.scope.householdId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    res.json({ message: 'Invitation withdrawn' });
+  } catch (error) {
+    console.error('Revoke household invitation error:', error);
+    res.status(500).json({ error: 'Failed to withdraw invitation' });
+  }
+});
+
+// Invitations waiting for the signed-in user
+router.get('/invitations', authenticateToken, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT hi.id, hi.role, hi.expires_at, hi.created_at, h.name AS household_name,
+              u.first_name AS invited_by_first_name, u.last_name AS invited_by_last_name
+       FROM household_invitations hi
+       JOIN households h ON h.id = hi.household_id
+       LEFT JOIN users u ON u.id = hi.invited_by
+       WHERE LOWER(hi.email) = LOWER($1) AND hi.status = 'pending' AND hi.expires_at > CURRENT_TIMESTAMP
+       ORDER BY hi.created_at DESC`,
+      [req.user.email]
+    );
+
+    res.json(result.rows.map(row => ({
+      id: row.id,
+      householdName: row.household_name,
+      role: row.role,
+      invitedBy: [row.invited_by_first_name, row.invited_by_last_name].filter(Boolean).join(' ') || null,
+      expiresAt: row.expires_at,
+      createdAt: row.created_at
+    })));
+  } catch (error) {
+    console.error('Get household invitations error:', error);
+    res.status(500).json({ error: 'Failed to get invitations' });
+  }
+});
+
+// Join a household; by default the joiner's pantry, meal plans and lists move into it
+router.post('/invitations/:id/accept', authenticateToken, [
+  param('id').isUUID(),
+  body('shareExistingData').optional().isBoolean(),
+  handleValidationErrors
+], async (req, res) => {
+  const { shareExistingData = true } = req.body;
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const invitationResult = await client.query(
+      `SELECT id, household_id, role FROM household_invitations
+       WHERE id = $1 AND LOWER(email) = LOWER($2) AND status = 'pending' AND expires_at > CURRENT_TIMESTAMP
+       FOR UPDATE`,
+      [req.params.id, req.user.email]
+    );
+    const invitation = invitationResult.rows[0];
+    if (!invitation) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Invitation not found or expired' });
+    }
+
+    if (await getMembership(client, req.user.id)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Leave your current household before joining another' });
+    }
+
+    await client.query(
+      'INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, $3)',
+      [invitation.household_id, req.user.id, invitation.role]
+    );
+    await client.query(
+      `UPDATE household_invitations SET status = 'accepted', responded_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [invitation.id]
+    );
+
+    if (shareExistingData) {
+      await moveUserDataIntoHousehold(client, req.user.id, invitation.household_id);
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: 'Joined household successfully',
+      household: await loadHousehold(pool, invitation.household_id, invitation.role)
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Accept household invitation error:', error);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  } finally {
+    client.release();
+  }
+});
+
+// Turn an invitation down
+router.post('/invitations/:id/decline', authenticateToken, [
+  param('id').isUUID(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const result = await query(
+      `UPDATE household_invitations SET status = 'declined', responded_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND LOWER(email) = LOWER($2) AND status = 'pending'
+       RETURNING id`,
+      [req.params.id, req.user.email]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    res.json({ message: 'Invitation declined' });
+  } catch (error) {
+    console.error('Decline household invitation error:', error);
+    res.status(500).json({ error: 'Failed to decline invitation' });
+  }
+});
+
+// Change a member's role; making someone owner hands ownership over
+router.put('/current/members/:userId', authenticateToken, attachHouseholdScope, requireOwner, [
+  param('userId').isUUID(),
+  body('role').isIn(HOUSEHOLD_ROLES),
+  handleValidationErrors
+], async (req, res) => {
+  const { role } = req.body;
+
+  if (req.params.userId === req.user.id) {
+    return res.status(400).json({ error: 'Make someone else the owner to change your own role' });
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      'UPDATE household_members SET role = $1 WHERE household_id = $2 AND user_id = $3 RETURNING user_id',
+      [role, req.scope.householdId, req.params.userId]
+    );
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (role === 'owner') {
+      await client.query(
+        "UPDATE household_members SET role = 'member' WHERE household_id = $1 AND user_id = $2",
+        [req.scope.householdId, req.user.id]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      message: 'Member updated successfully',
+      household: await loadHousehold(pool, req.scope.householdId, role === 'owner' ? 'member' : req.scope.role)
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Update household member error:', error);
+    res.status(500).json({ error: 'Failed to update member' });
+  } finally {
+    client.release();
+  }
+});
+
+// Remove someone from the household
+router.delete('/current/members/:userId', authenticateToken, attachHouseholdScope, requireOwner, [
+  param('userId').isUUID(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    if (req.params.userId === req.user.id) {
+      return res.status(400).json({ error: 'Owners cannot remove themselves' });
+    }
+
+    const result = await query(
+      'DELETE FROM household_members WHERE household_id = $1 AND user_id = $2 RETURNING user_id',
+      [req.scope.householdId, req.params.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    res.json({ message: 'Member removed' });
+  } catch (error) {
+    console.error('Remove household member error:', error);
+    res.status(500).json({ error: 'Failed to remove member' });
+  }
+});
+
+// Leave the household; shared data stays with it
+router.post('/current/leave', authenticateToken, attachHouseholdScope, async (req, res) => {
+  try {
+    if (!req.scope.householdId) {
+      return res.status(404).json({ error: 'You are not in a household' });
+    }
+    if (canManageHousehold(req.scope.role)) {
+      return res.status(400).json({ error: 'Hand ownership to another member or delete the household first' });
+    }
+
+    await query(
+      'DELETE FROM household_members WHERE household_id = $1 AND user_id = $2',
+      [req.scope.householdId, req.user.id]
+    );
+
+    res.json({ message: 'You have left the household' });
+  } catch (error) {
+    console.error('Leave household error:', error);
+    res.status(500).json({ error: 'Failed to leave household' });
+  }
+});
+
+module.exports = router;
@@ -1,27 +1,28 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
-const { query } = require('../config/database');
+const { query, pool } = require('../config/database');
 const { authenticateToken } = require('../middleware/auth');
 const { handleValidationErrors } = require('../middleware/validation');
+const { attachHouseholdScope, requireWriteAccess } = require('../middleware/household');
+const { trackAiUsage } = require('../middleware/aiUsage');
+const { scopeCondition, scopeValue, getPlanningProfile } = require('../services/households/householdService');
 const SmartMealPlanner = require('../services/ai/SmartMealPlanner');
+const { getRecipeAccess } = require('../services/recipes/recipeAccess');
 
 const router = express.Router();
 
 // Get all meal plans for user
-router.get('/', authenticateToken, async (req, res) => {
+router.get('/', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
-    // Use authenticated user ID
-    const userId = req.user.id;
-    
     const result = await query(
       `SELECT mp.id, mp.name, mp.start_date, mp.end_date, mp.notes, mp.created_at, mp.updated_at,
               COUNT(mpe.id) as total_meals
        FROM meal_plans mp
        LEFT JOIN meal_plan_entries mpe ON mp.id = mpe.meal_plan_id
-       WHERE mp.user_id = $1
+       WHERE ${scopeCondition('mp', req.scope, '$1')}
        GROUP BY mp.id
        ORDER BY mp.created_at DESC`,
-      [userId]
+      [scopeValue(req.scope)]
     );
 
     res.json(result.rows);
@@ -32,14 +33,12 @@ router.get('/', authenticateToken, async (req, res) => {
 });
 
 // Get single meal plan with entries
-router.get('/:id', authenticateToken, async (req, res) => {
+router.get('/:id', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
-    // Use authenticated user ID
-    const userId = req.user.id;
-    
     const mealPlanResult = await query(
-      'SELECT id, name, start_date, end_date, notes, created_at, updated_at FROM meal_plans WHERE id = $1 AND user_id = $2',
-      [req.params.id, userId]
+      `SELECT id, name, start_date, end_date, notes, created_at, updated_at
+       FROM meal_plans WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')}`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (mealPlanResult.rows.length === 0) {
@@ -50,7 +49,8 @@ router.get('/:id', authenticateToken, async (req, res) => {
 
     // Get meal plan entries
     const entriesResult = await query(
-      `SELECT mpe.id, mpe.meal_date, mpe.meal_type, mpe.notes, mpe.created_at, mpe.updated_at,
+      `SELECT mpe.id, mpe.meal_date, mpe.meal_type, mpe.notes, mpe.servings as planned_servings,
+              mpe.created_at, mpe.updated_at,
               r.id as recipe_id, r.name as recipe_name, r.description as recipe_description,
               r.prep_time, r.cook_time, r.servings, r.difficulty,
               n.calories, n.protein, n.carbohydrates, n.fat
@@ -72,7 +72,7 @@ router.get('/:id', authenticateToken, async (req, res) => {
 });
 
 // Create new meal plan
-router.post('/', authenticateToken, [
+router.post('/', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('name').notEmpty().trim(),
   body('startDate').isISO8601(),
   body('endDate').isISO8601(),
@@ -80,9 +80,6 @@ router.post('/', authenticateToken, [
 ], async (req, res) => {
   try {
     const { name, startDate, endDate, notes } = req.body;
-    
-    // Use authenticated user ID
-    const userId = req.user.id;
 
     // Create dates at noon local time to avoid timezone issues
     const localStartDate = new Date(startDate + 'T12:00:00');
@@ -94,10 +91,10 @@ router.post('/', authenticateToken, [
     }
 
     const result = await query(
-      `INSERT INTO meal_plans (user_id, name, start_date, end_date, notes) 
-       VALUES ($1, $2, $3, $4, $5) 
+      `INSERT INTO meal_plans (user_id, household_id, name, start_date, end_date, notes) 
+       VALUES ($1, $2, $3, $4, $5, $6) 
        RETURNING id, name, start_date, end_date, notes, created_at, updated_at`,
-      [userId, name, localStartDate, localEndDate, notes]
+      [req.scope.userId, req.scope.householdId, name, localStartDate, localEndDate, notes]
     );
 
     res.status(201).json({
@@ -111,7 +108,7 @@ router.post('/', authenticateToken, [
 });
 
 // Update meal plan
-router.put('/:id', authenticateToken, [
+router.put('/:id', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('name').optional().notEmpty().trim(),
   body('startDate').optional().isISO8601(),
   body('endDate').optional().isISO8601(),
@@ -119,14 +116,11 @@ router.put('/:id', authenticateToken, [
 ], async (req, res) => {
   try {
     const { name, startDate, endDate, notes } = req.body;
-    
-    // Use authenticated user ID
-    const userId = req.user.id;
 
-    // Check if meal plan exists and belongs to user
+    // Check if meal plan exists and belongs to the user's household
     const existingMealPlan = await query(
-      'SELECT id FROM meal_plans WHERE id = $1 AND user_id = $2',
-      [req.params.id, userId]
+      `SELECT id FROM meal_plans WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')}`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (existingMealPlan.rows.length === 0) {
@@ -153,9 +147,9 @@ router.put('/:id', authenticateToken, [
            end_date = COALESCE($3, end_date), 
            notes = COALESCE($4, notes),
            updated_at = CURRENT_TIMESTAMP 
-       WHERE id = $5 AND user_id = $6 
+       WHERE id = $5 
        RETURNING id, name, start_date, end_date, notes, created_at, updated_at`,
-      [name, localStartDate, localEndDate, notes, req.params.id, userId]
+      [name, localStartDate, localEndDate, notes, req.params.id]
     );
 
     res.json({
@@ -169,14 +163,11 @@ router.put('/:id', authenticateToken, [
 });
 
 // Delete meal plan
-router.delete('/:id', authenticateToken, async (req, res) => {
+router.delete('/:id', authenticateToken, attachHouseholdScope, requireWriteAccess, async (req, res) => {
   try {
-    // Use authenticated user ID
-    const userId = req.user.id;
-    
     const result = await query(
-      'DELETE FROM meal_plans WHERE id = $1 AND user_id = $2 RETURNING id',
-      [req.params.id, userId]
+      `DELETE FROM meal_plans WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')} RETURNING id`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (result.rows.length === 0) {
@@ -191,24 +182,22 @@ router.delete('/:id', authenticateToken, async (req, res) => {
 });
 
 // Add meal entry to meal plan
-router.post('/:id/entries', authenticateToken, [
+router.post('/:id/entries', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('mealDate').isISO8601(),
   body('mealType').isIn(['breakfast', 'lunch', 'dinner', 'snack', 'dessert']),
+  body('servings').optional({ nullable: true }).isInt({ min: 1 }),
   handleValidationErrors
 ], async (req, res) => {
   try {
-    const { mealDate, mealType, recipeId, notes } = req.body;
-    
-    // Use authenticated user ID
-    const userId = req.user.id;
+    const { mealDate, mealType, recipeId, notes, servings } = req.body;
 
     // Create date at noon local time to avoid timezone issues
     const localDate = new Date(mealDate + 'T12:00:00');
 
-    // Check if meal plan exists and belongs to user
+    // Check if meal plan exists and belongs to the user's household
     const mealPlanResult = await query(
-      'SELECT id, start_date, end_date FROM meal_plans WHERE id = $1 AND user_id = $2',
-      [req.params.id, userId]
+      `SELECT id, start_date, end_date FROM meal_plans WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')}`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (mealPlanResult.rows.length === 0) {
@@ -230,16 +219,14 @@ router.post('/:id/entries', authenticateToken, [
       return res.status(400).json({ error: 'Meal date must be within meal plan date range' });
     }
 
-    // Check if recipe exists and belongs to user or is public
+    // Only recipes the user may view can be planned
+    let recipe = null;
     if (recipeId) {
-      const recipeResult = await query(
-        'SELECT id FROM recipes WHERE id = $1 AND (user_id = $2 OR is_public = true)',
-        [recipeId, userId]
-      );
-
-      if (recipeResult.rows.length === 0) {
+      const access = await getRecipeAccess(pool, recipeId, req.scope.userId);
+      if (!access.role) {
         return res.status(404).json({ error: 'Recipe not found' });
       }
+      recipe = access.recipe;
     }
 
     // Check if entry already exists for this date and meal type
@@ -253,10 +240,10 @@ router.post('/:id/entries', authenticateToken, [
     }
 
     const result = await query(
-      `INSERT INTO meal_plan_entries (meal_plan_id, recipe_id, meal_date, meal_type, notes) 
-       VALUES ($1, $2, $3, $4, $5) 
-       RETURNING id, meal_plan_id, recipe_id, meal_date, meal_type, notes, created_at, updated_at`,
-      [req.params.id, recipeId, localDate, mealType, notes]
+      `INSERT INTO meal_plan_entries (meal_plan_id, recipe_id, meal_date, meal_type, notes, servings)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id, meal_plan_id, recipe_id, meal_date, meal_type, notes, servings, created_at, updated_at`,
+      [req.params.id, recipe ? recipe.id : null, localDate, mealType, notes, servings || null]
     );
 
     res.status(201).json({
@@ -270,23 +257,21 @@ router.post('/:id/entries', authenticateToken, [
 });
 
 // Update meal entry
-router.put('/entries/:entryId', authenticateToken, [
+router.put('/entries/:entryId', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('mealType').optional().isIn(['breakfast', 'lunch', 'dinner', 'snack', 'dessert']),
+  body('servings').optional().isInt({ min: 1 }),
   handleValidationErrors
 ], async (req, res) => {
   try {
-    const { mealDate, mealType, recipeId, notes } = req.body;
-    
-    // Use authenticated user ID
-    const userId = req.user.id;
+    const { mealDate, mealType, recipeId, notes, servings } = req.body;
 
-    // Check if entry exists and belongs to user's meal plan
+    // Check if entry exists and belongs to the household's meal plan
     const entryResult = await query(
       `SELECT mpe.id, mp.user_id, mp.start_date, mp.end_date 
        FROM meal_plan_entries mpe
        JOIN meal_plans mp ON mpe.meal_plan_id = mp.id
-       WHERE mpe.id = $1 AND mp.user_id = $2`,
-      [req.params.entryId, userId]
+       WHERE mpe.id = $1 AND ${scopeCondition('mp', req.scope, '$2')}`,
+      [req.params.entryId, scopeValue(req.scope)]
     );
 
     if (entryResult.rows.length === 0) {
@@ -311,16 +296,14 @@ router.put('/entries/:entryId', authenticateToken, [
       }
     }
 
-    // Check if recipe exists and belongs to user or is public
+    // Only recipes the user may view can be planned
+    let recipe = null;
     if (recipeId) {
-      const recipeResult = await query(
-        'SELECT id FROM recipes WHERE id = $1 AND (user_id = $2 OR is_public = true)',
-        [recipeId, userId]
-      );
-
-      if (recipeResult.rows.length === 0) {
+      const access = await getRecipeAccess(pool, recipeId, req.scope.userId);
+      if (!access.role) {
         return res.status(404).json({ error: 'Recipe not found' });
       }
+      recipe = access.recipe;
     }
 
     const result = await query(
@@ -329,10 +312,11 @@ router.put('/entries/:entryId', authenticateToken, [
            meal_date = COALESCE($2, meal_date), 
            meal_type = COALESCE($3, meal_type), 
            notes = COALESCE($4, notes),
+           servings = COALESCE($5, servings),
            updated_at = CURRENT_TIMESTAMP 
-       WHERE id = $5 
-       RETURNING id, meal_plan_id, recipe_id, meal_date, meal_type, notes, created_at, updated_at`,
-      [recipeId, mealDate, mealType, notes, req.params.entryId]
+       WHERE id = $6
+       RETURNING id, meal_plan_id, recipe_id, meal_date, meal_type, notes, servings, created_at, updated_at`,
+      [recipe ? recipe.id : null, mealDate, mealType, notes, servings, req.params.entryId]
     );
 
     res.json({
@@ -346,16 +330,14 @@ router.put('/entries/:entryId', authenticateToken, [
 });
 
 // Delete meal entry
-router.delete('/entries/:entryId', authenticateToken, async (req, res) => {
+router.delete('/entries/:entryId', authenticateToken, attachHouseholdScope, requireWriteAccess, async (req, res) => {
   try {
-    // Use authenticated user ID
-    const userId = req.user.id;
     const result = await query(
       `DELETE FROM meal_plan_entries 
        WHERE id = $1 AND 
-             meal_plan_id IN (SELECT id FROM meal_plans WHERE user_id = $2) 
+             meal_plan_id IN (SELECT id FROM meal_plans WHERE ${scopeCondition(null, req.scope, '$2')}) 
        RETURNING id`,
-      [req.params.entryId, userId]
+      [req.params.entryId, scopeValue(req.scope)]
     );
 
     if (result.rows.length === 0) {
@@ -370,7 +352,7 @@ router.delete('/entries/:entryId', authenticateToken, async (req, res) => {
 });
 
 // Clear all meal entries in a date range
-router.delete('/entries/range/:startDate/:endDate', authenticateToken, async (req, res) => {
+router.delete('/entries/range/:startDate/:endDate', authenticateToken, attachHouseholdScope, requireWriteAccess, async (req, res) => {
   try {
     const { startDate, endDate } = req.params;
     const userId = req.user.id;
@@ -384,9 +366,9 @@ router.delete('/entries/range/:startDate/:endDate', authenticateToken, async (re
     const result = await query(
       `DELETE FROM meal_plan_entries 
        WHERE meal_date BETWEEN $1 AND $2 
-       AND meal_plan_id IN (SELECT id FROM meal_plans WHERE user_id = $3)
+       AND meal_plan_id IN (SELECT id FROM meal_plans WHERE ${scopeCondition(null, req.scope, '$3')})
        RETURNING id`,
-      [localStartDate, localEndDate, userId]
+      [localStartDate, localEndDate, scopeValue(req.scope)]
     );
 
     const deletedCount = result.rows.length;
@@ -403,19 +385,16 @@ router.delete('/entries/range/:startDate/:endDate', authenticateToken, async (re
 });
 
 // Get meal plan for a specific date range
-router.get('/range/:startDate/:endDate', authenticateToken, async (req, res) => {
+router.get('/range/:startDate/:endDate', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
     const { startDate, endDate } = req.params;
-    
-    // Use authenticated user ID
-    const userId = req.user.id;
 
     // Create dates at noon local time to avoid timezone issues
     const localStartDate = new Date(startDate + 'T12:00:00');
     const localEndDate = new Date(endDate + 'T12:00:00');
 
     const result = await query(
-      `SELECT mpe.id, mpe.meal_date, mpe.meal_type, mpe.notes,
+      `SELECT mpe.id, mpe.meal_date, mpe.meal_type, mpe.notes, mpe.servings as planned_servings,
               r.id as recipe_id, r.name as recipe_name, r.description as recipe_description,
               r.prep_time, r.cook_time, r.servings, r.difficulty,
               n.calories, n.protein, n.carbohydrates, n.fat,
@@ -424,9 +403,9 @@ router.get('/range/:startDate/:endDate', authenticateToken, async (req, res) =>
        JOIN meal_plans mp ON mpe.meal_plan_id = mp.id
        LEFT JOIN recipes r ON mpe.recipe_id = r.id
        LEFT JOIN nutrition_info n ON r.id = n.recipe_id
-       WHERE mp.user_id = $1 AND mpe.meal_date BETWEEN $2 AND $3
+       WHERE ${scopeCondition('mp', req.scope, '$1')} AND mpe.meal_date BETWEEN $2 AND $3
        ORDER BY mpe.meal_date, mpe.meal_type`,
-      [userId, localStartDate, localEndDate]
+      [scopeValue(req.scope), localStartDate, localEndDate]
     );
 
     res.json(result.rows);
@@ -437,7 +416,7 @@ router.get('/range/:startDate/:endDate', authenticateToken, async (req, res) =>
 });
 
 // Generate AI meal plan
-router.post('/generate', authenticateToken, [
+router.post('/generate', authenticateToken, attachHouseholdScope, trackAiUsage, [
   body('startDate').isISO8601(),
   body('endDate').isISO8601(),
   body('mealTypes').optional().isArray(),
@@ -464,6 +443,10 @@ router.post('/generate', authenticateToken, [
       timestamp: new Date().toISOString()
     });
 
+    // Plan for everyone in the household unless the caller says otherwise
+    const household = await getPlanningProfile(pool, req.scope);
+    const peopleCount = req.body.peopleCount || household?.size || 4;
+
     const mealPlanner = new SmartMealPlanner();
 
     console.log('🤖 [MEAL_PLAN_GENERATE] Calling SmartMealPlanner.generateMealPlan');
@@ -475,7 +458,8 @@ router.post('/generate', authenticateToken, [
       preferences: req.body.preferences || {},
       constraints: req.body.constraints || [],
       recipeSource: req.body.recipeSource || 'mixed',
-      peopleCount: req.body.peopleCount || 4
+      peopleCount,
+      household
     });
 
     debugInfo.result_success = result.success;
@@ -491,7 +475,10 @@ router.post('/generate', authenticateToken, [
       timestamp: new Date().toISOString()
     });
 
-    res.json(result);
+    res.json({
+      ...result,
+      plannedFor: { peopleCount, household: household ? household.name : null }
+    });
   } catch (error) {
     debugInfo.error = error.message;
     debugInfo.error_stack = error.stack;
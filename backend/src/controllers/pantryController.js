@@ -1,23 +1,35 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
-const { query } = require('../config/database');
+const { body, query: queryParam, validationResult } = require('express-validator');
+const { query, pool } = require('../config/database');
 const { authenticateToken } = require('../middleware/auth');
 const { handleValidationErrors } = require('../middleware/validation');
+const { attachHouseholdScope, requireWriteAccess } = require('../middleware/household');
+const { scopeCondition, scopeValue } = require('../services/households/householdService');
+const { PANTRY_UNITS, ITEM_COLUMNS, restock, consume } = require('../services/pantry/pantryStock');
+const { getRecipeAccess } = require('../services/recipes/recipeAccess');
 
 const router = express.Router();
 
-// Get all pantry items for user
-router.get('/', async (req, res) => {
+// Items this many days from their expiration date count as expiring soon
+const EXPIRING_SOON_DAYS = 7;
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack', 'dessert'];
+
+const LOG_COLUMNS = `id, meal_client_id, recipe_id, recipe_name, to_char(meal_date, 'YYYY-MM-DD') AS meal_date,
+  meal_type, servings, used, shortfalls, cooked_at`;
+
+// Get all pantry items for the user's household (or the user alone)
+router.get('/', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
     const { category, sortBy, sortOrder } = req.query;
     
     let sql = `
-      SELECT id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes, created_at, updated_at
+      SELECT ${ITEM_COLUMNS}
       FROM pantry_items 
-      WHERE user_id = $1
+      WHERE ${scopeCondition(null, req.scope, '$1')}
     `;
     
-    const params = ['2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']; // Admin user ID for MVP
+    const params = [scopeValue(req.scope)];
     let paramIndex = 2;
     
     if (category) {
@@ -27,7 +39,7 @@ router.get('/', async (req, res) => {
     }
     
     // Sorting
-    const validSortColumns = ['name', 'quantity', 'expiration_date', 'created_at'];
+    const validSortColumns = ['name', 'quantity', 'purchase_date', 'expiration_date', 'created_at'];
     const sortColumn = validSortColumns.includes(sortBy) ? sortBy : 'name';
     const order = sortOrder === 'desc' ? 'DESC' : 'ASC';
     
@@ -35,18 +47,18 @@ router.get('/', async (req, res) => {
     
     const result = await query(sql, params);
     
-    // Check for items expiring soon (within 3 days)
+    // Check for items expiring soon
     const expiringSoon = await query(
       `SELECT COUNT(*) as count FROM pantry_items 
-       WHERE user_id = $1 AND expiration_date BETWEEN CURRENT_DATE AND CURRENT_DATE + INTERVAL '3 days'`,
-      ['2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+       WHERE ${scopeCondition(null, req.scope, '$1')} AND expiration_date BETWEEN CURRENT_DATE AND CURRENT_DATE + $2::int`,
+      [scopeValue(req.scope), EXPIRING_SOON_DAYS]
     );
     
     // Check for expired items
     const expired = await query(
       `SELECT COUNT(*) as count FROM pantry_items 
-       WHERE user_id = $1 AND expiration_date < CURRENT_DATE`,
-      ['2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+       WHERE ${scopeCondition(null, req.scope, '$1')} AND expiration_date < CURRENT_DATE`,
+      [scopeValue(req.scope)]
     );
     
     res.json({
@@ -63,12 +75,55 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Meals cooked, newest first; from/to are dates they were cooked between
+router.get('/cooking-log', authenticateToken, attachHouseholdScope, [
+  queryParam('from').optional().isISO8601(),
+  queryParam('to').optional().isISO8601(),
+  queryParam('recipe').optional().isString().trim(),
+  queryParam('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const { from, to, recipe, limit } = req.query;
+    const conditions = [scopeCondition(null, req.scope, '$1')];
+    const params = [scopeValue(req.scope)];
+
+    if (from) {
+      params.push(from);
+      conditions.push(`cooked_at::date >= $${params.length}`);
+    }
+    if (to) {
+      params.push(to);
+      conditions.push(`cooked_at::date <= $${params.length}`);
+    }
+    if (recipe) {
+      params.push(`%${recipe}%`);
+      conditions.push(`recipe_name ILIKE $${params.length}`);
+    }
+    params.push(limit || 50);
+
+    const result = await query(
+      `SELECT ${LOG_COLUMNS} FROM cooking_log
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY cooked_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    res.json({ entries: result.rows });
+  } catch (error) {
+    console.error('Get cooking log error:', error);
+    res.status(500).json({ error: 'Failed to get cooking log' });
+  }
+});
+
 // Get single pantry item
-router.get('/:id', authenticateToken, async (req, res) => {
+router.get('/:id', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
     const result = await query(
-      'SELECT id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes, created_at, updated_at FROM pantry_items WHERE id = $1 AND user_id = $2',
-      [req.params.id, '2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+      `SELECT ${ITEM_COLUMNS}
+       FROM pantry_items WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')}`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (result.rows.length === 0) {
@@ -83,20 +138,21 @@ router.get('/:id', authenticateToken, async (req, res) => {
 });
 
 // Add new pantry item
-router.post('/', authenticateToken, [
+router.post('/', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('name').notEmpty().trim(),
   body('quantity').isFloat({ min: 0 }),
-  body('unit').isIn(['pieces', 'cups', 'tablespoons', 'teaspoons', 'ounces', 'pounds', 'grams', 'kilograms', 'liters', 'milliliters']),
+  body('unit').isIn(PANTRY_UNITS),
+  body(['purchaseDate', 'expirationDate']).optional({ nullable: true, checkFalsy: true }).isISO8601(),
   handleValidationErrors
 ], async (req, res) => {
   try {
     const { name, quantity, unit, purchaseDate, expirationDate, barcode, category, notes } = req.body;
 
     const result = await query(
-      `INSERT INTO pantry_items (user_id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes) 
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
-       RETURNING id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes, created_at, updated_at`,
-      ['2d4969fe-fedb-4c37-89e2-75eaf6ad61a3', name, quantity, unit, purchaseDate, expirationDate, barcode, category, notes]
+      `INSERT INTO pantry_items (user_id, household_id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) 
+       RETURNING ${ITEM_COLUMNS}`,
+      [req.scope.userId, req.scope.householdId, name, quantity, unit, purchaseDate || null, expirationDate || null, barcode, category, notes]
     );
 
     res.status(201).json({
@@ -110,19 +166,20 @@ router.post('/', authenticateToken, [
 });
 
 // Update pantry item
-router.put('/:id', authenticateToken, [
+router.put('/:id', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('name').optional().notEmpty().trim(),
   body('quantity').optional().isFloat({ min: 0 }),
-  body('unit').optional().isIn(['pieces', 'cups', 'tablespoons', 'teaspoons', 'ounces', 'pounds', 'grams', 'kilograms', 'liters', 'milliliters']),
+  body('unit').optional().isIn(PANTRY_UNITS),
+  body(['purchaseDate', 'expirationDate']).optional({ nullable: true, checkFalsy: true }).isISO8601(),
   handleValidationErrors
 ], async (req, res) => {
   try {
     const { name, quantity, unit, purchaseDate, expirationDate, barcode, category, notes } = req.body;
 
-    // Check if item exists and belongs to user
+    // Check if item exists and belongs to the user's household
     const existingItem = await query(
-      'SELECT id FROM pantry_items WHERE id = $1 AND user_id = $2',
-      [req.params.id, '2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+      `SELECT id FROM pantry_items WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')}`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (existingItem.rows.length === 0) {
@@ -140,9 +197,9 @@ router.put('/:id', authenticateToken, [
            category = COALESCE($7, category), 
            notes = COALESCE($8, notes),
            updated_at = CURRENT_TIMESTAMP 
-       WHERE id = $9 AND user_id = $10 
-       RETURNING id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes, created_at, updated_at`,
-      [name, quantity, unit, purchaseDate, expirationDate, barcode, category, notes, req.params.id, '2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+       WHERE id = $9 
+       RETURNING ${ITEM_COLUMNS}`,
+      [name, quantity, unit, purchaseDate || null, expirationDate || null, barcode, category, notes, req.params.id]
     );
 
     res.json({
@@ -156,11 +213,11 @@ router.put('/:id', authenticateToken, [
 });
 
 // Delete pantry item
-router.delete('/:id', authenticateToken, async (req, res) => {
+router.delete('/:id', authenticateToken, attachHouseholdScope, requireWriteAccess, async (req, res) => {
   try {
     const result = await query(
-      'DELETE FROM pantry_items WHERE id = $1 AND user_id = $2 RETURNING id',
-      [req.params.id, '2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+      `DELETE FROM pantry_items WHERE id = $1 AND ${scopeCondition(null, req.scope, '$2')} RETURNING id`,
+      [req.params.id, scopeValue(req.scope)]
     );
 
     if (result.rows.length === 0) {
@@ -175,14 +232,14 @@ router.delete('/:id', authenticateToken, async (req, res) => {
 });
 
 // Get expiring items
-router.get('/expiring/soon', authenticateToken, async (req, res) => {
+router.get('/expiring/soon', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
     const result = await query(
-      `SELECT id, name, quantity, unit, expiration_date, category 
+      `SELECT ${ITEM_COLUMNS}
        FROM pantry_items 
-       WHERE user_id = $1 AND expiration_date BETWEEN CURRENT_DATE AND CURRENT_DATE + INTERVAL '7 days'
+       WHERE ${scopeCondition(null, req.scope, '$1')} AND expiration_date BETWEEN CURRENT_DATE AND CURRENT_DATE + $2::int
        ORDER BY expiration_date ASC`,
-      ['2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+      [scopeValue(req.scope), EXPIRING_SOON_DAYS]
     );
 
     res.json(result.rows);
@@ -193,14 +250,14 @@ router.get('/expiring/soon', authenticateToken, async (req, res) => {
 });
 
 // Get expired items
-router.get('/expiring/expired', authenticateToken, async (req, res) => {
+router.get('/expiring/expired', authenticateToken, attachHouseholdScope, async (req, res) => {
   try {
     const result = await query(
-      `SELECT id, name, quantity, unit, expiration_date, category 
+      `SELECT ${ITEM_COLUMNS}
        FROM pantry_items 
-       WHERE user_id = $1 AND expiration_date < CURRENT_DATE
+       WHERE ${scopeCondition(null, req.scope, '$1')} AND expiration_date < CURRENT_DATE
        ORDER BY expiration_date DESC`,
-      ['2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+      [scopeValue(req.scope)]
     );
 
     res.json(result.rows);
@@ -211,11 +268,12 @@ router.get('/expiring/expired', authenticateToken, async (req, res) => {
 });
 
 // Bulk add pantry items
-router.post('/bulk', authenticateToken, [
+router.post('/bulk', authenticateToken, attachHouseholdScope, requireWriteAccess, [
   body('items').isArray({ min: 1 }),
   body('items.*.name').notEmpty().trim(),
   body('items.*.quantity').isFloat({ min: 0 }),
-  body('items.*.unit').isIn(['pieces', 'cups', 'tablespoons', 'teaspoons', 'ounces', 'pounds', 'grams', 'kilograms', 'liters', 'milliliters']),
+  body('items.*.unit').isIn(PANTRY_UNITS),
+  body(['items.*.purchaseDate', 'items.*.expirationDate']).optional({ nullable: true, checkFalsy: true }).isISO8601(),
   handleValidationErrors
 ], async (req, res) => {
   try {
@@ -224,16 +282,17 @@ router.post('/bulk', authenticateToken, [
 
     for (const item of items) {
       const result = await query(
-        `INSERT INTO pantry_items (user_id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
-         RETURNING id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes, created_at, updated_at`,
+        `INSERT INTO pantry_items (user_id, household_id, name, quantity, unit, purchase_date, expiration_date, barcode, category, notes) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) 
+         RETURNING ${ITEM_COLUMNS}`,
         [
-          '2d4969fe-fedb-4c37-89e2-75eaf6ad61a3',
+          req.scope.userId,
+          req.scope.householdId,
           item.name,
           item.quantity,
           item.unit,
-          item.purchaseDate,
-          item.expirationDate,
+          item.purchaseDate || null,
+          item.expirationDate || null,
           item.barcode,
           item.category,
           item.notes
@@ -252,12 +311,169 @@ router.post('/bulk', authenticateToken, [
   }
 });
 
+// Import a browser's old local pantry once. Items are matched on the id the
+// browser gave them, so an import that runs twice doesn't add anything twice;
+// an item changed on the server since the browser's last edit stays as it is.
+router.post('/import', authenticateToken, attachHouseholdScope, requireWriteAccess, [
+  body('items').isArray({ max: 500 }),
+  body('items.*.clientId').isString().notEmpty(),
+  body('items.*.name').notEmpty().trim(),
+  body('items.*.quantity').isFloat({ min: 0 }),
+  body('items.*.unit').isIn(PANTRY_UNITS),
+  body(['items.*.expirationDate', 'items.*.updatedAt']).optional({ nullable: true, checkFalsy: true }).isISO8601(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const importedItems = [];
+
+    for (const item of req.body.items) {
+      const values = [item.name, item.quantity, item.unit, item.expirationDate || null, item.category || null, item.notes || null];
+      const existing = await query(
+        `SELECT id, updated_at FROM pantry_items WHERE ${scopeCondition(null, req.scope, '$1')} AND client_id = $2`,
+        [scopeValue(req.scope), item.clientId]
+      );
+      const row = existing.rows[0];
+
+      if (row) {
+        if (!item.updatedAt || new Date(item.updatedAt) <= new Date(row.updated_at)) continue;
+
+        const result = await query(
+          `UPDATE pantry_items
+           SET name = $1, quantity = $2, unit = $3, expiration_date = $4, category = $5, notes = $6,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $7
+           RETURNING ${ITEM_COLUMNS}`,
+          [...values, row.id]
+        );
+        importedItems.push(result.rows[0]);
+        continue;
+      }
+
+      const result = await query(
+        `INSERT INTO pantry_items (name, quantity, unit, expiration_date, category, notes, user_id, household_id, client_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING ${ITEM_COLUMNS}`,
+        [...values, req.scope.userId, req.scope.householdId, item.clientId]
+      );
+      importedItems.push(result.rows[0]);
+    }
+
+    res.json({
+      message: `${importedItems.length} pantry items imported`,
+      items: importedItems
+    });
+  } catch (error) {
+    console.error('Import pantry items error:', error);
+    res.status(500).json({ error: 'Failed to import pantry items' });
+  }
+});
+
+// Put bought groceries away: each item tops up the same thing already in the
+// pantry or is added, dated today and expiring after its category's shelf life
+router.post('/restock', authenticateToken, attachHouseholdScope, requireWriteAccess, [
+  body('items').isArray({ min: 1 }),
+  body('items.*.name').isString().notEmpty().trim(),
+  body('items.*.quantity').optional({ nullable: true }).isFloat({ min: 0 }),
+  body('items.*.unit').optional({ nullable: true }).isString(),
+  body('items.*.category').optional({ nullable: true }).isString(),
+  handleValidationErrors
+], async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await restock(client, req.scope, req.body.items);
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: `${result.added} added to and ${result.merged} topped up in the pantry`,
+      ...result
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Restock pantry error:', error);
+    res.status(500).json({ error: 'Failed to restock pantry' });
+  } finally {
+    client.release();
+  }
+});
+
+// Mark a meal as cooked: its ingredient lines, already scaled to the servings
+// cooked, come out of the pantry and it goes in the cooking log. A planned
+// meal (mealId) can only be cooked once.
+router.post('/cook', authenticateToken, attachHouseholdScope, requireWriteAccess, [
+  body('recipeName').isString().notEmpty().trim(),
+  body('recipeId').optional({ nullable: true }).isString(),
+  body('mealId').optional({ nullable: true }).isString(),
+  body('date').optional({ nullable: true }).isISO8601(),
+  body('mealType').optional({ nullable: true }).isString().toLowerCase().isIn(MEAL_TYPES),
+  body('servings').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+  body('ingredients').isArray(),
+  body('ingredients.*').isString(),
+  handleValidationErrors
+], async (req, res) => {
+  const { recipeName, recipeId, mealId, date, mealType, servings, ingredients } = req.body;
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Only recipes in the database the user can see are linked; AI-generated
+    // ones go by name
+    const { recipe } = recipeId
+      ? await getRecipeAccess(client, recipeId, req.user.id)
+      : { recipe: null };
+
+    // The log row goes in first: a planned meal that's already logged (or
+    // being logged by a concurrent request) is not taken from the pantry again
+    const logged = await client.query(
+      `INSERT INTO cooking_log (user_id, household_id, meal_client_id, recipe_id, recipe_name, meal_date, meal_type, servings)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT ((COALESCE(household_id, user_id)), meal_client_id) WHERE meal_client_id IS NOT NULL
+       DO NOTHING
+       RETURNING id`,
+      [
+        req.scope.userId, req.scope.householdId, mealId || null, recipe?.id || null, recipeName,
+        date || null, mealType || null, servings || null
+      ]
+    );
+    if (logged.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'This meal is already marked as cooked' });
+    }
+
+    const { used, shortfalls } = await consume(client, req.scope, ingredients);
+
+    const result = await client.query(
+      `UPDATE cooking_log SET used = $1, shortfalls = $2 WHERE id = $3
+       RETURNING ${LOG_COLUMNS}`,
+      [JSON.stringify(used), JSON.stringify(shortfalls), logged.rows[0].id]
+    );
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: shortfalls.length > 0
+        ? `Cooked ${recipeName}; the pantry was short of ${shortfalls.length} ingredient${shortfalls.length === 1 ? '' : 's'}`
+        : `Cooked ${recipeName}`,
+      entry: result.rows[0],
+      used,
+      shortfalls
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Cook meal error:', error);
+    res.status(500).json({ error: 'Failed to mark meal as cooked' });
+  } finally {
+    client.release();
+  }
+});
+
 // Delete expired items
-router.delete('/expired/cleanup', authenticateToken, async (req, res) => {
+router.delete('/expired/cleanup', authenticateToken, attachHouseholdScope, requireWriteAccess, async (req, res) => {
   try {
     const result = await query(
-      'DELETE FROM pantry_items WHERE user_id = $1 AND expiration_date < CURRENT_DATE RETURNING id',
-      ['2d4969fe-fedb-4c37-89e2-75eaf6ad61a3']
+      `DELETE FROM pantry_items WHERE ${scopeCondition(null, req.scope, '$1')} AND expiration_date < CURRENT_DATE RETURNING id`,
+      [scopeValue(req.scope)]
     );
 
     res.json({
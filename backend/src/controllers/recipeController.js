@@ -1,8 +1,18 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, param } = require('express-validator');
 const { query, pool } = require('../config/database');
 const { authenticateToken, optionalAuth } = require('../middleware/auth');
 const { handleValidationErrors } = require('../middleware/validation');
+const { attachHouseholdScope } = require('../middleware/household');
+const {
+  VISIBILITIES,
+  SHARE_PERMISSIONS,
+  visibleRecipeCondition,
+  getRecipeAccess,
+  nextVisibility,
+  canEditRecipe
+} = require('../services/recipes/recipeAccess');
+const { findCookableRecipes } = require('../services/recipes/cookableRecipes');
 
 const router = express.Router();
 
@@ -13,7 +23,7 @@ router.get('/', optionalAuth, async (req, res) => {
     const offset = (page - 1) * limit;
     
     let sql = `
-      SELECT r.id, r.name, r.description, r.prep_time, r.cook_time, r.servings, r.difficulty, r.meal_type, r.is_public, r.created_at,
+      SELECT r.id, r.name, r.description, r.prep_time, r.cook_time, r.servings, r.difficulty, r.meal_type, r.is_public, r.visibility, r.created_at,
              u.first_name || ' ' || u.last_name as author_name,
              n.calories, n.protein, n.carbohydrates, n.fat
       FROM recipes r
@@ -25,13 +35,13 @@ router.get('/', optionalAuth, async (req, res) => {
     const params = [];
     let paramIndex = 1;
     
-    // If user is authenticated, show their private recipes too
+    // If user is authenticated, show their own and shared recipes too
     if (req.user) {
-      sql += ` AND (r.is_public = true OR r.user_id = $${paramIndex})`;
+      sql += ` AND ${visibleRecipeCondition('r', `$${paramIndex}`)}`;
       params.push(req.user.id);
       paramIndex++;
     } else {
-      sql += ` AND r.is_public = true`;
+      sql += ` AND ${visibleRecipeCondition('r', null)}`;
     }
     
     if (mealType) {
@@ -68,11 +78,11 @@ router.get('/', optionalAuth, async (req, res) => {
     let countParamIndex = 1;
     
     if (req.user) {
-      countSql += ` AND (r.is_public = true OR r.user_id = $${countParamIndex})`;
+      countSql += ` AND ${visibleRecipeCondition('r', `$${countParamIndex}`)}`;
       countParams.push(req.user.id);
       countParamIndex++;
     } else {
-      countSql += ` AND r.is_public = true`;
+      countSql += ` AND ${visibleRecipeCondition('r', null)}`;
     }
     
     if (mealType) {
@@ -114,27 +124,29 @@ router.get('/', optionalAuth, async (req, res) => {
 // Get single recipe with ingredients
 router.get('/:id', optionalAuth, async (req, res) => {
   try {
+    const { recipe: access, role } = await getRecipeAccess(pool, req.params.id, req.user?.id);
+    if (!access) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+
     const recipeResult = await query(
-      `SELECT r.id, r.name, r.description, r.instructions, r.prep_time, r.cook_time, r.servings, r.difficulty, r.meal_type, r.is_public, r.created_at,
+      `SELECT r.id, r.name, r.description, r.instructions, r.prep_time, r.cook_time, r.servings, r.difficulty, r.meal_type, r.is_public, r.visibility, r.forked_from, r.created_at,
               u.first_name || ' ' || u.last_name as author_name,
               n.calories, n.protein, n.carbohydrates, n.fat, n.fiber, n.sugar, n.sodium
        FROM recipes r
        LEFT JOIN users u ON r.user_id = u.id
        LEFT JOIN nutrition_info n ON r.id = n.recipe_id
-       WHERE r.id = $1 AND (r.is_public = true OR r.user_id = $2)`,
-      [req.params.id, req.user?.id || null]
+       WHERE r.id = $1`,
+      [access.id]
     );
 
-    if (recipeResult.rows.length === 0) {
-      return res.status(404).json({ error: 'Recipe not found' });
-    }
-
     const recipe = recipeResult.rows[0];
+    recipe.access = role;
 
     // Get ingredients
     const ingredientsResult = await query(
       'SELECT id, name, quantity, unit, notes FROM recipe_ingredients WHERE recipe_id = $1 ORDER BY id',
-      [req.params.id]
+      [access.id]
     );
 
     recipe.ingredients = ingredientsResult.rows;
@@ -147,30 +159,30 @@ router.get('/:id', optionalAuth, async (req, res) => {
 });
 
 // Create new recipe
-router.post('/', [
-  // Temporarily disable authentication for MVP testing
-  // authenticateToken, 
+router.post('/', authenticateToken, [
   body('name').notEmpty().trim(),
   body('instructions').notEmpty().trim(),
   body('servings').isInt({ min: 1 }),
   body('mealType').optional().isIn(['breakfast', 'lunch', 'dinner', 'snack', 'dessert']),
   body('difficulty').optional().isIn(['easy', 'medium', 'hard']),
+  body('visibility').optional().isIn(VISIBILITIES),
   handleValidationErrors
 ], async (req, res) => {
   try {
-    const { name, description, instructions, prepTime, cookTime, servings, mealType, difficulty, isPublic, ingredients, nutrition } = req.body;
+    const { name, description, instructions, prepTime, cookTime, servings, mealType, difficulty, isPublic, visibility, ingredients, nutrition } = req.body;
+    const recipeVisibility = nextVisibility('private', { visibility, isPublic });
 
     const client = await pool.connect();
 
     try {
       await client.query('BEGIN');
 
-      // Create recipe with hardcoded user ID for MVP testing
+      // Create recipe
       const recipeResult = await client.query(
-        `INSERT INTO recipes (user_id, name, description, instructions, prep_time, cook_time, servings, meal_type, difficulty, is_public) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) 
-         RETURNING id, name, description, instructions, prep_time, cook_time, servings, meal_type, difficulty, is_public, created_at`,
-        ['2d4969fe-fedb-4c37-89e2-75eaf6ad61a3', name, description, instructions, prepTime, cookTime, servings, mealType, difficulty, isPublic || false]
+        `INSERT INTO recipes (user_id, name, description, instructions, prep_time, cook_time, servings, meal_type, difficulty, is_public, visibility) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) 
+         RETURNING id, name, description, instructions, prep_time, cook_time, servings, meal_type, difficulty, is_public, visibility, created_at`,
+        [req.user.id, name, description, instructions, prepTime, cookTime, servings, mealType, difficulty, recipeVisibility === 'public', recipeVisibility]
       );
 
       const recipe = recipeResult.rows[0];
@@ -240,27 +252,32 @@ router.post('/', [
 });
 
 // Update recipe
-router.put('/:id', [ // Temporarily disable authentication for MVP testing
+router.put('/:id', authenticateToken, [
   body('name').optional().notEmpty().trim(),
   body('instructions').optional().notEmpty().trim(),
   body('servings').optional().isInt({ min: 1 }),
   body('mealType').optional().isIn(['breakfast', 'lunch', 'dinner', 'snack', 'dessert']),
   body('difficulty').optional().isIn(['easy', 'medium', 'hard']),
+  body('visibility').optional().isIn(VISIBILITIES),
   handleValidationErrors
 ], async (req, res) => {
   try {
-    const { name, description, instructions, prepTime, cookTime, servings, mealType, difficulty, isPublic, ingredients, nutrition } = req.body;
+    const { name, description, instructions, prepTime, cookTime, servings, mealType, difficulty, isPublic, visibility, ingredients, nutrition } = req.body;
 
-    // MVP: Use hardcoded user ID instead of authentication
-    const userId = '2d4969fe-fedb-4c37-89e2-75eaf6ad61a3';
-    const existingRecipe = await query(
-      'SELECT id FROM recipes WHERE id = $1 AND user_id = $2',
-      [req.params.id, userId]
-    );
-
-    if (existingRecipe.rows.length === 0) {
+    const { recipe: existing, role } = await getRecipeAccess(pool, req.params.id, req.user.id);
+    if (!existing) {
       return res.status(404).json({ error: 'Recipe not found' });
     }
+    if (!canEditRecipe(role)) {
+      return res.status(403).json({ error: 'You do not have permission to edit this recipe' });
+    }
+
+    const changesVisibility = visibility !== undefined || isPublic !== undefined;
+    if (changesVisibility && role !== 'owner') {
+      return res.status(403).json({ error: 'Only the recipe owner can change who can see it' });
+    }
+    const recipeVisibility = nextVisibility(existing.visibility, { visibility, isPublic });
+    const recipeId = existing.id;
 
     const client = await pool.connect();
 
@@ -278,23 +295,24 @@ router.put('/:id', [ // Temporarily disable authentication for MVP testing
              servings = COALESCE($6, servings), 
              meal_type = COALESCE($7, meal_type), 
              difficulty = COALESCE($8, difficulty), 
-             is_public = COALESCE($9, is_public),
+             is_public = $9,
+             visibility = $10,
              updated_at = CURRENT_TIMESTAMP 
-          WHERE id = $10 AND user_id = $11 
-          RETURNING id, name, description, instructions, prep_time, cook_time, servings, meal_type, difficulty, is_public, created_at`,
-        [name, description, instructions, prepTime, cookTime, servings, mealType, difficulty, isPublic, req.params.id, userId]
+          WHERE id = $11 
+          RETURNING id, name, description, instructions, prep_time, cook_time, servings, meal_type, difficulty, is_public, visibility, created_at`,
+        [name, description, instructions, prepTime, cookTime, servings, mealType, difficulty, recipeVisibility === 'public', recipeVisibility, recipeId]
       );
 
       // Update ingredients if provided
       if (ingredients) {
         // Delete existing ingredients
-        await client.query('DELETE FROM recipe_ingredients WHERE recipe_id = $1', [req.params.id]);
+        await client.query('DELETE FROM recipe_ingredients WHERE recipe_id = $1', [recipeId]);
 
         // Add new ingredients
         for (const ingredient of ingredients) {
           await client.query(
             'INSERT INTO recipe_ingredients (recipe_id, name, quantity, unit, notes) VALUES ($1, $2, $3, $4, $5)',
-            [req.params.id, ingredient.name, ingredient.quantity, ingredient.unit, ingredient.notes]
+            [recipeId, ingredient.name, ingredient.quantity, ingredient.unit, ingredient.notes]
           );
         }
       }
@@ -306,7 +324,7 @@ router.put('/:id', [ // Temporarily disable authentication for MVP testing
            SET calories = $1, protein = $2, carbohydrates = $3, fat = $4, fiber = $5, sugar = $6, sodium = $7,
                updated_at = CURRENT_TIMESTAMP 
            WHERE recipe_id = $8`,
-          [nutrition.calories, nutrition.protein, nutrition.carbohydrates, nutrition.fat, nutrition.fiber, nutrition.sugar, nutrition.sodium, req.params.id]
+          [nutrition.calories, nutrition.protein, nutrition.carbohydrates, nutrition.fat, nutrition.fiber, nutrition.sugar, nutrition.sodium, recipeId]
         );
       }
 
@@ -320,12 +338,12 @@ router.put('/:id', [ // Temporarily disable authentication for MVP testing
          LEFT JOIN users u ON r.user_id = u.id
          LEFT JOIN nutrition_info n ON r.id = n.recipe_id
          WHERE r.id = $1`,
-        [req.params.id]
+        [recipeId]
       );
 
       const ingredientsResult = await query(
         'SELECT id, name, quantity, unit, notes FROM recipe_ingredients WHERE recipe_id = $1',
-        [req.params.id]
+        [recipeId]
       );
 
       const completeRecipeData = completeRecipe.rows[0];
@@ -348,18 +366,17 @@ router.put('/:id', [ // Temporarily disable authentication for MVP testing
 });
 
 // Delete recipe
-router.delete('/:id', async (req, res) => { // Temporarily disable authentication for MVP testing
+router.delete('/:id', authenticateToken, async (req, res) => {
   try {
-    // MVP: Use hardcoded user ID instead of authentication
-    const userId = '2d4969fe-fedb-4c37-89e2-75eaf6ad61a3';
-    const result = await query(
-      'DELETE FROM recipes WHERE id = $1 AND user_id = $2 RETURNING id',
-      [req.params.id, userId]
-    );
-
-    if (result.rows.length === 0) {
+    const { recipe, role } = await getRecipeAccess(pool, req.params.id, req.user.id);
+    if (!recipe) {
       return res.status(404).json({ error: 'Recipe not found' });
     }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the recipe owner can delete it' });
+    }
+
+    await query('DELETE FROM recipes WHERE id = $1', [recipe.id]);
 
     res.json({ message: 'Recipe deleted successfully' });
   } catch (error) {
@@ -369,15 +386,14 @@ router.delete('/:id', async (req, res) => { // Temporarily disable authenticatio
 });
 
 // Get user's recipes
-router.get('/user/my-recipes', async (req, res) => { // Temporarily disable authentication for MVP testing
+router.get('/user/my-recipes', authenticateToken, async (req, res) => {
   try {
-    // MVP: Use hardcoded user ID instead of authentication
-    const userId = '2d4969fe-fedb-4c37-89e2-75eaf6ad61a3';
+    const userId = req.user.id;
     const { page = 1, limit = 20 } = req.query;
     const offset = (page - 1) * limit;
 
     const result = await query(
-      `SELECT r.id, r.name, r.description, r.prep_time, r.cook_time, r.servings, r.difficulty, r.meal_type, r.is_public, r.created_at,
+      `SELECT r.id, r.name, r.description, r.prep_time, r.cook_time, r.servings, r.difficulty, r.meal_type, r.is_public, r.visibility, r.forked_from, r.created_at,
               n.calories, n.protein, n.carbohydrates, n.fat
        FROM recipes r
        LEFT JOIN nutrition_info n ON r.id = n.recipe_id
@@ -409,4 +425,327 @@ router.get('/user/my-recipes', async (req, res) => { // Temporarily disable auth
   }
 });
 
+// Get recipes other people have shared with me, by name or with my household
+router.get('/user/shared-with-me', authenticateToken, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT * FROM (
+         SELECT DISTINCT ON (r.id)
+                r.id, r.name, r.description, r.prep_time, r.cook_time, r.servings, r.difficulty, r.meal_type, r.is_public, r.visibility, r.created_at,
+                u.first_name || ' ' || u.last_name as author_name,
+                rs.permission, rs.created_at as shared_at, h.name as household_name,
+                n.calories, n.protein, n.carbohydrates, n.fat
+         FROM recipe_shares rs
+         JOIN recipes r ON rs.recipe_id = r.id
+         LEFT JOIN users u ON r.user_id = u.id
+         LEFT JOIN households h ON rs.shared_with_household_id = h.id
+         LEFT JOIN nutrition_info n ON r.id = n.recipe_id
+         WHERE r.visibility <> 'private' AND r.user_id <> $1
+           AND (rs.shared_with_user_id = $1
+             OR rs.shared_with_household_id IN (SELECT household_id FROM household_members WHERE user_id = $1))
+         ORDER BY r.id, (rs.permission = 'edit') DESC, rs.created_at
+       ) shared
+       ORDER BY shared_at DESC`,
+      [req.user.id]
+    );
+
+    res.json({ recipes: result.rows });
+  } catch (error) {
+    console.error('Get shared recipes error:', error);
+    res.status(500).json({ error: 'Failed to get shared recipes' });
+  }
+});
+
+// "What can I cook now?": my recipes ranked by how much of them the pantry
+// covers, with what's missing; ones using soon-to-expire items come first
+router.get('/user/cookable', authenticateToken, attachHouseholdScope, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+    const recipes = await findCookableRecipes(pool, req.scope, limit);
+
+    res.json({ recipes });
+  } catch (error) {
+    console.error('Get cookable recipes error:', error);
+    res.status(500).json({ error: 'Failed to get cookable recipes' });
+  }
+});
+
+// List who a recipe is shared with
+router.get('/:id/shares', authenticateToken, async (req, res) => {
+  try {
+    const { recipe, role } = await getRecipeAccess(pool, req.params.id, req.user.id);
+    if (!recipe) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the recipe owner can manage sharing' });
+    }
+
+    const result = await query(
+      `SELECT rs.shared_with_user_id as user_id, rs.permission, rs.created_at,
+              u.email, u.first_name, u.last_name
+       FROM recipe_shares rs
+       JOIN users u ON rs.shared_with_user_id = u.id
+       WHERE rs.recipe_id = $1
+       ORDER BY rs.created_at`,
+      [recipe.id]
+    );
+
+    const householdResult = await query(
+      `SELECT rs.shared_with_household_id as household_id, rs.permission, rs.created_at, h.name
+       FROM recipe_shares rs
+       JOIN households h ON rs.shared_with_household_id = h.id
+       WHERE rs.recipe_id = $1
+       ORDER BY rs.created_at`,
+      [recipe.id]
+    );
+
+    res.json({
+      recipeId: recipe.id,
+      visibility: recipe.visibility,
+      shares: result.rows,
+      householdShares: householdResult.rows
+    });
+  } catch (error) {
+    console.error('Get recipe shares error:', error);
+    res.status(500).json({ error: 'Failed to get recipe shares' });
+  }
+});
+
+// Share a recipe with another user by email
+router.post('/:id/shares', authenticateToken, [
+  body('email').isEmail().normalizeEmail(),
+  body('permission').optional().isIn(SHARE_PERMISSIONS),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const { email, permission = 'view' } = req.body;
+
+    const { recipe, role } = await getRecipeAccess(pool, req.params.id, req.user.id);
+    if (!recipe) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the recipe owner can manage sharing' });
+    }
+
+    const userResult = await query('SELECT id, email, first_name, last_name FROM users WHERE email = $1', [email]);
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({ error: 'No user with that email' });
+    }
+
+    const recipient = userResult.rows[0];
+    if (recipient.id === req.user.id) {
+      return res.status(400).json({ error: 'You already own this recipe' });
+    }
+
+    const shareResult = await query(
+      `INSERT INTO recipe_shares (recipe_id, shared_with_user_id, permission, shared_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (recipe_id, shared_with_user_id) DO UPDATE SET permission = EXCLUDED.permission
+       RETURNING shared_with_user_id as user_id, permission, created_at`,
+      [recipe.id, recipient.id, permission, req.user.id]
+    );
+
+    // Sharing a private recipe opens it up to the people it's shared with
+    if (recipe.visibility === 'private') {
+      await query(
+        "UPDATE recipes SET visibility = 'shared', updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [recipe.id]
+      );
+    }
+
+    res.status(201).json({
+      message: 'Recipe shared successfully',
+      share: {
+        ...shareResult.rows[0],
+        email: recipient.email,
+        first_name: recipient.first_name,
+        last_name: recipient.last_name
+      }
+    });
+  } catch (error) {
+    console.error('Share recipe error:', error);
+    res.status(500).json({ error: 'Failed to share recipe' });
+  }
+});
+
+// Share a recipe with everyone in my household, now and later
+router.post('/:id/household-shares', authenticateToken, attachHouseholdScope, [
+  body('permission').optional().isIn(SHARE_PERMISSIONS),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const { permission = 'view' } = req.body;
+
+    const { recipe, role } = await getRecipeAccess(pool, req.params.id, req.user.id);
+    if (!recipe) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the recipe owner can manage sharing' });
+    }
+    if (!req.scope.householdId) {
+      return res.status(400).json({ error: 'You are not in a household' });
+    }
+
+    const shareResult = await query(
+      `INSERT INTO recipe_shares (recipe_id, shared_with_household_id, permission, shared_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (recipe_id, shared_with_household_id) WHERE shared_with_household_id IS NOT NULL
+       DO UPDATE SET permission = EXCLUDED.permission
+       RETURNING shared_with_household_id as household_id, permission, created_at`,
+      [recipe.id, req.scope.householdId, permission, req.user.id]
+    );
+
+    if (recipe.visibility === 'private') {
+      await query(
+        "UPDATE recipes SET visibility = 'shared', updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [recipe.id]
+      );
+    }
+
+    res.status(201).json({
+      message: 'Recipe shared with your household',
+      share: { ...shareResult.rows[0], name: req.scope.householdName }
+    });
+  } catch (error) {
+    console.error('Share recipe with household error:', error);
+    res.status(500).json({ error: 'Failed to share recipe' });
+  }
+});
+
+// Stop sharing a recipe with a household
+router.delete('/:id/household-shares/:householdId', authenticateToken, [
+  param('householdId').isUUID(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const { recipe, role } = await getRecipeAccess(pool, req.params.id, req.user.id);
+    if (!recipe) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the recipe owner can manage sharing' });
+    }
+
+    const result = await query(
+      'DELETE FROM recipe_shares WHERE recipe_id = $1 AND shared_with_household_id = $2 RETURNING id',
+      [recipe.id, req.params.householdId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Share not found' });
+    }
+
+    res.json({ message: 'Recipe share removed' });
+  } catch (error) {
+    console.error('Remove recipe household share error:', error);
+    res.status(500).json({ error: 'Failed to remove recipe share' });
+  }
+});
+
+// Stop sharing a recipe with a user
+router.delete('/:id/shares/:userId', authenticateToken, [
+  param('userId').isUUID(),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const { recipe, role } = await getRecipeAccess(pool, req.params.id, req.user.id);
+    if (!recipe) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+    if (role !== 'owner') {
+      return res.status(403).json({ error: 'Only the recipe owner can manage sharing' });
+    }
+
+    const result = await query(
+      'DELETE FROM recipe_shares WHERE recipe_id = $1 AND shared_with_user_id = $2 RETURNING id',
+      [recipe.id, req.params.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Share not found' });
+    }
+
+    res.json({ message: 'Recipe share removed' });
+  } catch (error) {
+    console.error('Remove recipe share error:', error);
+    res.status(500).json({ error: 'Failed to remove recipe share' });
+  }
+});
+
+// Copy a recipe I can see into my own collection
+router.post('/:id/fork', authenticateToken, async (req, res) => {
+  try {
+    const { recipe: source } = await getRecipeAccess(pool, req.params.id, req.user.id);
+    if (!source) {
+      return res.status(404).json({ error: 'Recipe not found' });
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const recipeResult = await client.query(
+        `INSERT INTO recipes (user_id, name, description, instructions, prep_time, cook_time, servings, difficulty,
+                              meal_type, category, ingredient_list, is_public, visibility, forked_from)
+         SELECT $1, name, description, instructions, prep_time, cook_time, servings, difficulty,
+                meal_type, category, ingredient_list, false, 'private', id
+         FROM recipes WHERE id = $2
+         RETURNING id`,
+        [req.user.id, source.id]
+      );
+
+      const forkId = recipeResult.rows[0].id;
+
+      await client.query(
+        `INSERT INTO recipe_ingredients (recipe_id, name, quantity, unit, notes)
+         SELECT $1, name, quantity, unit, notes FROM recipe_ingredients WHERE recipe_id = $2`,
+        [forkId, source.id]
+      );
+
+      await client.query(
+        `INSERT INTO nutrition_info (recipe_id, calories, protein, carbohydrates, fat, fiber, sugar, sodium)
+         SELECT $1, calories, protein, carbohydrates, fat, fiber, sugar, sodium FROM nutrition_info WHERE recipe_id = $2`,
+        [forkId, source.id]
+      );
+
+      await client.query('COMMIT');
+
+      const completeRecipe = await query(
+        `SELECT r.*, u.first_name || ' ' || u.last_name as author_name,
+                n.calories, n.protein, n.carbohydrates, n.fat, n.fiber, n.sugar, n.sodium
+         FROM recipes r
+         LEFT JOIN users u ON r.user_id = u.id
+         LEFT JOIN nutrition_info n ON r.id = n.recipe_id
+         WHERE r.id = $1`,
+        [forkId]
+      );
+
+      const ingredientsResult = await query(
+        'SELECT id, name, quantity, unit, notes FROM recipe_ingredients WHERE recipe_id = $1',
+        [forkId]
+      );
+
+      const completeRecipeData = completeRecipe.rows[0];
+      completeRecipeData.ingredients = ingredientsResult.rows;
+
+      res.status(201).json({
+        message: 'Recipe copied to your collection',
+        recipe: completeRecipeData
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('Fork recipe error:', error);
+    res.status(500).json({ error: 'Failed to fork recipe' });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,69 @@
+const express = require('express');
+const { pool } = require('../config/database');
+const { authenticateToken, acceptQueryToken } = require('../middleware/auth');
+const { attachHouseholdScope } = require('../middleware/household');
+const shoppingListEvents = require('../services/realtime/shoppingListEvents');
+
+const router = express.Router();
+
+// Comment lines keep proxies from closing an idle stream
+const KEEP_ALIVE_MS = 25 * 1000;
+
+// Live shopping list changes for everyone sharing the list (server-sent events)
+router.get('/events', acceptQueryToken, authenticateToken, attachHouseholdScope, async (req, res) => {
+  let opened;
+  try {
+    opened = await shoppingListEvents.streamAccess(pool, req.user.id, req.sessionId);
+  } catch (error) {
+    console.error('Shopping list events error:', error);
+    return res.status(500).json({ error: 'Failed to open shopping list events' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const channel = shoppingListEvents.channelFor(req.scope);
+  res.write(shoppingListEvents.formatEvent({
+    type: 'ready',
+    householdId: req.scope.householdId,
+    canWrite: req.scope.canWrite
+  }));
+
+  let closed = false;
+  const stop = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribe();
+  };
+
+  // Events are written in order, each after checking the stream may still
+  // have it; the client reconnects when it's closed and picks up its new scope
+  let delivery = Promise.resolve();
+  const unsubscribe = shoppingListEvents.subscribe(channel, (event) => {
+    delivery = delivery.then(async () => {
+      if (closed) return;
+      const current = await shoppingListEvents.streamAccess(pool, req.user.id, req.sessionId);
+      if (!shoppingListEvents.isStreamAllowed(opened, current)) {
+        stop();
+        res.end();
+        return;
+      }
+      res.write(shoppingListEvents.formatEvent(event));
+    }).catch(error => {
+      console.error('Shopping list event delivery error:', error);
+      stop();
+      res.end();
+    });
+  });
+  const keepAlive = setInterval(() => res.write(': ping\n\n'), KEEP_ALIVE_MS);
+
+  req.on('close', stop);
+});
+
+module.exports = router;
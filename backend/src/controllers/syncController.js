@@ -0,0 +1,164 @@
+const express = require('express');
+const { body } = require('express-validator');
+const { query, pool } = require('../config/database');
+const { authenticateToken } = require('../middleware/auth');
+const { handleValidationErrors } = require('../middleware/validation');
+const { attachHouseholdScope } = require('../middleware/household');
+const { scopeCondition, scopeValue } = require('../services/households/householdService');
+const {
+  SYNC_ENTITIES,
+  getSyncEntity,
+  scopeForEntity,
+  recordTombstone,
+  lastChangedAt
+} = require('../services/sync/syncEntities');
+const shoppingListEvents = require('../services/realtime/shoppingListEvents');
+
+const router = express.Router();
+
+// Pull everything that changed on the server since the client's last cursor
+router.get('/changes', authenticateToken, attachHouseholdScope, async (req, res) => {
+  try {
+    let since = null;
+    if (req.query.since) {
+      since = new Date(req.query.since);
+      if (Number.isNaN(since.getTime())) {
+        return res.status(400).json({ error: 'Invalid since timestamp' });
+      }
+    }
+
+    // Take the cursor before reading so writes that land mid-pull are seen next time
+    const nowResult = await query('SELECT NOW() AS now');
+    const cursor = nowResult.rows[0].now;
+
+    // The user's own deletions plus those made by anyone in their household
+    const tombstones = since
+      ? await query(
+        `SELECT entity, client_id FROM sync_tombstones
+         WHERE ((user_id = $1 AND household_id IS NULL) OR household_id = $2) AND deleted_at > $3`,
+        [req.user.id, req.scope.householdId, since]
+      )
+      : { rows: [] };
+
+    const entities = {};
+    for (const [name, entity] of Object.entries(SYNC_ENTITIES)) {
+      const rows = await entity.list(pool, scopeForEntity(entity, req.scope), since);
+      entities[name] = {
+        records: rows.map(row => entity.fromRow(row)),
+        deleted: tombstones.rows
+          .filter(tombstone => tombstone.entity === name)
+          .map(tombstone => tombstone.client_id)
+      };
+    }
+
+    res.json({ cursor, entities });
+  } catch (error) {
+    console.error('Sync pull error:', error);
+    res.status(500).json({ error: 'Failed to pull changes' });
+  }
+});
+
+// Apply a single queued client change; newer server edits win over older client edits
+async function applyChange(client, scope, change) {
+  const entity = getSyncEntity(change.entity);
+  const entityScope = scopeForEntity(entity, scope);
+  const changedAt = new Date(change.changedAt);
+  const result = { entity: change.entity, id: change.id };
+
+  const existing = await entity.find(client, entityScope, change.id);
+
+  // Household viewers get the server's copy back, which undoes their local edit
+  if (!entityScope.canWrite) {
+    return existing
+      ? { ...result, status: 'conflict', record: entity.fromRow(existing) }
+      : { ...result, status: 'conflict', deleted: true };
+  }
+
+  if (existing && lastChangedAt(existing) > changedAt) {
+    return { ...result, status: 'conflict', record: entity.fromRow(existing) };
+  }
+
+  if (change.op === 'delete') {
+    if (existing) {
+      await entity.remove(client, existing);
+    }
+    await recordTombstone(client, entityScope, change.entity, change.id, changedAt);
+    return { ...result, status: 'deleted' };
+  }
+
+  if (!existing) {
+    const tombstone = await client.query(
+      `SELECT client_deleted_at FROM sync_tombstones
+       WHERE ${scopeCondition(null, entityScope, '$1')} AND entity = $2 AND client_id = $3`,
+      [scopeValue(entityScope), change.entity, change.id]
+    );
+    const deletedAt = tombstone.rows[0]?.client_deleted_at;
+    if (deletedAt && new Date(deletedAt) > changedAt) {
+      return { ...result, status: 'conflict', deleted: true };
+    }
+  }
+
+  const row = await entity.upsert(client, entityScope, { ...change.record, id: change.id }, changedAt, existing);
+  await client.query(
+    `DELETE FROM sync_tombstones
+     WHERE ${scopeCondition(null, entityScope, '$1')} AND entity = $2 AND client_id = $3`,
+    [scopeValue(entityScope), change.entity, change.id]
+  );
+  return { ...result, status: 'applied', record: entity.fromRow(row) };
+}
+
+// Push queued client changes
+router.post('/changes', authenticateToken, attachHouseholdScope, [
+  body('changes').isArray({ max: 500 }),
+  body('changes.*.entity').custom(value => Boolean(getSyncEntity(value))),
+  body('changes.*.op').isIn(['upsert', 'delete']),
+  body('changes.*.id').isString().notEmpty(),
+  body('changes.*.changedAt').isISO8601(),
+  handleValidationErrors
+], async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const results = [];
+    for (const change of req.body.changes) {
+      // Each change gets a savepoint so one bad record doesn't sink the batch
+      await client.query('SAVEPOINT sync_change');
+      try {
+        results.push(await applyChange(client, req.scope, change));
+        await client.query('RELEASE SAVEPOINT sync_change');
+      } catch (error) {
+        await client.query('ROLLBACK TO SAVEPOINT sync_change');
+        if (error.conflictRow) {
+          const entity = getSyncEntity(change.entity);
+          const existing = await entity.find(client, scopeForEntity(entity, req.scope), change.id);
+          results.push(existing
+            ? { entity: change.entity, id: change.id, status: 'conflict', record: entity.fromRow(existing) }
+            : { entity: change.entity, id: change.id, status: 'conflict', deleted: true });
+        } else {
+          console.error('Sync change error:', error);
+          results.push({ entity: change.entity, id: change.id, status: 'error', error: error.message });
+        }
+      }
+    }
+
+    await client.query('COMMIT');
+
+    // Let everyone else looking at the shopping list see the change right away
+    const event = shoppingListEvents.buildChangeEvent(results, req.get('X-Client-Id'));
+    if (event) {
+      shoppingListEvents.publish(shoppingListEvents.channelFor(req.scope), event);
+    }
+
+    res.json({ results });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Sync push error:', error);
+    res.status(500).json({ error: 'Failed to push changes' });
+  } finally {
+    client.release();
+  }
+});
+
+module.exports = router;
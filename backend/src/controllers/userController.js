@@ -1,8 +1,11 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
-const { query } = require('../config/database');
+const { query, pool } = require('../config/database');
 const { authenticateToken } = require('../middleware/auth');
 const { handleValidationErrors } = require('../middleware/validation');
+const { getClientMeta, createSession, revokeAllSessions } = require('../services/auth/tokenService');
+const { getPreferences, updatePreferences } = require('../services/preferences/preferencesService');
+const { MEASUREMENT_SYSTEMS } = require('../utils/unitConversion');
 
 const router = express.Router();
 
@@ -108,6 +111,35 @@ router.put('/profile', authenticateToken, [
   }
 });
 
+// Get user preferences
+router.get('/preferences', authenticateToken, async (req, res) => {
+  try {
+    res.json({ preferences: await getPreferences(pool, req.user.id) });
+  } catch (error) {
+    console.error('Get preferences error:', error);
+    res.status(500).json({ error: 'Failed to get preferences' });
+  }
+});
+
+// Update user preferences
+router.put('/preferences', authenticateToken, [
+  body('measurementSystem').optional().isIn(MEASUREMENT_SYSTEMS),
+  handleValidationErrors
+], async (req, res) => {
+  try {
+    const { measurementSystem } = req.body;
+    const preferences = await updatePreferences(pool, req.user.id, { measurementSystem });
+
+    res.json({
+      message: 'Preferences updated successfully',
+      preferences
+    });
+  } catch (error) {
+    console.error('Update preferences error:', error);
+    res.status(500).json({ error: 'Failed to update preferences' });
+  }
+});
+
 // Change password
 router.put('/password', authenticateToken, [
   body('currentPassword').notEmpty(),
@@ -136,13 +168,25 @@ router.put('/password', authenticateToken, [
     const saltRounds = 10;
     const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
 
-    // Update password
-    await query(
-      'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-      [newPasswordHash, req.user.id]
-    );
-
-    res.json({ message: 'Password updated successfully' });
+    // Update password and sign out every other session; this device gets fresh tokens
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+        [newPasswordHash, req.user.id]
+      );
+      const updatedUser = await revokeAllSessions(client, req.user.id);
+      const tokens = await createSession(client, updatedUser, getClientMeta(req));
+      await client.query('COMMIT');
+
+      res.json({ message: 'Password updated successfully', ...tokens });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
   } catch (error) {
     console.error('Change password error:', error);
     res.status(500).json({ error: 'Failed to change password' });
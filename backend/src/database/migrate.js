@@ -1,15 +1,63 @@
 const fs = require('fs');
 const path = require('path');
-const { query } = require('../config/database');
+const { query, pool } = require('../config/database');
+
+const MIGRATIONS_DIR = path.join(__dirname, '../../../database/migrations');
+
+// Apply numbered migrations from database/migrations that haven't run yet
+async function runNumberedMigrations() {
+  await query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      filename VARCHAR(255) PRIMARY KEY,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  if (!fs.existsSync(MIGRATIONS_DIR)) {
+    return;
+  }
+
+  const files = fs.readdirSync(MIGRATIONS_DIR)
+    .filter(file => /^\d+_.*\.sql$/.test(file))
+    .sort();
+
+  const applied = await query('SELECT filename FROM schema_migrations');
+  const appliedFiles = new Set(applied.rows.map(row => row.filename));
+
+  for (const file of files) {
+    if (appliedFiles.has(file)) {
+      continue;
+    }
+
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+
+    // Each file is written to be re-runnable (IF NOT EXISTS / guarded DO blocks),
+    // so a failure here is a real error: roll the whole file back and stop
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(sql);
+      await client.query('INSERT INTO schema_migrations (filename) VALUES ($1) ON CONFLICT DO NOTHING', [file]);
+      await client.query('COMMIT');
+      console.log(`Applied migration ${file}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Migration ${file} failed, rolled back`);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
 
 async function runMigrations() {
   try {
     console.log('Running database migrations...');
-    
+
     // Read schema.sql file
     const schemaPath = path.join(__dirname, '../../../database/schema.sql');
     const schema = fs.readFileSync(schemaPath, 'utf8');
-    
+
     // Execute schema
     try {
       await query(schema);
@@ -22,6 +70,8 @@ async function runMigrations() {
         throw error;
       }
     }
+
+    await runNumberedMigrations();
   } catch (error) {
     console.error('Error running migrations:', error);
     process.exit(1);
@@ -33,4 +83,4 @@ if (require.main === module) {
   runMigrations().then(() => process.exit(0));
 }
 
-module.exports = { runMigrations };
\ No newline at end of file
+module.exports = { runMigrations };
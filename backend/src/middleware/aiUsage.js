@@ -0,0 +1,10 @@
+const { runWithUsage } = require('../services/ai/UsageLedger');
+
+// Attributes the AI calls made while handling a request to the signed-in user
+// and the endpoint, for the usage ledger and budget checks.
+// Must run after authenticateToken.
+const trackAiUsage = (req, res, next) => {
+  runWithUsage({ userId: req.user.id, endpoint: `${req.baseUrl}${req.path}` }, next);
+};
+
+module.exports = { trackAiUsage };
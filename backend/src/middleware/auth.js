@@ -1,6 +1,46 @@
 const jwt = require('jsonwebtoken');
 const { query } = require('../config/database');
 const { getEnvVar } = require('../config/env');
+const { verifyAccessToken } = require('../services/auth/tokenService');
+
+/**
+ * Resolve the user behind an access token.
+ * Tokens stop working once the user's token_version moves on (password change,
+ * sign out everywhere) or their session's refresh tokens are revoked.
+ * @returns {Promise<{user?: Object, sessionId?: string, error?: string, code?: string}>}
+ */
+const resolveAccessToken = async (token) => {
+  let decoded;
+  try {
+    decoded = verifyAccessToken(token);
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return { error: 'Access token expired', code: 'TOKEN_EXPIRED' };
+    }
+    return { error: 'Invalid access token', code: 'TOKEN_INVALID' };
+  }
+
+  const result = await query(
+    `SELECT id, email, first_name, last_name, dietary_preference, health_goal, token_version,
+            ($2::uuid IS NULL OR EXISTS (
+              SELECT 1 FROM refresh_tokens
+              WHERE family_id = $2 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+            )) AS session_active
+     FROM users WHERE id = $1`,
+    [decoded.userId, decoded.sid || null]
+  );
+
+  if (result.rows.length === 0) {
+    return { error: 'User not found', code: 'USER_NOT_FOUND' };
+  }
+
+  const { token_version, session_active, ...user } = result.rows[0];
+  if ((decoded.tokenVersion || 0) !== token_version || !session_active) {
+    return { error: 'Session has been revoked', code: 'TOKEN_REVOKED' };
+  }
+
+  return { user, sessionId: decoded.sid || null };
+};
 
 const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
@@ -65,28 +105,22 @@ const authenticateToken = async (req, res, next) => {
     });
   }
 
-  try {
-    const jwtSecret = getEnvVar('JWT_SECRET');
-    if (!jwtSecret) {
-      return res.status(500).json({ error: 'Server configuration error' });
-    }
-
-    const decoded = jwt.verify(token, jwtSecret);
-    
-    // Get user from database
-    const result = await query(
-      'SELECT id, email, first_name, last_name, dietary_preference, health_goal FROM users WHERE id = $1',
-      [decoded.userId]
-    );
+  if (!getEnvVar('JWT_SECRET')) {
+    return res.status(500).json({ error: 'Server configuration error' });
+  }
 
-    if (result.rows.length === 0) {
-      return res.status(401).json({ error: 'User not found' });
+  try {
+    const resolved = await resolveAccessToken(token);
+    if (resolved.error) {
+      return res.status(401).json({ error: resolved.error, code: resolved.code });
     }
 
-    req.user = result.rows[0];
+    req.user = resolved.user;
+    req.sessionId = resolved.sessionId;
     next();
   } catch (error) {
-    return res.status(403).json({ error: 'Invalid or expired token' });
+    console.error('Auth middleware error:', error);
+    return res.status(500).json({ error: 'Failed to authenticate request' });
   }
 };
 
@@ -100,24 +134,14 @@ const optionalAuth = async (req, res, next) => {
   }
 
   try {
-    const jwtSecret = getEnvVar('JWT_SECRET');
-    if (!jwtSecret) {
+    if (!getEnvVar('JWT_SECRET')) {
       req.user = null;
       return next();
     }
 
-    const decoded = jwt.verify(token, jwtSecret);
-    
-    const result = await query(
-      'SELECT id, email, first_name, last_name, dietary_preference, health_goal FROM users WHERE id = $1',
-      [decoded.userId]
-    );
-
-    if (result.rows.length > 0) {
-      req.user = result.rows[0];
-    } else {
-      req.user = null;
-    }
+    const resolved = await resolveAccessToken(token);
+    req.user = resolved.user || null;
+    req.sessionId = resolved.sessionId || null;
   } catch (error) {
     req.user = null;
   }
@@ -125,4 +149,13 @@ const optionalAuth = async (req, res, next) => {
   next();
 };
 
-module.exports = { authenticateToken, optionalAuth };
\ No newline at end of file
+// EventSource can't send headers, so event streams pass the access token as
+// ?access_token=. Only use this on routes that need it: URLs end up in logs.
+const acceptQueryToken = (req, res, next) => {
+  if (!req.headers['authorization'] && typeof req.query.access_token === 'string') {
+    req.headers['authorization'] = `Bearer ${req.query.access_token}`;
+  }
+  next();
+};
+
+module.exports = { authenticateToken, optionalAuth, acceptQueryToken };
\ No newline at end of file
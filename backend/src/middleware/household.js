@@ -0,0 +1,27 @@
+const { pool } = require('../config/database');
+const { resolveScope } = require('../services/households/householdService');
+
+// Sets req.scope to the household (or personal) data the signed-in user works on.
+// Must run after authenticateToken.
+const attachHouseholdScope = async (req, res, next) => {
+  try {
+    req.scope = await resolveScope(pool, req.user.id);
+    next();
+  } catch (error) {
+    console.error('Household scope error:', error);
+    res.status(500).json({ error: 'Failed to load household' });
+  }
+};
+
+// Viewers can read household data but not change it
+const requireWriteAccess = (req, res, next) => {
+  if (!req.scope || !req.scope.canWrite) {
+    return res.status(403).json({
+      error: 'Your household role only allows viewing',
+      code: 'HOUSEHOLD_READ_ONLY'
+    });
+  }
+  next();
+};
+
+module.exports = { attachHouseholdScope, requireWriteAccess };
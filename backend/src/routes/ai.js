@@ -1,6 +1,8 @@
 /**
- * AI Routes - Simplified for Ingredient Extraction Only
- * API endpoints for AI-powered ingredient extraction from recipes
+ * AI Routes
+ * API endpoints for AI-powered ingredient extraction from recipes and for
+ * Betsy, the kitchen assistant, including her saved conversations, plus each
+ * user's AI usage
  */
 
 const express = require('express');
@@ -9,24 +11,25 @@ const RecipeAgent = require('../services/ai/agents/RecipeAgent');
 const RecipeUrlExtractor = require('../services/ai/RecipeUrlExtractor');
 const RequestRouter = require('../services/ai/RequestRouter');
 const BetsyAgent = require('../services/ai/BetsyAgent');
+const { BETSY_TOOLS } = require('../services/ai/betsyTools');
+const ConversationStore = require('../services/ai/ConversationStore');
+const UsageLedger = require('../services/ai/UsageLedger');
+const { pool } = require('../config/database');
+const { authenticateToken } = require('../middleware/auth');
+const { trackAiUsage } = require('../middleware/aiUsage');
 const { parseIngredientsFromInstructions } = require('../utils/ingredientParser');
 
 const router = express.Router();
 
+const MODEL_TIERS = ['small', 'medium', 'large'];
+
 // Initialize only essential services
 const recipeAgent = new RecipeAgent();
 const recipeUrlExtractor = new RecipeUrlExtractor();
 const requestRouter = new RequestRouter();
 const betsyAgent = new BetsyAgent();
-
-// Mock authentication for now (replace with real auth later)
-const mockAuth = (req, res, next) => {
-  req.user = { id: 'demo-user' }; // Demo user ID
-  next();
-};
-
-// Apply mock authentication to all routes
-router.use(mockAuth);
+const conversationStore = new ConversationStore(pool);
+const usageLedger = new UsageLedger(pool);
 
 /**
  * Health check for AI services
@@ -34,11 +37,16 @@ router.use(mockAuth);
 router.get('/health', async (req, res) => {
   try {
     const modelInfo = requestRouter.getModelInfo();
-    
+    const cache = recipeUrlExtractor.cache;
+
     res.json({
       status: 'healthy',
       services: {
-        models: modelInfo
+        models: modelInfo,
+        cache: {
+          ...(await cache.healthCheck()),
+          ...(await cache.getStats())
+        }
       },
       timestamp: new Date().toISOString()
     });
@@ -50,6 +58,24 @@ router.get('/health', async (req, res) => {
   }
 });
 
+// Everything below works on behalf of a signed-in user, who is charged for
+// the AI calls it makes
+router.use(authenticateToken);
+router.use(trackAiUsage);
+
+/**
+ * The signed-in user's AI spend today and this month, against their limits
+ */
+router.get('/cost-usage', async (req, res) => {
+  try {
+    const usage = await usageLedger.getUsage(req.user.id);
+    res.json({ success: true, ...usage });
+  } catch (error) {
+    console.error('Get AI usage error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load AI usage' });
+  }
+});
+
 router.post('/extract-recipe-from-url', [
   body('url').isURL({ require_protocol: true }).withMessage('Valid recipe URL is required')
 ], async (req, res) => {
@@ -241,14 +267,68 @@ router.post('/extract-ingredients', [
   }
 });
 
+/**
+ * Betsy's tools with the JSON Schemas of their arguments, which the app
+ * checks each step against before carrying it out
+ */
+router.get('/betsy-tools', (req, res) => {
+  res.json({ success: true, tools: BETSY_TOOLS });
+});
+
 /**
  * Betsy Assistant - Interpret natural language commands
  */
-router.post('/betsy-interpret', [
+const betsyInterpretValidation = [
   body('input').notEmpty().withMessage('User input is required'),
-  body('context').optional().isObject()
-], async (req, res) => {
+  body('context').optional().isObject(),
+  body('conversationId').optional({ nullable: true }).isUUID()
+];
+
+/**
+ * Interpret a command in the user's current conversation and save it there;
+ * an aborted `signal` (the client went away) cancels it before anything is saved
+ */
+async function interpretForUser(req, { onEvent, signal } = {}) {
   const startTime = Date.now();
+  const { input, context = {}, conversationId } = req.body;
+  const userId = req.user.id;
+
+  console.log(`API: Betsy interpreting: "${input}"`);
+
+  // Continue the conversation the client is showing; one that was deleted
+  // elsewhere starts over
+  const existing = conversationId && await conversationStore.findConversation(userId, conversationId);
+  const history = existing ? await conversationStore.getRecentMessages(existing.id) : [];
+
+  const result = betsyAgent.assessRisk(
+    await betsyAgent.interpret(input, { ...context, userId, history }, { onEvent, signal })
+  );
+  if (signal?.aborted) return null;
+
+  // A new conversation is only started once there's an answer to put in it,
+  // so cancelled or failed commands don't leave empty ones in the history
+  const conversation = existing || await conversationStore.createConversation(userId, input);
+  await conversationStore.addMessage(conversation.id, {
+    role: 'user',
+    content: input,
+    metadata: {
+      intent: result.intent,
+      entities: result.entities || {},
+      ...(result.actions && { actions: result.actions.map(({ intent, entities }) => ({ intent, entities })) })
+    },
+    // Models pinned with OPENROUTER_BETSY_MODEL have no tier
+    modelTier: MODEL_TIERS.includes(result.metadata?.modelTier) ? result.metadata.modelTier : null,
+    tokensUsed: result.metadata?.tokensUsed || null
+  });
+
+  return {
+    ...result,
+    conversationId: conversation.id,
+    processingTimeMs: Date.now() - startTime
+  };
+}
+
+router.post('/betsy-interpret', betsyInterpretValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -259,24 +339,136 @@ router.post('/betsy-interpret', [
       });
     }
 
-    const { input, context = {} } = req.body;
-    const userId = req.user.id;
+    res.json(await interpretForUser(req));
+  } catch (error) {
+    console.error('Betsy interpretation error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to interpret command'
+    });
+  }
+});
 
-    console.log(`API: Betsy interpreting: "${input}"`);
+/**
+ * The same as /betsy-interpret, streamed as server-sent events while Betsy
+ * works: 'thinking', 'token' (her reply so far), 'acting' (what the app is
+ * about to do), then 'done' with the interpretation, or 'error'. Closing the
+ * connection cancels the model call.
+ */
+router.post('/betsy-interpret/stream', betsyInterpretValidation, async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
 
-    const result = await betsyAgent.interpret(input, { ...context, userId });
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
 
-    res.json({
-      ...result,
-      processingTimeMs: Date.now() - startTime
+  const send = (type, data) => res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const result = await interpretForUser(req, {
+      signal: controller.signal,
+      onEvent: ({ type, ...data }) => send(type, data)
     });
+    if (!result) return;
+
+    const action = betsyAgent.describeAction(result);
+    if (action) {
+      send('acting', { message: action });
+    }
+    send('done', result);
   } catch (error) {
+    if (controller.signal.aborted) return;
     console.error('Betsy interpretation error:', error);
-    res.status(500).json({
-      success: false,
-      error: error.message || 'Failed to interpret command'
+    send('error', { error: error.message || 'Failed to interpret command' });
+  }
+  res.end();
+});
+
+/**
+ * Betsy conversations - history for resuming old chats
+ */
+router.get('/conversations', async (req, res) => {
+  try {
+    const conversations = await conversationStore.listConversations(req.user.id);
+    res.json({ success: true, conversations });
+  } catch (error) {
+    console.error('List conversations error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load conversations' });
+  }
+});
+
+router.get('/conversations/:id', async (req, res) => {
+  try {
+    const conversation = await conversationStore.findConversation(req.user.id, req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+
+    const messages = await conversationStore.getMessages(conversation.id);
+    res.json({ success: true, conversation, messages });
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    res.status(500).json({ success: false, error: 'Failed to load conversation' });
+  }
+});
+
+// Betsy's replies are worded by the app after it acts on an intent, so the
+// client records them once they're shown
+router.post('/conversations/:id/messages', [
+  body('content').notEmpty().withMessage('Message content is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const conversation = await conversationStore.findConversation(req.user.id, req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+
+    const message = await conversationStore.addMessage(conversation.id, {
+      role: 'assistant',
+      content: req.body.content
     });
+    res.status(201).json({ success: true, message });
+  } catch (error) {
+    console.error('Add conversation message error:', error);
+    res.status(500).json({ success: false, error: 'Failed to save message' });
+  }
+});
+
+router.delete('/conversations/:id', async (req, res) => {
+  try {
+    const deleted = await conversationStore.deleteConversation(req.user.id, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete conversation error:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete conversation' });
   }
 });
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
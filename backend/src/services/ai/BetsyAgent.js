@@ -3,32 +3,173 @@
  * Interprets natural language commands and extracts structured intents + entities
  */
 
-const OpenRouterClient = require('./OpenRouterClient');
+const RequestRouter = require('./RequestRouter');
+const { isCancelled } = require('./LLMClient');
+const { isBudgetExceeded } = require('./UsageLedger');
+const { toolDefinitions, validateToolArguments, describeTools } = require('./betsyTools');
+
+// Follow-ups that only make sense against an earlier turn ("make that one
+// vegetarian", "move it to Thursday")
+const REFERENCE_REGEX = /\b(it|that|those|these|them|same|instead|again)\b/i;
+
+// Commands that ask for several things in turn ("add milk, then plan dinners");
+// the pattern matcher would only catch the first
+const MULTI_STEP_REGEX = /\b(then|after that|afterwards|also)\b|;/i;
+
+const JSON_ESCAPES = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+const TIME_RANGES = { today: 'today', tomorrow: 'tomorrow', this_week: 'this week' };
+
+// For models that call tools, in place of the JSON instructions
+const TOOL_SYSTEM_PROMPT = 'You are Betsy, a helpful kitchen assistant. Carry out what the user asks by calling your tools, and reply to them in one friendly sentence.';
+
+const TOOL_INSTRUCTIONS = `HOW TO ANSWER:
+- Call one tool for each thing the user asks for, in the order they asked
+- Several items for the same list are ONE add_shopping_item call, not one call per item
+- Leave out optional arguments the user didn't give
+- Write one friendly sentence to the user covering everything you did
+- If no tool fits, call none and say what you can help with instead
+`;
+
+// Tool calls carry no confidence of their own; one whose arguments check out
+// is as sure as a pattern match
+const TOOL_CALL_CONFIDENCE = 0.9;
+
+// How careful the app is before carrying out an intent: 'low' runs straight
+// away, 'medium' asks first when the command was spoken (and could have been
+// misheard), 'high' always asks first with a preview of what will change.
+// Intents not listed are low. BETSY_RISK_LEVELS overrides these.
+const INTENT_RISK = {
+  clear_meals: 'high',
+  delete_recipe: 'high',
+  swap_all_meals: 'high',
+  generate_meals: 'medium',
+  clear_shopping_list: 'medium',
+  mark_meal_cooked: 'medium'
+};
+
+const RISK_LEVELS = ['low', 'medium', 'high'];
+
+function loadRiskLevels() {
+  if (!process.env.BETSY_RISK_LEVELS) return INTENT_RISK;
+
+  try {
+    const overrides = JSON.parse(process.env.BETSY_RISK_LEVELS);
+    const valid = Object.entries(overrides).filter(([, risk]) => RISK_LEVELS.includes(risk));
+    return { ...INTENT_RISK, ...Object.fromEntries(valid) };
+  } catch (error) {
+    console.warn('⚠️ BETSY_RISK_LEVELS is not valid JSON, using default risk levels');
+    return INTENT_RISK;
+  }
+}
+
+/**
+ * The "response" text of an answer the model is still writing, so Betsy's
+ * reply can be shown as it arrives. Stops before an escape that hasn't fully
+ * arrived yet.
+ */
+function partialReply(content) {
+  const start = /"response"\s*:\s*"/.exec(content);
+  if (!start) return '';
+
+  let text = '';
+  for (let i = start.index + start[0].length; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+
+    const next = content[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = content.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    text += JSON_ESCAPES[next] || next;
+    i++;
+  }
+  return text;
+}
+
+function capitalize(word) {
+  return word ? word.charAt(0).toUpperCase() + word.slice(1) : '';
+}
+
+// "Tuesday dinner"
+function mealSlot(day, mealType) {
+  return [capitalize(day), mealType].filter(Boolean).join(' ');
+}
 
 class BetsyAgent {
   constructor() {
-    this.client = new OpenRouterClient();
-    // Use claude-3-5-haiku (the current fast model) or fall back to claude-3.5-sonnet
-    this.model = process.env.OPENROUTER_BETSY_MODEL || 'anthropic/claude-3-5-haiku-20241022';
+    // Interpretation runs on the betsy_interpretation tier and escalates when
+    // the answer can't be used (not valid JSON, or arguments that don't fit
+    // their tool) or Betsy isn't sure; OPENROUTER_BETSY_MODEL
+    // pins it to one model instead
+    this.router = new RequestRouter();
+    this.model = process.env.OPENROUTER_BETSY_MODEL || null;
+    this.riskLevels = loadRiskLevels();
+  }
+
+  /**
+   * Whether the model calls Betsy's tools natively, or is asked for JSON
+   */
+  usesTools() {
+    return Boolean(this.router.client.provider?.supportsTools);
+  }
+
+  riskOf(intent) {
+    return this.riskLevels[intent] || 'low';
+  }
+
+  /**
+   * The interpretation with a risk level for each step, and for the whole
+   * command the riskiest of them, so the app knows when to ask first
+   */
+  assessRisk(interpretation) {
+    const actions = interpretation.actions?.map(action => ({ ...action, risk: this.riskOf(action.intent) }));
+    const risks = actions ? actions.map(action => action.risk) : [this.riskOf(interpretation.intent)];
+
+    return {
+      ...interpretation,
+      risk: RISK_LEVELS[Math.max(...risks.map(risk => RISK_LEVELS.indexOf(risk)))],
+      ...(actions && { actions })
+    };
   }
 
   /**
    * Interpret user input and return structured intent + entities
-   * Strategy: Try fast fallback first, only use LLM for unknown/ambiguous commands
+   * Strategy: Try fast fallback first, only use LLM for unknown/ambiguous commands.
+   * `context.history` holds the conversation's recent messages, oldest first.
+   * `onEvent` hears what she's doing while the model answers: a 'thinking'
+   * event, then 'token' events with her reply so far. Aborting `signal`
+   * cancels the model call.
    */
-  async interpret(userInput, context = {}) {
+  async interpret(userInput, context = {}, { onEvent = () => {}, signal = null } = {}) {
     const startTime = Date.now();
+    const { history = [], ...details } = context;
     
     console.log('🤖 [BETSY_AGENT] Interpreting:', {
       input: userInput,
-      context
+      context: details,
+      historyMessages: history.length
     });
 
     // Try fallback patterns first (instant, free)
     const fallbackResult = this.fallbackInterpret(userInput);
+    // "Undo that" means the last change, whatever the conversation was about
+    const undoing = fallbackResult.intent === 'undo' || fallbackResult.intent === 'redo';
+    const needsHistory = !undoing && history.length > 0 && REFERENCE_REGEX.test(userInput);
+    const multiStep = MULTI_STEP_REGEX.test(userInput);
     
-    // If fallback found a known intent, use it
-    if (fallbackResult.intent !== 'unknown') {
+    // If fallback found a known intent, use it; follow-ups go to the LLM,
+    // which can see what they refer to, and so do commands with several steps
+    if (fallbackResult.intent !== 'unknown' && !needsHistory && !multiStep) {
       const processingTime = Date.now() - startTime;
       console.log('✅ [BETSY_AGENT] Fallback matched in', processingTime, 'ms:', fallbackResult.intent);
       return {
@@ -43,37 +184,47 @@ class BetsyAgent {
     // Only use LLM for truly ambiguous/unknown commands
     console.log('🤖 [BETSY_AGENT] Fallback returned unknown, trying LLM...');
     
-    const prompt = this.buildInterpretationPrompt(userInput, context);
+    const useTools = this.usesTools();
+    const prompt = this.buildInterpretationPrompt(userInput, context, { useTools });
+    onEvent({
+      type: 'thinking',
+      message: needsHistory ? 'Looking back at our conversation...' : 'Thinking it over...'
+    });
+    let reply = '';
 
     try {
-      const response = await this.client.chat([
-        {
-          role: 'system',
-          content: `You are Betsy, a helpful kitchen assistant. Your job is to interpret user commands and return structured JSON responses.
-
-IMPORTANT: Respond ONLY with valid JSON, no markdown, no explanation, just the JSON object.`
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ], {
-        model: this.model,
+      const response = await this.router.route('betsy_interpretation', userInput, {
+        prompt,
         temperature: 0.1,
-        maxTokens: 500
+        maxTokens: 500,
+        forceModelName: this.model,
+        ...(useTools && { tools: toolDefinitions(), systemPrompt: TOOL_SYSTEM_PROMPT }),
+        parse: (content, result) => this.parseAnswer(content, result),
+        minConfidence: 0.5,
+        signal,
+        // Starts over from the beginning when the router retries on a bigger model;
+        // next to tool calls, the text is the reply itself
+        onToken: (delta, content) => {
+          const text = useTools ? content : partialReply(content);
+          if (text !== reply) {
+            reply = text;
+            onEvent({ type: 'token', text });
+          }
+        }
       });
 
       const processingTime = Date.now() - startTime;
       console.log('✅ [BETSY_AGENT] LLM response received in', processingTime, 'ms');
 
-      // Parse the JSON response
-      const parsed = this.parseResponse(response.content);
+      // Pinned models skip the router's parsing
+      const parsed = response.parsed || this.parseResponse(response.content, response);
       
       return {
         success: true,
         ...parsed,
         metadata: {
-          model: this.model,
+          model: response.routing.modelName,
+          modelTier: response.routing.modelTier,
           method: 'llm',
           processingTimeMs: processingTime,
           tokensUsed: response.usage?.total_tokens || 0
@@ -81,94 +232,79 @@ IMPORTANT: Respond ONLY with valid JSON, no markdown, no explanation, just the J
       };
 
     } catch (error) {
+      if (isCancelled(error)) throw error;
       console.error('❌ [BETSY_AGENT] LLM Error:', error.message);
+
+      if (isBudgetExceeded(error) && fallbackResult.intent === 'unknown') {
+        return {
+          ...fallbackResult,
+          response: "I've used up my AI allowance for now, so I can only follow simple commands. Try saying \"help\" to see them!",
+          metadata: { ...fallbackResult.metadata, budgetExceeded: true }
+        };
+      }
       
       // Return the fallback result (which was 'unknown')
       return fallbackResult;
     }
   }
 
-  buildInterpretationPrompt(userInput, context) {
-    return `Interpret this kitchen assistant command and return a JSON response.
+  /**
+   * What the app is about to do for an interpretation ("Adding 3 items to
+   * your shopping list"), shown while it does it; null for intents that are
+   * over in an instant
+   */
+  describeAction({ intent, entities = {}, actions }) {
+    const items = entities.items || [];
 
-USER INPUT: "${userInput}"
+    if (actions && actions.length > 1) {
+      return `Working through ${actions.length} steps`;
+    }
 
-AVAILABLE INTENTS:
-1. "add_shopping_item" - Add item(s) to shopping list
-   entities: { items: [{ name: string, quantity?: string, unit?: string }] }
-   
-2. "navigate" - Go to a page in the app
-   entities: { destination: "recipes" | "shopping_list" | "meal_planning" }
-   
-3. "add_meal" - Plan a meal for a specific time
-   entities: { food: string, mealType: "breakfast" | "lunch" | "dinner" | "snack", day?: string }
-   
-4. "remove_shopping_item" - Remove item from shopping list
-   entities: { itemName: string }
-   
-5. "clear_shopping_list" - Clear all items from shopping list OR clear checked/completed items
-   entities: { checkedOnly?: boolean }
-
-6. "clear_meals" - Clear/delete meals from the meal plan
-   entities: { timeRange: "today" | "this_week" | "tomorrow", mealType?: "breakfast" | "lunch" | "dinner" | "snack" }
-   IMPORTANT: "this week" or "this full week" means timeRange: "this_week", NOT "all"
-   
-7. "generate_meals" - Use AI to generate/create a meal plan
-   entities: { timeRange: "today" | "this_week" | "tomorrow" }
-
-8. "import_recipe" - Import a recipe from a URL
-   entities: { url: string, category?: "Breakfast" | "Lunch" | "Dinner" | "Snack" }
-
-9. "search_recipe" - Search for recipes online by keyword and import
-   entities: { query: string, category?: "Breakfast" | "Lunch" | "Dinner" | "Snack" }
-
-10. "add_recipe_to_shopping_list" - Add all ingredients from a recipe to the shopping list
-    entities: { recipeName: string }
-
-11. "consolidate_shopping_list" - Merge duplicate items and combine quantities in shopping list
-    entities: {}
-
-12. "double_recipe" - Double the quantities of all ingredients from a recipe in the shopping list
-    entities: { recipeName: string, multiplier?: number }
-
-13. "move_meal" - Move a meal from one slot to another
-    entities: { fromDay: string, fromMealType: string, toDay: string, toMealType: string }
-
-14. "swap_meals" - Swap two meals between slots
-    entities: { day1: string, mealType1: string, day2: string, mealType2: string }
-
-15. "swap_all_meals" - Swap ALL meals between two days (breakfast, lunch, dinner)
-    entities: { day1: string, day2: string }
-
-16. "save_recipe" - Save an AI-generated recipe from the meal plan to the recipe collection
-    entities: { recipeName: string }
-
-17. "delete_recipe" - Delete a recipe from the collection
-    entities: { recipeName: string }
-
-18. "search_recipes" - Search saved recipes by keyword
-    entities: { query: string }
-   
-19. "help" - User needs help or instructions
-    entities: {}
-   
-20. "greeting" - User is saying hello or starting conversation
-    entities: {}
-   
-22. "mark_all_completed" - Mark all items in shopping list as completed/checked
-    entities: {}
+    switch (intent) {
+      case 'add_shopping_item':
+        return items.length
+          ? `Adding ${items.length} item${items.length === 1 ? '' : 's'} to your ${entities.listName ? `${entities.listName} list` : 'shopping list'}`
+          : null;
+      case 'add_meal':
+        return entities.food ? `Planning ${entities.food}${entities.mealType ? ` for ${mealSlot(entities.day, entities.mealType)}` : ''}` : null;
+      case 'generate_meals':
+        return `Generating meals for ${TIME_RANGES[entities.timeRange] || 'this week'}`;
+      case 'clear_meals':
+        return `Clearing meals for ${TIME_RANGES[entities.timeRange] || 'this week'}`;
+      case 'import_recipe':
+        return 'Importing the recipe';
+      case 'search_recipe':
+        return entities.query ? `Searching online for ${entities.query} recipes` : null;
+      case 'add_recipe_to_shopping_list':
+        return entities.recipeName ? `Adding the ${entities.recipeName} ingredients to your shopping list` : null;
+      case 'move_meal':
+        return `Moving ${mealSlot(entities.fromDay, entities.fromMealType)} to ${mealSlot(entities.toDay, entities.toMealType)}`;
+      case 'swap_meals':
+        return `Swapping ${mealSlot(entities.day1, entities.mealType1)} and ${mealSlot(entities.day2, entities.mealType2)}`;
+      case 'swap_all_meals':
+        return `Swapping ${capitalize(entities.day1)} and ${capitalize(entities.day2)}`;
+      case 'mark_meal_cooked':
+        return `Marking ${mealSlot(entities.day || 'today', entities.mealType)} as cooked`;
+      default:
+        return null;
+    }
+  }
 
-RESPONSE FORMAT (JSON only, no markdown):
-{
-  "intent": "<intent_name>",
-  "entities": { ... },
-  "confidence": 0.0-1.0,
-  "response": "<friendly response to say to user>"
-}
+  buildInterpretationPrompt(userInput, context, { useTools = false } = {}) {
+    const shoppingLists = Array.isArray(context.shoppingLists) ? context.shoppingLists : [];
+    const listsLine = shoppingLists.length > 1
+      ? `\nSHOPPING LISTS: ${shoppingLists.map(name => `"${name}"`).join(', ')}\nSet listName only when the user names one of these lists.\n`
+      : '';
 
+    return `${useTools ? 'Carry out this kitchen assistant command with your tools.' : 'Interpret this kitchen assistant command and return a JSON response.'}
+${this.buildHistorySection(context.history)}
+USER INPUT: "${userInput}"
+${listsLine}
+${useTools ? TOOL_INSTRUCTIONS : this.buildJsonInstructions()}
 EXAMPLES:
 - "add a gallon of milk to my shopping list" → add_shopping_item with items: [{ name: "milk", quantity: "1", unit: "gallon" }]
 - "put eggs and butter on the list" → add_shopping_item with items: [{ name: "eggs" }, { name: "butter" }]
+- "add paper towels to the costco run list" → add_shopping_item with items: [{ name: "paper towels" }], listName: "costco run"
 - "show me recipes" → navigate with destination: "recipes"
 - "plan pancakes for breakfast saturday" → add_meal with food: "pancakes", mealType: "breakfast", day: "saturday"
 - "I need bread, 2 dozen eggs, and a pound of cheese" → add_shopping_item with items: [{ name: "bread" }, { name: "eggs", quantity: "2", unit: "dozen" }, { name: "cheese", quantity: "1", unit: "pound" }]
@@ -192,42 +328,181 @@ EXAMPLES:
 - "swap tuesday dinner with wednesday dinner" → swap_meals with day1: "tuesday", mealType1: "dinner", day2: "wednesday", mealType2: "dinner"
 - "switch breakfast for wednesday and thursday" → swap_meals with day1: "wednesday", mealType1: "breakfast", day2: "thursday", mealType2: "breakfast"
 - "exchange monday lunch with friday lunch" → swap_meals with day1: "monday", mealType1: "lunch", day2: "friday", mealType2: "lunch"
+- "I cooked tonight's dinner" → mark_meal_cooked with mealType: "dinner", day: "today"
+- "mark tuesday lunch as made" → mark_meal_cooked with mealType: "lunch", day: "tuesday"
 - "switch wednesday and thursday" → swap_all_meals with day1: "wednesday", day2: "thursday"
 - "swap monday with tuesday" → swap_all_meals with day1: "monday", day2: "tuesday"
 - "clear completed items from shopping list" → clear_shopping_list with checkedOnly: true
 - "remove checked items" → clear_shopping_list with checkedOnly: true
 - "mark all items as completed" → mark_all_completed
 - "check off everything on my list" → mark_all_completed
+- "undo that" / "take that back" / "put it back the way it was" → undo
+- "redo that" / "actually, do it again" → redo
 - "save Breakfast Burritos to recipes" → save_recipe with recipeName: "Breakfast Burritos"
 - "save the chicken stir fry" → save_recipe with recipeName: "chicken stir fry"
 - "delete the pancakes recipe" → delete_recipe with recipeName: "pancakes"
 - "search my recipes for chicken" → search_recipes with query: "chicken"
 - "find recipes with pasta" → search_recipes with query: "pasta"
 
-Now interpret the user input and respond with JSON only:`;
+${useTools ? 'Now call the tools for the user input:' : 'Now interpret the user input and respond with JSON only:'}`;
   }
 
-  parseResponse(content) {
-    try {
-      // Remove any markdown code blocks if present
-      let cleaned = content.trim();
-      if (cleaned.startsWith('```')) {
-        cleaned = cleaned.replace(/```json?\n?/g, '').replace(/```\n?$/g, '');
+  /**
+   * The intents and the answer's shape, for models that answer in JSON
+   * instead of calling tools
+   */
+  buildJsonInstructions() {
+    return `AVAILABLE INTENTS:
+${describeTools()}
+
+RESPONSE FORMAT (JSON only, no markdown):
+{
+  "intent": "<intent_name>",
+  "entities": { ... },
+  "confidence": 0.0-1.0,
+  "response": "<friendly response to say to user>"
+}
+
+SEVERAL THINGS IN ONE COMMAND:
+When the user asks for more than one thing, list every step in the order they asked, instead of "intent" and "entities":
+{
+  "actions": [
+    { "intent": "<intent_name>", "entities": { ... } },
+    { "intent": "<intent_name>", "entities": { ... } }
+  ],
+  "confidence": 0.0-1.0,
+  "response": "<one friendly sentence covering all the steps>"
+}
+- "add milk and eggs, then plan dinners for this week and move Monday's lunch to Friday" → actions: add_shopping_item with items: [{ name: "milk" }, { name: "eggs" }]; generate_meals with timeRange: "this_week"; move_meal with fromDay: "monday", fromMealType: "lunch", toDay: "friday", toMealType: "lunch"
+- Several items for the same list are ONE add_shopping_item step, not one step per item
+`;
+  }
+
+  /**
+   * Earlier turns of the conversation, so follow-ups can be resolved
+   */
+  buildHistorySection(history) {
+    if (!Array.isArray(history) || history.length === 0) {
+      return '';
+    }
+
+    const lines = history.map(message => {
+      if (message.role !== 'user') {
+        return `Betsy: ${message.content}`;
       }
-      
-      const parsed = JSON.parse(cleaned);
-      
-      // Validate required fields
-      if (!parsed.intent) {
-        throw new Error('Missing intent field');
+      const metadata = message.metadata || {};
+      const steps = metadata.actions || (metadata.intent ? [metadata] : []);
+      const understood = steps.length > 0
+        ? ` → ${steps.map(step => `${step.intent} ${JSON.stringify(step.entities || {})}`).join(', then ')}`
+        : '';
+      return `User: "${message.content}"${understood}`;
+    });
+
+    return `
+RECENT CONVERSATION (oldest first):
+${lines.join('\n')}
+
+The user may refer back to this conversation ("it", "that one", "those", "instead").
+Resolve such references and fill in entities they leave out (recipe names, days, meal types) from the earlier turns.
+`;
+  }
+
+  /**
+   * The intent in a model's answer, from its tool calls when it made any;
+   * throws when the answer isn't usable
+   */
+  parseAnswer(content, result = {}) {
+    if (result.toolCalls?.length) {
+      return this.parseToolCalls(result.toolCalls, content);
+    }
+    // Called no tool: JSON written out anyway, or a reply with nothing to do
+    if (!this.usesTools() || (content || '').trim().startsWith('{')) {
+      return this.parseIntent(content);
+    }
+    return {
+      intent: 'unknown',
+      entities: {},
+      confidence: 0.3,
+      response: (content || '').trim() || this.getDefaultResponse('unknown')
+    };
+  }
+
+  /**
+   * The intent in a model's JSON answer
+   */
+  parseIntent(content) {
+    // Remove any markdown code blocks if present
+    let cleaned = content.trim();
+    if (cleaned.startsWith('```')) {
+      cleaned = cleaned.replace(/```json?\n?/g, '').replace(/```\n?$/g, '');
+    }
+
+    const parsed = JSON.parse(cleaned);
+    const actions = Array.isArray(parsed.actions) ? parsed.actions.filter(action => action && action.intent) : [];
+
+    // Validate required fields
+    if (!parsed.intent && actions.length === 0) {
+      throw new Error('Missing intent field');
+    }
+
+    return this.buildInterpretation(actions.length ? actions : [parsed], {
+      confidence: parsed.confidence || 0.5,
+      response: parsed.response
+    });
+  }
+
+  /**
+   * The intent in a model's tool calls, one step per call; the text written
+   * next to them is the reply
+   */
+  parseToolCalls(toolCalls, content = '') {
+    const actions = toolCalls.map(call => ({
+      intent: call.name,
+      entities: JSON.parse(call.arguments || '{}')
+    }));
+
+    return this.buildInterpretation(actions, {
+      confidence: TOOL_CALL_CONFIDENCE,
+      response: (content || '').trim()
+    });
+  }
+
+  /**
+   * One interpretation from a model's steps, after checking each step's
+   * entities against its tool's schema. Optional entities left null count as
+   * left out. Throws when a step doesn't check out, so the router asks a
+   * bigger model.
+   */
+  buildInterpretation(actions, { confidence, response }) {
+    const steps = actions.map(action => ({
+      intent: action.intent,
+      entities: Object.fromEntries(Object.entries(action.entities || {}).filter(([, value]) => value !== null)),
+      response: action.response || this.getDefaultResponse(action.intent)
+    }));
+
+    for (const step of steps) {
+      const errors = validateToolArguments(step.intent, step.entities);
+      if (errors.length) {
+        throw new Error(`Invalid ${step.intent} arguments: ${errors.join('; ')}`);
       }
-      
-      return {
-        intent: parsed.intent,
-        entities: parsed.entities || {},
-        confidence: parsed.confidence || 0.5,
-        response: parsed.response || this.getDefaultResponse(parsed.intent)
-      };
+    }
+
+    // The first step stands in for the whole command wherever one intent is expected
+    const [first] = steps;
+    return {
+      intent: first.intent,
+      entities: first.entities,
+      confidence,
+      response: response || first.response,
+      ...(steps.length > 1 && {
+        actions: steps.map(action => ({ ...action, description: this.describeAction(action) }))
+      })
+    };
+  }
+
+  parseResponse(content, result = {}) {
+    try {
+      return this.parseAnswer(content, result);
     } catch (error) {
       console.error('❌ [BETSY_AGENT] Failed to parse response:', error.message);
       console.error('Raw content:', content);
@@ -249,6 +524,8 @@ Now interpret the user input and respond with JSON only:`;
       remove_shopping_item: "I'll remove that from your list.",
       clear_shopping_list: "I'll clear your shopping list.",
       mark_all_completed: "I'll mark all items as completed.",
+      undo: "I'll undo that.",
+      redo: "I'll redo that.",
       clear_meals: "I'll clear those meals from your plan.",
       generate_meals: "I'll generate a meal plan for you!",
       import_recipe: "I'll import that recipe for you!",
@@ -259,6 +536,7 @@ Now interpret the user input and respond with JSON only:`;
       move_meal: "I'll move that meal for you!",
       swap_meals: "I'll swap those meals!",
       swap_all_meals: "I'll swap all meals between those days!",
+      mark_meal_cooked: "I'll mark that meal as cooked and update your pantry.",
       save_recipe: "I'll save that recipe to your collection!",
       delete_recipe: "I'll delete that recipe.",
       search_recipes: "Let me search your recipes!",
@@ -277,6 +555,21 @@ Now interpret the user input and respond with JSON only:`;
     
     console.log('⚠️ [BETSY_AGENT] Using fallback interpretation');
 
+    // Undo or redo the last change ("Betsy, undo that"), before "clear" or
+    // "delete" later in the sentence can match anything else
+    const historyMatch = text.match(/^(?:(?:hey|ok|okay)\s+)?(?:betsy\W*\s*)?(?:please\s+)?(undo|redo|take\s+(?:that|it)\s+back)\b/);
+    if (historyMatch) {
+      const intent = historyMatch[1] === 'redo' ? 'redo' : 'undo';
+      return {
+        success: true,
+        intent,
+        entities: {},
+        confidence: 0.9,
+        response: this.getDefaultResponse(intent),
+        metadata: { method: 'fallback' }
+      };
+    }
+
     // Check for adding something to shopping list
     // We'll return a special intent that tells the frontend to check if it's a recipe
     // Supports: "shopping list", "my shopping list", "our shopping list", "the shopping list", "grocery list"
@@ -309,9 +602,13 @@ Now interpret the user input and respond with JSON only:`;
         !text.match(/\b(breakfast|lunch|dinner|snack)\b/i) &&
         !text.match(/\b(recipe|recipes)\b/i) &&
         !text.includes('shopping list') && !text.includes('grocery list')) {
+      // "add eggs to the costco run list" names the list to use
+      const listMatch = text.match(/\s+(?:to|on|in)\s+(?:the\s+|my\s+|our\s+)?(.+?)\s+list\b/i);
+      const listName = listMatch && !/^(the|my|our)$/i.test(listMatch[1]) ? listMatch[1].trim() : null;
+
       const itemText = text
         .replace(/^(add|put|get|buy|need|pick up)\s+/i, '')
-        .replace(/\s+(to|on|in)\s+(the\s+)?(list|cart).*$/i, '')
+        .replace(/\s+(to|on|in)\s+(the\s+|my\s+|our\s+)?(.+?\s+)?(list|cart).*$/i, '')
         .replace(/\s+please$/i, '')
         .trim();
       
@@ -319,9 +616,9 @@ Now interpret the user input and respond with JSON only:`;
         return {
           success: true,
           intent: 'add_shopping_item',
-          entities: { items: [{ name: itemText }] },
+          entities: listName ? { items: [{ name: itemText }], listName } : { items: [{ name: itemText }] },
           confidence: 0.6,
-          response: `I'll add "${itemText}" to your shopping list.`,
+          response: `I'll add "${itemText}" to your ${listName ? `${listName} list` : 'shopping list'}.`,
           metadata: { method: 'fallback' }
         };
       }
@@ -442,6 +739,22 @@ Now interpret the user input and respond with JSON only:`;
       };
     }
 
+    // Mark a meal as cooked: "I cooked tonight's dinner", "mark tuesday lunch as made"
+    const cookedMealType = ['breakfast', 'lunch', 'dinner', 'snack'].find(meal => text.includes(meal));
+    if (cookedMealType && text.match(/\b(cooked|made|ate)\b/)) {
+      const day = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'today', 'tomorrow']
+        .find(name => text.includes(name)) || 'today';
+
+      return {
+        success: true,
+        intent: 'mark_meal_cooked',
+        entities: { day, mealType: cookedMealType },
+        confidence: 0.7,
+        response: `I'll mark ${day} ${cookedMealType} as cooked and update your pantry.`,
+        metadata: { method: 'fallback' }
+      };
+    }
+
     // Clear meals pattern (check before navigate to meal planning)
     if ((text.includes('clear') || text.includes('delete') || text.includes('remove')) && 
         (text.includes('meal') || text.includes('plan'))) {
@@ -787,3 +1100,4 @@ Now interpret the user input and respond with JSON only:`;
 }
 
 module.exports = BetsyAgent;
+module.exports.partialReply = partialReply;
@@ -0,0 +1,117 @@
+/**
+ * Conversation Store
+ * Keeps Betsy's chats in ai_conversations / ai_messages so a thread survives
+ * reloads and other devices, and so recent turns can go back into the prompt
+ */
+
+const TITLE_LENGTH = 60;
+
+class ConversationStore {
+  constructor(db) {
+    this.db = db;
+    // Messages (user and assistant) fed back to the model with each request
+    this.historyLimit = parseInt(process.env.BETSY_HISTORY_MESSAGES) || 10;
+  }
+
+  /**
+   * A user's conversations, most recently active first
+   */
+  async listConversations(userId, limit = 30) {
+    const result = await this.db.query(
+      `SELECT c.id, c.title, c.created_at, c.updated_at, COUNT(m.id)::int AS message_count
+       FROM ai_conversations c
+       LEFT JOIN ai_messages m ON m.conversation_id = c.id
+       WHERE c.user_id = $1
+       GROUP BY c.id
+       ORDER BY c.updated_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * One of the user's conversations, or null if it isn't theirs
+   */
+  async findConversation(userId, conversationId) {
+    const result = await this.db.query(
+      'SELECT id, title, created_at, updated_at FROM ai_conversations WHERE id = $1 AND user_id = $2',
+      [conversationId, userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Start a conversation titled after its first message
+   */
+  async createConversation(userId, firstMessage = '') {
+    const text = firstMessage.trim();
+    const title = text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+    const result = await this.db.query(
+      `INSERT INTO ai_conversations (user_id, title)
+       VALUES ($1, $2)
+       RETURNING id, title, created_at, updated_at`,
+      [userId, title || 'New conversation']
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Record a message; `metadata` holds what Betsy understood a user message as
+   */
+  async addMessage(conversationId, { role, content, metadata = null, modelTier = null, tokensUsed = null }) {
+    const result = await this.db.query(
+      `INSERT INTO ai_messages (conversation_id, role, content, metadata, model_tier, tokens_used)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id, role, content, metadata, created_at`,
+      [conversationId, role, content, metadata ? JSON.stringify(metadata) : null, modelTier, tokensUsed]
+    );
+    await this.db.query(
+      'UPDATE ai_conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [conversationId]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Every message of a conversation, oldest first
+   */
+  async getMessages(conversationId) {
+    const result = await this.db.query(
+      `SELECT id, role, content, metadata, created_at
+       FROM ai_messages
+       WHERE conversation_id = $1
+       ORDER BY created_at, id`,
+      [conversationId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * The last few messages, oldest first, for the interpretation prompt
+   */
+  async getRecentMessages(conversationId, limit = this.historyLimit) {
+    const result = await this.db.query(
+      `SELECT role, content, metadata, created_at FROM (
+         SELECT role, content, metadata, created_at, id
+         FROM ai_messages
+         WHERE conversation_id = $1
+         ORDER BY created_at DESC, id DESC
+         LIMIT $2
+       ) recent
+       ORDER BY created_at, id`,
+      [conversationId, limit]
+    );
+    return result.rows;
+  }
+
+  async deleteConversation(userId, conversationId) {
+    const result = await this.db.query(
+      'DELETE FROM ai_conversations WHERE id = $1 AND user_id = $2 RETURNING id',
+      [conversationId, userId]
+    );
+    return result.rows.length > 0;
+  }
+}
+
+module.exports = ConversationStore;
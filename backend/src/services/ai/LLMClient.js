@@ -0,0 +1,249 @@
+/**
+ * LLM Client
+ * The one way the AI services talk to a model. It handles retries, usage
+ * logging and budgets, and hands the request itself to the provider picked by
+ * AI_PROVIDER (see providers/index.js).
+ */
+
+const { currentUsage } = require('./UsageLedger');
+const { createProvider } = require('./providers');
+
+// USD per million tokens. AI_MODEL_PRICING (JSON, same shape) adds models or
+// overrides these rates.
+const DEFAULT_MODEL_PRICING = {
+  'anthropic/claude-3-5-haiku': { input: 0.80, output: 4.00 },
+  'anthropic/claude-3-5-haiku-20241022': { input: 0.80, output: 4.00 },
+  'anthropic/claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'anthropic/claude-3.5-sonnet': { input: 3.00, output: 15.00 },
+  'google/gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'google/gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'google/gemini-flash-1.5-8b': { input: 0.0375, output: 0.15 }
+};
+
+// Set once at startup (see index.js); every chat call is written to it
+let usageLedger = null;
+
+class LLMClient {
+  constructor({ provider } = {}) {
+    this.provider = provider || createProvider();
+    this.timeout = parseInt(process.env.AI_TIMEOUT) || 120000;  // 2 minutes for AI operations
+    this.maxRetries = parseInt(process.env.AI_MAX_RETRIES) || 3;
+  }
+
+  /**
+   * Send a chat request to the configured provider
+   */
+  async chat(messages, options = {}) {
+    const {
+      model = process.env.OPENROUTER_MODEL,
+      temperature = 0.7,
+      maxTokens = 4000,
+      modelTier = null,
+      // Offered to the model as native tools (OpenAI format) when the provider
+      // supports them; the answer's toolCalls hold the calls it made
+      tools = null,
+      // Streams the answer: called with each new piece of text and the text so far
+      onToken = null,
+      signal = null
+    } = options;
+    const provider = this.provider;
+
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.name} provider not configured`);
+    }
+
+    const { userId = null, endpoint = null } = currentUsage();
+    if (usageLedger && userId && provider.billed) {
+      await usageLedger.assertWithinBudget(userId);
+    }
+    const startedAt = Date.now();
+
+    const request = {
+      model,
+      messages,
+      temperature,
+      maxTokens,
+      ...(tools && provider.supportsTools ? { tools } : {}),
+      onToken,
+      signal
+    };
+
+    let lastError;
+    let attempts = 0;
+    
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      attempts = attempt;
+      try {
+        console.log(`🤖 ${provider.name} Request (Attempt ${attempt}/${this.maxRetries}): ${model}`);
+        console.log(`   Request body:`, JSON.stringify(request).substring(0, 200) + '...');
+
+        const result = await provider.complete(request);
+        // Providers that can't stream (fixtures) hand over the answer in one piece
+        if (onToken && !result.streamed) {
+          onToken(result.content, result.content);
+        }
+
+        console.log(`✅ ${provider.name} Response: ${result.usage?.total_tokens || 0} tokens used`);
+        await this.recordUsage({
+          userId,
+          endpoint,
+          model,
+          modelTier,
+          usage: result.usage,
+          latencyMs: Date.now() - startedAt
+        });
+        return result;
+
+      } catch (error) {
+        lastError = error;
+        if (signal?.aborted) {
+          break;
+        }
+        console.error(`❌ ${provider.name} Attempt ${attempt} failed:`, error.message);
+        
+        // Don't retry on rate limit errors (429) - they won't resolve in seconds
+        if (error.message.includes('429')) {
+          console.log(`⚠️ Rate limit hit, skipping retries for this model`);
+          break;
+        }
+        if (error.retryable === false) {
+          break;
+        }
+        
+        if (attempt < this.maxRetries) {
+          // Short delay for transient errors
+          const delay = 1000;
+          console.log(`⏳ Retrying in ${delay}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    if (signal?.aborted) {
+      const error = new Error('AI request cancelled');
+      error.code = 'AI_REQUEST_CANCELLED';
+      throw error;
+    }
+
+    await this.recordUsage({
+      userId,
+      endpoint,
+      model,
+      modelTier,
+      latencyMs: Date.now() - startedAt,
+      success: false,
+      errorMessage: lastError.message
+    });
+    throw new Error(`${provider.name} API failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${lastError.message}`);
+  }
+
+  /**
+   * Write a call to the usage ledger; a failed write never fails the call
+   */
+  async recordUsage({ userId, endpoint, model, modelTier = null, usage = {}, latencyMs, success = true, errorMessage = null }) {
+    if (!usageLedger) return;
+
+    try {
+      await usageLedger.record({
+        userId,
+        endpoint,
+        modelTier,
+        modelName: model,
+        usage: usage || {},
+        // Local models and fixtures cost nothing
+        cost: this.provider.billed
+          ? this.calculateCost(model, usage?.prompt_tokens || 0, usage?.completion_tokens || 0)
+          : 0,
+        latencyMs,
+        success,
+        errorMessage
+      });
+    } catch (error) {
+      console.error('Failed to record AI usage:', error.message);
+    }
+  }
+
+  /**
+   * Get available models
+   */
+  async getModels() {
+    try {
+      return await this.provider.listModels();
+    } catch (error) {
+      console.error(`Error fetching ${this.provider.name} models:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Test API connection
+   */
+  async testConnection() {
+    if (!this.provider.isConfigured()) {
+      return { status: 'error', message: `${this.provider.name} provider not configured` };
+    }
+
+    try {
+      const result = await this.chat([
+        { role: 'user', content: 'Respond with "OK" if you can read this.' }
+      ], {
+        model: process.env.OPENROUTER_MODEL,
+        maxTokens: 10
+      });
+
+      return { 
+        status: 'success', 
+        message: 'Connection successful',
+        model: result.model,
+        tokens: result.usage?.total_tokens || 0
+      };
+    } catch (error) {
+      return { 
+        status: 'error', 
+        message: error.message 
+      };
+    }
+  }
+
+  /**
+   * Get model pricing information
+   */
+  getModelPricing() {
+    let overrides = {};
+    if (process.env.AI_MODEL_PRICING) {
+      try {
+        overrides = JSON.parse(process.env.AI_MODEL_PRICING);
+      } catch (error) {
+        console.warn('⚠️ AI_MODEL_PRICING is not valid JSON, using default prices');
+      }
+    }
+    return { ...DEFAULT_MODEL_PRICING, ...overrides };
+  }
+
+  /**
+   * Calculate cost for token usage
+   */
+  calculateCost(model, inputTokens, outputTokens) {
+    const pricing = this.getModelPricing()[model];
+    if (!pricing) {
+      if (inputTokens || outputTokens) {
+        console.warn(`⚠️ No price for ${model}, recording its usage at $0 (add it to AI_MODEL_PRICING)`);
+      }
+      return 0;
+    }
+
+    const inputCost = (inputTokens / 1000000) * pricing.input;
+    const outputCost = (outputTokens / 1000000) * pricing.output;
+    
+    return inputCost + outputCost;
+  }
+}
+
+LLMClient.setUsageLedger = ledger => {
+  usageLedger = ledger;
+};
+
+// The caller gave up on the request (e.g. the user closed a Betsy stream)
+LLMClient.isCancelled = error => error?.code === 'AI_REQUEST_CANCELLED';
+
+module.exports = LLMClient;
\ No newline at end of file
@@ -1,35 +1,137 @@
 /**
  * Request Router
- * Routes AI requests to appropriate models based on complexity and cost
+ * Routes AI requests to a model tier by task type and complexity, and moves a
+ * request up to a bigger model when the answer can't be used.
+ *
+ * Tiers (small, medium, large) map to OPENROUTER_MODEL_SMALL/_MEDIUM/_LARGE.
+ * Each task type starts on the tier in TASK_TIERS, which AI_TASK_TIERS (JSON,
+ * e.g. {"validation":"medium"}) overrides. Very complex input starts one tier
+ * up. When a caller passes `parse`, an answer that fails to parse, or whose
+ * confidence is below `minConfidence`, is retried on the next tier. `parse`
+ * gets the answer's text and the whole answer, which has the tool calls the
+ * model made when the caller offered `tools`.
  */
 
-const OpenRouterClient = require('./OpenRouterClient');
+const LLMClient = require('./LLMClient');
+
+const TIER_ORDER = ['small', 'medium', 'large'];
+
+const TASK_TIERS = {
+  simple_text: 'small',
+  basic_parsing: 'small',
+  smart_processing: 'small',
+  validation: 'small',
+  betsy_interpretation: 'medium',
+  ingredient_extraction: 'medium',
+  recipe_analysis: 'medium',
+  meal_plan_generation: 'medium',
+  vision_analysis: 'large',
+  complex_reasoning: 'large'
+};
+
+// Success and latency per tier since the server started, shared by every
+// router so /api/ai/health sees all of them
+const tierStats = Object.fromEntries(TIER_ORDER.map(tier => [tier, {
+  requests: 0,
+  successes: 0,
+  failures: 0,
+  escalations: 0,
+  totalLatencyMs: 0
+}]));
+
+function loadTaskTiers() {
+  if (!process.env.AI_TASK_TIERS) return TASK_TIERS;
+
+  try {
+    const overrides = JSON.parse(process.env.AI_TASK_TIERS);
+    const valid = Object.entries(overrides).filter(([, tier]) => TIER_ORDER.includes(tier));
+    return { ...TASK_TIERS, ...Object.fromEntries(valid) };
+  } catch (error) {
+    console.warn('⚠️ AI_TASK_TIERS is not valid JSON, using default task tiers');
+    return TASK_TIERS;
+  }
+}
 
 class RequestRouter {
-  constructor() {
-    this.client = new OpenRouterClient();
+  constructor({ client } = {}) {
+    this.client = client || new LLMClient();
     
     // Model tiers with their capabilities
-    this.model = {
-      name: process.env.OPENROUTER_MODEL,
-      maxTokens: 16000,
-      capabilities: ['recipe_analysis', 'ingredient_extraction', 'validation', 'meal_plan_generation'],
-      costMultiplier: 1.0
+    this.tiers = {
+      small: {
+        name: process.env.OPENROUTER_MODEL_SMALL || 'google/gemini-2.5-flash-lite',
+        maxTokens: 8000
+      },
+      medium: {
+        name: process.env.OPENROUTER_MODEL_MEDIUM || process.env.OPENROUTER_MODEL || 'anthropic/claude-3-5-haiku',
+        maxTokens: 16000
+      },
+      large: {
+        name: process.env.OPENROUTER_MODEL_LARGE || 'anthropic/claude-3.5-sonnet',
+        maxTokens: 16000
+      }
     };
+    this.taskTiers = loadTaskTiers();
   }
 
   /**
    * Route request to appropriate model based on task type and complexity
    */
   async route(taskType, input, options = {}) {
-    const { forceModelName } = options;
+    const { forceModelName, forceModel } = options;
 
     if (forceModelName) {
       return this.executeRequestByName(forceModelName, taskType, input, options);
     }
 
-    console.log(`🎯 Routing ${taskType} to primary model`);
-    return this.executeRequest(taskType, input, options);
+    const startTier = TIER_ORDER.includes(forceModel) ? forceModel : this.selectTier(taskType, input);
+    console.log(`🎯 Routing ${taskType} to ${startTier} tier`);
+
+    let lastError;
+    let lastResult = null;
+
+    for (const tier of TIER_ORDER.slice(TIER_ORDER.indexOf(startTier))) {
+      if (lastError || lastResult) {
+        tierStats[tier].escalations++;
+        console.log(`⬆️ Escalating ${taskType} to ${tier} tier: ${lastError ? lastError.message : 'low confidence'}`);
+      }
+
+      let result;
+      try {
+        result = await this.executeRequest(tier, taskType, input, options);
+      } catch (error) {
+        // The call itself failed (outage, budget); keep an unsure answer if there is one
+        if (lastResult) return lastResult;
+        throw error;
+      }
+
+      if (!options.parse) {
+        return result;
+      }
+
+      try {
+        result.parsed = options.parse(result.content, result);
+      } catch (error) {
+        lastError = error;
+        lastResult = null;
+        continue;
+      }
+
+      const confidence = options.confidenceOf
+        ? options.confidenceOf(result.parsed)
+        : result.parsed?.confidence;
+      if (options.minConfidence && typeof confidence === 'number' && confidence < options.minConfidence) {
+        lastError = null;
+        lastResult = result;
+        continue;
+      }
+
+      return result;
+    }
+
+    // Even the largest tier wasn't sure; its answer is still the best one
+    if (lastResult) return lastResult;
+    throw lastError;
   }
 
   async executeRequestByName(modelName, taskType, input, options = {}) {
@@ -43,7 +145,9 @@ class RequestRouter {
       model: modelName,
       maxTokens: options.maxTokens || 4000,
       temperature: options.temperature || this.getTemperatureForTask(taskType),
-      stream: options.stream || false
+      tools: options.tools,
+      onToken: options.onToken,
+      signal: options.signal
     });
 
     return {
@@ -59,10 +163,14 @@ class RequestRouter {
   }
 
   /**
-   * Select the best model for the given task
+   * The tier a task starts on: its configured tier, one up for very complex input
    */
-  selectModel() {
-    return this.model;
+  selectTier(taskType, input) {
+    const tier = this.taskTiers[taskType] || 'medium';
+    if (this.assessComplexity(taskType, input) !== 'very_high') {
+      return tier;
+    }
+    return TIER_ORDER[Math.min(TIER_ORDER.indexOf(tier) + 1, TIER_ORDER.length - 1)];
   }
 
   /**
@@ -84,35 +192,44 @@ class RequestRouter {
   }
 
   /**
-   * Execute the request on the specified model
+   * Execute the request on a tier's model
    */
-  async executeRequest(taskType, input, options = {}) {
-    const model = this.selectModel();
+  async executeRequest(tier, taskType, input, options = {}) {
+    const model = this.tiers[tier];
+    const stats = tierStats[tier];
 
     // Prepare messages based on task type
     const messages = this.prepareMessages(taskType, input, options);
+    const startedAt = Date.now();
+    stats.requests++;
     
-    // Execute with retry logic
     try {
       const result = await this.client.chat(messages, {
         model: model.name,
+        modelTier: tier,
         maxTokens: Math.min(options.maxTokens || model.maxTokens, model.maxTokens),
         temperature: options.temperature || this.getTemperatureForTask(taskType),
-        stream: options.stream || false
+        tools: options.tools,
+        onToken: options.onToken,
+        signal: options.signal
       });
+      stats.successes++;
+      stats.totalLatencyMs += Date.now() - startedAt;
 
       // Add routing metadata
       return {
         ...result,
         routing: {
+          modelTier: tier,
           modelName: model.name,
           taskType,
-          complexity: this.assessComplexity(taskType, input),
-          costMultiplier: model.costMultiplier
+          complexity: this.assessComplexity(taskType, input)
         }
       };
 
     } catch (error) {
+      stats.failures++;
+      stats.totalLatencyMs += Date.now() - startedAt;
       throw error;
     }
   }
@@ -127,11 +244,12 @@ class RequestRouter {
       'ingredient_extraction': 'You are a culinary expert specializing in ingredient analysis. Extract ingredients with precise quantities and units.',
       'recipe_analysis': 'You are a professional chef. Analyze recipes and provide detailed insights.',
       'meal_plan_generation': 'You are a nutritionist and meal planning expert. Create balanced meal plans.',
+      'betsy_interpretation': 'You are Betsy, a helpful kitchen assistant. Your job is to interpret user commands and return structured JSON responses.\n\nIMPORTANT: Respond ONLY with valid JSON, no markdown, no explanation, just the JSON object.',
       'vision_analysis': 'You are a visual analysis expert. Describe images in detail.',
       'complex_reasoning': 'You are an analytical expert. Provide thorough, well-reasoned responses.'
     };
 
-    const systemPrompt = systemPrompts[taskType] || systemPrompts['simple_text'];
+    const systemPrompt = options.systemPrompt || systemPrompts[taskType] || systemPrompts['simple_text'];
     
     let userContent;
     if (options.prompt) {
@@ -158,6 +276,7 @@ class RequestRouter {
       'ingredient_extraction': 0.2,  // Low temperature for accuracy
       'recipe_analysis': 0.5,
       'meal_plan_generation': 0.6,
+      'betsy_interpretation': 0.1,  // Low temperature for consistent intents
       'vision_analysis': 0.3,
       'complex_reasoning': 0.8
     };
@@ -165,12 +284,31 @@ class RequestRouter {
     return temperatures[taskType] || 0.7;
   }
 
+  /**
+   * Success rate and average latency per tier since startup
+   */
+  getTierStats() {
+    return Object.fromEntries(TIER_ORDER.map(tier => {
+      const stats = tierStats[tier];
+      return [tier, {
+        requests: stats.requests,
+        successRate: stats.requests ? stats.successes / stats.requests : null,
+        avgLatencyMs: stats.successes + stats.failures
+          ? Math.round(stats.totalLatencyMs / (stats.successes + stats.failures))
+          : null,
+        escalations: stats.escalations
+      }];
+    }));
+  }
+
   /**
    * Get model information
    */
   getModelInfo() {
     return {
-      model: this.model.name
+      current: Object.fromEntries(TIER_ORDER.map(tier => [tier, this.tiers[tier].name])),
+      taskTiers: this.taskTiers,
+      stats: this.getTierStats()
     };
   }
 
@@ -180,30 +318,34 @@ class RequestRouter {
   async testModels() {
     const results = {};
     
-    try {
-      const testResult = await this.client.chat([
-        { role: 'user', content: `Test response from ${this.model.name}` }
-      ], {
-        model: this.model.name,
-        maxTokens: 10
-      });
-      
-      results[this.model.name] = {
-        status: 'success',
-        model: this.model.name,
-        response: testResult.content,
-        tokens: testResult.usage?.total_tokens || 0
-      };
-    } catch (error) {
-      results[this.model.name] = {
-        status: 'error',
-        model: this.model.name,
-        error: error.message
-      };
+    for (const tier of TIER_ORDER) {
+      const model = this.tiers[tier];
+      try {
+        const testResult = await this.client.chat([
+          { role: 'user', content: `Test response from ${model.name}` }
+        ], {
+          model: model.name,
+          modelTier: tier,
+          maxTokens: 10
+        });
+
+        results[tier] = {
+          status: 'success',
+          model: model.name,
+          response: testResult.content,
+          tokens: testResult.usage?.total_tokens || 0
+        };
+      } catch (error) {
+        results[tier] = {
+          status: 'error',
+          model: model.name,
+          error: error.message
+        };
+      }
     }
     
     return results;
   }
 }
 
-module.exports = RequestRouter;
\ No newline at end of file
+module.exports = RequestRouter;
@@ -1,46 +1,112 @@
 /**
  * Response Cache
- * Redis-based caching system for AI responses to reduce costs and improve performance
+ * Caches AI responses to reduce costs and improve performance.
+ *
+ * Responses live in a cache store (see cache/index.js): Redis by default,
+ * falling back to the ai_response_cache table, or to memory when there's no
+ * database either. Every ResponseCache shares one store, one expiry cleanup
+ * timer and one set of hit/miss counts. How long a response is kept depends on
+ * its task type (TASK_TTLS, overridden by AI_CACHE_TTLS), with AI_CACHE_TTL
+ * for the rest.
  */
 
-const redis = require('redis');
 const crypto = require('crypto');
+const { createCacheStore } = require('./cache');
+
+// Seconds to keep responses for each task type
+const TASK_TTLS = {
+  // A recipe page rarely changes once published
+  recipe_url_import_fast: 7 * 24 * 3600,
+  information_extraction: 24 * 3600,
+  smart_processing: 24 * 3600
+};
+
+let database = null;
+let sharedStore = null;
+let cleanupTimer = null;
+
+// Hits and misses per task type since the server started
+const cacheStats = {};
+
+function loadTaskTtls() {
+  if (!process.env.AI_CACHE_TTLS) return TASK_TTLS;
+
+  try {
+    const overrides = JSON.parse(process.env.AI_CACHE_TTLS);
+    const valid = Object.entries(overrides).filter(([, ttl]) => Number.isInteger(ttl) && ttl > 0);
+    return { ...TASK_TTLS, ...Object.fromEntries(valid) };
+  } catch (error) {
+    console.warn('⚠️ AI_CACHE_TTLS is not valid JSON, using default cache TTLs');
+    return TASK_TTLS;
+  }
+}
+
+function recordLookup(taskType, hit) {
+  const stats = cacheStats[taskType] || (cacheStats[taskType] = { hits: 0, misses: 0 });
+  if (hit) stats.hits++;
+  else stats.misses++;
+}
+
+function hitRate({ hits, misses }) {
+  return hits + misses ? hits / (hits + misses) : null;
+}
+
+function startCleanup() {
+  if (cleanupTimer) return;
+
+  const interval = (parseInt(process.env.AI_CACHE_CLEANUP_INTERVAL) || 600) * 1000;
+  cleanupTimer = setInterval(async () => {
+    try {
+      const removed = await sharedStore.cleanup();
+      if (removed > 0) {
+        console.log(`🧹 Removed ${removed} expired AI cache entries from ${sharedStore.name}`);
+      }
+    } catch (error) {
+      console.error('Cache cleanup error:', error);
+    }
+  }, interval);
+  // Don't keep the process alive just to clean the cache
+  cleanupTimer.unref();
+}
+
+function getSharedStore() {
+  if (!sharedStore) {
+    sharedStore = createCacheStore(undefined, {
+      db: database,
+      onUnavailable: () => {
+        sharedStore = createCacheStore(database ? 'postgres' : 'memory', { db: database });
+        console.warn(`⚠️ Redis is unavailable, caching AI responses in ${sharedStore.name} instead`);
+      }
+    });
+    console.log(`💾 Caching AI responses in ${sharedStore.name}`);
+    startCleanup();
+  }
+  return sharedStore;
+}
 
 class ResponseCache {
-  constructor() {
+  constructor({ store = null } = {}) {
     this.isEnabled = process.env.AI_ENABLE_CACHING === 'true';
     this.ttl = parseInt(process.env.AI_CACHE_TTL) || 3600; // 1 hour default
-    
-    if (this.isEnabled) {
-      this.initRedis();
-    } else {
+    this.taskTtls = loadTaskTtls();
+    // Tests pass their own store; everything else shares one
+    this.store = store;
+
+    if (!this.isEnabled) {
       console.log('🚫 AI caching is disabled');
     }
   }
 
-  /**
-   * Initialize Redis connection
-   */
-  async initRedis() {
-    try {
-      this.client = redis.createClient({
-        url: process.env.REDIS_URL || 'redis://localhost:6379'
-      });
-
-      this.client.on('error', (err) => {
-        console.error('Redis Client Error:', err);
-        this.isEnabled = false;
-      });
+  async getStore() {
+    if (this.store) return this.store;
 
-      this.client.on('connect', () => {
-        console.log('✅ Redis connected for AI caching');
-      });
+    // Wait until Redis has connected or been given up on for the fallback
+    await getSharedStore().ready;
+    return getSharedStore();
+  }
 
-      await this.client.connect();
-    } catch (error) {
-      console.error('Failed to initialize Redis for caching:', error);
-      this.isEnabled = false;
-    }
+  ttlFor(taskType) {
+    return this.taskTtls[taskType] || this.ttl;
   }
 
   /**
@@ -57,7 +123,7 @@ class ResponseCache {
 
     const keyString = JSON.stringify(keyData);
     const hash = crypto.createHash('sha256').update(keyString).digest('hex');
-    
+
     return `ai_cache:${taskType}:${hash}`;
   }
 
@@ -65,28 +131,29 @@ class ResponseCache {
    * Get cached response
    */
   async get(taskType, input, options = {}) {
-    if (!this.isEnabled || !this.client) {
+    if (!this.isEnabled) {
       return null;
     }
 
     try {
       const key = this.generateCacheKey(taskType, input, options);
-      const cached = await this.client.get(key);
-      
-      if (cached) {
-        const data = JSON.parse(cached);
+      const store = await this.getStore();
+      const data = await store.get(key);
+      recordLookup(taskType, Boolean(data));
+
+      if (data) {
         console.log(`🎯 Cache hit for ${taskType}: ${key.substring(0, 20)}...`);
-        
+
         return {
           ...data,
           fromCache: true,
           cacheKey: key
         };
       }
-      
+
       console.log(`❌ Cache miss for ${taskType}: ${key.substring(0, 20)}...`);
       return null;
-      
+
     } catch (error) {
       console.error('Cache get error:', error);
       return null;
@@ -97,23 +164,25 @@ class ResponseCache {
    * Set cache response
    */
   async set(taskType, input, response, options = {}) {
-    if (!this.isEnabled || !this.client) {
+    if (!this.isEnabled) {
       return;
     }
 
     try {
       const key = this.generateCacheKey(taskType, input, options);
-      
+      const ttl = this.ttlFor(taskType);
+
       const cacheData = {
         response,
         timestamp: new Date().toISOString(),
         taskType,
-        ttl: this.ttl
+        ttl
       };
 
-      await this.client.setEx(key, this.ttl, JSON.stringify(cacheData));
+      const store = await this.getStore();
+      await store.set(key, cacheData, ttl);
       console.log(`💾 Cached response for ${taskType}: ${key.substring(0, 20)}...`);
-      
+
     } catch (error) {
       console.error('Cache set error:', error);
     }
@@ -123,19 +192,17 @@ class ResponseCache {
    * Invalidate cache for a specific task type
    */
   async invalidate(taskType) {
-    if (!this.isEnabled || !this.client) {
+    if (!this.isEnabled) {
       return;
     }
 
     try {
-      const pattern = `ai_cache:${taskType}:*`;
-      const keys = await this.client.keys(pattern);
-      
-      if (keys.length > 0) {
-        await this.client.del(keys);
-        console.log(`🗑️ Invalidated ${keys.length} cache entries for ${taskType}`);
+      const store = await this.getStore();
+      const removed = await store.deleteByPrefix(`ai_cache:${taskType}:`);
+      if (removed > 0) {
+        console.log(`🗑️ Invalidated ${removed} cache entries for ${taskType}`);
       }
-      
+
     } catch (error) {
       console.error('Cache invalidate error:', error);
     }
@@ -145,58 +212,81 @@ class ResponseCache {
    * Clear all AI cache
    */
   async clear() {
-    if (!this.isEnabled || !this.client) {
+    if (!this.isEnabled) {
       return;
     }
 
     try {
-      const pattern = 'ai_cache:*';
-      const keys = await this.client.keys(pattern);
-      
-      if (keys.length > 0) {
-        await this.client.del(keys);
-        console.log(`🗑️ Cleared ${keys.length} AI cache entries`);
+      const store = await this.getStore();
+      const removed = await store.deleteByPrefix('ai_cache:');
+      if (removed > 0) {
+        console.log(`🗑️ Cleared ${removed} AI cache entries`);
       }
-      
+
     } catch (error) {
       console.error('Cache clear error:', error);
     }
   }
 
   /**
-   * Get cache statistics
+   * Remove expired entries now rather than waiting for the cleanup timer
+   */
+  async cleanup() {
+    if (!this.isEnabled) {
+      return 0;
+    }
+    const store = await this.getStore();
+    return store.cleanup();
+  }
+
+  /**
+   * Get cache statistics: entries per task type, and hit rates since the
+   * server started
    */
   async getStats() {
-    if (!this.isEnabled || !this.client) {
+    if (!this.isEnabled) {
       return { enabled: false };
     }
 
+    const store = await this.getStore();
+    const totals = Object.values(cacheStats).reduce(
+      (sum, stats) => ({ hits: sum.hits + stats.hits, misses: sum.misses + stats.misses }),
+      { hits: 0, misses: 0 }
+    );
+
+    const stats = {
+      enabled: true,
+      store: store.name,
+      ttl: this.ttl,
+      taskTtls: this.taskTtls,
+      hits: totals.hits,
+      misses: totals.misses,
+      hitRate: hitRate(totals),
+      byTaskType: Object.fromEntries(Object.entries(cacheStats).map(([taskType, counts]) => [
+        taskType,
+        { ...counts, hitRate: hitRate(counts) }
+      ]))
+    };
+
     try {
-      const pattern = 'ai_cache:*';
-      const keys = await this.client.keys(pattern);
-      
-      const stats = {
-        enabled: true,
-        totalEntries: keys.length,
-        ttl: this.ttl,
-        connected: this.client.isOpen
-      };
+      const keys = await store.keys('ai_cache:');
 
       // Get breakdown by task type
       const taskTypes = {};
       for (const key of keys) {
-        const taskType = key.split(':')[2];
+        const taskType = key.split(':')[1];
         taskTypes[taskType] = (taskTypes[taskType] || 0) + 1;
       }
-      
+
+      stats.totalEntries = keys.length;
       stats.taskTypes = taskTypes;
-      
-      return stats;
-      
+
     } catch (error) {
       console.error('Cache stats error:', error);
-      return { enabled: true, error: error.message };
+      stats.error = error.message;
     }
+
+    return stats;
   }
 
   /**
@@ -229,7 +319,7 @@ class ResponseCache {
     if (!shouldBypassCache) {
       await this.set(taskType, input, response, options);
     }
-    
+
     return response;
   }
 
@@ -241,27 +331,35 @@ class ResponseCache {
       return { status: 'disabled' };
     }
 
+    const store = await this.getStore();
     try {
-      if (!this.client || !this.client.isOpen) {
-        return { status: 'disconnected' };
-      }
-
-      await this.client.ping();
-      return { status: 'connected' };
-      
+      return { ...(await store.healthCheck()), store: store.name };
     } catch (error) {
-      return { status: 'error', message: error.message };
+      return { status: 'error', store: store.name, message: error.message };
     }
   }
 
   /**
-   * Close Redis connection
+   * Close the store's connection
    */
   async close() {
-    if (this.client) {
-      await this.client.quit();
+    if (this.store) {
+      await this.store.close();
+      return;
+    }
+
+    if (sharedStore) {
+      clearInterval(cleanupTimer);
+      cleanupTimer = null;
+      await sharedStore.close();
+      sharedStore = null;
     }
   }
 }
 
-module.exports = ResponseCache;
\ No newline at end of file
+// Lets the cache fall back to ai_response_cache; without it, it falls back to memory
+ResponseCache.setDatabase = db => {
+  database = db;
+};
+
+module.exports = ResponseCache;
@@ -1,9 +1,14 @@
-const OpenRouterClient = require('./OpenRouterClient');
+const LLMClient = require('./LLMClient');
+const RequestRouter = require('./RequestRouter');
+const { isBudgetExceeded } = require('./UsageLedger');
 const { query } = require('../../config/database');
+const { describeMemberNeeds } = require('../households/householdService');
+const { visibleRecipeCondition } = require('../recipes/recipeAccess');
 
 class SmartMealPlanner {
   constructor() {
-    this.client = new OpenRouterClient();
+    this.client = new LLMClient();
+    this.router = new RequestRouter({ client: this.client });
   }
 
   async generateMealPlan(options) {
@@ -15,11 +20,13 @@ class SmartMealPlanner {
       preferences = {},
       constraints = [],
       recipeSource = 'mixed',
-      peopleCount = 4
+      peopleCount = 4,
+      household = null
     } = options;
 
     console.log('🍳 [SMART_MEAL_PLANNER] Starting meal plan generation:', {
       userId,
+      householdId: household?.householdId || null,
       startDate,
       endDate,
       mealTypes,
@@ -60,54 +67,36 @@ class SmartMealPlanner {
       constraints,
       recipeSource,
       peopleCount,
-      savedRecipes
+      savedRecipes,
+      household
     });
 
     console.log('🤖 [SMART_MEAL_PLANNER] AI Service Check:', {
       hasApiKey: !!process.env.OPENROUTER_API_KEY,
       apiKeyLength: process.env.OPENROUTER_API_KEY?.length || 0,
-      model: process.env.OPENROUTER_MEAL_PLANNER_MODEL || 'anthropic/claude-3-5-haiku-20241022',
+      model: process.env.OPENROUTER_MEAL_PLANNER_MODEL || `${this.router.selectTier('meal_plan_generation', prompt)} tier`,
       promptLength: prompt.length
     });
 
-    // Models to try in order - all ZDR-compatible (fast/cheap first)
-    const modelsToTry = [
-      process.env.OPENROUTER_MEAL_PLANNER_MODEL || 'anthropic/claude-3-5-haiku-20241022',
-      'google/gemini-2.5-flash-lite',  // ZDR via Google - fast & cheap
-      'google/gemini-2.5-flash'  // ZDR via Google - slightly more capable
-    ];
-    
     let response = null;
-    let usedModel = null;
     
-    for (const model of modelsToTry) {
-      try {
-        console.log(`🔄 [SMART_MEAL_PLANNER] Attempting AI generation with ${model}...`);
-        response = await this.client.chat([
-          {
-            role: 'user',
-            content: prompt
+    try {
+      // Starts on the meal_plan_generation tier and moves up a tier when the
+      // answer has no usable meals; OPENROUTER_MEAL_PLANNER_MODEL pins one model
+      response = await this.router.route('meal_plan_generation', prompt, {
+        prompt,
+        temperature: 0.7,
+        maxTokens: 6000,  // Balanced for detailed instructions
+        forceModelName: process.env.OPENROUTER_MEAL_PLANNER_MODEL,
+        parse: content => {
+          const plan = this.parseMealPlanResponse({ content }, dayCount, mealTypes);
+          if (!plan?.meals?.length) {
+            throw new Error('Meal plan response has no meals');
           }
-        ], {
-          model,
-          temperature: 0.7,
-          maxTokens: 6000  // Balanced for detailed instructions
-        });
-        usedModel = model;
-        console.log(`✅ [SMART_MEAL_PLANNER] Success with ${model}`);
-        break; // Success - exit the loop
-      } catch (modelError) {
-        console.log(`⚠️ [SMART_MEAL_PLANNER] ${model} failed: ${modelError.message}`);
-        if (model === modelsToTry[modelsToTry.length - 1]) {
-          // Last model also failed, throw the error
-          throw modelError;
+          return plan;
         }
-        // Try next model
-        continue;
-      }
-    }
-    
-    try {
+      });
+      console.log(`✅ [SMART_MEAL_PLANNER] Success with ${response.routing.modelName}`);
 
       console.log('✅ [SMART_MEAL_PLANNER] AI response received:', {
         hasContent: !!response?.content,
@@ -117,7 +106,7 @@ class SmartMealPlanner {
 
       let mealPlanData;
       try {
-        mealPlanData = this.parseMealPlanResponse(response, dayCount, mealTypes);
+        mealPlanData = response.parsed || this.parseMealPlanResponse(response, dayCount, mealTypes);
         console.log('✅ [SMART_MEAL_PLANNER] Successfully parsed meal plan:', {
           mealCount: mealPlanData?.meals?.length || 0,
           expectedCount: dayCount * mealTypes.length
@@ -237,7 +226,9 @@ class SmartMealPlanner {
         mealPlan: fallback,
         rawResponse: null,
         fallback: true,
-        message: 'Returned fallback meal plan due to AI unavailability'
+        message: isBudgetExceeded(error)
+          ? 'Returned fallback meal plan because your AI budget is used up'
+          : 'Returned fallback meal plan due to AI unavailability'
       };
     }
   }
@@ -251,7 +242,8 @@ class SmartMealPlanner {
       constraints,
       recipeSource,
       peopleCount,
-      savedRecipes = []
+      savedRecipes = [],
+      household = null
     } = options;
 
     const startDateObj = new Date(startDate);
@@ -286,8 +278,15 @@ Mix saved and new recipes throughout the week for variety.`;
       }
     }
 
+    // Every household member's needs have to be met, not just the requester's
+    const memberNeeds = describeMemberNeeds(household);
+    const householdSection = memberNeeds.length > 0
+      ? `Household members' needs (every meal must suit all of them): ${memberNeeds.join('; ')}`
+      : '';
+
     let prompt = `Generate ${totalMeals} meals for ${peopleCount} people from ${startDate} to ${endDate}.
 Dietary: ${preferences.dietary || 'none'}, Budget: ${preferences.budget || 'moderate'}
+${householdSection}
 Meal types: ${mealTypes.join(', ')}
 ${savedRecipesSection}
 
@@ -920,10 +919,12 @@ Step 5: Bake 30 minutes until apples are tender and topping is golden.`,
     const values = [];
 
     if (recipeSource === 'saved' || recipeSource === 'mixed') {
-      conditions.push('(recipes.user_id = $1 OR recipes.is_public = true)');
+      // Same rule as the recipe endpoints: own, public, and shared with the
+      // user by name or through their household
+      conditions.push(visibleRecipeCondition('recipes', '$1'));
       values.push(userId);
     } else {
-      conditions.push('recipes.is_public = true');
+      conditions.push(visibleRecipeCondition('recipes', null));
     }
 
     conditions.push('recipes.instructions IS NOT NULL');
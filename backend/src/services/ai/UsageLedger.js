@@ -0,0 +1,154 @@
+/**
+ * Usage Ledger
+ * Writes every model call to ai_usage_logs and enforces each user's
+ * daily and monthly AI spending limits.
+ *
+ * Calls are attributed to the user and endpoint of the request they're made
+ * for. Routes that reach the AI services run inside trackAiUsage
+ * (middleware/aiUsage.js), and LLMClient reads them back with
+ * currentUsage(), so the agents in between don't have to pass them along.
+ */
+
+const { AsyncLocalStorage } = require('async_hooks');
+
+const usageContext = new AsyncLocalStorage();
+
+function runWithUsage(context, fn) {
+  return usageContext.run(context, fn);
+}
+
+// The user and endpoint the current call is made for, or {} outside a request
+function currentUsage() {
+  return usageContext.getStore() || {};
+}
+
+function isBudgetExceeded(error) {
+  return error?.code === 'AI_BUDGET_EXCEEDED';
+}
+
+function toNumber(value) {
+  return parseFloat(value) || 0;
+}
+
+class UsageLedger {
+  constructor(db) {
+    this.db = db;
+    // Spending limits per user in USD; 0 turns a limit off
+    this.dailyLimit = parseFloat(process.env.AI_MAX_COST_PER_USER_DAILY) || 0;
+    this.monthlyLimit = parseFloat(process.env.AI_MAX_COST_PER_USER_MONTHLY) || 0;
+  }
+
+  async record({
+    userId = null,
+    endpoint = null,
+    modelTier = null,
+    modelName,
+    usage = {},
+    cost = 0,
+    latencyMs,
+    success = true,
+    errorMessage = null
+  }) {
+    await this.db.query(
+      `INSERT INTO ai_usage_logs (
+         user_id, endpoint, model_tier, model_name, prompt_tokens, completion_tokens,
+         total_tokens, estimated_cost, latency_ms, success, error_message
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        userId, endpoint, modelTier, modelName,
+        usage.prompt_tokens || 0, usage.completion_tokens || 0, usage.total_tokens || 0,
+        cost, latencyMs, success, errorMessage
+      ]
+    );
+  }
+
+  /**
+   * A user's spend, tokens and requests for today and this calendar month
+   */
+  async getTotals(userId) {
+    const result = await this.db.query(
+      `SELECT
+         COALESCE(SUM(estimated_cost) FILTER (WHERE created_at >= date_trunc('day', CURRENT_TIMESTAMP)), 0) AS daily_cost,
+         COALESCE(SUM(total_tokens) FILTER (WHERE created_at >= date_trunc('day', CURRENT_TIMESTAMP)), 0) AS daily_tokens,
+         COUNT(*) FILTER (WHERE created_at >= date_trunc('day', CURRENT_TIMESTAMP))::int AS daily_requests,
+         COALESCE(SUM(estimated_cost), 0) AS monthly_cost,
+         COALESCE(SUM(total_tokens), 0) AS monthly_tokens,
+         COUNT(*)::int AS monthly_requests
+       FROM ai_usage_logs
+       WHERE user_id = $1 AND created_at >= date_trunc('month', CURRENT_TIMESTAMP)`,
+      [userId]
+    );
+    const row = result.rows[0] || {};
+    return {
+      daily: { cost: toNumber(row.daily_cost), tokens: toNumber(row.daily_tokens), requests: row.daily_requests || 0 },
+      monthly: { cost: toNumber(row.monthly_cost), tokens: toNumber(row.monthly_tokens), requests: row.monthly_requests || 0 }
+    };
+  }
+
+  /**
+   * Which limit the user has reached, if any
+   */
+  exceededLimit(totals) {
+    if (this.dailyLimit > 0 && totals.daily.cost >= this.dailyLimit) return 'daily';
+    if (this.monthlyLimit > 0 && totals.monthly.cost >= this.monthlyLimit) return 'monthly';
+    return null;
+  }
+
+  /**
+   * Throws an AI_BUDGET_EXCEEDED error once the user has spent their allowance,
+   * so callers fall back to their non-AI paths
+   */
+  async assertWithinBudget(userId) {
+    const period = this.exceededLimit(await this.getTotals(userId));
+    if (!period) return;
+
+    const limit = period === 'daily' ? this.dailyLimit : this.monthlyLimit;
+    const error = new Error(`AI ${period} budget of $${limit.toFixed(2)} reached`);
+    error.code = 'AI_BUDGET_EXCEEDED';
+    throw error;
+  }
+
+  /**
+   * Totals, limits and this month's spend per endpoint, for the usage dashboard
+   */
+  async getUsage(userId) {
+    const totals = await this.getTotals(userId);
+    const byEndpoint = await this.db.query(
+      `SELECT COALESCE(endpoint, 'other') AS endpoint,
+              COUNT(*)::int AS requests,
+              COALESCE(SUM(total_tokens), 0) AS tokens,
+              COALESCE(SUM(estimated_cost), 0) AS cost
+       FROM ai_usage_logs
+       WHERE user_id = $1 AND created_at >= date_trunc('month', CURRENT_TIMESTAMP)
+       GROUP BY 1
+       ORDER BY cost DESC`,
+      [userId]
+    );
+    const now = new Date();
+
+    return {
+      dailyUsage: {
+        ...totals.daily,
+        limit: this.dailyLimit || null,
+        date: now.toISOString().slice(0, 10)
+      },
+      monthlyUsage: {
+        ...totals.monthly,
+        limit: this.monthlyLimit || null,
+        month: now.toISOString().slice(0, 7)
+      },
+      byEndpoint: byEndpoint.rows.map(row => ({
+        endpoint: row.endpoint,
+        requests: row.requests,
+        tokens: toNumber(row.tokens),
+        cost: toNumber(row.cost)
+      })),
+      budgetExceeded: this.exceededLimit(totals)
+    };
+  }
+}
+
+module.exports = UsageLedger;
+module.exports.runWithUsage = runWithUsage;
+module.exports.currentUsage = currentUsage;
+module.exports.isBudgetExceeded = isBudgetExceeded;
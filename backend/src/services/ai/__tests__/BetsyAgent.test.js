@@ -0,0 +1,175 @@
+const BetsyAgent = require('../BetsyAgent');
+
+describe('BetsyAgent commands with several steps', () => {
+  const agent = new BetsyAgent();
+  const answer = {
+    actions: [
+      { intent: 'add_shopping_item', entities: { items: [{ name: 'milk' }, { name: 'eggs' }] } },
+      { intent: 'generate_meals', entities: { timeRange: 'this_week' } },
+      { intent: 'move_meal', entities: { fromDay: 'monday', fromMealType: 'lunch', toDay: 'friday', toMealType: 'lunch' } }
+    ],
+    confidence: 0.9,
+    response: "On it: milk and eggs, this week's dinners, and Monday's lunch on Friday."
+  };
+
+  test('every step comes back in order, led by the first', () => {
+    const result = agent.parseIntent(JSON.stringify(answer));
+
+    expect(result.intent).toBe('add_shopping_item');
+    expect(result.response).toBe(answer.response);
+    expect(result.actions.map(action => action.intent)).toEqual(['add_shopping_item', 'generate_meals', 'move_meal']);
+    expect(result.actions.map(action => action.description)).toEqual([
+      'Adding 2 items to your shopping list',
+      'Generating meals for this week',
+      'Moving Monday lunch to Friday lunch'
+    ]);
+    expect(agent.describeAction(result)).toBe('Working through 3 steps');
+  });
+
+  test('a single step answers the way it always has', () => {
+    const result = agent.parseIntent(JSON.stringify({ actions: answer.actions.slice(0, 1), confidence: 0.9 }));
+
+    expect(result.intent).toBe('add_shopping_item');
+    expect(result).not.toHaveProperty('actions');
+  });
+
+  test('commands with several steps go to the model even when a pattern matches', async () => {
+    agent.router.client = { chat: jest.fn(async () => ({ content: JSON.stringify(answer) })) };
+    const input = "add milk and eggs, then plan dinners for this week and move monday's lunch to friday";
+
+    expect(agent.fallbackInterpret(input).intent).not.toBe('unknown');
+
+    const result = await agent.interpret(input);
+
+    expect(agent.router.client.chat).toHaveBeenCalled();
+    expect(result.actions).toHaveLength(3);
+  });
+});
+
+describe('BetsyAgent undo and redo', () => {
+  const agent = new BetsyAgent();
+
+  test.each([
+    ['Betsy, undo that', 'undo'],
+    ['undo clearing the meals', 'undo'],
+    ['take that back', 'undo'],
+    ['redo', 'redo']
+  ])('"%s" is %s', (input, intent) => {
+    expect(agent.fallbackInterpret(input).intent).toBe(intent);
+  });
+
+  test('"undo that" skips the model even in the middle of a conversation', async () => {
+    agent.router.client = { chat: jest.fn() };
+    const history = [{ role: 'user', content: 'clear the meals for this week', metadata: { intent: 'clear_meals' } }];
+
+    const result = await agent.interpret('Betsy, undo that', { history });
+
+    expect(result.intent).toBe('undo');
+    expect(agent.router.client.chat).not.toHaveBeenCalled();
+  });
+});
+
+describe('BetsyAgent risk levels', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test('a command is as risky as its riskiest step', () => {
+    const agent = new BetsyAgent();
+    const result = agent.assessRisk({
+      intent: 'add_shopping_item',
+      entities: {},
+      actions: [
+        { intent: 'add_shopping_item', entities: {} },
+        { intent: 'clear_meals', entities: { timeRange: 'this_week' } }
+      ]
+    });
+
+    expect(result.actions.map(action => action.risk)).toEqual(['low', 'high']);
+    expect(result.risk).toBe('high');
+    expect(agent.assessRisk({ intent: 'help', entities: {} }).risk).toBe('low');
+  });
+
+  test('BETSY_RISK_LEVELS changes the level of an intent and ignores unknown levels', () => {
+    process.env.BETSY_RISK_LEVELS = JSON.stringify({ clear_meals: 'medium', move_meal: 'high', delete_recipe: 'extreme' });
+    const agent = new BetsyAgent();
+
+    expect(agent.riskOf('clear_meals')).toBe('medium');
+    expect(agent.riskOf('move_meal')).toBe('high');
+    expect(agent.riskOf('delete_recipe')).toBe('high');
+  });
+});
+
+describe('BetsyAgent cooked meals', () => {
+  const agent = new BetsyAgent();
+
+  test.each([
+    ["I cooked tuesday's dinner", { day: 'tuesday', mealType: 'dinner' }],
+    ['we ate lunch', { day: 'today', mealType: 'lunch' }]
+  ])('"%s" marks the meal cooked', (input, entities) => {
+    const result = agent.fallbackInterpret(input);
+
+    expect(result.intent).toBe('mark_meal_cooked');
+    expect(result.entities).toEqual(entities);
+  });
+
+  test('marking a meal cooked asks first when spoken, since it changes the pantry', () => {
+    expect(agent.riskOf('mark_meal_cooked')).toBe('medium');
+  });
+});
+
+describe('BetsyAgent tool calling', () => {
+  const toolCall = (name, args) => ({ id: `call-${name}`, name, arguments: JSON.stringify(args) });
+
+  test('models that call tools get them, and each call becomes a step', async () => {
+    const agent = new BetsyAgent();
+    agent.router.client = {
+      provider: { supportsTools: true },
+      chat: jest.fn(async () => ({
+        content: "Milk's on the list and the week is planned!",
+        toolCalls: [
+          toolCall('add_shopping_item', { items: [{ name: 'milk' }] }),
+          toolCall('generate_meals', { timeRange: 'this_week' })
+        ]
+      }))
+    };
+
+    const result = await agent.interpret('add milk, then plan meals for this week');
+    const [, options] = agent.router.client.chat.mock.calls[0];
+
+    expect(options.tools.map(({ function: definition }) => definition.name)).toContain('add_shopping_item');
+    expect(result.response).toBe("Milk's on the list and the week is planned!");
+    expect(result.actions.map(action => [action.intent, action.entities])).toEqual([
+      ['add_shopping_item', { items: [{ name: 'milk' }] }],
+      ['generate_meals', { timeRange: 'this_week' }]
+    ]);
+  });
+
+  test('arguments that break the schema go to a bigger model', async () => {
+    const agent = new BetsyAgent();
+    agent.router.client = {
+      provider: { supportsTools: true },
+      chat: jest.fn()
+        .mockResolvedValueOnce({ content: '', toolCalls: [toolCall('clear_meals', { timeRange: 'all' })] })
+        .mockResolvedValueOnce({ content: '', toolCalls: [toolCall('clear_meals', { timeRange: 'this_week' })] })
+    };
+
+    const result = await agent.interpret('wipe out everything planned this week, then make a fresh plan');
+
+    expect(agent.router.client.chat).toHaveBeenCalledTimes(2);
+    expect(result.intent).toBe('clear_meals');
+    expect(result.entities).toEqual({ timeRange: 'this_week' });
+    expect(result.response).toBe(agent.getDefaultResponse('clear_meals'));
+  });
+
+  test('JSON answers are checked against the same schemas', () => {
+    const agent = new BetsyAgent();
+
+    expect(() => agent.parseIntent(JSON.stringify({ intent: 'move_meal', entities: { fromDay: 'monday' } })))
+      .toThrow('Invalid move_meal arguments');
+    expect(agent.parseIntent(JSON.stringify({ intent: 'add_meal', entities: { food: 'soup', mealType: 'lunch', day: null } })).entities)
+      .toEqual({ food: 'soup', mealType: 'lunch' });
+  });
+});
@@ -0,0 +1,87 @@
+const ConversationStore = require('../ConversationStore');
+const BetsyAgent = require('../BetsyAgent');
+
+// Minimal stand-in for a pg client: answers each query through `respond`
+function createDb(respond = () => []) {
+  const calls = [];
+  return {
+    calls,
+    query: jest.fn(async (text, params) => {
+      calls.push({ text, params });
+      return { rows: respond(text, params) };
+    })
+  };
+}
+
+describe('ConversationStore', () => {
+  test('new conversations are titled after their first message', async () => {
+    const db = createDb(text => (text.includes('INSERT INTO ai_conversations') ? [{ id: 'conversation-1' }] : []));
+    const store = new ConversationStore(db);
+
+    await store.createConversation('user-1', '  plan tacos for dinner on tuesday  ');
+    await store.createConversation('user-1', 'a'.repeat(80));
+
+    expect(db.calls[0].params).toEqual(['user-1', 'plan tacos for dinner on tuesday']);
+    expect(db.calls[1].params[1]).toHaveLength(60);
+    expect(db.calls[1].params[1].endsWith('…')).toBe(true);
+  });
+
+  test('messages store their metadata and bump the conversation', async () => {
+    const db = createDb(text => (text.includes('INSERT INTO ai_messages') ? [{ id: 'message-1' }] : []));
+    const store = new ConversationStore(db);
+
+    await store.addMessage('conversation-1', {
+      role: 'user',
+      content: 'move it to thursday',
+      metadata: { intent: 'move_meal', entities: { toDay: 'thursday' } }
+    });
+
+    expect(db.calls[0].params).toEqual([
+      'conversation-1', 'user', 'move it to thursday',
+      JSON.stringify({ intent: 'move_meal', entities: { toDay: 'thursday' } }), null, null
+    ]);
+    expect(db.calls[1].text).toContain('UPDATE ai_conversations SET updated_at');
+  });
+
+  test('conversations are only found for their owner', async () => {
+    const store = new ConversationStore(createDb());
+    expect(await store.findConversation('someone-else', 'conversation-1')).toBeNull();
+    expect(await store.deleteConversation('someone-else', 'conversation-1')).toBe(false);
+  });
+});
+
+describe('BetsyAgent conversation history', () => {
+  const agent = new BetsyAgent();
+  const history = [
+    {
+      role: 'user',
+      content: 'plan tacos for dinner tuesday',
+      metadata: { intent: 'add_meal', entities: { food: 'tacos', mealType: 'dinner', day: 'tuesday' } }
+    },
+    { role: 'assistant', content: 'I\'ll add "tacos" for dinner.' }
+  ];
+
+  test('earlier turns go into the interpretation prompt', () => {
+    const prompt = agent.buildInterpretationPrompt('move it to thursday', { history });
+
+    expect(prompt).toContain('RECENT CONVERSATION');
+    expect(prompt).toContain('User: "plan tacos for dinner tuesday" → add_meal {"food":"tacos","mealType":"dinner","day":"tuesday"}');
+    expect(prompt).toContain('Betsy: I\'ll add "tacos" for dinner.');
+    expect(agent.buildInterpretationPrompt('move it to thursday', {})).not.toContain('RECENT CONVERSATION');
+  });
+
+  test('follow-ups skip the pattern matcher when there is history', async () => {
+    agent.router.client = {
+      chat: jest.fn(async () => ({
+        content: JSON.stringify({ intent: 'add_to_shopping_list', entities: { itemText: 'tacos' }, response: 'Added!' })
+      }))
+    };
+
+    expect(agent.fallbackInterpret('add that to my shopping list').intent).toBe('add_to_shopping_list');
+
+    const result = await agent.interpret('add that to my shopping list', { history });
+
+    expect(agent.router.client.chat).toHaveBeenCalled();
+    expect(result.entities).toEqual({ itemText: 'tacos' });
+  });
+});
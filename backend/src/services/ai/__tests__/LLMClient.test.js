@@ -0,0 +1,183 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const LLMClient = require('../LLMClient');
+const BetsyAgent = require('../BetsyAgent');
+const { createProvider, FixtureProvider } = require('../providers');
+
+const messages = [{ role: 'user', content: 'Suggest a dinner' }];
+
+describe('LLM providers', () => {
+  const originalEnv = { ...process.env };
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    global.fetch = originalFetch;
+  });
+
+  test('fixtures answer matching requests without a network or API key', async () => {
+    const provider = new FixtureProvider({
+      fixtures: [{ match: 'dinner', response: { content: 'Tacos' } }]
+    });
+    const client = new LLMClient({ provider });
+
+    const result = await client.chat(messages, { model: 'anthropic/claude-3-5-haiku' });
+
+    expect(result.content).toBe('Tacos');
+    expect(result.usage.total_tokens).toBe(0);
+    expect(client.calculateCost('anthropic/claude-3-5-haiku', 0, 0)).toBe(0);
+  });
+
+  test('record mode saves what the upstream model says, and replay gives it back', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-fixtures-'));
+    const upstream = {
+      billed: true,
+      isConfigured: () => true,
+      complete: jest.fn(async () => ({ content: 'Curry', usage: { total_tokens: 12 }, model: 'm', id: 'x' }))
+    };
+
+    const recorder = new LLMClient({ provider: new FixtureProvider({ dir, mode: 'record', upstream }) });
+    expect((await recorder.chat(messages, { model: 'm' })).content).toBe('Curry');
+    expect(fs.readdirSync(dir)).toHaveLength(1);
+
+    const replayer = new LLMClient({ provider: new FixtureProvider({ dir }) });
+    expect((await replayer.chat(messages, { model: 'm' })).content).toBe('Curry');
+    expect(upstream.complete).toHaveBeenCalledTimes(1);
+
+    // A different request has no recording
+    await expect(replayer.chat(messages, { model: 'other' })).rejects.toThrow('No AI fixture');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('the local provider sends every request to the configured local model', async () => {
+    process.env.AI_LOCAL_BASE_URL = 'http://localhost:8080/v1/';
+    process.env.AI_LOCAL_MODEL = 'llama3.1:8b';
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'OK' } }], model: 'llama3.1:8b' })
+    }));
+
+    const provider = createProvider('local');
+    await new LLMClient({ provider }).chat(messages, { model: 'anthropic/claude-3-5-haiku' });
+
+    const [url, request] = global.fetch.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(JSON.parse(request.body).model).toBe('llama3.1:8b');
+    expect(request.headers.Authorization).toBeUndefined();
+    expect(provider.billed).toBe(false);
+  });
+
+  test('Betsy runs offline on the fixtures shipped in fixtures/ai', async () => {
+    process.env.AI_PROVIDER = 'fixture';
+    const agent = new BetsyAgent();
+
+    const planned = await agent.interpret('we have friends over saturday night, lasagna sounds good for dinner');
+    expect(planned.intent).toBe('add_meal');
+    expect(planned.entities).toEqual({ food: 'lasagna', mealType: 'dinner', day: 'saturday' });
+
+    // Nothing recorded for this one, so she falls back to her patterns
+    const unknown = await agent.interpret('what goes well with lasagna');
+    expect(unknown.intent).toBe('unknown');
+  });
+
+  test('streamed answers reach onToken as they arrive', async () => {
+    process.env.AI_LOCAL_MODEL = 'llama3.1:8b';
+    const chunks = [
+      'data: {"id":"gen-1","choices":[{"delta":{"content":"{\\"intent\\":\\"greeting\\",\\"response\\":\\"Hel"}}]}\n',
+      ': keep-alive\n\ndata: {"choices":[{"delta":{"content":"lo!\\"}"}}]}\n\n',
+      'data: {"choices":[],"usage":{"total_tokens":42}}\n\ndata: [DONE]\n\n'
+    ];
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      body: new ReadableStream({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+          controller.close();
+        }
+      })
+    }));
+    const onToken = jest.fn();
+
+    const result = await new LLMClient({ provider: createProvider('local') }).chat(messages, { onToken });
+
+    expect(JSON.parse(global.fetch.mock.calls[0][1].body).stream).toBe(true);
+    expect(onToken.mock.calls.map(([delta]) => delta)).toEqual(['{"intent":"greeting","response":"Hel', 'lo!"}']);
+    expect(result).toMatchObject({ content: '{"intent":"greeting","response":"Hello!"}', usage: { total_tokens: 42 } });
+    expect(BetsyAgent.partialReply(onToken.mock.calls[0][1])).toBe('Hel');
+  });
+
+  test('tool calls are offered only to providers that support them, and come back whole when streamed', async () => {
+    process.env.AI_LOCAL_TOOLS = 'true';
+    const tools = [{ type: 'function', function: { name: 'greeting', parameters: { type: 'object', properties: {} } } }];
+    const chunks = [
+      'data: {"choices":[{"delta":{"content":"Hi there!"}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call-1","function":{"name":"add_meal","arguments":"{\\"food\\":"}}]}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"tacos\\"}"}}]}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":1,"id":"call-2","function":{"name":"greeting"}}]}}]}\n\ndata: [DONE]\n\n'
+    ];
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      body: new ReadableStream({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+          controller.close();
+        }
+      })
+    }));
+
+    const result = await new LLMClient({ provider: createProvider('local') }).chat(messages, { tools, onToken: () => {} });
+
+    expect(JSON.parse(global.fetch.mock.calls[0][1].body).tools).toEqual(tools);
+    expect(result.content).toBe('Hi there!');
+    expect(result.toolCalls).toEqual([
+      { id: 'call-1', name: 'add_meal', arguments: '{"food":"tacos"}' },
+      { id: 'call-2', name: 'greeting', arguments: '{}' }
+    ]);
+
+    delete process.env.AI_LOCAL_TOOLS;
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'OK' } }] })
+    }));
+    await new LLMClient({ provider: createProvider('local') }).chat(messages, { tools });
+    expect(JSON.parse(global.fetch.mock.calls[0][1].body)).not.toHaveProperty('tools');
+  });
+
+  test('a cancelled request is not retried', async () => {
+    const controller = new AbortController();
+    const provider = {
+      billed: false,
+      isConfigured: () => true,
+      complete: jest.fn(async () => {
+        controller.abort();
+        throw new Error('This operation was aborted');
+      })
+    };
+
+    const error = await new LLMClient({ provider }).chat(messages, { signal: controller.signal }).catch(e => e);
+
+    expect(LLMClient.isCancelled(error)).toBe(true);
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+  });
+
+  test('Betsy reports what she is doing while she works out a command', async () => {
+    process.env.AI_PROVIDER = 'fixture';
+    const agent = new BetsyAgent();
+    const events = [];
+
+    const result = await agent.interpret(
+      'we have friends over saturday night, lasagna sounds good for dinner',
+      {},
+      { onEvent: event => events.push(event) }
+    );
+
+    expect(events[0].type).toBe('thinking');
+    expect(events[events.length - 1]).toEqual({ type: 'token', text: result.response });
+    expect(agent.describeAction(result)).toBe('Planning lasagna for Saturday dinner');
+  });
+
+  test('an unknown AI_PROVIDER is reported', () => {
+    expect(() => createProvider('carrier-pigeon')).toThrow('Unknown AI_PROVIDER "carrier-pigeon"');
+  });
+});
@@ -0,0 +1,72 @@
+const RequestRouter = require('../RequestRouter');
+
+// Answers each model with the content listed for it
+function createClient(answers) {
+  return {
+    chat: jest.fn(async (messages, { model }) => {
+      if (answers[model] instanceof Error) throw answers[model];
+      return { content: answers[model], usage: { total_tokens: 10 }, model };
+    })
+  };
+}
+
+describe('RequestRouter tiers', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.OPENROUTER_MODEL_SMALL = 'small-model';
+    process.env.OPENROUTER_MODEL_MEDIUM = 'medium-model';
+    process.env.OPENROUTER_MODEL_LARGE = 'large-model';
+    delete process.env.AI_TASK_TIERS;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test('each task type starts on its configured tier', () => {
+    process.env.AI_TASK_TIERS = JSON.stringify({ validation: 'large', betsy_interpretation: 'huge' });
+    const router = new RequestRouter({ client: createClient({}) });
+
+    expect(router.selectTier('smart_processing', 'short text')).toBe('small');
+    expect(router.selectTier('validation', 'short text')).toBe('large');
+    expect(router.selectTier('betsy_interpretation', 'short text')).toBe('medium');
+    // Very complex input starts a tier up
+    expect(router.selectTier('smart_processing', 'x'.repeat(12000))).toBe('medium');
+  });
+
+  test('answers that do not parse move up a tier', async () => {
+    const client = createClient({ 'small-model': 'Sure! Here are the ingredients', 'medium-model': '{"items":[1]}' });
+    const router = new RequestRouter({ client });
+    const before = router.getTierStats().medium.escalations;
+
+    const result = await router.route('smart_processing', 'flour, eggs', { parse: JSON.parse });
+
+    expect(result.parsed).toEqual({ items: [1] });
+    expect(result.routing).toMatchObject({ modelTier: 'medium', modelName: 'medium-model' });
+    expect(client.chat.mock.calls.map(([, options]) => options.modelTier)).toEqual(['small', 'medium']);
+    expect(router.getTierStats().medium.escalations).toBe(before + 1);
+  });
+
+  test('unsure answers move up, and the largest tier has the last word', async () => {
+    const client = createClient({
+      'medium-model': '{"confidence":0.3}',
+      'large-model': '{"confidence":0.4}'
+    });
+    const router = new RequestRouter({ client });
+
+    const result = await router.route('ingredient_extraction', 'flour', { parse: JSON.parse, minConfidence: 0.6 });
+
+    expect(result.routing.modelTier).toBe('large');
+    expect(result.parsed.confidence).toBe(0.4);
+  });
+
+  test('a failed call is not escalated', async () => {
+    const client = createClient({ 'small-model': new Error('AI daily budget of $1.00 reached') });
+    const router = new RequestRouter({ client });
+
+    await expect(router.route('validation', {}, { parse: JSON.parse })).rejects.toThrow('budget');
+    expect(client.chat).toHaveBeenCalledTimes(1);
+    expect(router.getModelInfo().stats.small.successRate).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,102 @@
+const ResponseCache = require('../ResponseCache');
+const { MemoryStore, PostgresStore } = require('../cache');
+
+// Minimal stand-in for a pg client: answers each query through `respond`
+function createDb(respond = () => []) {
+  const calls = [];
+  return {
+    calls,
+    query: jest.fn(async (text, params) => {
+      calls.push({ text, params });
+      return { rows: respond(text, params), rowCount: 0 };
+    })
+  };
+}
+
+describe('ResponseCache', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.AI_ENABLE_CACHING = 'true';
+    delete process.env.AI_CACHE_TTLS;
+    delete process.env.AI_CACHE_STORE;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test('the memory store drops the least recently used entry and expired ones', async () => {
+    const store = new MemoryStore({ maxEntries: 2 });
+    await store.set('a', 1, 60);
+    await store.set('b', 2, 60);
+    await store.get('a');
+    await store.set('c', 3, 60);
+
+    expect(await store.keys()).toEqual(['a', 'c']);
+
+    await store.set('d', 4, -1);
+    expect(await store.get('d')).toBeNull();
+    expect(await store.cleanup()).toBe(0);
+  });
+
+  test('each task type keeps responses for its own TTL', async () => {
+    process.env.AI_CACHE_TTL = '60';
+    process.env.AI_CACHE_TTLS = JSON.stringify({ smart_processing: 120 });
+    const store = new MemoryStore();
+    const set = jest.spyOn(store, 'set');
+    const cache = new ResponseCache({ store });
+
+    await cache.set('recipe_url_import_fast', 'https://example.com/lasagna', { payload: {} });
+    await cache.set('smart_processing', 'flour', {});
+    await cache.set('simple_text', 'hi', {});
+
+    expect(set.mock.calls.map(([, , ttl]) => ttl)).toEqual([7 * 24 * 3600, 120, 60]);
+  });
+
+  test('hits and misses are counted per task type', async () => {
+    const cache = new ResponseCache({ store: new MemoryStore() });
+    const request = jest.fn(async () => ({ ingredients: ['flour'] }));
+
+    await cache.wrap('information_extraction', 'bread', request);
+    const second = await cache.wrap('information_extraction', 'bread', request);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(second).toMatchObject({ ingredients: ['flour'], fromCache: true });
+
+    const stats = await cache.getStats();
+    expect(stats.store).toBe('memory');
+    expect(stats.taskTypes).toEqual({ information_extraction: 1 });
+    expect(stats.byTaskType.information_extraction).toEqual({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  test('the Postgres store reads live rows from ai_response_cache and counts the access', async () => {
+    const db = createDb(text => (text.includes('RETURNING response') ? [{ response: { response: 'cached' } }] : []));
+    const cache = new ResponseCache({ store: new PostgresStore(db) });
+
+    await cache.set('recipe_url_import_fast', 'https://example.com/lasagna', 'cached');
+    const hit = await cache.get('recipe_url_import_fast', 'https://example.com/lasagna');
+
+    const [insert, read] = db.calls;
+    expect(insert.text).toContain('ON CONFLICT (cache_key)');
+    expect(insert.params[2]).toBe(7 * 24 * 3600);
+    expect(read.text).toContain('accessed_count = accessed_count + 1');
+    expect(read.text).toContain('expires_at > CURRENT_TIMESTAMP');
+    expect(hit).toMatchObject({ response: 'cached', fromCache: true });
+  });
+
+  test('when Redis is unreachable the cache falls back to Postgres', async () => {
+    process.env.REDIS_URL = 'redis://127.0.0.1:1';
+    const db = createDb();
+    ResponseCache.setDatabase(db);
+    const cache = new ResponseCache();
+
+    await cache.set('smart_processing', 'flour', {});
+
+    expect(db.calls[0].text).toContain('INSERT INTO ai_response_cache');
+    expect((await cache.healthCheck()).store).toBe('postgres');
+
+    await cache.close();
+    ResponseCache.setDatabase(null);
+  });
+});
@@ -0,0 +1,96 @@
+const UsageLedger = require('../UsageLedger');
+const LLMClient = require('../LLMClient');
+const BetsyAgent = require('../BetsyAgent');
+
+const { runWithUsage } = UsageLedger;
+
+// Minimal stand-in for a pg client: answers each query through `respond`
+function createDb(respond = () => []) {
+  const calls = [];
+  return {
+    calls,
+    query: jest.fn(async (text, params) => {
+      calls.push({ text, params });
+      return { rows: respond(text, params) };
+    })
+  };
+}
+
+function totalsRow({ daily = 0, monthly = 0 } = {}) {
+  return {
+    daily_cost: String(daily), daily_tokens: '0', daily_requests: 0,
+    monthly_cost: String(monthly), monthly_tokens: '0', monthly_requests: 0
+  };
+}
+
+describe('UsageLedger', () => {
+  const originalEnv = { ...process.env };
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    process.env.OPENROUTER_API_KEY = 'test-key';
+    process.env.AI_MAX_COST_PER_USER_DAILY = '1';
+    process.env.AI_MAX_COST_PER_USER_MONTHLY = '20';
+    delete process.env.AI_MODEL_PRICING;
+    delete process.env.AI_PROVIDER;
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        id: 'gen-1',
+        model: 'anthropic/claude-3-5-haiku',
+        choices: [{ message: { content: 'OK' } }],
+        usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 }
+      })
+    }));
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    global.fetch = originalFetch;
+    LLMClient.setUsageLedger(null);
+  });
+
+  test('costs come from the price table, which AI_MODEL_PRICING can extend', () => {
+    const client = new LLMClient();
+    expect(client.calculateCost('anthropic/claude-3-5-haiku', 1000000, 1000000)).toBeCloseTo(4.8);
+    expect(client.calculateCost('acme/chef-1', 1000000, 0)).toBe(0);
+
+    process.env.AI_MODEL_PRICING = JSON.stringify({ 'acme/chef-1': { input: 2, output: 6 } });
+    expect(client.calculateCost('acme/chef-1', 1000000, 500000)).toBeCloseTo(5);
+  });
+
+  test('chat calls are recorded against the user and endpoint of the request', async () => {
+    const db = createDb(text => (text.includes('FROM ai_usage_logs') ? [totalsRow()] : []));
+    LLMClient.setUsageLedger(new UsageLedger(db));
+    const client = new LLMClient();
+
+    await runWithUsage({ userId: 'user-1', endpoint: '/api/ai/betsy-interpret' }, () =>
+      client.chat([{ role: 'user', content: 'hi' }], { model: 'anthropic/claude-3-5-haiku' })
+    );
+
+    const insert = db.calls.find(call => call.text.includes('INSERT INTO ai_usage_logs'));
+    expect(insert.params.slice(0, 7)).toEqual([
+      'user-1', '/api/ai/betsy-interpret', null, 'anthropic/claude-3-5-haiku', 1000, 500, 1500
+    ]);
+    expect(insert.params[7]).toBeCloseTo(0.0028);
+    expect(insert.params[9]).toBe(true);
+  });
+
+  test('once a budget is spent, calls are refused and Betsy falls back to her patterns', async () => {
+    const db = createDb(text => (text.includes('FROM ai_usage_logs') ? [totalsRow({ daily: 1.2, monthly: 3 })] : []));
+    const ledger = new UsageLedger(db);
+    LLMClient.setUsageLedger(ledger);
+
+    await expect(runWithUsage({ userId: 'user-1' }, () => new LLMClient().chat([])))
+      .rejects.toMatchObject({ code: 'AI_BUDGET_EXCEEDED' });
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const result = await runWithUsage({ userId: 'user-1' }, () => new BetsyAgent().interpret('what should I do with leftover rice'));
+    expect(result.intent).toBe('unknown');
+    expect(result.metadata.budgetExceeded).toBe(true);
+
+    const usage = await ledger.getUsage('user-1');
+    expect(usage.budgetExceeded).toBe('daily');
+    expect(usage.dailyUsage).toMatchObject({ cost: 1.2, limit: 1 });
+  });
+});
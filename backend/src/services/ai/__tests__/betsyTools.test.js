@@ -0,0 +1,43 @@
+const BetsyAgent = require('../BetsyAgent');
+const { toolDefinitions, validateToolArguments, describeSchema, BETSY_TOOLS } = require('../betsyTools');
+
+describe('Betsy tools', () => {
+  test('arguments are checked against the tool schema', () => {
+    expect(validateToolArguments('add_shopping_item', { items: [{ name: 'eggs', quantity: '2', unit: 'dozen' }] })).toEqual([]);
+    expect(validateToolArguments('add_shopping_item', { items: [] })).toEqual(['arguments.items: needs at least 1 item']);
+    expect(validateToolArguments('add_meal', { food: 'tacos', mealType: 'brunch', servings: 4 })).toEqual([
+      'arguments.mealType: must be one of "breakfast", "lunch", "dinner", "snack"',
+      'arguments.servings: is not allowed'
+    ]);
+    expect(validateToolArguments('double_recipe', { recipeName: 'chili', multiplier: '2' }))
+      .toEqual(['arguments.multiplier: expected number, got string']);
+    expect(validateToolArguments('order_pizza', {})).toEqual(['unknown tool "order_pizza"']);
+  });
+
+  test('intents only the pattern matcher produces are not offered to models', () => {
+    const offered = toolDefinitions().map(({ function: definition }) => definition.name);
+
+    expect(offered).toContain('clear_meals');
+    expect(offered).not.toContain('add_to_shopping_list');
+    expect(describeSchema(BETSY_TOOLS.find(tool => tool.name === 'double_recipe').parameters))
+      .toBe('{ recipeName: string, multiplier?: number }');
+  });
+
+  test.each([
+    'add milk',
+    'add the chicken curry to my shopping list',
+    'find a white chicken chili recipe from half baked harvest online',
+    'create a new recipe',
+    'clear the meals for today',
+    'swap monday and tuesday',
+    'move monday breakfast to friday lunch',
+    'triple the pasta ingredients',
+    'import recipe from https://example.com/pie',
+    'hello'
+  ])('what the patterns make of "%s" fits its schema', (input) => {
+    const result = new BetsyAgent().fallbackInterpret(input);
+
+    expect(result.intent).not.toBe('unknown');
+    expect(validateToolArguments(result.intent, result.entities)).toEqual([]);
+  });
+});
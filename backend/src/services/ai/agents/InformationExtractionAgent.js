@@ -137,10 +137,15 @@ class InformationExtractionAgent {
           } else if (candidate.type === 'name') {
             routeOptions.forceModelName = candidate.value;
           }
+          // Move up a tier when the answer doesn't parse or too little of it is complete
+          routeOptions.parse = content => this.parseExtractionResponse(content, processedData);
+          routeOptions.confidenceOf = ingredients =>
+            this.calculateExtractionConfidence(this.enhanceIngredients(ingredients, processedData), processedData);
+          routeOptions.minConfidence = 0.5;
 
           const response = await this.router.route('ingredient_extraction', processedData, routeOptions);
 
-          const extractedIngredients = this.parseExtractionResponse(response.content, processedData);
+          const extractedIngredients = response.parsed || this.parseExtractionResponse(response.content, processedData);
           const enhancedIngredients = this.enhanceIngredients(extractedIngredients, processedData);
           
           return {
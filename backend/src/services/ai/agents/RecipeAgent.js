@@ -5,13 +5,13 @@
 
 const RequestRouter = require('../RequestRouter');
 const RecipeOrchestrator = require('./RecipeOrchestrator');
-const OpenRouterClient = require('../OpenRouterClient');
+const LLMClient = require('../LLMClient');
 
 class RecipeAgent {
   constructor() {
     this.router = new RequestRouter();
-    this.openRouterClient = new OpenRouterClient();
-    this.orchestrator = new RecipeOrchestrator(this.openRouterClient);
+    this.llmClient = new LLMClient();
+    this.orchestrator = new RecipeOrchestrator(this.llmClient);
   }
 
   /**
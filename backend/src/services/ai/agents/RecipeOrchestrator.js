@@ -11,14 +11,14 @@ const InformationExtractionAgent = require('./InformationExtractionAgent');
 const ValidationAgent = require('./ValidationAgent');
 
 class RecipeOrchestrator {
-  constructor(openRouterClient) {
-    this.client = openRouterClient;
+  constructor(llmClient) {
+    this.client = llmClient;
     this.orchestratorName = 'RecipeOrchestrator';
     
     // Initialize agents
-    this.smartProcessingAgent = new SmartProcessingAgent(openRouterClient);
-    this.informationExtractionAgent = new InformationExtractionAgent(openRouterClient);
-    this.validationAgent = new ValidationAgent(openRouterClient);
+    this.smartProcessingAgent = new SmartProcessingAgent(llmClient);
+    this.informationExtractionAgent = new InformationExtractionAgent(llmClient);
+    this.validationAgent = new ValidationAgent(llmClient);
   }
 
   /**
@@ -233,10 +233,12 @@ class SmartProcessingAgent {
         const response = await this.router.route('smart_processing', processedText, {
           ...routeOptions,
           maxTokens: Math.min(routeOptions.maxTokens, 1200),
-          priority: 'speed'
+          priority: 'speed',
+          // Move up a tier when the answer doesn't parse
+          parse: content => this.parseProcessingResponse(content, formatType)
         });
 
-        const ingredients = this.parseProcessingResponse(response.content, formatType);
+        const ingredients = response.parsed || this.parseProcessingResponse(response.content, formatType);
         return {
           ingredients,
           fallbackUsed: false
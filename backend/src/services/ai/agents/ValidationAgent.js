@@ -10,8 +10,8 @@ const RequestRouter = require('../RequestRouter');
 const { extractAndParseJSON } = require('../../../utils/jsonParser');
 
 class ValidationAgent {
-  constructor(openRouterClient) {
-    this.client = openRouterClient;
+  constructor(llmClient) {
+    this.client = llmClient;
     this.router = new (require('../RequestRouter'))();
     this.agentName = 'ValidationAgent';
   }
@@ -30,7 +30,8 @@ class ValidationAgent {
       
       const validationPrompt = this.buildValidationPrompt(extractedData, preprocessingData, options);
 
-      // Try with primary model first, then fallback
+      // Try the validation tier first (moving up a tier when the answer doesn't
+      // parse or isn't confident), then the fallback model
       const fallbackModel = process.env.OPENROUTER_VALIDATION_FALLBACK_MODEL || 'google/gemini-flash-1.5-8b';
       let response;
       
@@ -42,8 +43,10 @@ class ValidationAgent {
           prompt: validationPrompt,
           maxTokens: 1200,
           temperature: 0.2,
-          forceModelName: process.env.OPENROUTER_MODEL,
-          priority: 'speed'
+          priority: 'speed',
+          parse: content => this.parseValidationResponse(content),
+          confidenceOf: result => this.calculateOverallConfidence(result.validatedIngredients),
+          minConfidence: 0.5
         });
       } catch (primaryError) {
         console.warn(`${this.agentName}: Primary model failed, using fallback model`);
@@ -59,7 +62,7 @@ class ValidationAgent {
         });
       }
 
-      const validationResult = this.parseValidationResponse(response.content);
+      const validationResult = response.parsed || this.parseValidationResponse(response.content);
       
       // Apply additional validation rules
       const finalResult = this.applyBusinessRules(validationResult, extractedData);
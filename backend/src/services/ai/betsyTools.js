@@ -0,0 +1,197 @@
+/**
+ * Betsy's tools: every intent she can act on, with a JSON Schema for its
+ * arguments (the "entities" the app receives). Models that support tool
+ * calling get these as native tools; for the rest they're written into the
+ * prompt. Either way the arguments are checked against the schema before the
+ * app sees them, and the app checks them again with the same schemas, which
+ * it fetches from GET /api/ai/betsy-tools.
+ *
+ * frontend/src/types/betsyTools.ts has the matching TypeScript types.
+ */
+
+const { validateSchema } = require('../../utils/jsonSchema');
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'];
+const TIME_RANGES = ['today', 'tomorrow', 'this_week'];
+const RECIPE_CATEGORIES = ['Breakfast', 'Lunch', 'Dinner', 'Snack'];
+
+const text = (description) => ({ type: 'string', minLength: 1, description });
+const day = (description) => text(`${description}: a weekday ("monday"), "today" or "tomorrow"`);
+const mealType = (description) => ({ type: 'string', enum: MEAL_TYPES, description });
+
+function tool(name, description, properties = {}, required = []) {
+  return {
+    name,
+    description,
+    parameters: { type: 'object', properties, required, additionalProperties: false }
+  };
+}
+
+const BETSY_TOOLS = [
+  tool('add_shopping_item', 'Add item(s) to the shopping list; several items for the same list go in one items array', {
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: text('What to buy, e.g. "milk"'),
+          quantity: { type: 'string', description: 'How many or how much, e.g. "2"' },
+          unit: { type: 'string', description: 'e.g. "gallon", "dozen", "pound"' }
+        },
+        required: ['name'],
+        additionalProperties: false
+      }
+    },
+    listName: { type: ['string', 'null'], description: 'Only when the user names one of their shopping lists' }
+  }, ['items']),
+  tool('navigate', 'Go to a page in the app', {
+    destination: { type: 'string', enum: ['recipes', 'shopping_list', 'meal_planning'] }
+  }, ['destination']),
+  tool('add_meal', 'Plan a meal for a specific time', {
+    food: text('The dish'),
+    mealType: mealType('Which meal'),
+    day: { ...day('Which day'), type: ['string', 'null'] }
+  }, ['food', 'mealType']),
+  tool('remove_shopping_item', 'Remove an item from the shopping list', {
+    itemName: text('The item to remove')
+  }, ['itemName']),
+  tool('clear_shopping_list', 'Clear all items from the shopping list, or only the checked/completed ones', {
+    checkedOnly: { type: 'boolean', description: 'Only the checked items' }
+  }),
+  tool('mark_all_completed', 'Mark all items on the shopping list as completed/checked'),
+  tool('consolidate_shopping_list', 'Merge duplicate items on the shopping list and combine their quantities'),
+  tool('clear_meals', 'Clear/delete meals from the meal plan. "This week" or "this full week" is "this_week", never "all".', {
+    timeRange: { type: 'string', enum: TIME_RANGES },
+    mealType: { ...mealType('Only this meal'), type: ['string', 'null'], enum: [...MEAL_TYPES, null] }
+  }, ['timeRange']),
+  tool('generate_meals', 'Use AI to generate/create a meal plan', {
+    timeRange: { type: 'string', enum: TIME_RANGES }
+  }, ['timeRange']),
+  tool('move_meal', 'Move a meal from one slot to another', {
+    fromDay: day('The day it is on now'),
+    fromMealType: mealType('The meal it is now'),
+    toDay: day('The day to move it to'),
+    toMealType: mealType('The meal to move it to')
+  }, ['fromDay', 'fromMealType', 'toDay', 'toMealType']),
+  tool('swap_meals', 'Swap two meals between slots', {
+    day1: day('First day'),
+    mealType1: mealType('First meal'),
+    day2: day('Second day'),
+    mealType2: mealType('Second meal')
+  }, ['day1', 'mealType1', 'day2', 'mealType2']),
+  tool('swap_all_meals', 'Swap ALL meals (breakfast, lunch, dinner) between two days', {
+    day1: day('First day'),
+    day2: day('Second day')
+  }, ['day1', 'day2']),
+  tool('mark_meal_cooked', 'Mark a planned meal as cooked, taking its ingredients out of the pantry', {
+    mealType: mealType('Which meal'),
+    day: { ...day('Which day, today if not said'), type: ['string', 'null'] }
+  }, ['mealType']),
+  tool('import_recipe', 'Import a recipe from a URL', {
+    url: text('The recipe page'),
+    category: { type: 'string', enum: RECIPE_CATEGORIES }
+  }, ['url']),
+  tool('search_recipe', 'Search for recipes online by keyword and import one', {
+    query: text('What to search for, e.g. "chicken parmesan"'),
+    category: { type: 'string', enum: RECIPE_CATEGORIES }
+  }, ['query']),
+  tool('add_recipe_to_shopping_list', 'Add all ingredients from a recipe to the shopping list', {
+    recipeName: text('The recipe'),
+    listName: { type: ['string', 'null'], description: 'Only when the user names one of their shopping lists' }
+  }, ['recipeName']),
+  tool('double_recipe', "Multiply the quantities of a recipe's ingredients on the shopping list (double, triple...)", {
+    recipeName: text('The recipe'),
+    multiplier: { type: 'number', minimum: 1, maximum: 10, description: '2 to double, 3 to triple' }
+  }, ['recipeName']),
+  tool('save_recipe', 'Save an AI-generated recipe from the meal plan to the recipe collection', {
+    recipeName: text('The recipe')
+  }, ['recipeName']),
+  tool('delete_recipe', 'Delete a recipe from the collection', {
+    recipeName: text('The recipe')
+  }, ['recipeName']),
+  tool('search_recipes', 'Search saved recipes by keyword', {
+    query: text('What to look for')
+  }, ['query']),
+  tool('undo', 'Take back the last change (to meals, recipes or shopping lists)'),
+  tool('redo', 'Make the last undone change again'),
+  tool('help', 'The user needs help or instructions'),
+  tool('greeting', 'The user is saying hello or starting a conversation'),
+  // Only the pattern matcher produces these; models use the tools above
+  tool('add_to_shopping_list', 'Add something to the shopping list, as a recipe if one has that name', {
+    itemText: text('What the user said to add')
+  }, ['itemText']),
+  tool('web_search_recipe', 'Find a recipe on the web, on a particular site if named', {
+    query: text('The recipe'),
+    source: { type: ['string', 'null'], description: 'e.g. "allrecipes"' }
+  }, ['query']),
+  tool('create_recipe', 'Write a new recipe by hand', {
+    recipeName: { type: ['string', 'null'] }
+  })
+];
+
+const PATTERN_ONLY = ['add_to_shopping_list', 'web_search_recipe', 'create_recipe'];
+
+const TOOLS_BY_NAME = new Map(BETSY_TOOLS.map(definition => [definition.name, definition]));
+
+/**
+ * The tools offered to a model, in the OpenAI `tools` format
+ */
+function toolDefinitions() {
+  return BETSY_TOOLS
+    .filter(definition => !PATTERN_ONLY.includes(definition.name))
+    .map(definition => ({ type: 'function', function: definition }));
+}
+
+/**
+ * What's wrong with the arguments for a tool; [] when they're fine.
+ * "unknown" takes anything, since the app does nothing with it.
+ */
+function validateToolArguments(name, args) {
+  if (name === 'unknown') return [];
+
+  const definition = TOOLS_BY_NAME.get(name);
+  if (!definition) return [`unknown tool "${name}"`];
+  return validateSchema(definition.parameters, args);
+}
+
+/**
+ * A schema as the shorthand the prompt uses, e.g.
+ * { recipeName: string, multiplier?: number }
+ */
+function describeSchema(schema) {
+  if (schema.enum) {
+    return schema.enum.filter(option => option !== null).map(option => JSON.stringify(option)).join(' | ');
+  }
+
+  const type = [].concat(schema.type).find(option => option !== 'null');
+  if (type === 'array') {
+    return `[${describeSchema(schema.items)}]`;
+  }
+  if (type !== 'object') {
+    return type === 'integer' ? 'number' : type;
+  }
+
+  const required = schema.required || [];
+  const properties = Object.entries(schema.properties || {})
+    .map(([name, property]) => `${name}${required.includes(name) ? '' : '?'}: ${describeSchema(property)}`);
+  return properties.length ? `{ ${properties.join(', ')} }` : '{}';
+}
+
+/**
+ * The tools offered to a model, numbered, for prompts that ask for JSON
+ */
+function describeTools() {
+  return toolDefinitions()
+    .map(({ function: definition }, index) =>
+      `${index + 1}. "${definition.name}" - ${definition.description}\n   entities: ${describeSchema(definition.parameters)}`)
+    .join('\n\n');
+}
+
+module.exports = {
+  BETSY_TOOLS,
+  toolDefinitions,
+  validateToolArguments,
+  describeTools,
+  describeSchema
+};
@@ -0,0 +1,84 @@
+/**
+ * Memory Store
+ * An in-process LRU cache, for when neither Redis nor Postgres is available.
+ * Entries are lost on restart and aren't shared between server processes.
+ *
+ * Every cache store has the same shape, which ResponseCache relies on:
+ *   name                  - shown in stats and logs
+ *   get(key)              - the stored value, or null when missing or expired
+ *   set(key, value, ttl)  - stores a JSON-serialisable value for ttl seconds
+ *   keys(prefix)          - the live keys starting with prefix
+ *   deleteByPrefix(prefix)- removes matching keys, resolves to how many
+ *   cleanup()             - removes expired entries, resolves to how many
+ *   healthCheck()         - resolves to { status }
+ *   close()
+ */
+
+class MemoryStore {
+  constructor({ maxEntries = parseInt(process.env.AI_CACHE_MAX_ENTRIES) || 500 } = {}) {
+    this.name = 'memory';
+    this.maxEntries = maxEntries;
+    // Map keeps insertion order, so the first key is the least recently used
+    this.entries = new Map();
+  }
+
+  async get(key) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key, value, ttl) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  async keys(prefix = '') {
+    const now = Date.now();
+    return [...this.entries]
+      .filter(([key, entry]) => key.startsWith(prefix) && entry.expiresAt > now)
+      .map(([key]) => key);
+  }
+
+  async deleteByPrefix(prefix) {
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async cleanup() {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of [...this.entries]) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async healthCheck() {
+    return { status: 'connected' };
+  }
+
+  async close() {
+    this.entries.clear();
+  }
+}
+
+module.exports = MemoryStore;
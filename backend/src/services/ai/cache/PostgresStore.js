@@ -0,0 +1,72 @@
+/**
+ * Postgres Store
+ * Keeps cached responses in ai_response_cache, so they survive restarts and
+ * are shared between server processes without Redis. Reads bump
+ * accessed_count and last_accessed_at; expired rows are ignored until
+ * cleanup() deletes them.
+ */
+
+class PostgresStore {
+  constructor(db) {
+    this.name = 'postgres';
+    this.db = db;
+  }
+
+  async get(key) {
+    const result = await this.db.query(
+      `UPDATE ai_response_cache
+       SET accessed_count = accessed_count + 1, last_accessed_at = CURRENT_TIMESTAMP
+       WHERE cache_key = $1 AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+       RETURNING response`,
+      [key]
+    );
+    return result.rows[0]?.response ?? null;
+  }
+
+  async set(key, value, ttl) {
+    await this.db.query(
+      `INSERT INTO ai_response_cache (cache_key, response, expires_at)
+       VALUES ($1, $2, CURRENT_TIMESTAMP + $3 * INTERVAL '1 second')
+       ON CONFLICT (cache_key) DO UPDATE SET
+         response = EXCLUDED.response,
+         expires_at = EXCLUDED.expires_at,
+         created_at = CURRENT_TIMESTAMP,
+         accessed_count = 0,
+         last_accessed_at = CURRENT_TIMESTAMP`,
+      [key, JSON.stringify(value), ttl]
+    );
+  }
+
+  async keys(prefix = '') {
+    const result = await this.db.query(
+      `SELECT cache_key FROM ai_response_cache
+       WHERE cache_key LIKE $1 AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)`,
+      [`${prefix}%`]
+    );
+    return result.rows.map(row => row.cache_key);
+  }
+
+  async deleteByPrefix(prefix) {
+    const result = await this.db.query(
+      'DELETE FROM ai_response_cache WHERE cache_key LIKE $1',
+      [`${prefix}%`]
+    );
+    return result.rowCount || 0;
+  }
+
+  async cleanup() {
+    const result = await this.db.query(
+      'DELETE FROM ai_response_cache WHERE expires_at < CURRENT_TIMESTAMP'
+    );
+    return result.rowCount || 0;
+  }
+
+  async healthCheck() {
+    await this.db.query('SELECT 1');
+    return { status: 'connected' };
+  }
+
+  async close() {}
+}
+
+module.exports = PostgresStore;
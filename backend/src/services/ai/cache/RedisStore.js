@@ -0,0 +1,81 @@
+/**
+ * Redis Store
+ * Keeps cached responses in Redis, which expires them itself.
+ *
+ * If Redis can't be reached the store gives up on it rather than retrying
+ * forever, and calls `onUnavailable` so ResponseCache can move to its
+ * fallback store.
+ */
+
+const redis = require('redis');
+
+class RedisStore {
+  constructor({ url = process.env.REDIS_URL || 'redis://localhost:6379', onUnavailable = () => {} } = {}) {
+    this.name = 'redis';
+    this.available = true;
+
+    this.client = redis.createClient({
+      url,
+      socket: { reconnectStrategy: false }
+    });
+
+    this.client.on('error', (error) => {
+      if (!this.available) return;
+      console.error('Redis Client Error:', error.message);
+      this.available = false;
+      this.client.disconnect().catch(() => {});
+      onUnavailable(error);
+    });
+
+    this.client.on('connect', () => {
+      console.log('✅ Redis connected for AI caching');
+    });
+
+    this.ready = this.client.connect().catch(() => {
+      // Reported through the error event
+    });
+  }
+
+  async get(key) {
+    await this.ready;
+    const cached = await this.client.get(key);
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  async set(key, value, ttl) {
+    await this.ready;
+    await this.client.setEx(key, ttl, JSON.stringify(value));
+  }
+
+  async keys(prefix = '') {
+    await this.ready;
+    return this.client.keys(`${prefix}*`);
+  }
+
+  async deleteByPrefix(prefix) {
+    const keys = await this.keys(prefix);
+    if (keys.length === 0) return 0;
+    return this.client.del(keys);
+  }
+
+  // Redis expires keys on its own
+  async cleanup() {
+    return 0;
+  }
+
+  async healthCheck() {
+    if (!this.client.isOpen) {
+      return { status: 'disconnected' };
+    }
+    await this.client.ping();
+    return { status: 'connected' };
+  }
+
+  async close() {
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+}
+
+module.exports = RedisStore;
@@ -0,0 +1,32 @@
+/**
+ * Cache Stores
+ * AI_CACHE_STORE picks where ResponseCache keeps AI responses:
+ *   redis (default) - REDIS_URL; falls back to postgres, then memory, when unreachable
+ *   postgres        - the ai_response_cache table
+ *   memory          - an in-process LRU of AI_CACHE_MAX_ENTRIES entries
+ */
+
+const RedisStore = require('./RedisStore');
+const PostgresStore = require('./PostgresStore');
+const MemoryStore = require('./MemoryStore');
+
+const STORES = {
+  redis: ({ onUnavailable }) => new RedisStore({ onUnavailable }),
+  postgres: ({ db }) => (db ? new PostgresStore(db) : new MemoryStore()),
+  memory: () => new MemoryStore()
+};
+
+function createCacheStore(name = process.env.AI_CACHE_STORE || 'redis', { db = null, onUnavailable } = {}) {
+  const create = STORES[name.toLowerCase()];
+  if (!create) {
+    throw new Error(`Unknown AI_CACHE_STORE "${name}" (expected ${Object.keys(STORES).join(', ')})`);
+  }
+  return create({ db, onUnavailable });
+}
+
+module.exports = {
+  createCacheStore,
+  RedisStore,
+  PostgresStore,
+  MemoryStore
+};
@@ -0,0 +1,129 @@
+/**
+ * Fixture Provider
+ * Answers from saved responses instead of a model, so Betsy and the recipe
+ * agents can run offline and without API keys, giving the same answer every
+ * time (in CI, for example).
+ *
+ * Fixtures are JSON files in AI_FIXTURES_DIR (default backend/fixtures/ai):
+ *   { "key": "<request hash>", "response": { "content": "...", "usage": {...} } }
+ *     recorded; answers exactly that request. A response can hold toolCalls
+ *     too, when the request offered tools.
+ *   { "match": "some text", "model": "optional/model", "response": { ... } }
+ *     hand-written; answers any request whose last user message contains the text
+ *
+ * With AI_FIXTURE_MODE=record, a request without a fixture goes to the real
+ * provider named by AI_FIXTURE_UPSTREAM (OpenRouter by default) and the answer
+ * is saved for next time. In replay mode (the default) it fails the way an
+ * unavailable model does, so callers take their fallback paths.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, '..', '..', '..', '..', 'fixtures', 'ai');
+const EMPTY_USAGE = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+class FixtureProvider {
+  constructor({ dir, mode, upstream = null, fixtures = null } = {}) {
+    this.name = 'Fixtures';
+    this.dir = dir || process.env.AI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+    this.mode = mode || process.env.AI_FIXTURE_MODE || 'replay';
+    this.upstream = upstream;
+    this.fixtures = fixtures || this.loadFixtures();
+    // Recorded calls reach a real model and are charged like one
+    this.billed = this.mode === 'record' && Boolean(upstream?.billed);
+    // Replaying tool calls needs requests that offer tools, as when they were recorded
+    this.supportsTools = this.mode === 'record'
+      ? Boolean(upstream?.supportsTools)
+      : this.fixtures.some(fixture => fixture.response?.toolCalls?.length);
+  }
+
+  /**
+   * Stable hash of everything that shapes a model's answer
+   */
+  static requestKey({ model, messages, temperature, maxTokens, tools = null }) {
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ model, messages, temperature, maxTokens, ...(tools && { tools }) }))
+      .digest('hex')
+      .slice(0, 24);
+  }
+
+  loadFixtures() {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.dir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')));
+  }
+
+  isConfigured() {
+    return this.mode !== 'record' || Boolean(this.upstream?.isConfigured());
+  }
+
+  findFixture(key, { model, messages }) {
+    const exact = this.fixtures.find(fixture => fixture.key === key);
+    if (exact) return exact;
+
+    const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    return this.fixtures.find(fixture =>
+      fixture.match &&
+      (!fixture.model || fixture.model === model) &&
+      lastUserMessage.includes(fixture.match)
+    ) || null;
+  }
+
+  async complete(request) {
+    const key = FixtureProvider.requestKey(request);
+    const fixture = this.findFixture(key, request);
+
+    if (fixture) {
+      return {
+        content: fixture.response.content,
+        usage: fixture.response.usage || EMPTY_USAGE,
+        model: fixture.response.model || request.model,
+        id: `fixture-${key}`,
+        toolCalls: fixture.response.toolCalls || []
+      };
+    }
+
+    if (this.mode === 'record' && this.upstream) {
+      const response = await this.upstream.complete(request);
+      this.save(key, request, response);
+      return response;
+    }
+
+    const error = new Error(`No AI fixture for this request (key ${key}); record one with AI_FIXTURE_MODE=record`);
+    // Asking again won't make one appear
+    error.retryable = false;
+    throw error;
+  }
+
+  save(key, request, response) {
+    const fixture = {
+      key,
+      model: request.model,
+      request: { messages: request.messages },
+      response: {
+        content: response.content,
+        usage: response.usage,
+        model: response.model,
+        ...(response.toolCalls?.length && { toolCalls: response.toolCalls })
+      }
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, `${key}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+    this.fixtures.push(fixture);
+    console.log(`📼 Recorded AI fixture ${key}`);
+  }
+
+  async listModels() {
+    return [];
+  }
+}
+
+module.exports = FixtureProvider;
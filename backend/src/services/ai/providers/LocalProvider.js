@@ -0,0 +1,34 @@
+/**
+ * Local Provider
+ * A model served on your own machine through an OpenAI-compatible endpoint,
+ * such as Ollama (http://localhost:11434/v1) or llama.cpp's llama-server
+ * (http://localhost:8080/v1).
+ *
+ * The code asks for OpenRouter model names, which a local server doesn't
+ * know, so every request goes to AI_LOCAL_MODEL instead. Local tokens are
+ * free: nothing is charged against the usage budgets. Many local models
+ * can't call tools, so tool calling is off unless AI_LOCAL_TOOLS=true.
+ */
+
+const OpenAICompatibleProvider = require('./OpenAICompatibleProvider');
+
+class LocalProvider extends OpenAICompatibleProvider {
+  constructor() {
+    super({
+      name: 'Local model',
+      baseURL: (process.env.AI_LOCAL_BASE_URL || 'http://localhost:11434/v1').replace(/\/$/, ''),
+      apiKey: process.env.AI_LOCAL_API_KEY || null,
+      billed: false,
+      supportsTools: process.env.AI_LOCAL_TOOLS === 'true'
+    });
+    this.model = process.env.AI_LOCAL_MODEL || null;
+
+    console.log(`🏠 Using local model server at ${this.baseURL}${this.model ? ` (${this.model})` : ''}`);
+  }
+
+  async complete(request) {
+    return super.complete({ ...request, model: this.model || request.model });
+  }
+}
+
+module.exports = LocalProvider;
@@ -0,0 +1,156 @@
+/**
+ * OpenAI-Compatible Provider
+ * Talks to any server with an OpenAI-style /chat/completions endpoint.
+ *
+ * Every provider has the same shape, which LLMClient relies on:
+ *   name           - shown in logs and errors
+ *   billed         - whether its tokens cost money (prices and budgets apply)
+ *   supportsTools  - whether its models can call tools (native function calling)
+ *   isConfigured() - whether it can take requests
+ *   complete({ model, messages, temperature, maxTokens, tools, onToken, signal })
+ *                  - resolves to { content, usage, model, id, toolCalls };
+ *                    calls onToken(delta, contentSoFar) as text arrives and
+ *                    sets `streamed` when it does, and stops when signal
+ *                    aborts. `tools` (OpenAI format) is only sent when
+ *                    supportsTools is set; each of toolCalls is
+ *                    { id, name, arguments } with arguments a JSON string
+ *   listModels()   - the models it offers, [] when it can't say
+ */
+
+class OpenAICompatibleProvider {
+  constructor({ name, baseURL, apiKey = null, headers = {}, billed = true, supportsTools = true }) {
+    this.name = name;
+    this.baseURL = baseURL;
+    this.apiKey = apiKey;
+    this.headers = headers;
+    this.billed = billed;
+    this.supportsTools = supportsTools;
+  }
+
+  isConfigured() {
+    return Boolean(this.baseURL);
+  }
+
+  buildHeaders() {
+    return {
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      'Content-Type': 'application/json',
+      ...this.headers
+    };
+  }
+
+  async complete({ model, messages, temperature, maxTokens, tools = null, onToken = null, signal = null }) {
+    const stream = Boolean(onToken);
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream,
+        ...(tools ? { tools } : {}),
+        // The last chunk of a stream carries the token counts
+        ...(stream ? { stream_options: { include_usage: true } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`${this.name} API Error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+    }
+
+    if (stream) {
+      return this.readStream(response, onToken);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices || !data.choices[0]) {
+      throw new Error(`Invalid response from ${this.name} API`);
+    }
+
+    const message = data.choices[0].message;
+    return {
+      content: message.content || '',
+      usage: data.usage,
+      model: data.model,
+      id: data.id,
+      toolCalls: (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments || '{}'
+      }))
+    };
+  }
+
+  /**
+   * Collect a server-sent event stream of completion chunks, passing each
+   * piece of text to onToken as it arrives. Tool calls arrive in pieces too,
+   * keyed by their index.
+   */
+  async readStream(response, onToken) {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const result = { content: '', usage: null, model: null, id: null, toolCalls: [], streamed: true };
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+
+      for (const line of lines) {
+        // Lines starting with ':' are keep-alive comments
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') continue;
+
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+          throw new Error(`${this.name} API Error: ${chunk.error.message}`);
+        }
+
+        result.id = chunk.id || result.id;
+        result.model = chunk.model || result.model;
+        result.usage = chunk.usage || result.usage;
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          result.content += delta;
+          onToken(delta, result.content);
+        }
+
+        for (const part of chunk.choices?.[0]?.delta?.tool_calls || []) {
+          const call = result.toolCalls[part.index] || (result.toolCalls[part.index] = { id: null, name: '', arguments: '' });
+          call.id = part.id || call.id;
+          call.name += part.function?.name || '';
+          call.arguments += part.function?.arguments || '';
+        }
+      }
+    }
+
+    result.toolCalls = result.toolCalls.filter(Boolean).map(call => ({ ...call, arguments: call.arguments || '{}' }));
+    return result;
+  }
+
+  async listModels() {
+    const response = await fetch(`${this.baseURL}/models`, {
+      headers: this.buildHeaders()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch models: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.data || [];
+  }
+}
+
+module.exports = OpenAICompatibleProvider;
@@ -0,0 +1,41 @@
+/**
+ * OpenRouter Provider
+ * The hosted models behind OPENROUTER_API_KEY. OPENROUTER_TOOLS=false turns
+ * off tool calling, for models that don't support it.
+ */
+
+const OpenAICompatibleProvider = require('./OpenAICompatibleProvider');
+
+class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor() {
+    super({
+      name: 'OpenRouter',
+      baseURL: 'https://openrouter.ai/api/v1',
+      apiKey: process.env.OPENROUTER_API_KEY,
+      headers: {
+        'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
+        'X-Title': process.env.OPENROUTER_APP_TITLE || 'Intelligent Kitchen AI'
+      },
+      supportsTools: process.env.OPENROUTER_TOOLS !== 'false'
+    });
+
+    if (!this.isConfigured()) {
+      console.warn('⚠️ OpenRouter API key not configured. AI features will be limited.');
+    } else {
+      console.log('✅ OpenRouter API key loaded:', this.apiKey.substring(0, 20) + '...');
+    }
+  }
+
+  isConfigured() {
+    return Boolean(this.apiKey) && this.apiKey !== 'your-openrouter-api-key';
+  }
+
+  async listModels() {
+    if (!this.isConfigured()) {
+      return [];
+    }
+    return super.listModels();
+  }
+}
+
+module.exports = OpenRouterProvider;
@@ -0,0 +1,36 @@
+/**
+ * LLM Providers
+ * AI_PROVIDER picks the model backend LLMClient sends requests to:
+ *   openrouter (default) - hosted models, needs OPENROUTER_API_KEY
+ *   local                - an OpenAI-compatible server such as Ollama or llama.cpp
+ *   fixture              - saved responses, for offline development and CI
+ */
+
+const OpenRouterProvider = require('./OpenRouterProvider');
+const LocalProvider = require('./LocalProvider');
+const FixtureProvider = require('./FixtureProvider');
+
+const PROVIDERS = {
+  openrouter: () => new OpenRouterProvider(),
+  local: () => new LocalProvider(),
+  fixture: () => new FixtureProvider({
+    upstream: process.env.AI_FIXTURE_MODE === 'record'
+      ? createProvider(process.env.AI_FIXTURE_UPSTREAM || 'openrouter')
+      : null
+  })
+};
+
+function createProvider(name = process.env.AI_PROVIDER || 'openrouter') {
+  const create = PROVIDERS[name.toLowerCase()];
+  if (!create) {
+    throw new Error(`Unknown AI_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(', ')})`);
+  }
+  return create();
+}
+
+module.exports = {
+  createProvider,
+  OpenRouterProvider,
+  LocalProvider,
+  FixtureProvider
+};
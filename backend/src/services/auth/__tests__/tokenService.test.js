@@ -0,0 +1,101 @@
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret_token_service_1234567890';
+
+const {
+  signAccessToken,
+  verifyAccessToken,
+  hashToken,
+  rotateRefreshToken
+} = require('../tokenService');
+
+const meta = { userAgent: 'jest', ipAddress: '127.0.0.1' };
+
+// Minimal stand-in for a pg client: answers the rotation query with `row`
+function createDb(row) {
+  const calls = [];
+  return {
+    calls,
+    query: jest.fn(async (text, params) => {
+      calls.push({ text, params });
+      if (text.includes('FROM refresh_tokens rt')) {
+        return { rows: row ? [row] : [] };
+      }
+      if (text.startsWith('INSERT INTO refresh_tokens')) {
+        return { rows: [{ id: 'new-token-id' }] };
+      }
+      return { rows: [] };
+    })
+  };
+}
+
+const activeRow = (overrides = {}) => ({
+  id: 'token-id',
+  family_id: 'family-id',
+  expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  revoked_at: null,
+  replaced_by: null,
+  user_id: 'user-id',
+  token_version: 3,
+  ...overrides
+});
+
+describe('auth token service', () => {
+  test('access tokens carry the user, token version and session', () => {
+    const token = signAccessToken({ id: 'user-id', token_version: 2 }, 'family-id');
+    const decoded = verifyAccessToken(token);
+
+    expect(decoded.userId).toBe('user-id');
+    expect(decoded.tokenVersion).toBe(2);
+    expect(decoded.sid).toBe('family-id');
+  });
+
+  test('refresh tokens are stored as stable sha256 hashes', () => {
+    expect(hashToken('abc')).toBe(hashToken('abc'));
+    expect(hashToken('abc')).toHaveLength(64);
+    expect(hashToken('abc')).not.toBe('abc');
+  });
+
+  test('rotation replaces the token within the same session', async () => {
+    const db = createDb(activeRow());
+    const result = await rotateRefreshToken(db, 'refresh-token', meta);
+
+    expect(result.status).toBe('ok');
+    expect(result.tokens.refreshToken).toEqual(expect.any(String));
+    expect(verifyAccessToken(result.tokens.token)).toMatchObject({
+      userId: 'user-id',
+      tokenVersion: 3,
+      sid: 'family-id'
+    });
+
+    const insert = db.calls.find(call => call.text.startsWith('INSERT INTO refresh_tokens'));
+    expect(insert.params[1]).toBe('family-id');
+    const revoke = db.calls.find(call => call.text.includes('replaced_by = $1'));
+    expect(revoke.params).toEqual(['new-token-id', 'token-id']);
+  });
+
+  test('reusing a rotated token revokes the whole session', async () => {
+    const db = createDb(activeRow({
+      revoked_at: new Date(Date.now() - 5 * 60 * 1000),
+      replaced_by: 'newer-token-id'
+    }));
+    const result = await rotateRefreshToken(db, 'stolen-token', meta);
+
+    expect(result.status).toBe('reused');
+    const revokeFamily = db.calls.find(call => call.text.includes('WHERE family_id = $1'));
+    expect(revokeFamily.params).toEqual(['family-id']);
+  });
+
+  test('a token rotated moments ago is rejected without revoking the session', async () => {
+    const db = createDb(activeRow({ revoked_at: new Date(), replaced_by: 'newer-token-id' }));
+    const result = await rotateRefreshToken(db, 'racing-tab-token', meta);
+
+    expect(result.status).toBe('invalid');
+    expect(db.calls.some(call => call.text.includes('WHERE family_id = $1'))).toBe(false);
+  });
+
+  test('unknown and expired tokens are rejected', async () => {
+    expect((await rotateRefreshToken(createDb(null), 'nope', meta)).status).toBe('invalid');
+
+    const expired = createDb(activeRow({ expires_at: new Date(Date.now() - 1000) }));
+    expect((await rotateRefreshToken(expired, 'old', meta)).status).toBe('expired');
+  });
+});
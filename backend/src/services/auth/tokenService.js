@@ -0,0 +1,224 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { getEnvVar, getEnvVarInt } = require('../../config/env');
+
+// A replaced refresh token presented again this soon after rotation is most
+// likely a second tab racing the first, not a stolen token
+const ROTATION_GRACE_MS = 10 * 1000;
+
+function getJwtSecret() {
+  const secret = getEnvVar('JWT_SECRET');
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+}
+
+function getAccessTokenTtl() {
+  return getEnvVar('JWT_EXPIRES_IN', '15m');
+}
+
+function getRefreshTokenTtlMs() {
+  return getEnvVarInt('REFRESH_TOKEN_TTL_DAYS', 30) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Sign a short-lived access token
+ * @param {Object} user - Row with id and token_version
+ * @param {string} [sessionId] - Refresh token family the token belongs to
+ */
+function signAccessToken(user, sessionId) {
+  const payload = { userId: user.id, tokenVersion: user.token_version || 0 };
+  if (sessionId) {
+    payload.sid = sessionId;
+  }
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: getAccessTokenTtl() });
+}
+
+function verifyAccessToken(token) {
+  return jwt.verify(token, getJwtSecret());
+}
+
+function generateRefreshToken() {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+// Only hashes are stored, so a database leak does not hand out sessions
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function getClientMeta(req) {
+  return {
+    userAgent: (req.get('user-agent') || '').slice(0, 255) || null,
+    ipAddress: req.ip || null
+  };
+}
+
+async function insertRefreshToken(db, userId, familyId, meta) {
+  const refreshToken = generateRefreshToken();
+  const result = await db.query(
+    `INSERT INTO refresh_tokens (user_id, family_id, token_hash, user_agent, ip_address, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [
+      userId,
+      familyId,
+      hashToken(refreshToken),
+      meta.userAgent,
+      meta.ipAddress,
+      new Date(Date.now() + getRefreshTokenTtlMs())
+    ]
+  );
+  return { id: result.rows[0].id, refreshToken };
+}
+
+function buildTokenResponse(user, familyId, refreshToken) {
+  return {
+    token: signAccessToken(user, familyId),
+    refreshToken,
+    expiresIn: getAccessTokenTtl()
+  };
+}
+
+/**
+ * Start a new session for a freshly authenticated user
+ * @returns {Promise<{token: string, refreshToken: string, expiresIn: string}>}
+ */
+async function createSession(db, user, meta) {
+  const familyId = crypto.randomUUID();
+  const { refreshToken } = await insertRefreshToken(db, user.id, familyId, meta);
+  return buildTokenResponse(user, familyId, refreshToken);
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh pair.
+ * Must run inside a transaction; the token row is locked while it rotates.
+ * @returns {Promise<{status: 'ok'|'invalid'|'expired'|'reused', tokens?: Object}>}
+ */
+async function rotateRefreshToken(db, refreshToken, meta) {
+  const result = await db.query(
+    `SELECT rt.id, rt.family_id, rt.expires_at, rt.revoked_at, rt.replaced_by,
+            u.id AS user_id, u.token_version
+     FROM refresh_tokens rt
+     JOIN users u ON u.id = rt.user_id
+     WHERE rt.token_hash = $1
+     FOR UPDATE OF rt`,
+    [hashToken(refreshToken)]
+  );
+
+  if (result.rows.length === 0) {
+    return { status: 'invalid' };
+  }
+
+  const stored = result.rows[0];
+
+  if (stored.revoked_at) {
+    const rotatedRecently = stored.replaced_by &&
+      Date.now() - new Date(stored.revoked_at).getTime() < ROTATION_GRACE_MS;
+
+    if (!rotatedRecently) {
+      await revokeSession(db, stored.family_id);
+      return { status: 'reused' };
+    }
+    return { status: 'invalid' };
+  }
+
+  if (new Date(stored.expires_at).getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  const next = await insertRefreshToken(db, stored.user_id, stored.family_id, meta);
+  await db.query(
+    'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP, replaced_by = $1 WHERE id = $2',
+    [next.id, stored.id]
+  );
+
+  return {
+    status: 'ok',
+    tokens: buildTokenResponse(
+      { id: stored.user_id, token_version: stored.token_version },
+      stored.family_id,
+      next.refreshToken
+    )
+  };
+}
+
+async function revokeSession(db, familyId) {
+  await db.query(
+    'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE family_id = $1 AND revoked_at IS NULL',
+    [familyId]
+  );
+}
+
+async function findSessionId(db, refreshToken) {
+  const result = await db.query(
+    'SELECT family_id FROM refresh_tokens WHERE token_hash = $1',
+    [hashToken(refreshToken)]
+  );
+  return result.rows.length > 0 ? result.rows[0].family_id : null;
+}
+
+/**
+ * Invalidate every access and refresh token the user holds
+ * @returns {Promise<Object>} The user row with its new token_version
+ */
+async function revokeAllSessions(db, userId) {
+  const result = await db.query(
+    `UPDATE users SET token_version = token_version + 1
+     WHERE id = $1
+     RETURNING id, token_version`,
+    [userId]
+  );
+  await db.query(
+    'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL',
+    [userId]
+  );
+  return result.rows[0];
+}
+
+async function listSessions(db, userId) {
+  const result = await db.query(
+    `SELECT family_id, MIN(created_at) AS started_at, MAX(created_at) AS last_used_at,
+            (ARRAY_AGG(user_agent ORDER BY created_at DESC))[1] AS user_agent,
+            (ARRAY_AGG(ip_address ORDER BY created_at DESC))[1] AS ip_address
+     FROM refresh_tokens
+     WHERE user_id = $1
+     GROUP BY family_id
+     HAVING BOOL_OR(revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP)
+     ORDER BY last_used_at DESC`,
+    [userId]
+  );
+  return result.rows.map(row => ({
+    id: row.family_id,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    startedAt: row.started_at,
+    lastUsedAt: row.last_used_at
+  }));
+}
+
+async function isSessionActive(db, familyId) {
+  const result = await db.query(
+    `SELECT 1 FROM refresh_tokens
+     WHERE family_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     LIMIT 1`,
+    [familyId]
+  );
+  return result.rows.length > 0;
+}
+
+module.exports = {
+  signAccessToken,
+  verifyAccessToken,
+  generateRefreshToken,
+  hashToken,
+  getClientMeta,
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  findSessionId,
+  listSessions,
+  isSessionActive
+};
@@ -0,0 +1,112 @@
+const {
+  canWriteHousehold,
+  canManageHousehold,
+  resolveScope,
+  scopeCondition,
+  scopeValue,
+  moveUserDataIntoHousehold,
+  describeMemberNeeds
+} = require('../householdService');
+
+// Minimal stand-in for a pg client: answers each query through `respond`
+function createDb(respond = () => []) {
+  const calls = [];
+  return {
+    calls,
+    query: jest.fn(async (text, params) => {
+      calls.push({ text, params });
+      return { rows: respond(text, params) };
+    })
+  };
+}
+
+const personal = { userId: 'user-id', householdId: null };
+const shared = { userId: 'user-id', householdId: 'household-id' };
+
+describe('household scope', () => {
+  test('personal scope only matches rows outside any household', () => {
+    expect(scopeCondition('p', personal, '$1')).toBe('(p.user_id = $1 AND p.household_id IS NULL)');
+    expect(scopeValue(personal)).toBe('user-id');
+  });
+
+  test('household scope matches every member\'s rows', () => {
+    expect(scopeCondition(null, shared, '$2')).toBe('household_id = $2');
+    expect(scopeValue(shared)).toBe('household-id');
+  });
+
+  test('roles decide who may write and manage', () => {
+    expect(canWriteHousehold('owner')).toBe(true);
+    expect(canWriteHousehold('member')).toBe(true);
+    expect(canWriteHousehold('viewer')).toBe(false);
+    expect(canManageHousehold('owner')).toBe(true);
+    expect(canManageHousehold('member')).toBe(false);
+  });
+
+  test('users outside a household can always write their own data', async () => {
+    const scope = await resolveScope(createDb(), 'user-id');
+    expect(scope).toEqual({ userId: 'user-id', householdId: null, householdName: null, role: null, canWrite: true });
+  });
+
+  test('viewers get a read-only household scope', async () => {
+    const db = createDb(() => [{ household_id: 'household-id', role: 'viewer', name: 'The Smiths' }]);
+    const scope = await resolveScope(db, 'user-id');
+    expect(scope.householdId).toBe('household-id');
+    expect(scope.householdName).toBe('The Smiths');
+    expect(scope.canWrite).toBe(false);
+  });
+});
+
+describe('joining a household', () => {
+  test('moves personal rows of every shared table into the household', async () => {
+    const db = createDb();
+    await moveUserDataIntoHousehold(db, 'user-id', 'household-id');
+
+    const moved = db.calls.filter(call => /^UPDATE \w+ SET household_id/.test(call.text));
+    expect(moved.map(call => call.text.split(' ')[1])).toEqual([
+      'pantry_items', 'meal_plans', 'grocery_lists', 'shopping_lists'
+    ]);
+    moved.forEach(call => expect(call.params).toEqual(['user-id', 'household-id']));
+  });
+
+  test('folds the personal calendar into an existing household calendar', async () => {
+    const db = createDb((text) => {
+      if (text.includes('WHERE household_id = $1 AND is_default')) return [{ id: 'household-plan' }];
+      if (text.includes('household_id IS NULL AND is_default')) return [{ id: 'personal-plan' }];
+      return [];
+    });
+    await moveUserDataIntoHousehold(db, 'user-id', 'household-id');
+
+    const moveEntries = db.calls.find(call => call.text.includes('UPDATE meal_plan_entries'));
+    expect(moveEntries.params).toEqual(['household-plan', 'personal-plan']);
+    expect(db.calls.some(call => call.text === 'DELETE FROM meal_plans WHERE id = $1' && call.params[0] === 'personal-plan'))
+      .toBe(true);
+  });
+
+  test('adds the personal default shopping list to the household one', async () => {
+    const db = createDb((text) => {
+      if (text.includes('household_id = $1 AND client_id = \'default\'')) return [{ id: 'household-list' }];
+      if (text.includes('household_id IS NULL AND client_id = \'default\'')) return [{ id: 'personal-list' }];
+      return [];
+    });
+    await moveUserDataIntoHousehold(db, 'user-id', 'household-id');
+
+    const moveItems = db.calls.find(call => call.text.includes('UPDATE shopping_list_items'));
+    expect(moveItems.params).toEqual(['household-list', 'personal-list']);
+    expect(db.calls.some(call => call.text === 'DELETE FROM shopping_lists WHERE id = $1' && call.params[0] === 'personal-list'))
+      .toBe(true);
+  });
+});
+
+describe('planning for a household', () => {
+  test('lists members who have dietary needs or health goals', () => {
+    const needs = describeMemberNeeds({
+      members: [
+        { firstName: 'Ana', dietaryPreference: 'vegetarian', healthGoal: 'maintain' },
+        { firstName: 'Ben', dietaryPreference: 'none', healthGoal: 'maintain' },
+        { firstName: 'Cal', dietaryPreference: 'gluten-free', healthGoal: 'weight_loss' }
+      ]
+    });
+    expect(needs).toEqual(['Ana: vegetarian', 'Cal: gluten-free, weight loss']);
+    expect(describeMemberNeeds(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Households
+ *
+ * A household shares one pantry, meal plan and set of shopping/grocery lists.
+ * Rows carrying a household_id belong to the household; rows without one are
+ * the personal data of the user who created them. A member of a household
+ * works on the household's rows only - personal rows stay put and come back
+ * if they leave.
+ *
+ * Roles: owners manage members and invitations, members edit the shared data
+ * and viewers can only read it.
+ */
+
+const HOUSEHOLD_ROLES = ['owner', 'member', 'viewer'];
+const INVITATION_ROLES = ['member', 'viewer'];
+const INVITATION_TTL_DAYS = 14;
+
+// Tables whose rows move into a household when a member shares their data
+const SHARED_TABLES = ['pantry_items', 'meal_plans', 'grocery_lists', 'shopping_lists'];
+
+const canWriteHousehold = (role) => role === 'owner' || role === 'member';
+const canManageHousehold = (role) => role === 'owner';
+
+/**
+ * The household a user belongs to, or null
+ * @returns {Promise<{household_id: string, name: string, role: string}|null>}
+ */
+async function getMembership(db, userId) {
+  const result = await db.query(
+    `SELECT hm.household_id, hm.role, h.name
+     FROM household_members hm
+     JOIN households h ON h.id = hm.household_id
+     WHERE hm.user_id = $1`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Whose data a request works on
+ * @returns {Promise<{userId: string, householdId: string|null, householdName: string|null, role: string|null, canWrite: boolean}>}
+ */
+async function resolveScope(db, userId) {
+  const membership = await getMembership(db, userId);
+  if (!membership) {
+    return { userId, householdId: null, householdName: null, role: null, canWrite: true };
+  }
+  return {
+    userId,
+    householdId: membership.household_id,
+    householdName: membership.name,
+    role: membership.role,
+    canWrite: canWriteHousehold(membership.role)
+  };
+}
+
+/**
+ * SQL condition selecting the rows of a household-owned table in `scope`.
+ * Pair it with `scopeValue(scope)` bound to `param`.
+ * @param {string|null} alias - Table alias, or null for an unaliased table
+ * @param {Object} scope - From resolveScope
+ * @param {string} param - Placeholder, e.g. '$1'
+ */
+function scopeCondition(alias, scope, param) {
+  const column = alias ? `${alias}.` : '';
+  return scope.householdId
+    ? `${column}household_id = ${param}`
+    : `(${column}user_id = ${param} AND ${column}household_id IS NULL)`;
+}
+
+const scopeValue = (scope) => scope.householdId || scope.userId;
+
+/**
+ * Hand a new member's personal pantry, meal plans and lists to the household.
+ * Their default calendar is folded into the household's one when it already
+ * has one; where both planned the same slot the household's meal is kept.
+ * Likewise their default shopping list joins the household's default list.
+ */
+async function moveUserDataIntoHousehold(db, userId, householdId) {
+  const householdPlan = await db.query(
+    'SELECT id FROM meal_plans WHERE household_id = $1 AND is_default = true LIMIT 1',
+    [householdId]
+  );
+  const personalPlan = await db.query(
+    'SELECT id FROM meal_plans WHERE user_id = $1 AND household_id IS NULL AND is_default = true LIMIT 1',
+    [userId]
+  );
+
+  if (householdPlan.rows.length > 0 && personalPlan.rows.length > 0) {
+    const targetId = householdPlan.rows[0].id;
+    const sourceId = personalPlan.rows[0].id;
+
+    await db.query(
+      `UPDATE meal_plan_entries mpe
+       SET meal_plan_id = $1
+       WHERE mpe.meal_plan_id = $2 AND NOT EXISTS (
+         SELECT 1 FROM meal_plan_entries other
+         WHERE other.meal_plan_id = $1 AND other.meal_date = mpe.meal_date AND other.meal_type = mpe.meal_type
+       )`,
+      [targetId, sourceId]
+    );
+    await db.query('DELETE FROM meal_plan_entries WHERE meal_plan_id = $1', [sourceId]);
+    await db.query(
+      `UPDATE meal_plans target
+       SET start_date = LEAST(target.start_date, source.start_date),
+           end_date = GREATEST(target.end_date, source.end_date)
+       FROM meal_plans source
+       WHERE target.id = $1 AND source.id = $2`,
+      [targetId, sourceId]
+    );
+    await db.query('DELETE FROM meal_plans WHERE id = $1', [sourceId]);
+  }
+
+  const householdList = await db.query(
+    `SELECT id FROM shopping_lists WHERE household_id = $1 AND client_id = 'default'
+     ORDER BY created_at LIMIT 1`,
+    [householdId]
+  );
+  const personalList = await db.query(
+    `SELECT id FROM shopping_lists WHERE user_id = $1 AND household_id IS NULL AND client_id = 'default'
+     ORDER BY created_at LIMIT 1`,
+    [userId]
+  );
+
+  if (householdList.rows.length > 0 && personalList.rows.length > 0) {
+    await db.query(
+      'UPDATE shopping_list_items SET shopping_list_id = $1 WHERE shopping_list_id = $2',
+      [householdList.rows[0].id, personalList.rows[0].id]
+    );
+    await db.query('DELETE FROM shopping_lists WHERE id = $1', [personalList.rows[0].id]);
+  }
+
+  for (const table of SHARED_TABLES) {
+    await db.query(
+      `UPDATE ${table} SET household_id = $2 WHERE user_id = $1 AND household_id IS NULL`,
+      [userId, householdId]
+    );
+  }
+}
+
+const NO_PREFERENCE = ['none', 'maintain'];
+
+/**
+ * Who the household's meals are planned for
+ * @returns {Promise<{householdId: string, name: string, size: number, members: Array}|null>}
+ */
+async function getPlanningProfile(db, scope) {
+  if (!scope || !scope.householdId) {
+    return null;
+  }
+
+  const result = await db.query(
+    `SELECT u.id, u.first_name, u.dietary_preference, u.health_goal, hm.role
+     FROM household_members hm
+     JOIN users u ON u.id = hm.user_id
+     WHERE hm.household_id = $1
+     ORDER BY hm.joined_at`,
+    [scope.householdId]
+  );
+
+  return {
+    householdId: scope.householdId,
+    name: scope.householdName,
+    size: result.rows.length,
+    members: result.rows.map(row => ({
+      id: row.id,
+      firstName: row.first_name,
+      role: row.role,
+      dietaryPreference: row.dietary_preference,
+      healthGoal: row.health_goal
+    }))
+  };
+}
+
+/**
+ * One line per member with a dietary need or health goal, for AI prompts
+ * @returns {string[]}
+ */
+function describeMemberNeeds(profile) {
+  if (!profile) return [];
+
+  return profile.members
+    .map(member => {
+      const needs = [member.dietaryPreference, member.healthGoal]
+        .filter(value => value && !NO_PREFERENCE.includes(value))
+        .map(value => String(value).replace(/_/g, ' '));
+      return needs.length > 0 ? `${member.firstName || 'Member'}: ${needs.join(', ')}` : null;
+    })
+    .filter(Boolean);
+}
+
+module.exports = {
+  HOUSEHOLD_ROLES,
+  INVITATION_ROLES,
+  INVITATION_TTL_DAYS,
+  canWriteHousehold,
+  canManageHousehold,
+  getMembership,
+  resolveScope,
+  scopeCondition,
+  scopeValue,
+  moveUserDataIntoHousehold,
+  getPlanningProfile,
+  describeMemberNeeds
+};
@@ -0,0 +1,107 @@
+const { categorize, shelfLifeDays, toPantryQuantity, restock, consume } = require('../pantryStock');
+
+// Minimal stand-in for a pg client: answers each query through `respond`
+function createDb(respond = () => []) {
+  const calls = [];
+  return {
+    calls,
+    query: jest.fn(async (text, params) => {
+      calls.push({ text, params });
+      return { rows: respond(text, params) };
+    })
+  };
+}
+
+const scope = { userId: 'user-id', householdId: null };
+
+describe('pantry stock', () => {
+  test('items are categorized by what they are', () => {
+    expect(categorize('2% Milk')).toBe('dairy');
+    expect(categorize('strawberries')).toBe('produce');
+    expect(categorize('chicken broth')).toBe('pantry');
+    expect(categorize('peanut butter')).toBe('pantry');
+    expect(categorize('frozen peas')).toBe('frozen');
+    expect(categorize('paper towels')).toBeNull();
+  });
+
+  test('categories have a shelf life', () => {
+    expect(shelfLifeDays('meat')).toBe(3);
+    expect(shelfLifeDays('pantry')).toBe(365);
+    expect(shelfLifeDays(null)).toBeNull();
+  });
+
+  test('quantities land in unit_of_measure units', () => {
+    expect(toPantryQuantity(2, 'lbs')).toEqual({ quantity: 2, unit: 'pounds' });
+    expect(toPantryQuantity(2, 'dozen')).toEqual({ quantity: 24, unit: 'pieces' });
+    expect(toPantryQuantity(1, 'gallon')).toEqual({ quantity: 3785.41, unit: 'milliliters' });
+    expect(toPantryQuantity(null, null)).toEqual({ quantity: 1, unit: 'pieces' });
+  });
+
+  test('restocking tops up the same item and adds new ones', async () => {
+    const db = createDb((text, params) => {
+      if (text.startsWith('SELECT')) return [{ id: 'milk-id', name: 'Milk', quantity: '500', unit: 'milliliters' }];
+      if (text.startsWith('UPDATE')) return [{ id: params[3], name: 'Milk' }];
+      return [{ id: 'new-id', name: params[2] }];
+    });
+
+    const result = await restock(db, scope, [
+      { name: 'milk', quantity: 1, unit: 'liter' },
+      { name: 'Eggs', quantity: 1, unit: 'dozen' }
+    ]);
+
+    expect(result).toMatchObject({ added: 1, merged: 1 });
+    expect(result.items.map(item => item.id)).toEqual(['milk-id', 'new-id']);
+
+    const [, update, insert] = db.calls;
+    expect(update.params).toEqual([1000, 10, 'dairy', 'milk-id']);
+    expect(insert.params).toEqual(['user-id', null, 'Eggs', 12, 'pieces', 10, 'dairy']);
+  });
+
+  test('the same item bought twice becomes one row', async () => {
+    const db = createDb((text, params) => {
+      if (text.startsWith('SELECT')) return [];
+      if (text.startsWith('UPDATE')) return [{ id: params[3], name: 'Rice', quantity: '3' }];
+      return [{ id: 'rice-id', name: params[2], quantity: String(params[3]) }];
+    });
+
+    const result = await restock(db, scope, [
+      { name: 'Rice', quantity: 1, unit: 'pounds' },
+      { name: 'rice', quantity: 2, unit: 'lb', category: 'pantry' }
+    ]);
+
+    expect(result).toMatchObject({ added: 1, merged: 1 });
+    expect(result.items).toEqual([{ id: 'rice-id', name: 'Rice', quantity: '3' }]);
+  });
+
+  test('cooking takes the ingredients out of the pantry', async () => {
+    const db = createDb(text => text.startsWith('SELECT')
+      ? [
+        { id: 'rice-id', name: 'Rice', quantity: '4', unit: 'cups' },
+        { id: 'milk-id', name: 'Milk', quantity: '250', unit: 'milliliters' },
+        { id: 'salt-id', name: 'Salt', quantity: '1', unit: 'pieces' }
+      ]
+      : []);
+
+    const result = await consume(db, scope, ['1 cup rice', '1/2 cup rice', '2 cups milk', 'salt', '2 eggs']);
+
+    expect(result.used).toEqual([
+      { pantryItemId: 'rice-id', name: 'Rice', quantity: 1.5, unit: 'cups' },
+      { pantryItemId: 'milk-id', name: 'Milk', quantity: 250, unit: 'milliliters' }
+    ]);
+    expect(db.calls.slice(1).map(call => call.params)).toEqual([[1.5, 'rice-id'], [250, 'milk-id']]);
+
+    expect(result.shortfalls).toHaveLength(2);
+    expect(result.shortfalls[0]).toMatchObject({ name: 'milk', unit: 'cups' });
+    expect(result.shortfalls[0].quantity).toBeCloseTo(0.94, 2);
+    expect(result.shortfalls[1]).toEqual({ name: 'eggs', quantity: 2, unit: null });
+  });
+
+  test('an unmeasured ingredient is only short when the pantry has none', async () => {
+    const db = createDb(() => []);
+
+    const result = await consume(db, scope, ['pepper']);
+
+    expect(result).toEqual({ used: [], shortfalls: [{ name: 'pepper', quantity: null, unit: null }] });
+    expect(db.calls).toHaveLength(1);
+  });
+});
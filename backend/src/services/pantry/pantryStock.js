@@ -0,0 +1,213 @@
+/**
+ * Pantry stock
+ *
+ * Putting groceries away: bought items become pantry rows in the
+ * unit_of_measure units, dated today, with an expiration date from how long
+ * their category usually keeps. Something already in the pantry is topped up
+ * rather than listed twice.
+ *
+ * Cooking: a cooked meal's ingredients come back out again.
+ */
+
+const { findUnit, getUnitDimension, convert, parseQuantity } = require('../../utils/unitConversion');
+const { nameMatchScore, matchPantry, needsBuying } = require('../../utils/pantryMatching');
+const { scopeCondition, scopeValue } = require('../households/householdService');
+
+// The unit_of_measure enum
+const PANTRY_UNITS = ['pieces', 'cups', 'tablespoons', 'teaspoons', 'ounces', 'pounds', 'grams', 'kilograms', 'liters', 'milliliters'];
+
+// Dates as YYYY-MM-DD, so they don't move a day with the server's time zone
+const ITEM_COLUMNS = `id, name, quantity, unit, to_char(purchase_date, 'YYYY-MM-DD') AS purchase_date,
+  to_char(expiration_date, 'YYYY-MM-DD') AS expiration_date, barcode, category, notes, created_at, updated_at`;
+
+// Units the enum lacks are stored in its base unit of the same dimension
+const FALLBACK_UNITS = { count: 'pieces', volume: 'milliliters', mass: 'grams' };
+
+// How many days each category keeps once bought
+const SHELF_LIFE_DAYS = {
+  produce: 7,
+  dairy: 10,
+  meat: 3,
+  bakery: 5,
+  frozen: 180,
+  beverages: 180,
+  pantry: 365
+};
+
+const CATEGORY_KEYWORDS = {
+  produce: ['apple', 'banana', 'lettuce', 'tomato', 'carrot', 'onion', 'potato', 'garlic', 'spinach', 'broccoli',
+    'berry', 'strawberry', 'blueberry', 'raspberry', 'cherry', 'lemon', 'lime', 'avocado', 'cucumber', 'celery', 'mushroom', 'zucchini', 'basil',
+    'cilantro', 'parsley', 'fruit', 'vegetable', 'salad', 'bell pepper'],
+  dairy: ['milk', 'cheese', 'yogurt', 'butter', 'cream', 'sour cream', 'egg'],
+  meat: ['chicken', 'beef', 'pork', 'fish', 'turkey', 'sausage', 'bacon', 'steak', 'salmon', 'shrimp', 'lamb', 'ham'],
+  bakery: ['bread', 'bagel', 'muffin', 'croissant', 'roll', 'bun', 'tortilla'],
+  frozen: ['ice cream'],
+  beverages: ['water', 'juice', 'soda', 'coffee', 'tea', 'beer', 'wine'],
+  pantry: ['pasta', 'rice', 'flour', 'sugar', 'salt', 'spice', 'cereal', 'oat', 'oats', 'bean', 'sauce', 'oil',
+    'vinegar', 'honey', 'peanut butter', 'broth', 'stock', 'noodle', 'cracker', 'chips', 'nut', 'nuts']
+};
+
+/**
+ * The pantry category for an item name, or null when nothing fits. Frozen and
+ * canned goods go by how they're kept. Otherwise the last word names the
+ * thing, so the keyword ending last wins ("chicken broth" is pantry), then
+ * the longest ("peanut butter" is pantry, "ice cream" frozen).
+ */
+function categorize(name) {
+  const lower = String(name || '').toLowerCase();
+  if (/\bfrozen\b/.test(lower)) return 'frozen';
+  if (/\b(canned|dried)\b/.test(lower)) return 'pantry';
+
+  let best = null;
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    for (const keyword of keywords) {
+      const plural = keyword.endsWith('y') ? `${keyword.slice(0, -1)}(y|ies)` : `${keyword}(e?s)?`;
+      const match = new RegExp(`\\b${plural}\\b`).exec(lower);
+      if (!match) continue;
+      const end = match.index + match[0].length;
+      if (!best || end > best.end || (end === best.end && keyword.length > best.keyword.length)) {
+        best = { category, keyword, end };
+      }
+    }
+  }
+  return best ? best.category : null;
+}
+
+/**
+ * Days until an item of this category expires, or null when unknown
+ */
+function shelfLifeDays(category) {
+  return SHELF_LIFE_DAYS[category] ?? null;
+}
+
+/**
+ * An amount in any unit as a unit_of_measure quantity: "2 dozen" is 24
+ * pieces, "1 gallon" 3785.41 milliliters. No amount means one.
+ */
+function toPantryQuantity(amount, unitText) {
+  const quantity = amount > 0 ? amount : 1;
+  const unit = findUnit(unitText);
+  if (!unit) return { quantity, unit: 'pieces' };
+  if (PANTRY_UNITS.includes(unit)) return { quantity, unit };
+
+  const fallback = FALLBACK_UNITS[getUnitDimension(unit)];
+  return { quantity: Math.round(convert(quantity, unit, fallback) * 100) / 100, unit: fallback };
+}
+
+/**
+ * Put bought items ({ name, quantity, unit, category }) in the pantry of the
+ * scope. Each one tops up a pantry row of the same thing in a comparable unit,
+ * or becomes a new row; either way it's dated today.
+ * @returns {Promise<{items: object[], added: number, merged: number}>}
+ */
+async function restock(db, scope, items) {
+  const existing = await db.query(
+    `SELECT id, name, quantity, unit FROM pantry_items WHERE ${scopeCondition(null, scope, '$1')}`,
+    [scopeValue(scope)]
+  );
+  const stock = existing.rows.map(row => ({ ...row, quantity: parseFloat(row.quantity) }));
+
+  // Latest version of each row touched; one bought twice is listed once
+  const restocked = new Map();
+  let added = 0;
+  let merged = 0;
+
+  for (const item of items) {
+    const name = item.name.trim();
+    const { quantity, unit } = toPantryQuantity(item.quantity, item.unit);
+    const category = item.category || categorize(name);
+    const days = shelfLifeDays(category);
+
+    const match = stock.find(row => nameMatchScore(name, row.name) === 2 && convert(quantity, unit, row.unit, name) !== null);
+
+    if (match) {
+      const extra = convert(quantity, unit, match.unit, name);
+      const result = await db.query(
+        `UPDATE pantry_items
+         SET quantity = quantity + $1,
+             purchase_date = CURRENT_DATE,
+             -- Older stock that's still good gets used first, so it keeps its date
+             expiration_date = CASE WHEN expiration_date >= CURRENT_DATE THEN expiration_date ELSE CURRENT_DATE + $2::int END,
+             category = COALESCE(category, $3),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $4
+         RETURNING ${ITEM_COLUMNS}`,
+        [Math.round(extra * 100) / 100, days, category, match.id]
+      );
+      match.quantity += extra;
+      merged++;
+      restocked.set(match.id, result.rows[0]);
+      continue;
+    }
+
+    const result = await db.query(
+      `INSERT INTO pantry_items (user_id, household_id, name, quantity, unit, purchase_date, expiration_date, category)
+       VALUES ($1, $2, $3, $4, $5, CURRENT_DATE, CURRENT_DATE + $6::int, $7)
+       RETURNING ${ITEM_COLUMNS}`,
+      [scope.userId, scope.householdId, name, quantity, unit, days, category]
+    );
+    stock.push({ id: result.rows[0].id, name, quantity, unit });
+    added++;
+    restocked.set(result.rows[0].id, result.rows[0]);
+  }
+
+  return { items: [...restocked.values()], added, merged };
+}
+
+/**
+ * Take a cooked meal's ingredient lines ("2 cups rice", already scaled to the
+ * servings cooked) out of the pantry of the scope. Each line uses up matching
+ * pantry items as far as they go, down to zero and soonest to expire first;
+ * whatever they didn't cover is a shortfall. Lines without an amount ("salt to taste") use nothing up, and
+ * are only short when the pantry has none at all.
+ * @returns {Promise<{used: object[], shortfalls: object[]}>}
+ *   used: { pantryItemId, name, quantity, unit } per pantry item, in its unit
+ *   shortfalls: { name, quantity, unit }; quantity is null when unmeasured
+ */
+async function consume(db, scope, lines) {
+  const existing = await db.query(
+    `SELECT id, name, quantity, unit FROM pantry_items WHERE ${scopeCondition(null, scope, '$1')} ORDER BY expiration_date ASC NULLS LAST`,
+    [scopeValue(scope)]
+  );
+
+  const ingredients = lines
+    .map(line => parseQuantity(line))
+    .filter(ingredient => ingredient.name);
+  const matches = matchPantry(ingredients, existing.rows);
+
+  // A pantry item several lines draw on is taken down once, by the total
+  const used = new Map();
+  for (const { item, amount } of matches.flatMap(match => match.uses)) {
+    const entry = used.get(item.id) || { pantryItemId: item.id, name: item.name, quantity: 0, unit: item.unit };
+    entry.quantity = Math.round((entry.quantity + amount) * 100) / 100;
+    used.set(item.id, entry);
+  }
+
+  for (const entry of used.values()) {
+    await db.query(
+      `UPDATE pantry_items
+       SET quantity = GREATEST(quantity - $1, 0), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [entry.quantity, entry.pantryItemId]
+    );
+  }
+
+  const shortfalls = matches.filter(needsBuying).map(match => ({
+    name: match.ingredient.name,
+    quantity: match.buy,
+    unit: match.buy === null ? null : match.ingredient.unit
+  }));
+
+  return { used: [...used.values()], shortfalls };
+}
+
+module.exports = {
+  PANTRY_UNITS,
+  ITEM_COLUMNS,
+  SHELF_LIFE_DAYS,
+  categorize,
+  shelfLifeDays,
+  toPantryQuantity,
+  restock,
+  consume
+};
@@ -0,0 +1,36 @@
+const { getPreferences, updatePreferences } = require('../preferencesService');
+
+// Minimal stand-in for a pg client: answers each query through `respond`
+function createDb(respond = () => []) {
+  const calls = [];
+  return {
+    calls,
+    query: jest.fn(async (text, params) => {
+      calls.push({ text, params });
+      return { rows: respond(text, params) };
+    })
+  };
+}
+
+describe('user preferences', () => {
+  test('users who never chose get the defaults', async () => {
+    expect(await getPreferences(createDb(), 'user-id')).toEqual({ measurementSystem: 'us' });
+  });
+
+  test('stored values are read back and unknown ones ignored', async () => {
+    const db = createDb(() => [{ preference_key: 'measurement_system', preference_value: 'uk' }]);
+    expect((await getPreferences(db, 'user-id')).measurementSystem).toBe('uk');
+
+    const stale = createDb(() => [{ preference_key: 'measurement_system', preference_value: 'imperial' }]);
+    expect((await getPreferences(stale, 'user-id')).measurementSystem).toBe('us');
+  });
+
+  test('updates upsert known preferences only', async () => {
+    const db = createDb();
+    await updatePreferences(db, 'user-id', { measurementSystem: 'metric', favouriteColour: 'green' });
+
+    const writes = db.calls.filter(call => call.text.includes('INSERT INTO user_preferences'));
+    expect(writes).toHaveLength(1);
+    expect(writes[0].params).toEqual(['user-id', 'measurement_system', 'metric']);
+  });
+});
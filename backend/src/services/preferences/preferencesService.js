@@ -0,0 +1,73 @@
+/**
+ * User preferences
+ *
+ * Stored as key/value rows in user_preferences so new settings don't need a
+ * schema change. The API speaks camelCase names; each maps to a snake_case key
+ * with the values it accepts and the default a user gets until they choose.
+ */
+
+const { MEASUREMENT_SYSTEMS, DEFAULT_MEASUREMENT_SYSTEM } = require('../../utils/unitConversion');
+
+const PREFERENCES = {
+  measurementSystem: {
+    key: 'measurement_system',
+    values: MEASUREMENT_SYSTEMS,
+    defaultValue: DEFAULT_MEASUREMENT_SYSTEM
+  }
+};
+
+const defaults = () => Object.fromEntries(
+  Object.entries(PREFERENCES).map(([name, preference]) => [name, preference.defaultValue])
+);
+
+/**
+ * Every known preference for a user, with defaults filled in
+ * @returns {Promise<{measurementSystem: string}>}
+ */
+async function getPreferences(db, userId) {
+  const result = await db.query(
+    'SELECT preference_key, preference_value FROM user_preferences WHERE user_id = $1',
+    [userId]
+  );
+
+  const preferences = defaults();
+  result.rows.forEach(row => {
+    const entry = Object.entries(PREFERENCES).find(([, preference]) => preference.key === row.preference_key);
+    if (entry && entry[1].values.includes(row.preference_value)) {
+      preferences[entry[0]] = row.preference_value;
+    }
+  });
+  return preferences;
+}
+
+/**
+ * Save the given preferences; unknown names are ignored
+ * @returns {Promise<{measurementSystem: string}>} the user's preferences afterwards
+ */
+async function updatePreferences(db, userId, updates) {
+  for (const [name, value] of Object.entries(updates)) {
+    const preference = PREFERENCES[name];
+    if (!preference || value === undefined) continue;
+
+    await db.query(
+      `INSERT INTO user_preferences (user_id, preference_key, preference_value)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, preference_key)
+       DO UPDATE SET preference_value = EXCLUDED.preference_value, updated_at = CURRENT_TIMESTAMP`,
+      [userId, preference.key, String(value)]
+    );
+  }
+
+  return getPreferences(db, userId);
+}
+
+async function getMeasurementSystem(db, userId) {
+  return (await getPreferences(db, userId)).measurementSystem;
+}
+
+module.exports = {
+  PREFERENCES,
+  getPreferences,
+  updatePreferences,
+  getMeasurementSystem
+};
@@ -0,0 +1,80 @@
+const {
+  channelFor,
+  subscribe,
+  publish,
+  buildChangeEvent,
+  isStreamAllowed,
+  formatEvent,
+  listenerCount
+} = require('../shoppingListEvents');
+
+describe('shopping list channels', () => {
+  test('household members share a channel, everyone else gets their own', () => {
+    expect(channelFor({ userId: 'user-id', householdId: 'household-id' })).toBe('household:household-id');
+    expect(channelFor({ userId: 'user-id', householdId: null })).toBe('user:user-id');
+  });
+
+  test('delivers events only to listeners on the same channel', () => {
+    const household = jest.fn();
+    const stranger = jest.fn();
+    const stopHousehold = subscribe('household:a', household);
+    const stopStranger = subscribe('user:b', stranger);
+
+    publish('household:a', { type: 'changes' });
+    expect(household).toHaveBeenCalledWith({ type: 'changes' });
+    expect(stranger).not.toHaveBeenCalled();
+
+    stopHousehold();
+    stopStranger();
+    expect(listenerCount('household:a')).toBe(0);
+  });
+});
+
+describe('change events', () => {
+  test('collects applied and deleted shopping lists and items', () => {
+    const event = buildChangeEvent([
+      { entity: 'shopping-lists', id: 'costco', status: 'applied', record: { id: 'costco', name: 'Costco run' } },
+      { entity: 'shopping-list', id: 'milk', status: 'applied', record: { id: 'milk', position: 0 } },
+      { entity: 'shopping-list', id: 'eggs', status: 'deleted' },
+      { entity: 'shopping-list', id: 'bread', status: 'conflict', record: { id: 'bread' } },
+      { entity: 'pantry', id: 'rice', status: 'applied', record: { id: 'rice' } }
+    ], 'tab-1');
+
+    expect(event).toEqual({
+      type: 'changes',
+      origin: 'tab-1',
+      entities: {
+        'shopping-lists': { records: [{ id: 'costco', name: 'Costco run' }], deleted: [] },
+        'shopping-list': { records: [{ id: 'milk', position: 0 }], deleted: ['eggs'] }
+      }
+    });
+  });
+
+  test('skips pushes that did not touch the shopping list', () => {
+    expect(buildChangeEvent([{ entity: 'pantry', id: 'rice', status: 'applied', record: {} }])).toBeNull();
+  });
+
+  test('frames events for an event stream', () => {
+    expect(formatEvent({ type: 'ready' })).toBe('event: ready\ndata: {"type":"ready"}\n\n');
+  });
+});
+
+describe('stream access', () => {
+  const opened = { token_version: 2, session_active: true, household_id: 'household-id' };
+
+  test('keeps streams whose user is still signed in to the same household', () => {
+    expect(isStreamAllowed(opened, { ...opened })).toBe(true);
+  });
+
+  test('closes streams once the user leaves or is removed from the household', () => {
+    expect(isStreamAllowed(opened, { ...opened, household_id: null })).toBe(false);
+    expect(isStreamAllowed(opened, { ...opened, household_id: 'other-household' })).toBe(false);
+    expect(isStreamAllowed({ ...opened, household_id: null }, opened)).toBe(false);
+  });
+
+  test('closes streams whose session was signed out or revoked', () => {
+    expect(isStreamAllowed(opened, { ...opened, session_active: false })).toBe(false);
+    expect(isStreamAllowed(opened, { ...opened, token_version: 3 })).toBe(false);
+    expect(isStreamAllowed(opened, null)).toBe(false);
+  });
+});
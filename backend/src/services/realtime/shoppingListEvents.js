@@ -0,0 +1,112 @@
+/**
+ * Shopping List Events
+ * In-process fan-out of shopping list changes to every open event stream of
+ * the people sharing the list.
+ *
+ * Channels follow the data scope (see households/householdService): everyone
+ * in a household listens on `household:<id>`, someone on their own listens on
+ * `user:<id>`. Events carry the same records the sync pull returns, plus the
+ * id of the browser tab that made the change so it can skip its own echo.
+ *
+ * Streams outlive the checks made when they opened, so each event is only
+ * written after checking the listener still has access (see streamAccess).
+ *
+ * This only reaches clients connected to the same server process; a second
+ * instance would need a shared broker (e.g. Postgres LISTEN/NOTIFY) behind
+ * publish().
+ */
+
+const { EventEmitter } = require('events');
+
+const bus = new EventEmitter();
+// One listener per open stream, so the default warning threshold of 10 is meaningless
+bus.setMaxListeners(0);
+
+function channelFor(scope) {
+  return scope.householdId ? `household:${scope.householdId}` : `user:${scope.userId}`;
+}
+
+// Returns a function that stops the listener
+function subscribe(channel, listener) {
+  bus.on(channel, listener);
+  return () => bus.off(channel, listener);
+}
+
+function publish(channel, event) {
+  bus.emit(channel, event);
+}
+
+// Sync entities whose changes are streamed
+const LIVE_ENTITIES = ['shopping-lists', 'shopping-list'];
+
+// Collect the shopping lists and items a sync push changed into one event,
+// shaped like the sync pull, or null when nothing on the lists changed
+function buildChangeEvent(results, origin) {
+  const entities = {};
+
+  for (const result of results) {
+    if (!LIVE_ENTITIES.includes(result.entity)) continue;
+    if (result.status !== 'applied' && result.status !== 'deleted') continue;
+
+    const changes = entities[result.entity] || (entities[result.entity] = { records: [], deleted: [] });
+    if (result.status === 'applied') {
+      changes.records.push(result.record);
+    } else {
+      changes.deleted.push(result.id);
+    }
+  }
+
+  if (Object.keys(entities).length === 0) {
+    return null;
+  }
+  return { type: 'changes', origin: origin || null, entities };
+}
+
+/**
+ * What an open stream's access rests on: the user's token version, whether
+ * the session it was opened with is still signed in, and their household
+ * @returns {Promise<{token_version: number, session_active: boolean, household_id: string|null}|null>}
+ */
+async function streamAccess(db, userId, sessionId) {
+  const result = await db.query(
+    `SELECT u.token_version, hm.household_id,
+            ($2::uuid IS NULL OR EXISTS (
+              SELECT 1 FROM refresh_tokens
+              WHERE family_id = $2 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+            )) AS session_active
+     FROM users u
+     LEFT JOIN household_members hm ON hm.user_id = u.id
+     WHERE u.id = $1`,
+    [userId, sessionId || null]
+  );
+  return result.rows[0] || null;
+}
+
+// A stream stops once its session is signed out (or every session is, which
+// bumps the token version) or its user joins, leaves or is removed from a household
+function isStreamAllowed(opened, current) {
+  return Boolean(opened && current) &&
+    current.session_active &&
+    current.token_version === opened.token_version &&
+    (current.household_id || null) === (opened.household_id || null);
+}
+
+// Server-sent event framing
+function formatEvent(event) {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function listenerCount(channel) {
+  return bus.listenerCount(channel);
+}
+
+module.exports = {
+  channelFor,
+  subscribe,
+  publish,
+  buildChangeEvent,
+  streamAccess,
+  isStreamAllowed,
+  formatEvent,
+  listenerCount
+};
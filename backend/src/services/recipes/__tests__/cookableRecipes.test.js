@@ -0,0 +1,46 @@
+const { recipeIngredientLines, scoreRecipe, rankRecipes } = require('../cookableRecipes');
+
+const pantry = [
+  { id: 'rice-id', name: 'Rice', quantity: '4', unit: 'cups', days_left: null },
+  { id: 'milk-id', name: 'Milk', quantity: '1', unit: 'cups', days_left: 1 },
+  { id: 'egg-id', name: 'Eggs', quantity: '12', unit: 'pieces', days_left: 20 },
+  { id: 'salt-id', name: 'Salt', quantity: '1', unit: 'pieces', days_left: null }
+];
+
+describe('cookable recipes', () => {
+  test('ingredient lines come from rows, then the saved list, then the instructions', () => {
+    const recipe = {
+      ingredient_list: ['2 cups rice', { quantity: '1', unit: 'cup', name: 'milk' }],
+      instructions: 'Ingredients:\n1. 3 eggs\n\nInstructions:\n1. Mix'
+    };
+
+    expect(recipeIngredientLines(recipe, [{ name: 'flour', quantity: '2.00', unit: 'cups' }])).toEqual(['2 cups flour']);
+    expect(recipeIngredientLines(recipe)).toEqual(['2 cups rice', '1 cup milk']);
+    expect(recipeIngredientLines({ ...recipe, ingredient_list: [] })).toEqual(['3 eggs']);
+  });
+
+  test('coverage counts the share of each ingredient the pantry has', () => {
+    const result = scoreRecipe(['2 cups rice', '2 cups milk', '1 lb chicken', 'salt'], pantry);
+
+    expect(result.coverage).toBe(0.63);
+    expect(result.ingredientCount).toBe(4);
+    expect(result.missing).toEqual([
+      { name: 'milk', quantity: 1, unit: 'cups', text: '1 cup milk' },
+      { name: 'chicken', quantity: 1, unit: 'pounds', text: '1 lb chicken' }
+    ]);
+    expect(result.expiring).toEqual([{ name: 'Milk', daysLeft: 1 }]);
+    expect(result.score).toBeGreaterThan(result.coverage);
+  });
+
+  test('recipes using what expires soon rank above equally covered ones', () => {
+    const ranked = rankRecipes([
+      { recipe: { id: 'omelette-id', name: 'Omelette' }, lines: ['2 eggs'] },
+      { recipe: { id: 'pudding-id', client_id: 'recipe-1', name: 'Rice Pudding' }, lines: ['1 cup rice', '1 cup milk'] },
+      { recipe: { id: 'steak-id', name: 'Steak' }, lines: ['1 lb steak'] },
+      { recipe: { id: 'empty-id', name: 'Mystery' }, lines: [] }
+    ], pantry);
+
+    expect(ranked.map(recipe => recipe.id)).toEqual(['recipe-1', 'omelette-id']);
+    expect(ranked[0]).toMatchObject({ coverage: 1, missing: [] });
+  });
+});
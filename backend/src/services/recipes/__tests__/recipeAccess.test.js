@@ -0,0 +1,92 @@
+const {
+  resolveRecipeRole,
+  nextVisibility,
+  canEditRecipe,
+  visibleRecipeCondition,
+  getRecipeAccess
+} = require('../recipeAccess');
+
+const owner = 'owner-id';
+const friend = 'friend-id';
+
+const recipe = (visibility) => ({ id: 'recipe-id', user_id: owner, visibility });
+
+describe('recipe access rules', () => {
+  test('owners always get full access', () => {
+    expect(resolveRecipeRole(recipe('private'), owner, null)).toBe('owner');
+    expect(resolveRecipeRole(recipe('public'), owner, null)).toBe('owner');
+  });
+
+  test('shares grant view or edit unless the recipe is private again', () => {
+    expect(resolveRecipeRole(recipe('shared'), friend, 'view')).toBe('viewer');
+    expect(resolveRecipeRole(recipe('shared'), friend, 'edit')).toBe('editor');
+    expect(resolveRecipeRole(recipe('public'), friend, 'edit')).toBe('editor');
+    expect(resolveRecipeRole(recipe('private'), friend, 'edit')).toBeNull();
+  });
+
+  test('household shares reach members and the stronger share wins', () => {
+    expect(resolveRecipeRole(recipe('shared'), friend, null, 'view')).toBe('viewer');
+    expect(resolveRecipeRole(recipe('shared'), friend, null, 'edit')).toBe('editor');
+    expect(resolveRecipeRole(recipe('shared'), friend, 'view', 'edit')).toBe('editor');
+    expect(resolveRecipeRole(recipe('shared'), friend, 'edit', 'view')).toBe('editor');
+    expect(resolveRecipeRole(recipe('private'), friend, null, 'edit')).toBeNull();
+  });
+
+  test('public recipes are view-only for everyone else', () => {
+    expect(resolveRecipeRole(recipe('public'), friend, null)).toBe('viewer');
+    expect(resolveRecipeRole(recipe('public'), null, null)).toBe('viewer');
+    expect(resolveRecipeRole(recipe('shared'), null, null)).toBeNull();
+    expect(resolveRecipeRole(null, owner, null)).toBeNull();
+  });
+
+  test('only owners and editors can edit', () => {
+    expect(canEditRecipe('owner')).toBe(true);
+    expect(canEditRecipe('editor')).toBe(true);
+    expect(canEditRecipe('viewer')).toBe(false);
+    expect(canEditRecipe(null)).toBe(false);
+  });
+
+  test('isPublic from older clients maps onto visibility', () => {
+    expect(nextVisibility('private', { isPublic: true })).toBe('public');
+    expect(nextVisibility('public', { isPublic: false })).toBe('private');
+    expect(nextVisibility('shared', { isPublic: false })).toBe('shared');
+    expect(nextVisibility('shared', {})).toBe('shared');
+    expect(nextVisibility('public', { visibility: 'shared', isPublic: true })).toBe('shared');
+  });
+
+  test('anonymous visibility only matches public recipes', () => {
+    expect(visibleRecipeCondition('r', null)).toBe("r.visibility = 'public'");
+    expect(visibleRecipeCondition('r', '$1')).toContain('rs.shared_with_user_id = $1');
+  });
+
+  test('signed-in visibility includes recipes shared with the user\'s household', () => {
+    const condition = visibleRecipeCondition('r', '$2');
+    expect(condition).toContain('rs.shared_with_household_id IN');
+    expect(condition).toContain('hm.user_id = $2');
+  });
+
+  test('getRecipeAccess gives household members the household share', async () => {
+    const recipeId = '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b';
+    const row = { id: recipeId, user_id: owner, visibility: 'shared', share_permission: null, household_permission: 'edit' };
+    const db = { query: jest.fn().mockResolvedValue({ rows: [row] }) };
+
+    await expect(getRecipeAccess(db, recipeId, friend)).resolves.toEqual({ recipe: row, role: 'editor' });
+    expect(db.query.mock.calls[0][0]).toContain('hs.shared_with_household_id = hm.household_id');
+  });
+
+  test('only UUID refs are compared with the primary key', async () => {
+    const recipeId = '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b';
+    const db = { query: jest.fn().mockResolvedValue({ rows: [{ id: recipeId, user_id: owner, visibility: 'private' }] }) };
+
+    await expect(getRecipeAccess(db, recipeId, owner)).resolves.toMatchObject({ role: 'owner' });
+    expect(db.query.mock.calls[0][0]).toContain('r.id = $3');
+    expect(db.query.mock.calls[0][1]).toEqual([recipeId, owner, recipeId]);
+
+    await getRecipeAccess(db, '1712345678901', owner);
+    expect(db.query.mock.calls[1][1]).toEqual(['1712345678901', owner, null]);
+
+    db.query.mockClear();
+    await expect(getRecipeAccess(db, 'not-a-recipe', null)).resolves.toEqual({ recipe: null, role: null });
+    expect(db.query).not.toHaveBeenCalled();
+  });
+});
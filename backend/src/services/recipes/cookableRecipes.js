@@ -0,0 +1,162 @@
+/**
+ * Cookable recipes
+ *
+ * "What can I cook now?": the user's saved recipes ranked by how much of them
+ * the pantry covers. Each ingredient counts for the share of it the pantry
+ * has, so a recipe short of half a cup of milk still scores most of that line.
+ * Recipes that would use something about to expire rank higher, the sooner
+ * it expires the more, so it gets eaten first. Expired items don't count.
+ */
+
+const { parseQuantity, formatQuantity } = require('../../utils/unitConversion');
+const { matchPantry, needsBuying } = require('../../utils/pantryMatching');
+const { parseIngredientsFromInstructions } = require('../../utils/ingredientParser');
+const { scopeCondition, scopeValue } = require('../households/householdService');
+
+// Pantry items expiring within this many days boost the recipes that use them
+const EXPIRING_SOON_DAYS = 7;
+
+// Most a recipe's score goes up for one item expiring today; less for later
+const EXPIRING_BOOST = 0.15;
+
+// The line an ingredient_list entry is written as, "1 1/2 cups milk"
+function ingredientText(ingredient) {
+  if (typeof ingredient === 'string') return ingredient.trim();
+  if (!ingredient) return '';
+  return (ingredient.text || [ingredient.quantity, ingredient.unit, ingredient.name]
+    .filter(part => part !== null && part !== undefined && String(part).trim())
+    .join(' ')).trim();
+}
+
+// The lines under an "Ingredients:" heading up to the next heading, or all
+// of them when there's no such heading
+function ingredientSection(instructions) {
+  const lines = String(instructions || '').split('\n');
+  const start = lines.findIndex(line => /^\s*ingredients:?\s*$/i.test(line));
+  if (start === -1) return lines.join('\n');
+
+  const rest = lines.slice(start + 1);
+  const end = rest.findIndex(line => /^\s*[a-z][a-z ]*:\s*$/i.test(line));
+  return (end === -1 ? rest : rest.slice(0, end)).join('\n');
+}
+
+/**
+ * A recipe's ingredient lines: its recipe_ingredients rows when it has any,
+ * then the list the app saved with it, and failing both the ones written
+ * into its instructions
+ */
+function recipeIngredientLines(recipe, structured = []) {
+  if (structured.length > 0) {
+    return structured.map(row => `${parseFloat(row.quantity)} ${row.unit} ${row.name}`);
+  }
+  if (Array.isArray(recipe.ingredient_list) && recipe.ingredient_list.length > 0) {
+    return recipe.ingredient_list.map(ingredientText).filter(Boolean);
+  }
+  return parseIngredientsFromInstructions(ingredientSection(recipe.instructions)).items.map(item => item.text);
+}
+
+/**
+ * How far the pantry ({ id, name, quantity, unit, days_left }) goes towards
+ * a recipe's ingredient lines; null when it has none
+ * @returns {{coverage: number, score: number, ingredientCount: number, missing: object[], expiring: object[]} | null}
+ */
+function scoreRecipe(lines, pantryItems) {
+  const ingredients = lines.map(line => parseQuantity(line)).filter(ingredient => ingredient.name);
+  if (ingredients.length === 0) return null;
+
+  const matches = matchPantry(ingredients, pantryItems);
+  const covered = matches.reduce((sum, match) => {
+    if (match.pantryItem === null) return sum;
+    return sum + (match.have === null ? 1 : match.have / match.ingredient.amount);
+  }, 0);
+  const coverage = covered / matches.length;
+
+  // Unmeasured ingredients ("salt to taste") use the pantry item they matched without taking any
+  const expiring = new Map();
+  for (const match of matches) {
+    const items = match.uses.length > 0
+      ? match.uses.map(use => use.item)
+      : pantryItems.filter(item => item.name === match.pantryItem);
+    for (const item of items) {
+      if (item.days_left !== null && item.days_left !== undefined && item.days_left <= EXPIRING_SOON_DAYS) {
+        expiring.set(item.id, item);
+      }
+    }
+  }
+  const boost = [...expiring.values()]
+    .reduce((sum, item) => sum + EXPIRING_BOOST * (1 - Math.max(item.days_left, 0) / (EXPIRING_SOON_DAYS + 1)), 0);
+
+  const missing = matches.filter(needsBuying).map(({ ingredient, buy }) => ({
+    name: ingredient.name,
+    quantity: buy,
+    unit: buy === null ? null : ingredient.unit,
+    text: buy === null ? ingredient.name : `${formatQuantity({ amount: buy, unit: ingredient.unit })} ${ingredient.name}`
+  }));
+
+  return {
+    coverage: Math.round(coverage * 100) / 100,
+    score: Math.round((coverage + boost) * 1000) / 1000,
+    ingredientCount: matches.length,
+    missing,
+    expiring: [...expiring.values()].map(item => ({ name: item.name, daysLeft: item.days_left }))
+  };
+}
+
+/**
+ * Recipes ({ recipe, lines }) the pantry covers any of, best first: highest
+ * score, then fewest things to buy
+ */
+function rankRecipes(recipes, pantryItems, limit = 20) {
+  return recipes
+    .map(({ recipe, lines }) => {
+      const result = scoreRecipe(lines, pantryItems);
+      return result && result.coverage > 0
+        ? { id: recipe.client_id || recipe.id, name: recipe.name, mealType: recipe.meal_type || null, ...result }
+        : null;
+    })
+    .filter(Boolean)
+    .sort((a, b) => b.score - a.score || a.missing.length - b.missing.length)
+    .slice(0, limit);
+}
+
+/**
+ * The user's saved recipes ranked against the pantry of their scope
+ */
+async function findCookableRecipes(db, scope, limit) {
+  const recipes = await db.query(
+    'SELECT id, client_id, name, meal_type, instructions, ingredient_list FROM recipes WHERE user_id = $1',
+    [scope.userId]
+  );
+  const structured = await db.query(
+    `SELECT ri.recipe_id, ri.name, ri.quantity, ri.unit
+     FROM recipe_ingredients ri
+     JOIN recipes r ON ri.recipe_id = r.id
+     WHERE r.user_id = $1`,
+    [scope.userId]
+  );
+  const pantry = await db.query(
+    `SELECT id, name, quantity, unit, expiration_date - CURRENT_DATE AS days_left
+     FROM pantry_items
+     WHERE ${scopeCondition(null, scope, '$1')} AND (expiration_date IS NULL OR expiration_date >= CURRENT_DATE)
+     ORDER BY expiration_date ASC NULLS LAST`,
+    [scopeValue(scope)]
+  );
+
+  const rowsByRecipe = new Map();
+  for (const row of structured.rows) {
+    rowsByRecipe.set(row.recipe_id, [...(rowsByRecipe.get(row.recipe_id) || []), row]);
+  }
+
+  return rankRecipes(
+    recipes.rows.map(recipe => ({ recipe, lines: recipeIngredientLines(recipe, rowsByRecipe.get(recipe.id)) })),
+    pantry.rows,
+    limit
+  );
+}
+
+module.exports = {
+  recipeIngredientLines,
+  scoreRecipe,
+  rankRecipes,
+  findCookableRecipes
+};
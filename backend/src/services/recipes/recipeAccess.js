@@ -0,0 +1,105 @@
+/**
+ * Recipe ownership and sharing rules.
+ *
+ * A recipe is visible to its owner, to everyone when public, and to users it
+ * has been shared with - by name or through their household - unless the
+ * owner has made it private again. Shares grant 'view' or 'edit'; when a user
+ * has both kinds the stronger one counts. Only the owner can delete, change
+ * visibility or manage shares.
+ */
+
+const { asUuid } = require('../../utils/uuid');
+
+const VISIBILITIES = ['private', 'shared', 'public'];
+const SHARE_PERMISSIONS = ['view', 'edit'];
+
+/**
+ * SQL condition selecting recipes (aliased `alias`) the user may view
+ * @param {string} alias - Table alias for recipes
+ * @param {string|null} userParam - Placeholder holding the user id, e.g. '$1'
+ */
+function visibleRecipeCondition(alias, userParam) {
+  if (!userParam) {
+    return `${alias}.visibility = 'public'`;
+  }
+  return `(${alias}.visibility = 'public'
+    OR ${alias}.user_id = ${userParam}
+    OR (${alias}.visibility <> 'private' AND EXISTS (
+      SELECT 1 FROM recipe_shares rs
+      WHERE rs.recipe_id = ${alias}.id
+        AND (rs.shared_with_user_id = ${userParam}
+          OR rs.shared_with_household_id IN (
+            SELECT hm.household_id FROM household_members hm WHERE hm.user_id = ${userParam}
+          ))
+    )))`;
+}
+
+/**
+ * Work out what a user may do with a recipe
+ * @param {string|null} sharePermission - From a share naming the user
+ * @param {string|null} householdPermission - From a share with the user's household
+ * @returns {'owner'|'editor'|'viewer'|null}
+ */
+function resolveRecipeRole(recipe, userId, sharePermission, householdPermission = null) {
+  if (!recipe) return null;
+  if (userId && recipe.user_id === userId) return 'owner';
+
+  const permissions = [sharePermission, householdPermission];
+  if (recipe.visibility !== 'private' && permissions.includes('edit')) return 'editor';
+  if (recipe.visibility !== 'private' && permissions.includes('view')) return 'viewer';
+  if (recipe.visibility === 'public') return 'viewer';
+  return null;
+}
+
+/**
+ * Look a recipe up by server id, or by the owner's own client id (recipes
+ * synced from the browser are known there by their local id). Refs that are
+ * neither a UUID nor one of the user's client ids find nothing (a 404).
+ * @returns {Promise<{recipe: Object|null, role: string|null}>}
+ */
+async function getRecipeAccess(db, recipeRef, userId) {
+  const ref = String(recipeRef);
+  const recipeId = asUuid(ref);
+  if (!recipeId && !userId) {
+    return { recipe: null, role: null };
+  }
+
+  const result = await db.query(
+    `SELECT r.id, r.user_id, r.visibility, r.is_public, rs.permission AS share_permission,
+            hs.permission AS household_permission
+     FROM recipes r
+     LEFT JOIN recipe_shares rs ON rs.recipe_id = r.id AND rs.shared_with_user_id = $2
+     LEFT JOIN household_members hm ON hm.user_id = $2
+     LEFT JOIN recipe_shares hs ON hs.recipe_id = r.id AND hs.shared_with_household_id = hm.household_id
+     WHERE r.id = $3 OR (r.client_id = $1 AND r.user_id = $2)
+     ORDER BY (r.id = $3) DESC NULLS LAST
+     LIMIT 1`,
+    [ref, userId || null, recipeId]
+  );
+
+  const recipe = result.rows[0] || null;
+  const role = resolveRecipeRole(recipe, userId, recipe?.share_permission, recipe?.household_permission);
+  return { recipe: role ? recipe : null, role };
+}
+
+/**
+ * Visibility after an update; `isPublic` is still accepted from older clients
+ */
+function nextVisibility(current, { visibility, isPublic }) {
+  if (visibility) return visibility;
+  if (isPublic === true) return 'public';
+  if (isPublic === false && current === 'public') return 'private';
+  return current;
+}
+
+const canEditRecipe = (role) => role === 'owner' || role === 'editor';
+
+module.exports = {
+  VISIBILITIES,
+  SHARE_PERMISSIONS,
+  visibleRecipeCondition,
+  resolveRecipeRole,
+  getRecipeAccess,
+  nextVisibility,
+  canEditRecipe
+};
@@ -0,0 +1,90 @@
+const { SYNC_ENTITIES, getSyncEntity, lastChangedAt, DEFAULT_SHOPPING_LIST_ID } = require('../syncEntities');
+
+describe('sync entity mapping', () => {
+  test('rows created outside sync fall back to their UUID', () => {
+    const record = getSyncEntity('recipes').fromRow({
+      id: 'b6a1c0a2-0000-4000-8000-000000000002',
+      client_id: null,
+      name: 'Pancakes',
+      instructions: 'Mix and fry',
+      meal_type: 'breakfast',
+      servings: 2,
+      is_public: false,
+      created_at: new Date('2024-04-01T10:00:00Z'),
+      updated_at: new Date('2024-04-01T10:00:00Z')
+    });
+
+    expect(record.id).toBe('b6a1c0a2-0000-4000-8000-000000000002');
+    expect(record.category).toBe('Breakfast');
+  });
+
+  test('meal plan rows rebuild the planned meal from its recipe snapshot', () => {
+    const record = getSyncEntity('meal-plans').fromRow({
+      id: 'b6a1c0a2-0000-4000-8000-000000000003',
+      client_id: 'planned-meal-1',
+      meal_date: '2024-04-03',
+      meal_type: 'dinner',
+      servings: 6,
+      cooked_at: new Date('2024-04-03T19:30:00Z'),
+      recipe_snapshot: { id: 'ai-recipe-2024-04-03-dinner', name: 'Tacos', category: 'Dinner', instructions: 'Cook' },
+      created_at: new Date('2024-04-01T10:00:00Z'),
+      updated_at: new Date('2024-04-01T10:00:00Z')
+    });
+
+    expect(record).toMatchObject({
+      id: 'planned-meal-1',
+      date: '2024-04-03',
+      mealSlot: 'Dinner',
+      servings: 6,
+      cookedAt: '2024-04-03T19:30:00.000Z',
+      recipe: { id: 'ai-recipe-2024-04-03-dinner', name: 'Tacos' }
+    });
+  });
+
+  test('shopping list items name the list they are on', () => {
+    const entity = getSyncEntity('shopping-list');
+    const row = {
+      id: 'b6a1c0a2-0000-4000-8000-000000000004',
+      client_id: 'item-1',
+      item_text: 'Milk',
+      is_checked: false,
+      position: 0,
+      created_at: new Date('2024-04-01T10:00:00Z'),
+      updated_at: new Date('2024-04-01T10:00:00Z')
+    };
+
+    expect(entity.fromRow({ ...row, list_client_id: 'costco-run' }).list_id).toBe('costco-run');
+    expect(entity.fromRow(row).list_id).toBe(DEFAULT_SHOPPING_LIST_ID);
+  });
+
+  test('shopping lists sync before their items', () => {
+    const names = Object.keys(SYNC_ENTITIES);
+    expect(names.indexOf('shopping-lists')).toBeLessThan(names.indexOf('shopping-list'));
+
+    const record = getSyncEntity('shopping-lists').fromRow({
+      id: 'b6a1c0a2-0000-4000-8000-000000000005',
+      client_id: 'farmers-market',
+      name: 'Farmers market',
+      is_completed: null,
+      is_archived: true,
+      created_at: new Date('2024-04-01T10:00:00Z'),
+      updated_at: new Date('2024-04-02T10:00:00Z')
+    });
+    expect(record).toMatchObject({ id: 'farmers-market', name: 'Farmers market', is_completed: false, is_archived: true });
+  });
+
+  test('last-write-wins uses the edit time, or updated_at for rows without one', () => {
+    const updatedAt = new Date('2024-04-02T10:00:00Z');
+
+    expect(lastChangedAt({ client_updated_at: new Date('2024-04-02T09:59:00Z'), updated_at: updatedAt }))
+      .toEqual(new Date('2024-04-02T09:59:00Z'));
+    expect(lastChangedAt({ client_updated_at: null, updated_at: updatedAt })).toEqual(updatedAt);
+  });
+
+  test('unknown entities are rejected', () => {
+    expect(getSyncEntity('constructor')).toBeNull();
+    expect(getSyncEntity('users')).toBeNull();
+    // The pantry has its own API (/api/pantry) and isn't synced
+    expect(getSyncEntity('pantry')).toBeNull();
+  });
+});
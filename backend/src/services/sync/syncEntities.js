@@ -0,0 +1,504 @@
+/**
+ * Sync Entities
+ * Maps the records the frontend keeps in localStorage onto the Postgres tables.
+ *
+ * Every entity exposes the same small interface used by the sync controller:
+ *   list(db, scope, since)         rows changed after `since` (all rows when null)
+ *   find(db, scope, clientId)      the row a client id refers to, or null
+ *   upsert(db, scope, record, changedAt, existing)
+ *   remove(db, existing)
+ *   fromRow(row)                   the row in the shape the frontend stores
+ *
+ * `scope` says whose rows these are (see households/householdService). Meal
+ * plans and shopping lists are shared by a household; entities marked
+ * `personal` (recipes) always belong to the signed-in user alone.
+ *
+ * Client ids are kept in `client_id`; rows created server-side fall back to
+ * their UUID. `client_updated_at` holds the time of the edit that produced the
+ * row and is what last-write-wins compares against: sync writes set it to the
+ * client's edit time, a trigger stamps every other write with the time it
+ * happened (migration 014).
+ */
+
+const { scopeCondition, scopeValue } = require('../households/householdService');
+const { asUuid } = require('../../utils/uuid');
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack', 'dessert'];
+
+// $3 is the client id when it is a UUID (rows created server-side), else null
+const ID_MATCH = '(client_id = $2 OR (client_id IS NULL AND id = $3))';
+
+function toIso(value) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toInteger(value) {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) ? number : null;
+}
+
+// pg hands DATE columns back as local-midnight Date objects
+function toDate(value) {
+  if (!value) return null;
+  if (value instanceof Date) {
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  return String(value).split('T')[0];
+}
+
+// When a row was last edited, for last-write-wins; rows older than the
+// client_updated_at trigger may only have updated_at
+function lastChangedAt(row) {
+  return new Date(row.client_updated_at || row.updated_at);
+}
+
+function clientIdOf(row) {
+  return row.client_id || row.id;
+}
+
+function toMealType(value) {
+  const normalized = String(value || '').toLowerCase();
+  return MEAL_TYPES.includes(normalized) ? normalized : null;
+}
+
+function toMealSlot(mealType) {
+  return mealType.charAt(0).toUpperCase() + mealType.slice(1);
+}
+
+const recipes = {
+  personal: true,
+
+  async list(db, scope, since) {
+    const result = await db.query(
+      `SELECT * FROM recipes
+       WHERE user_id = $1 AND ($2::timestamptz IS NULL OR updated_at > $2)
+       ORDER BY updated_at`,
+      [scope.userId, since]
+    );
+    return result.rows;
+  },
+
+  async find(db, scope, clientId) {
+    const result = await db.query(
+      `SELECT * FROM recipes WHERE user_id = $1 AND ${ID_MATCH}`,
+      [scope.userId, clientId, asUuid(clientId)]
+    );
+    return result.rows[0] || null;
+  },
+
+  async upsert(db, scope, record, changedAt, existing) {
+    const values = [
+      record.name || 'Untitled Recipe',
+      record.description || null,
+      record.instructions || '',
+      toInteger(record.prepTime),
+      toInteger(record.cookTime),
+      toInteger(record.servings) || 4,
+      record.difficulty || 'medium',
+      toMealType(record.mealType) || toMealType(record.category),
+      Boolean(record.isPublic),
+      record.category || null,
+      JSON.stringify(Array.isArray(record.ingredients) ? record.ingredients : []),
+      changedAt
+    ];
+
+    if (existing) {
+      const result = await db.query(
+        `UPDATE recipes
+         SET name = $1, description = $2, instructions = $3, prep_time = $4, cook_time = $5,
+             servings = $6, difficulty = $7, meal_type = $8, is_public = $9, category = $10,
+             ingredient_list = $11, client_updated_at = $12,
+             visibility = CASE WHEN $9 THEN 'public' WHEN visibility = 'public' THEN 'private' ELSE visibility END
+         WHERE id = $13
+         RETURNING *`,
+        [...values, existing.id]
+      );
+      return result.rows[0];
+    }
+
+    const result = await db.query(
+      `INSERT INTO recipes (name, description, instructions, prep_time, cook_time, servings, difficulty,
+                            meal_type, is_public, category, ingredient_list, client_updated_at, user_id, client_id,
+                            visibility)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+               CASE WHEN $9::boolean THEN 'public' ELSE 'private' END)
+       RETURNING *`,
+      [...values, scope.userId, record.id]
+    );
+    return result.rows[0];
+  },
+
+  async remove(db, existing) {
+    await db.query('DELETE FROM recipes WHERE id = $1', [existing.id]);
+  },
+
+  fromRow(row) {
+    const category = row.category || (row.meal_type ? toMealSlot(row.meal_type) : 'Dinner');
+    return {
+      id: clientIdOf(row),
+      name: row.name,
+      category,
+      instructions: row.instructions,
+      description: row.description || undefined,
+      ingredients: row.ingredient_list || undefined,
+      prepTime: row.prep_time ?? undefined,
+      cookTime: row.cook_time ?? undefined,
+      servings: row.servings ?? undefined,
+      difficulty: row.difficulty || undefined,
+      mealType: row.meal_type || undefined,
+      isPublic: row.is_public,
+      visibility: row.visibility || undefined,
+      forkedFrom: row.forked_from || undefined,
+      createdAt: toIso(row.created_at),
+      updatedAt: toIso(row.client_updated_at || row.updated_at)
+    };
+  }
+};
+
+// Synced meals live in the default meal plan of the user or their household,
+// created on first use
+async function getDefaultMealPlanId(db, scope, mealDate) {
+  const existing = await db.query(
+    `SELECT id FROM meal_plans WHERE ${scopeCondition(null, scope, '$1')} AND is_default = true LIMIT 1`,
+    [scopeValue(scope)]
+  );
+
+  if (existing.rows.length > 0) {
+    await db.query(
+      `UPDATE meal_plans
+       SET start_date = LEAST(start_date, $2::date), end_date = GREATEST(end_date, $2::date)
+       WHERE id = $1`,
+      [existing.rows[0].id, mealDate]
+    );
+    return existing.rows[0].id;
+  }
+
+  const created = await db.query(
+    `INSERT INTO meal_plans (user_id, household_id, name, start_date, end_date, is_default)
+     VALUES ($1, $2, $3, $4, $4, true)
+     RETURNING id`,
+    [scope.userId, scope.householdId, scope.householdId ? 'Household Meal Plan' : 'My Meal Plan', mealDate]
+  );
+  return created.rows[0].id;
+}
+
+const mealPlans = {
+  async list(db, scope, since) {
+    const result = await db.query(
+      `SELECT mpe.* FROM meal_plan_entries mpe
+       JOIN meal_plans mp ON mpe.meal_plan_id = mp.id
+       WHERE ${scopeCondition('mp', scope, '$1')} AND ($2::timestamptz IS NULL OR mpe.updated_at > $2)
+       ORDER BY mpe.updated_at`,
+      [scopeValue(scope), since]
+    );
+    return result.rows;
+  },
+
+  async find(db, scope, clientId) {
+    const result = await db.query(
+      `SELECT mpe.* FROM meal_plan_entries mpe
+       JOIN meal_plans mp ON mpe.meal_plan_id = mp.id
+       WHERE ${scopeCondition('mp', scope, '$1')} AND (mpe.client_id = $2 OR (mpe.client_id IS NULL AND mpe.id = $3))`,
+      [scopeValue(scope), clientId, asUuid(clientId)]
+    );
+    return result.rows[0] || null;
+  },
+
+  async upsert(db, scope, record, changedAt, existing) {
+    const mealType = toMealType(record.mealSlot);
+    if (!mealType || !record.date) {
+      throw new Error('Planned meal needs a date and a meal slot');
+    }
+
+    const recipe = record.recipe || {};
+    let recipeId = null;
+    if (recipe.id) {
+      const linked = await recipes.find(db, scope, String(recipe.id));
+      recipeId = linked ? linked.id : null;
+    }
+
+    const mealPlanId = existing
+      ? existing.meal_plan_id
+      : await getDefaultMealPlanId(db, scope, record.date);
+
+    // A slot holds one meal; an older meal in the same slot is replaced
+    const occupied = await db.query(
+      `SELECT * FROM meal_plan_entries
+       WHERE meal_plan_id = $1 AND meal_date = $2 AND meal_type = $3 AND ($4::uuid IS NULL OR id <> $4)`,
+      [mealPlanId, record.date, mealType, existing ? existing.id : null]
+    );
+    if (occupied.rows.length > 0) {
+      const other = occupied.rows[0];
+      if (lastChangedAt(other) > changedAt) {
+        const error = new Error('Meal slot was changed more recently on another device');
+        error.conflictRow = other;
+        throw error;
+      }
+      await db.query('DELETE FROM meal_plan_entries WHERE id = $1', [other.id]);
+      await recordTombstone(db, scope, 'meal-plans', clientIdOf(other), changedAt);
+    }
+
+    const servings = Number.isInteger(record.servings) && record.servings > 0 ? record.servings : null;
+    const cookedAt = record.cookedAt ? new Date(record.cookedAt) : null;
+    const values = [recipeId, record.date, mealType, JSON.stringify(recipe), changedAt, servings, cookedAt];
+
+    if (existing) {
+      const result = await db.query(
+        `UPDATE meal_plan_entries
+         SET recipe_id = $1, meal_date = $2, meal_type = $3, recipe_snapshot = $4, client_updated_at = $5,
+             servings = $6, cooked_at = $7
+         WHERE id = $8
+         RETURNING *`,
+        [...values, existing.id]
+      );
+      return result.rows[0];
+    }
+
+    const result = await db.query(
+      `INSERT INTO meal_plan_entries (recipe_id, meal_date, meal_type, recipe_snapshot, client_updated_at,
+                                      servings, cooked_at, meal_plan_id, client_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [...values, mealPlanId, record.id]
+    );
+    return result.rows[0];
+  },
+
+  async remove(db, existing) {
+    await db.query('DELETE FROM meal_plan_entries WHERE id = $1', [existing.id]);
+  },
+
+  fromRow(row) {
+    const snapshot = row.recipe_snapshot || {};
+    return {
+      id: clientIdOf(row),
+      date: toDate(row.meal_date),
+      mealSlot: toMealSlot(row.meal_type),
+      ...(row.servings ? { servings: row.servings } : {}),
+      ...(row.cooked_at ? { cookedAt: new Date(row.cooked_at).toISOString() } : {}),
+      recipe: {
+        id: snapshot.id || row.recipe_id || `recipe-${row.id}`,
+        name: snapshot.name || 'Planned meal',
+        category: snapshot.category || toMealSlot(row.meal_type),
+        instructions: snapshot.instructions || '',
+        createdAt: snapshot.createdAt || toIso(row.created_at),
+        updatedAt: snapshot.updatedAt || toIso(row.updated_at),
+        ...snapshot
+      }
+    };
+  }
+};
+
+// Every browser knows the first list of a user or household as 'default':
+// items synced before lists had ids, and items without a list, belong to it
+const DEFAULT_SHOPPING_LIST_ID = 'default';
+
+// The server row of a shopping list the client refers to by id. A list the
+// server hasn't seen yet (its own change may still be queued) is created on
+// first use; the list's own sync change fills in its name later.
+async function getShoppingListId(db, scope, clientId) {
+  const existing = await db.query(
+    `SELECT id FROM shopping_lists WHERE ${scopeCondition(null, scope, '$1')} AND ${ID_MATCH}
+     ORDER BY created_at LIMIT 1`,
+    [scopeValue(scope), clientId, asUuid(clientId)]
+  );
+  if (existing.rows.length > 0) {
+    return existing.rows[0].id;
+  }
+
+  const isDefault = clientId === DEFAULT_SHOPPING_LIST_ID;
+  const name = isDefault
+    ? (scope.householdId ? 'Household Shopping List' : 'My Shopping List')
+    : 'Shopping List';
+  const created = await db.query(
+    `INSERT INTO shopping_lists (user_id, household_id, name, client_id) VALUES ($1, $2, $3, $4) RETURNING id`,
+    [scope.userId, scope.householdId, name, clientId]
+  );
+  return created.rows[0].id;
+}
+
+const shoppingLists = {
+  async list(db, scope, since) {
+    const result = await db.query(
+      `SELECT * FROM shopping_lists
+       WHERE ${scopeCondition(null, scope, '$1')} AND ($2::timestamptz IS NULL OR updated_at > $2)
+       ORDER BY created_at`,
+      [scopeValue(scope), since]
+    );
+    return result.rows;
+  },
+
+  async find(db, scope, clientId) {
+    const result = await db.query(
+      `SELECT * FROM shopping_lists WHERE ${scopeCondition(null, scope, '$1')} AND ${ID_MATCH}
+       ORDER BY created_at LIMIT 1`,
+      [scopeValue(scope), clientId, asUuid(clientId)]
+    );
+    return result.rows[0] || null;
+  },
+
+  async upsert(db, scope, record, changedAt, existing) {
+    const values = [
+      String(record.name || '').trim() || 'Shopping List',
+      Boolean(record.is_completed),
+      Boolean(record.is_archived),
+      changedAt
+    ];
+
+    if (existing) {
+      const result = await db.query(
+        `UPDATE shopping_lists
+         SET name = $1, is_completed = $2, is_archived = $3, client_updated_at = $4
+         WHERE id = $5
+         RETURNING *`,
+        [...values, existing.id]
+      );
+      return result.rows[0];
+    }
+
+    const result = await db.query(
+      `INSERT INTO shopping_lists (name, is_completed, is_archived, client_updated_at, user_id, household_id,
+                                   client_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::timestamptz, CURRENT_TIMESTAMP))
+       RETURNING *`,
+      [...values, scope.userId, scope.householdId, record.id, toIso(record.created_at)]
+    );
+    return result.rows[0];
+  },
+
+  // Items go with the list; devices drop them when they learn the list is gone
+  async remove(db, existing) {
+    await db.query('DELETE FROM shopping_lists WHERE id = $1', [existing.id]);
+  },
+
+  fromRow(row) {
+    return {
+      id: clientIdOf(row),
+      name: row.name,
+      is_completed: Boolean(row.is_completed),
+      is_archived: Boolean(row.is_archived),
+      created_at: toIso(row.created_at),
+      updated_at: toIso(row.client_updated_at || row.updated_at)
+    };
+  }
+};
+
+const shoppingList = {
+  async list(db, scope, since) {
+    const result = await db.query(
+      `SELECT sli.*, COALESCE(sl.client_id, sl.id::text) AS list_client_id FROM shopping_list_items sli
+       JOIN shopping_lists sl ON sli.shopping_list_id = sl.id
+       WHERE ${scopeCondition('sl', scope, '$1')} AND ($2::timestamptz IS NULL OR sli.updated_at > $2)
+       ORDER BY sli.position, sli.created_at`,
+      [scopeValue(scope), since]
+    );
+    return result.rows;
+  },
+
+  async find(db, scope, clientId) {
+    const result = await db.query(
+      `SELECT sli.*, COALESCE(sl.client_id, sl.id::text) AS list_client_id FROM shopping_list_items sli
+       JOIN shopping_lists sl ON sli.shopping_list_id = sl.id
+       WHERE ${scopeCondition('sl', scope, '$1')} AND (sli.client_id = $2 OR (sli.client_id IS NULL AND sli.id = $3))`,
+      [scopeValue(scope), clientId, asUuid(clientId)]
+    );
+    return result.rows[0] || null;
+  },
+
+  async upsert(db, scope, record, changedAt, existing) {
+    const listClientId = record.list_id ? String(record.list_id) : DEFAULT_SHOPPING_LIST_ID;
+    const shoppingListId = await getShoppingListId(db, scope, listClientId);
+    const values = [
+      String(record.item_text || record.name || '').trim() || 'Item',
+      Boolean(record.is_checked),
+      toInteger(record.position) || 0,
+      record.quantity !== null && record.quantity !== undefined ? String(record.quantity) : null,
+      record.unit || null,
+      record.name || null,
+      changedAt,
+      shoppingListId
+    ];
+
+    // Moving an item to another list just changes its shopping_list_id
+    if (existing) {
+      const result = await db.query(
+        `UPDATE shopping_list_items
+         SET item_text = $1, is_checked = $2, position = $3, quantity = $4, unit = $5, name = $6,
+             client_updated_at = $7, shopping_list_id = $8
+         WHERE id = $9
+         RETURNING *`,
+        [...values, existing.id]
+      );
+      return { ...result.rows[0], list_client_id: listClientId };
+    }
+
+    // Keep the device's creation time: it breaks ties in list order on every device
+    const result = await db.query(
+      `INSERT INTO shopping_list_items (item_text, is_checked, position, quantity, unit, name,
+                                        client_updated_at, shopping_list_id, client_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10::timestamptz, CURRENT_TIMESTAMP))
+       RETURNING *`,
+      [...values, record.id, toIso(record.created_at)]
+    );
+    return { ...result.rows[0], list_client_id: listClientId };
+  },
+
+  async remove(db, existing) {
+    await db.query('DELETE FROM shopping_list_items WHERE id = $1', [existing.id]);
+  },
+
+  fromRow(row) {
+    return {
+      id: clientIdOf(row),
+      list_id: row.list_client_id || DEFAULT_SHOPPING_LIST_ID,
+      item_text: row.item_text,
+      is_checked: row.is_checked,
+      position: row.position,
+      created_at: toIso(row.created_at),
+      updated_at: toIso(row.client_updated_at || row.updated_at),
+      quantity: row.quantity,
+      unit: row.unit,
+      name: row.name
+    };
+  }
+};
+
+// Household tombstones carry the household so every member's devices see them
+async function recordTombstone(db, scope, entity, clientId, deletedAt) {
+  await db.query(
+    `INSERT INTO sync_tombstones (user_id, entity, client_id, client_deleted_at, household_id)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (user_id, entity, client_id)
+     DO UPDATE SET client_deleted_at = EXCLUDED.client_deleted_at, deleted_at = CURRENT_TIMESTAMP,
+                   household_id = EXCLUDED.household_id`,
+    [scope.userId, entity, clientId, deletedAt, scope.householdId]
+  );
+}
+
+const SYNC_ENTITIES = {
+  recipes,
+  'meal-plans': mealPlans,
+  // Lists before their items, so a pull never hands out items of an unknown list
+  'shopping-lists': shoppingLists,
+  'shopping-list': shoppingList
+};
+
+function getSyncEntity(name) {
+  return Object.prototype.hasOwnProperty.call(SYNC_ENTITIES, name) ? SYNC_ENTITIES[name] : null;
+}
+
+// The scope an entity's rows live in: personal entities ignore the household
+function scopeForEntity(entity, scope) {
+  return entity.personal ? { ...scope, householdId: null, canWrite: true } : scope;
+}
+
+module.exports = {
+  SYNC_ENTITIES,
+  getSyncEntity,
+  scopeForEntity,
+  recordTombstone,
+  lastChangedAt,
+  DEFAULT_SHOPPING_LIST_ID
+};
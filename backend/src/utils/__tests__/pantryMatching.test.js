@@ -0,0 +1,68 @@
+const { nameWords, nameMatchScore, matchPantry, needsBuying } = require('../pantryMatching');
+
+describe('pantry matching', () => {
+  test('names drop descriptors, plurals and preparation notes', () => {
+    expect(nameWords('Large Eggs')).toEqual(['egg']);
+    expect(nameWords('Tomatoes, diced (canned)')).toEqual(['tomato']);
+    expect(nameWords('extra virgin olive oil')).toEqual(['olive', 'oil']);
+    expect(nameWords('fresh basil leaves')).toEqual(['basil']);
+  });
+
+  test('names match loosely but not across different things', () => {
+    expect(nameMatchScore('eggs', 'Egg')).toBe(2);
+    expect(nameMatchScore('olive oil', 'oil')).toBe(1);
+    expect(nameMatchScore('parmesean cheese', 'Parmesan Cheese')).toBe(2);
+    expect(nameMatchScore('chicken broth', 'chicken')).toBe(0);
+    expect(nameMatchScore('sesame oil', 'olive oil')).toBe(0);
+  });
+
+  test('the pantry covers part of an ingredient in another unit', () => {
+    const [match] = matchPantry(
+      [{ name: 'milk', amount: 2, unit: 'cups' }],
+      [{ name: 'Whole milk', quantity: '236.588', unit: 'milliliters' }]
+    );
+
+    expect(match).toMatchObject({ pantryItem: 'Whole milk', have: 1, buy: 1 });
+    expect(needsBuying(match)).toBe(true);
+  });
+
+  test('each pantry item is used up once across the list', () => {
+    const matches = matchPantry(
+      [{ name: 'eggs', amount: 4, unit: null }, { name: 'large eggs', amount: 3, unit: null }],
+      [{ name: 'Eggs', quantity: '6', unit: 'pieces' }]
+    );
+
+    expect(matches.map(({ have, buy }) => ({ have, buy }))).toEqual([{ have: 4, buy: 0 }, { have: 2, buy: 1 }]);
+    expect(needsBuying(matches[0])).toBe(false);
+  });
+
+  test('unmeasured ingredients are covered by any match', () => {
+    const [salt, pepper] = matchPantry(
+      [{ name: 'salt', amount: 0, unit: null }, { name: 'black pepper', amount: null, unit: null }],
+      [{ name: 'Sea salt', quantity: '1', unit: 'pounds' }]
+    );
+
+    expect(salt).toMatchObject({ pantryItem: 'Sea salt', have: null, buy: null });
+    expect(needsBuying(salt)).toBe(false);
+    expect(needsBuying(pepper)).toBe(true);
+  });
+
+  test('units that cannot be compared leave the full amount to buy', () => {
+    const [match] = matchPantry(
+      [{ name: 'rice', amount: 2, unit: 'cups' }],
+      [{ name: 'Rice', quantity: '1', unit: 'pieces' }]
+    );
+
+    expect(match).toMatchObject({ pantryItem: null, have: 0, buy: 2 });
+  });
+
+  test('ingredients can be left out of matching', () => {
+    const [match] = matchPantry(
+      [{ name: 'butter', amount: 1, unit: 'cups' }],
+      [{ name: 'Butter', quantity: '1', unit: 'pounds' }],
+      ingredient => ingredient.name !== 'butter'
+    );
+
+    expect(match).toMatchObject({ pantryItem: null, buy: 1 });
+  });
+});
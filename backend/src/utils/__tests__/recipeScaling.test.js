@@ -0,0 +1,20 @@
+const { servingsFactor, scaleQuantity } = require('../recipeScaling');
+
+describe('recipe scaling', () => {
+  test('servingsFactor compares planned and recipe servings', () => {
+    expect(servingsFactor(6, 4)).toBe(1.5);
+    expect(servingsFactor(null, 4)).toBe(1);
+    expect(servingsFactor(6, 0)).toBe(1);
+  });
+
+  test('measured amounts scale exactly', () => {
+    expect(scaleQuantity({ amount: 1.5, unit: 'cups' }, 2.5, 'flour')).toEqual({ amount: 3.75, unit: 'cups' });
+  });
+
+  test('counted items round to whole eggs and half onions', () => {
+    expect(scaleQuantity({ amount: 2, unit: 'pieces' }, 1.25, 'eggs')).toEqual({ amount: 3, unit: 'pieces' });
+    expect(scaleQuantity({ amount: 1, unit: 'pieces' }, 0.25, 'eggs')).toEqual({ amount: 1, unit: 'pieces' });
+    expect(scaleQuantity({ amount: 1, unit: null }, 0.75, 'onion')).toEqual({ amount: 1, unit: null });
+    expect(scaleQuantity({ amount: 1, unit: null }, 1.25, 'onion')).toEqual({ amount: 1.5, unit: null });
+  });
+});
@@ -0,0 +1,66 @@
+const {
+  findUnit,
+  parseQuantity,
+  convert,
+  addQuantities,
+  toPreferredUnit,
+  formatQuantity
+} = require('../unitConversion');
+
+describe('unit conversion', () => {
+  test('findUnit understands abbreviations, plurals and fluid ounces', () => {
+    expect(findUnit('Tbsp')).toBe('tablespoons');
+    expect(findUnit('T')).toBe('tablespoons');
+    expect(findUnit('t')).toBe('teaspoons');
+    expect(findUnit('lbs')).toBe('pounds');
+    expect(findUnit('fl. oz.')).toBe('fluid_ounces');
+    expect(findUnit('oz')).toBe('ounces');
+    expect(findUnit('cloves')).toBeNull();
+  });
+
+  test('parseQuantity splits amount, unit and name', () => {
+    expect(parseQuantity('1 1/2 cups milk')).toEqual({ amount: 1.5, unit: 'cups', name: 'milk' });
+    expect(parseQuantity('500g flour')).toEqual({ amount: 500, unit: 'grams', name: 'flour' });
+    expect(parseQuantity('8 fl oz heavy cream')).toEqual({ amount: 8, unit: 'fluid_ounces', name: 'heavy cream' });
+    expect(parseQuantity('½ lb of butter')).toEqual({ amount: 0.5, unit: 'pounds', name: 'butter' });
+    expect(parseQuantity('2-3 cloves garlic')).toEqual({ amount: 2.5, unit: null, name: 'cloves garlic' });
+    expect(parseQuantity('2% milk')).toEqual({ amount: null, unit: null, name: '2% milk' });
+  });
+
+  test('convert stays within a dimension unless the ingredient has a density', () => {
+    expect(convert(1, 'cups', 'fluid_ounces')).toBeCloseTo(8);
+    expect(convert(1, 'pounds', 'grams')).toBeCloseTo(453.592);
+    expect(convert(1, 'cups', 'grams', 'all-purpose flour')).toBeCloseTo(125.4, 0);
+    expect(convert(1, 'cups', 'grams', 'kale')).toBeNull();
+    expect(convert(2, 'pieces', 'grams', 'flour')).toBeNull();
+  });
+
+  test('addQuantities sums compatible amounts in the first unit', () => {
+    expect(addQuantities({ amount: 1, unit: 'cups' }, { amount: 8, unit: 'fluid_ounces' }, 'milk').amount).toBeCloseTo(2);
+    expect(addQuantities({ amount: 500, unit: 'grams' }, { amount: 1, unit: 'pounds' }, 'flour').amount).toBeCloseTo(953.592);
+    expect(addQuantities({ amount: 1, unit: 'cups' }, { amount: 100, unit: 'grams' }, 'flour').unit).toBe('grams');
+    expect(addQuantities({ amount: 3, unit: null }, { amount: 1, unit: 'dozen' }, 'eggs')).toEqual({ amount: 15, unit: null });
+    expect(addQuantities({ amount: 2, unit: null }, { amount: 1, unit: 'cups' }, 'onion')).toBeNull();
+  });
+
+  test('toPreferredUnit picks a readable unit in the chosen system', () => {
+    const flour = { amount: 953.592, unit: 'grams' };
+    expect(formatQuantity(toPreferredUnit(flour, 'us', 'flour'))).toBe('2 lb');
+    expect(formatQuantity(toPreferredUnit(flour, 'metric', 'flour'))).toBe('955 g');
+    expect(formatQuantity(toPreferredUnit({ amount: 3, unit: 'tablespoons' }, 'us'))).toBe('3 tbsp');
+    expect(formatQuantity(toPreferredUnit({ amount: 2, unit: 'cups' }, 'metric', 'milk'))).toBe('475 ml');
+    expect(formatQuantity(toPreferredUnit({ amount: 6, unit: null }, 'metric'))).toBe('6');
+  });
+
+  test('UK readers get imperial pints and keep spoons for small amounts', () => {
+    expect(parseQuantity('1 pint milk', 'uk').unit).toBe('imperial_pints');
+    expect(parseQuantity('1 pint milk').unit).toBe('pints');
+    expect(formatQuantity(toPreferredUnit({ amount: 2, unit: 'tablespoons' }, 'uk'))).toBe('2 tbsp');
+    expect(formatQuantity(toPreferredUnit({ amount: 1, unit: 'cups' }, 'uk'))).toBe('235 ml');
+  });
+
+  test('toPreferredUnit can be limited to storable units', () => {
+    const allowed = ['cups', 'tablespoons', 'teaspoons', 'pounds', 'ounces'];
+    expect(toPreferredUnit({ amount: 2, unit: 'gallons' }, 'us', 'milk', allowed)).toEqual({ amount: 32, unit: 'cups' });
+  });
+});
@@ -0,0 +1,39 @@
+// Scaling recipe quantities to a different number of servings. Measured
+// amounts scale exactly and are rounded when they're shown; things counted
+// whole are rounded here, because nobody buys or cracks half an egg.
+
+const { getUnitDimension } = require('./unitConversion');
+
+// Counted ingredients that only come whole
+const WHOLE_ITEMS_REGEX = /\b(eggs?|yolks?|egg whites?|cloves?|bay lea(f|ves))\b/i;
+
+// How much to multiply a recipe by to make `servings`; recipes without a
+// serving count, and entries that don't ask for one, stay as written
+function servingsFactor(servings, baseServings) {
+  const target = Number(servings);
+  const base = Number(baseServings);
+  if (!target || !base || target <= 0 || base <= 0) return 1;
+  return target / base;
+}
+
+/**
+ * Scale a quantity by `factor`, rounding counts of `name` to something you can buy
+ * @param {{amount: number, unit: string|null}} quantity
+ * @returns {{amount: number, unit: string|null}}
+ */
+function scaleQuantity(quantity, factor, name) {
+  const amount = quantity.amount * factor;
+  if (factor === 1 || (quantity.unit && getUnitDimension(quantity.unit) !== 'count')) {
+    return { ...quantity, amount };
+  }
+
+  const rounded = WHOLE_ITEMS_REGEX.test(name || '')
+    ? Math.max(Math.round(amount), 1)
+    : Math.max(Math.round(amount * 2) / 2, 0.5);
+  return { ...quantity, amount: rounded };
+}
+
+module.exports = {
+  servingsFactor,
+  scaleQuantity
+};
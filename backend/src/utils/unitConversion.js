@@ -0,0 +1,277 @@
+// Unit-aware quantity math shared by shopping list consolidation and grocery
+// list generation. Every unit converts to a base unit of its dimension:
+// milliliters for volume, grams for mass and single pieces for counts.
+
+const MEASUREMENT_SYSTEMS = ['us', 'metric', 'uk'];
+const DEFAULT_MEASUREMENT_SYSTEM = 'us';
+
+const UNITS = {
+  teaspoons: { dimension: 'volume', factor: 4.92892, singular: 'tsp', plural: 'tsp', aliases: ['teaspoon', 'teaspoons', 'tsp', 'tsps', 't'] },
+  tablespoons: { dimension: 'volume', factor: 14.7868, singular: 'tbsp', plural: 'tbsp', aliases: ['tablespoon', 'tablespoons', 'tbsp', 'tbsps', 'tbs', 'T'] },
+  fluid_ounces: { dimension: 'volume', factor: 29.5735, singular: 'fl oz', plural: 'fl oz', aliases: ['fl oz', 'fl. oz', 'fl. oz.', 'floz', 'fluid ounce', 'fluid ounces'] },
+  cups: { dimension: 'volume', factor: 236.588, singular: 'cup', plural: 'cups', aliases: ['cup', 'cups', 'c'] },
+  pints: { dimension: 'volume', factor: 473.176, singular: 'pint', plural: 'pints', aliases: ['pint', 'pints', 'pt', 'pts'] },
+  imperial_pints: { dimension: 'volume', factor: 568.261, singular: 'pint', plural: 'pints', aliases: ['imperial pint', 'imperial pints'] },
+  quarts: { dimension: 'volume', factor: 946.353, singular: 'quart', plural: 'quarts', aliases: ['quart', 'quarts', 'qt', 'qts'] },
+  gallons: { dimension: 'volume', factor: 3785.41, singular: 'gallon', plural: 'gallons', aliases: ['gallon', 'gallons', 'gal', 'gals'] },
+  milliliters: { dimension: 'volume', factor: 1, singular: 'ml', plural: 'ml', aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres', 'ml', 'mls'] },
+  liters: { dimension: 'volume', factor: 1000, singular: 'l', plural: 'l', aliases: ['liter', 'liters', 'litre', 'litres', 'l'] },
+  grams: { dimension: 'mass', factor: 1, singular: 'g', plural: 'g', aliases: ['gram', 'grams', 'gramme', 'grammes', 'g', 'gr'] },
+  kilograms: { dimension: 'mass', factor: 1000, singular: 'kg', plural: 'kg', aliases: ['kilogram', 'kilograms', 'kilo', 'kilos', 'kg', 'kgs'] },
+  ounces: { dimension: 'mass', factor: 28.3495, singular: 'oz', plural: 'oz', aliases: ['ounce', 'ounces', 'oz'] },
+  pounds: { dimension: 'mass', factor: 453.592, singular: 'lb', plural: 'lb', aliases: ['pound', 'pounds', 'lb', 'lbs'] },
+  pieces: { dimension: 'count', factor: 1, singular: '', plural: '', aliases: ['piece', 'pieces', 'pc', 'pcs', 'each', 'ea', 'whole'] },
+  dozen: { dimension: 'count', factor: 12, singular: 'dozen', plural: 'dozen', aliases: ['dozen', 'doz'] }
+};
+
+// Lower-case aliases, except the single letters where case matters (t vs T)
+const UNIT_ALIASES = Object.entries(UNITS).reduce((aliases, [unit, definition]) => {
+  definition.aliases.forEach(alias => {
+    aliases[alias.length === 1 ? alias : alias.toLowerCase()] = unit;
+  });
+  return aliases;
+}, {});
+
+// Grams per milliliter, used to move between volume and mass for ingredients
+// that are commonly measured both ways. Longer names win, so "brown sugar"
+// beats "sugar".
+const DENSITIES = {
+  water: 1,
+  milk: 1.03,
+  buttermilk: 1.03,
+  cream: 1.01,
+  'heavy cream': 1.01,
+  'sour cream': 1.01,
+  yogurt: 1.05,
+  butter: 0.911,
+  oil: 0.92,
+  'olive oil': 0.91,
+  honey: 1.42,
+  'maple syrup': 1.32,
+  molasses: 1.4,
+  flour: 0.53,
+  'bread flour': 0.55,
+  'whole wheat flour': 0.51,
+  sugar: 0.845,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.51,
+  salt: 1.2,
+  'kosher salt': 0.61,
+  rice: 0.85,
+  oats: 0.34,
+  'cocoa powder': 0.42,
+  'baking soda': 0.93,
+  'baking powder': 0.9,
+  broth: 1,
+  stock: 1,
+  juice: 1.04,
+  vinegar: 1.01,
+  'peanut butter': 1.09,
+  'chocolate chips': 0.72,
+  'grated parmesan': 0.42
+};
+
+const DENSITY_NAMES = Object.keys(DENSITIES).sort((a, b) => b.length - a.length);
+
+// Units each system reaches for, largest first, with the smallest amount that
+// still reads naturally in that unit
+const DISPLAY_UNITS = {
+  us: {
+    volume: [['gallons', 1], ['cups', 0.25], ['tablespoons', 1], ['teaspoons', 0]],
+    mass: [['pounds', 1], ['ounces', 0]],
+    count: [['pieces', 0]]
+  },
+  metric: {
+    volume: [['liters', 1], ['milliliters', 0]],
+    mass: [['kilograms', 1], ['grams', 0]],
+    count: [['pieces', 0]]
+  },
+  // Metric, but small amounts stay in spoons
+  uk: {
+    volume: [['liters', 1], ['milliliters', 50], ['tablespoons', 1], ['teaspoons', 0]],
+    mass: [['kilograms', 1], ['grams', 0]],
+    count: [['pieces', 0]]
+  }
+};
+
+const FRACTIONS = { '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75, '⅛': 0.125, '⅜': 0.375, '⅝': 0.625, '⅞': 0.875 };
+
+const AMOUNT_REGEX = /^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+)?\s*([½⅓⅔¼¾⅛⅜⅝⅞])?(?:\s*(?:-|to)\s*(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+))?/;
+const UNIT_WORDS_REGEX = /^(fl\.?\s*oz\.?|fluid\s+ounces?|[a-zA-Z]+\.?)/;
+
+function isMeasurementSystem(value) {
+  return MEASUREMENT_SYSTEMS.includes(value);
+}
+
+// Canonical unit name for something like "Tbsp", "fl oz" or "lbs", or null
+function findUnit(text) {
+  if (!text) return null;
+  const trimmed = String(text).trim().replace(/\.$/, '');
+  if (UNITS[trimmed]) return trimmed;
+  if (trimmed.length === 1) {
+    return UNIT_ALIASES[trimmed] || UNIT_ALIASES[trimmed.toLowerCase()] || null;
+  }
+  const normalized = trimmed.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ');
+  return UNIT_ALIASES[normalized] || null;
+}
+
+function getUnitDimension(unit) {
+  return unit && UNITS[unit] ? UNITS[unit].dimension : null;
+}
+
+function parseNumber(text) {
+  if (!text) return null;
+  if (text.includes('/')) {
+    const [whole, fraction] = text.includes(' ') ? text.split(/\s+/) : ['0', text];
+    const [numerator, denominator] = fraction.split('/');
+    const value = parseInt(whole, 10) + parseInt(numerator, 10) / parseInt(denominator, 10);
+    return Number.isFinite(value) ? value : null;
+  }
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Split "1 1/2 cups milk", "500g flour" or "8 fl oz cream" into an amount, a
+// canonical unit and the ingredient name. Unknown units stay part of the name
+// so "2 cloves garlic" only ever combines with more cloves of garlic. A pint
+// read in the UK is an imperial pint.
+function parseQuantity(text, system) {
+  const trimmed = String(text || '').trim();
+  const match = trimmed.match(AMOUNT_REGEX);
+  // "2% milk" names a kind of milk rather than an amount
+  if (!match || (!match[1] && !match[2]) || trimmed.charAt(match[0].length) === '%') {
+    return { amount: null, unit: null, name: trimmed };
+  }
+
+  let amount = (parseNumber(match[1]) || 0) + (match[2] ? FRACTIONS[match[2]] : 0);
+  const upper = parseNumber(match[3]);
+  if (upper !== null) {
+    amount = (amount + upper) / 2;
+  }
+
+  let rest = trimmed.slice(match[0].length).trim();
+  let unit = null;
+  const unitMatch = rest.match(UNIT_WORDS_REGEX);
+  if (unitMatch) {
+    unit = findUnit(unitMatch[0]);
+    if (unit === 'pints' && system === 'uk') {
+      unit = 'imperial_pints';
+    }
+    if (unit) {
+      rest = rest.slice(unitMatch[0].length).trim();
+    }
+  }
+
+  return {
+    amount: amount > 0 ? amount : null,
+    unit,
+    name: rest.replace(/^of\s+/i, '').trim()
+  };
+}
+
+function getDensity(ingredient) {
+  const name = String(ingredient || '').toLowerCase();
+  const match = DENSITY_NAMES.find(known => new RegExp(`\\b${known}s?\\b`).test(name));
+  return match ? DENSITIES[match] : null;
+}
+
+// Convert an amount between units; volume and mass convert through the
+// ingredient's density. Returns null when the units can't be compared.
+function convert(amount, fromUnit, toUnit, ingredient) {
+  const from = UNITS[fromUnit];
+  const to = UNITS[toUnit];
+  if (!from || !to || !Number.isFinite(amount)) return null;
+
+  let base = amount * from.factor;
+  if (from.dimension !== to.dimension) {
+    const density = getDensity(ingredient);
+    if (!density) return null;
+    if (from.dimension === 'volume' && to.dimension === 'mass') {
+      base *= density;
+    } else if (from.dimension === 'mass' && to.dimension === 'volume') {
+      base /= density;
+    } else {
+      return null;
+    }
+  }
+  return base / to.factor;
+}
+
+// Sum two { amount, unit } quantities in the first one's unit, or null when
+// they measure different things. Quantities without a unit are counts.
+// Volume plus mass comes out as mass, the way groceries are weighed and sold.
+function addQuantities(a, b, ingredient) {
+  if (getUnitDimension(a.unit) === 'volume' && getUnitDimension(b.unit) === 'mass') {
+    return addQuantities(b, a, ingredient);
+  }
+  const converted = convert(b.amount, b.unit || 'pieces', a.unit || 'pieces', ingredient);
+  if (converted === null) return null;
+  return { amount: a.amount + converted, unit: a.unit || null };
+}
+
+function roundForUnit(amount, unit) {
+  const { dimension, factor } = UNITS[unit];
+  if (unit === 'grams' || unit === 'milliliters') {
+    return amount >= 20 ? Math.round(amount / 5) * 5 : Math.round(amount);
+  }
+  if (dimension === 'count' || factor >= 1000) {
+    return Math.round(amount * 100) / 100;
+  }
+  // Kitchen fractions: eighths for small amounts, quarters and then whole
+  // numbers as they grow
+  if (amount >= 10) return Math.round(amount);
+  if (amount >= 2) return Math.round(amount * 4) / 4;
+  return Math.max(Math.round(amount * 8) / 8, 0.125);
+}
+
+// Express a quantity in the preferred system's most readable unit. `allowed`
+// limits the choice, e.g. to the units the database can store.
+function toPreferredUnit(quantity, system = DEFAULT_MEASUREMENT_SYSTEM, ingredient, allowed) {
+  const unit = quantity.unit || 'pieces';
+  const definition = UNITS[unit];
+  if (!definition) return quantity;
+
+  const ladder = (DISPLAY_UNITS[system] || DISPLAY_UNITS[DEFAULT_MEASUREMENT_SYSTEM])[definition.dimension]
+    .filter(([candidate]) => !allowed || allowed.includes(candidate));
+  if (ladder.length === 0) return quantity;
+
+  const [target] = ladder.find(([candidate, minimum]) => convert(quantity.amount, unit, candidate, ingredient) >= minimum)
+    || ladder[ladder.length - 1];
+  const amount = roundForUnit(convert(quantity.amount, unit, target, ingredient), target);
+  return { amount, unit: quantity.unit || target !== 'pieces' ? target : null };
+}
+
+function formatAmount(amount) {
+  const whole = Math.floor(amount);
+  const remainder = amount - whole;
+  const eighths = Math.round(remainder * 8);
+  if (eighths === 0 || eighths === 8 || Math.abs(remainder * 8 - eighths) > 0.01) {
+    return String(Math.round(amount * 100) / 100);
+  }
+  const fraction = { 1: '1/8', 2: '1/4', 3: '3/8', 4: '1/2', 5: '5/8', 6: '3/4', 7: '7/8' }[eighths];
+  return whole > 0 ? `${whole} ${fraction}` : fraction;
+}
+
+// "1 1/2 cups", "750 g", "3"
+function formatQuantity(quantity) {
+  const amount = formatAmount(quantity.amount);
+  const definition = UNITS[quantity.unit];
+  if (!definition) return quantity.unit ? `${amount} ${quantity.unit}` : amount;
+  const label = quantity.amount > 1 ? definition.plural : definition.singular;
+  return label ? `${amount} ${label}` : amount;
+}
+
+module.exports = {
+  MEASUREMENT_SYSTEMS,
+  DEFAULT_MEASUREMENT_SYSTEM,
+  UNITS,
+  isMeasurementSystem,
+  findUnit,
+  getUnitDimension,
+  parseQuantity,
+  getDensity,
+  convert,
+  addQuantities,
+  toPreferredUnit,
+  formatQuantity
+};
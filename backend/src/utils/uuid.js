@@ -0,0 +1,19 @@
+/**
+ * UUID helpers
+ * Route ids and client ids arrive as plain strings. Checking the shape first
+ * lets queries compare `id = $1` against the primary-key index instead of
+ * casting every row's id to text, and keeps malformed ids out of uuid params.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isUuid(value) {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+// The value when it can be compared with a uuid column, otherwise null
+function asUuid(value) {
+  return isUuid(value) ? value : null;
+}
+
+module.exports = { isUuid, asUuid };
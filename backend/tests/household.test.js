@@ -0,0 +1,215 @@
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret_households_1234567890_secure';
+
+const request = require('supertest');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const { query, pool } = require('../src/config/database');
+const householdRoutes = require('../src/controllers/householdController');
+const mealPlanRoutes = require('../src/controllers/mealPlanController');
+const pantryRoutes = require('../src/controllers/pantryController');
+
+// Test setup
+const app = express();
+app.use(express.json());
+app.use('/api/households', householdRoutes);
+app.use('/api/meal-plans', mealPlanRoutes);
+app.use('/api/pantry', pantryRoutes);
+
+// Test data
+const ownerId = '5b1f3c2e-8a4d-4e6f-9c1b-3d5e7f9a1b24';
+const memberId = '6c2a4d3f-9b5e-4f7a-8d2c-4e6f8a0b2c35';
+const viewerId = '7d3b5e4a-0c6f-4a8b-9e3d-5f7a9b1c3d46';
+const ownerEmail = 'household-owner@example.com';
+const memberEmail = 'household-member@example.com';
+const viewerEmail = 'household-viewer@example.com';
+
+const token = (userId) => jwt.sign({ userId }, process.env.JWT_SECRET, { expiresIn: '1h' });
+
+async function cleanUp() {
+  await query('DELETE FROM households WHERE created_by = $1', [ownerId]);
+  await query('DELETE FROM pantry_items WHERE user_id = ANY($1)', [[ownerId, memberId, viewerId]]);
+  await query('DELETE FROM meal_plans WHERE user_id = ANY($1)', [[ownerId, memberId, viewerId]]);
+  await query('DELETE FROM recipes WHERE user_id = ANY($1)', [[ownerId, memberId, viewerId]]);
+}
+
+describe('Households API', () => {
+  let ownerToken;
+  let memberToken;
+  let viewerToken;
+
+  beforeAll(async () => {
+    for (const [id, email, firstName] of [
+      [ownerId, ownerEmail, 'Owner'],
+      [memberId, memberEmail, 'Member'],
+      [viewerId, viewerEmail, 'Viewer']
+    ]) {
+      await query(
+        `INSERT INTO users (id, email, password_hash, first_name, last_name)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (id) DO NOTHING`,
+        [id, email, 'test-password-hash', firstName, 'Household']
+      );
+    }
+
+    ownerToken = token(ownerId);
+    memberToken = token(memberId);
+    viewerToken = token(viewerId);
+
+    await cleanUp();
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await query('DELETE FROM users WHERE id = ANY($1)', [[ownerId, memberId, viewerId]]);
+    await pool.end();
+  });
+
+  it('should start without a household', async () => {
+    const response = await request(app)
+      .get('/api/households/current')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(response.body.household).toBeNull();
+  });
+
+  it('should create a household that takes over existing meal plans', async () => {
+    await request(app)
+      .post('/api/meal-plans')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ name: 'Test Family Week', startDate: '2024-01-01', endDate: '2024-01-07' })
+      .expect(201);
+
+    const response = await request(app)
+      .post('/api/households')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ name: 'Test Household' })
+      .expect(201);
+
+    expect(response.body.household.role).toBe('owner');
+    expect(response.body.household.members).toHaveLength(1);
+  });
+
+  it('should let invited people join with the invited role', async () => {
+    for (const [email, role] of [[memberEmail, 'member'], [viewerEmail, 'viewer']]) {
+      await request(app)
+        .post('/api/households/current/invitations')
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ email, role })
+        .expect(201);
+    }
+
+    for (const inviteeToken of [memberToken, viewerToken]) {
+      const invitations = await request(app)
+        .get('/api/households/invitations')
+        .set('Authorization', `Bearer ${inviteeToken}`)
+        .expect(200);
+
+      expect(invitations.body).toHaveLength(1);
+      expect(invitations.body[0].householdName).toBe('Test Household');
+
+      await request(app)
+        .post(`/api/households/invitations/${invitations.body[0].id}/accept`)
+        .set('Authorization', `Bearer ${inviteeToken}`)
+        .send({})
+        .expect(200);
+    }
+
+    const response = await request(app)
+      .get('/api/households/current')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(response.body.household.members.map(member => member.role)).toEqual(['owner', 'member', 'viewer']);
+  });
+
+  it('should share meal plans and the pantry between members', async () => {
+    const plans = await request(app)
+      .get('/api/meal-plans')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    expect(plans.body.map(plan => plan.name)).toContain('Test Family Week');
+
+    await request(app)
+      .post('/api/pantry')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ name: 'Rice', quantity: 2, unit: 'pounds' })
+      .expect(201);
+
+    const pantry = await request(app)
+      .get('/api/pantry')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(pantry.body.items.map(item => item.name)).toContain('Rice');
+  });
+
+  it("should not let members plan each other's private recipes", async () => {
+    const recipe = await query(
+      `INSERT INTO recipes (user_id, name, instructions, visibility, is_public)
+       VALUES ($1, 'Secret Stew', 'Stew it', 'private', false)
+       RETURNING id`,
+      [ownerId]
+    );
+    const plans = await request(app)
+      .get('/api/meal-plans')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+    const plan = plans.body.find(candidate => candidate.name === 'Test Family Week');
+
+    await request(app)
+      .post(`/api/meal-plans/${plan.id}/entries`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ mealDate: '2024-01-02', mealType: 'dinner', recipeId: recipe.rows[0].id })
+      .expect(404);
+
+    await request(app)
+      .post(`/api/meal-plans/${plan.id}/entries`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ mealDate: '2024-01-02', mealType: 'dinner', recipeId: recipe.rows[0].id })
+      .expect(201);
+  });
+
+  it('should keep viewers read-only', async () => {
+    await request(app)
+      .get('/api/pantry')
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .expect(200);
+
+    const response = await request(app)
+      .post('/api/pantry')
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .send({ name: 'Beans', quantity: 1, unit: 'pieces' })
+      .expect(403);
+
+    expect(response.body.code).toBe('HOUSEHOLD_READ_ONLY');
+  });
+
+  it('should only let the owner manage members', async () => {
+    await request(app)
+      .delete(`/api/households/current/members/${viewerId}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(403);
+
+    await request(app)
+      .post('/api/households/current/leave')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(400);
+  });
+
+  it('should leave shared data behind when a member leaves', async () => {
+    await request(app)
+      .post('/api/households/current/leave')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    const pantry = await request(app)
+      .get('/api/pantry')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    expect(pantry.body.items.map(item => item.name)).not.toContain('Rice');
+  });
+});
@@ -0,0 +1,224 @@
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret_pantry_1234567890_secure';
+
+const request = require('supertest');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const { query, pool } = require('../src/config/database');
+const pantryRoutes = require('../src/controllers/pantryController');
+
+// Test setup
+const app = express();
+app.use(express.json());
+app.use('/api/pantry', pantryRoutes);
+
+// Test data
+const userId = '8e4c6f5b-1d7a-4b9c-8f4e-6a8b0c2d4e57';
+const otherUserId = '9f5d7a6c-2e8b-4c0d-9a5f-7b9c1d3e5f68';
+
+const token = (id) => jwt.sign({ userId: id }, process.env.JWT_SECRET, { expiresIn: '1h' });
+
+// YYYY-MM-DD, `days` from today
+const daysFromNow = (days) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+describe('Pantry API', () => {
+  let userToken;
+
+  beforeAll(async () => {
+    for (const [id, email] of [[userId, 'pantry-user@example.com'], [otherUserId, 'pantry-other@example.com']]) {
+      await query(
+        `INSERT INTO users (id, email, password_hash, first_name, last_name)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (id) DO NOTHING`,
+        [id, email, 'test-password-hash', 'Pantry', 'Tester']
+      );
+    }
+    await query('DELETE FROM pantry_items WHERE user_id = ANY($1)', [[userId, otherUserId]]);
+
+    userToken = token(userId);
+  });
+
+  afterAll(async () => {
+    await query('DELETE FROM users WHERE id = ANY($1)', [[userId, otherUserId]]);
+    await pool.end();
+  });
+
+  it('should add several items at once, keeping units and dates', async () => {
+    const response = await request(app)
+      .post('/api/pantry/bulk')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({
+        items: [
+          { name: 'Rice', quantity: 2, unit: 'pounds', purchaseDate: daysFromNow(-3), expirationDate: daysFromNow(200) },
+          { name: 'Milk', quantity: 1, unit: 'liters', expirationDate: daysFromNow(2) },
+          { name: 'Yogurt', quantity: 4, unit: 'pieces', expirationDate: daysFromNow(-1) }
+        ]
+      })
+      .expect(201);
+
+    const rice = response.body.items.find(item => item.name === 'Rice');
+    expect(rice.unit).toBe('pounds');
+    expect(parseFloat(rice.quantity)).toBe(2);
+    expect(rice.purchase_date).toBe(daysFromNow(-3));
+  });
+
+  it('should reject units outside unit_of_measure', async () => {
+    await request(app)
+      .post('/api/pantry')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ name: 'Flour', quantity: 1, unit: 'bags' })
+      .expect(400);
+  });
+
+  it("should list only the signed-in user's items, with a summary", async () => {
+    const response = await request(app)
+      .get('/api/pantry')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(response.body.items.map(item => item.name)).toEqual(['Milk', 'Rice', 'Yogurt']);
+    expect(response.body.summary).toEqual({ totalItems: 3, expiringSoon: 1, expired: 1 });
+
+    const other = await request(app)
+      .get('/api/pantry')
+      .set('Authorization', `Bearer ${token(otherUserId)}`)
+      .expect(200);
+
+    expect(other.body.items).toHaveLength(0);
+  });
+
+  it('should list expiring and expired items', async () => {
+    const soon = await request(app)
+      .get('/api/pantry/expiring/soon')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    const expired = await request(app)
+      .get('/api/pantry/expiring/expired')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(soon.body.map(item => item.name)).toEqual(['Milk']);
+    expect(expired.body.map(item => item.name)).toEqual(['Yogurt']);
+  });
+
+  it('should clear out expired items', async () => {
+    const response = await request(app)
+      .delete('/api/pantry/expired/cleanup')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+
+    expect(response.body.deletedCount).toBe(1);
+  });
+
+  it('should put groceries away, topping up what is already there', async () => {
+    const response = await request(app)
+      .post('/api/pantry/restock')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ items: [{ name: 'rice', quantity: 1, unit: 'lb' }, { name: 'Bananas', quantity: 6 }] })
+      .expect(201);
+
+    expect(response.body).toMatchObject({ added: 1, merged: 1 });
+
+    const rice = response.body.items.find(item => item.name === 'Rice');
+    expect(parseFloat(rice.quantity)).toBe(3);
+    expect(rice.purchase_date).toBe(daysFromNow(0));
+    expect(rice.expiration_date).toBe(daysFromNow(200));
+
+    const bananas = response.body.items.find(item => item.name === 'Bananas');
+    expect(bananas).toMatchObject({ unit: 'pieces', category: 'produce', expiration_date: daysFromNow(7) });
+  });
+
+  it('should take a cooked meal out of the pantry and log it once', async () => {
+    const meal = {
+      mealId: 'planned-meal-pantry-test',
+      recipeName: 'Banana Rice Pudding',
+      date: daysFromNow(0),
+      mealType: 'Dinner',
+      servings: 2,
+      ingredients: ['1 lb rice', '2 bananas', '1 cup flour']
+    };
+
+    const response = await request(app)
+      .post('/api/pantry/cook')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send(meal)
+      .expect(201);
+
+    expect(response.body.used.map(({ name, quantity }) => [name, quantity])).toEqual([['Rice', 1], ['Bananas', 2]]);
+    expect(response.body.shortfalls).toEqual([{ name: 'flour', quantity: 1, unit: 'cups' }]);
+    expect(response.body.entry).toMatchObject({ meal_client_id: meal.mealId, meal_type: 'dinner', servings: 2 });
+
+    const pantry = await request(app)
+      .get('/api/pantry')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    expect(parseFloat(pantry.body.items.find(item => item.name === 'Rice').quantity)).toBe(2);
+
+    await request(app)
+      .post('/api/pantry/cook')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send(meal)
+      .expect(409);
+
+    const log = await request(app)
+      .get(`/api/pantry/cooking-log?from=${daysFromNow(0)}`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    expect(log.body.entries.map(entry => entry.recipe_name)).toEqual(['Banana Rice Pudding']);
+  });
+
+  it('should only cook a planned meal once when two requests race', async () => {
+    const meal = {
+      mealId: 'planned-meal-race-test',
+      recipeName: 'Plain Rice',
+      ingredients: ['1 lb rice']
+    };
+
+    const responses = await Promise.all([1, 2].map(() => request(app)
+      .post('/api/pantry/cook')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send(meal)));
+
+    expect(responses.map(response => response.status).sort()).toEqual([201, 409]);
+
+    const pantry = await request(app)
+      .get('/api/pantry')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    expect(parseFloat(pantry.body.items.find(item => item.name === 'Rice').quantity)).toBe(1);
+  });
+
+  it('should import a local pantry once, keeping newer server edits', async () => {
+    const items = [
+      { clientId: 'pantry-import-1', name: 'Canned Tomatoes', quantity: 4, unit: 'pieces', updatedAt: '2024-01-01T00:00:00Z' },
+      { clientId: 'pantry-import-2', name: 'Brown Rice', quantity: 2, unit: 'pounds', category: 'grains' }
+    ];
+
+    const first = await request(app)
+      .post('/api/pantry/import')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ items })
+      .expect(200);
+    expect(first.body.items).toHaveLength(2);
+
+    // Older than the rows just written, so nothing changes
+    const again = await request(app)
+      .post('/api/pantry/import')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ items: [{ ...items[0], quantity: 9 }, items[1]] })
+      .expect(200);
+    expect(again.body.items).toHaveLength(0);
+
+    const pantry = await request(app)
+      .get('/api/pantry')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    const tomatoes = pantry.body.items.filter(item => item.name === 'Canned Tomatoes');
+    expect(tomatoes).toHaveLength(1);
+    expect(parseFloat(tomatoes[0].quantity)).toBe(4);
+  });
+});
@@ -3,6 +3,7 @@ process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret_recipes_1234
 
 const request = require('supertest');
 const express = require('express');
+const jwt = require('jsonwebtoken');
 const { query, pool } = require('../src/config/database');
 const recipeRoutes = require('../src/controllers/recipeController');
 
@@ -20,10 +21,13 @@ const testUser = {
   firstName: 'Test',
   lastName: 'User'
 };
+const otherUserId = '7c0b8a52-3f1e-4d8a-9b5e-2a4f6c8d0e13';
 
 describe('Recipe API', () => {
   let recipeId;
   let publicRecipeId;
+  let authToken;
+  let otherToken;
 
   beforeAll(async () => {
     await query(
@@ -32,6 +36,15 @@ describe('Recipe API', () => {
        ON CONFLICT (id) DO NOTHING`,
       [testUser.id, testUser.email, testUser.passwordHash, testUser.firstName, testUser.lastName]
     );
+    await query(
+      `INSERT INTO users (id, email, password_hash, first_name, last_name)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (id) DO NOTHING`,
+      [otherUserId, 'other-recipe-user@example.com', testUser.passwordHash, 'Other', 'Cook']
+    );
+
+    authToken = jwt.sign({ userId: testUserId }, process.env.JWT_SECRET, { expiresIn: '1h' });
+    otherToken = jwt.sign({ userId: otherUserId }, process.env.JWT_SECRET, { expiresIn: '1h' });
 
     // Clean up any existing test data
     await query('DELETE FROM recipe_ingredients WHERE recipe_id IN (SELECT id FROM recipes WHERE user_id = $1 AND name LIKE $2)', [testUserId, 'Test%']);
@@ -44,7 +57,9 @@ describe('Recipe API', () => {
     await query('DELETE FROM recipe_ingredients WHERE recipe_id IN (SELECT id FROM recipes WHERE user_id = $1 AND name LIKE $2)', [testUserId, 'Test%']);
     await query('DELETE FROM nutrition_info WHERE recipe_id IN (SELECT id FROM recipes WHERE user_id = $1 AND name LIKE $2)', [testUserId, 'Test%']);
     await query('DELETE FROM recipes WHERE user_id = $1 AND name LIKE $2', [testUserId, 'Test%']);
-    await query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await query('DELETE FROM recipes WHERE user_id = $1', [otherUserId]);
+    await query('DELETE FROM households WHERE created_by = $1', [testUserId]);
+    await query('DELETE FROM users WHERE id = ANY($1)', [[testUserId, otherUserId]]);
     await pool.end();
   });
 
@@ -77,6 +92,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
         .send(recipeData)
         .expect(201);
 
@@ -115,6 +131,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
         .send(recipeData)
         .expect(201);
 
@@ -132,6 +149,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
         .send(recipeData)
         .expect(400);
 
@@ -148,6 +166,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
         .send(recipeData)
         .expect(400);
 
@@ -164,6 +183,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
         .send(recipeData)
         .expect(400);
 
@@ -264,7 +284,6 @@ describe('Recipe API', () => {
 
   describe('PUT /api/recipes/:id', () => {
     it('should update recipe (with auth)', async () => {
-      // This test would normally require authentication, but for MVP it's disabled
       const updateData = {
         name: 'Updated Test Recipe',
         description: 'Updated description',
@@ -272,9 +291,9 @@ describe('Recipe API', () => {
         difficulty: 'medium'
       };
 
-      // Since auth is disabled for MVP, this should work
       const response = await request(app)
         .put(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${authToken}`)
         .send(updateData)
         .expect(200);
 
@@ -292,6 +311,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .put(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${authToken}`)
         .send(updateData)
         .expect(200);
 
@@ -311,6 +331,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .put(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${authToken}`)
         .send(updateData)
         .expect(200);
 
@@ -334,11 +355,201 @@ describe('Recipe API', () => {
     });
   });
 
+  describe('Ownership and sharing', () => {
+    it('should require auth to create a recipe', async () => {
+      await request(app)
+        .post('/api/recipes')
+        .send({ name: 'Test Anonymous', instructions: 'None', servings: 1 })
+        .expect(401);
+    });
+
+    it('should not let another user see, edit or delete a private recipe', async () => {
+      await request(app)
+        .get(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+
+      await request(app)
+        .put(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ name: 'Hijacked' })
+        .expect(404);
+
+      await request(app)
+        .delete(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+    });
+
+    it('should not let a non-owner edit a public recipe', async () => {
+      const response = await request(app)
+        .put(`/api/recipes/${publicRecipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ name: 'Hijacked' })
+        .expect(403);
+
+      expect(response.body.error).toBe('You do not have permission to edit this recipe');
+    });
+
+    it('should share a private recipe with edit permission', async () => {
+      const response = await request(app)
+        .post(`/api/recipes/${recipeId}/shares`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ email: 'other-recipe-user@example.com', permission: 'edit' })
+        .expect(201);
+
+      expect(response.body.share.user_id).toBe(otherUserId);
+
+      const shared = await request(app)
+        .get('/api/recipes/user/shared-with-me')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(200);
+
+      expect(shared.body.recipes.map(r => r.id)).toContain(recipeId);
+    });
+
+    it('should let an editor update but not delete or re-share', async () => {
+      const update = await request(app)
+        .put(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ description: 'Edited by a friend' })
+        .expect(200);
+
+      expect(update.body.recipe.description).toBe('Edited by a friend');
+
+      await request(app)
+        .put(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ visibility: 'public' })
+        .expect(403);
+
+      await request(app)
+        .delete(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403);
+    });
+
+    it('should let a viewer fork a shared recipe into their collection', async () => {
+      const response = await request(app)
+        .post(`/api/recipes/${recipeId}/fork`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(201);
+
+      expect(response.body.recipe.user_id).toBe(otherUserId);
+      expect(response.body.recipe.forked_from).toBe(recipeId);
+      expect(response.body.recipe.visibility).toBe('private');
+      expect(response.body.recipe.ingredients.length).toBe(1);
+    });
+
+    it('should hide the recipe again once sharing is removed', async () => {
+      await request(app)
+        .delete(`/api/recipes/${recipeId}/shares/${otherUserId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+    });
+
+    it('should share a recipe with everyone in the owner\'s household', async () => {
+      const household = await query(
+        "INSERT INTO households (name, created_by) VALUES ('Test Recipe Household', $1) RETURNING id",
+        [testUserId]
+      );
+      const householdId = household.rows[0].id;
+      await query(
+        "INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'owner'), ($1, $3, 'member')",
+        [householdId, testUserId, otherUserId]
+      );
+
+      const response = await request(app)
+        .post(`/api/recipes/${recipeId}/household-shares`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ permission: 'view' })
+        .expect(201);
+
+      expect(response.body.share.household_id).toBe(householdId);
+
+      await request(app)
+        .get(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(200);
+
+      await request(app)
+        .put(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ description: 'Edited by a housemate' })
+        .expect(403);
+
+      const shared = await request(app)
+        .get('/api/recipes/user/shared-with-me')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(200);
+
+      expect(shared.body.recipes.find(r => r.id === recipeId).household_name).toBe('Test Recipe Household');
+
+      await request(app)
+        .delete(`/api/recipes/${recipeId}/household-shares/${householdId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+      // Later tests work on the owner's personal pantry
+      await query('DELETE FROM households WHERE id = $1', [householdId]);
+    });
+  });
+
+  describe('GET /api/recipes/user/cookable', () => {
+    it('should rank recipes by what the pantry covers, listing what is missing', async () => {
+      const created = await request(app)
+        .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Test Rice Pudding',
+          instructions: 'Simmer the rice in the milk',
+          servings: 4,
+          mealType: 'dessert',
+          ingredients: [
+            { name: 'rice', quantity: 1, unit: 'cups' },
+            { name: 'milk', quantity: 2, unit: 'cups' }
+          ]
+        })
+        .expect(201);
+      await query(
+        `INSERT INTO pantry_items (user_id, name, quantity, unit, expiration_date)
+         VALUES ($1, 'Rice', 2, 'cups', CURRENT_DATE + 2)`,
+        [testUserId]
+      );
+
+      const response = await request(app)
+        .get('/api/recipes/user/cookable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      const pudding = response.body.recipes.find(recipe => recipe.id === created.body.recipe.id);
+      expect(pudding).toMatchObject({ coverage: 0.5, ingredientCount: 2, expiring: [{ name: 'Rice', daysLeft: 2 }] });
+      expect(pudding.missing.map(item => item.text)).toEqual(['2 cups milk']);
+
+      await query('DELETE FROM pantry_items WHERE user_id = $1', [testUserId]);
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/recipes/user/cookable')
+        .expect(401);
+    });
+  });
+
   describe('DELETE /api/recipes/:id', () => {
     it('should delete recipe (with auth)', async () => {
-      // Since auth is disabled for MVP, this should work
       const response = await request(app)
         .delete(`/api/recipes/${recipeId}`)
+        .set('Authorization', `Bearer ${authToken}`)
         .expect(200);
 
       expect(response.body.message).toBe('Recipe deleted successfully');
@@ -348,6 +559,7 @@ describe('Recipe API', () => {
       const fakeId = '00000000-0000-0000-0000-000000000000';
       const response = await request(app)
         .delete(`/api/recipes/${fakeId}`)
+        .set('Authorization', `Bearer ${authToken}`)
         .expect(404);
 
       expect(response.body.error).toBe('Recipe not found');
@@ -379,6 +591,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
         .send(recipeData)
         .expect(201);
 
@@ -400,6 +613,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
         .send(recipeData)
         .expect(201);
 
@@ -419,6 +633,7 @@ describe('Recipe API', () => {
 
       const response = await request(app)
         .post('/api/recipes')
+        .set('Authorization', `Bearer ${authToken}`)
         .send(recipeData)
         .expect(201);
 
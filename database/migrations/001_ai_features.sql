@@ -89,6 +89,7 @@ END;
 $$ language 'plpgsql';
 
 -- Trigger for ai_conversations
+DROP TRIGGER IF EXISTS update_ai_conversations_updated_at ON ai_conversations;
 CREATE TRIGGER update_ai_conversations_updated_at BEFORE UPDATE ON ai_conversations
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
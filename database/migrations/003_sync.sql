@@ -0,0 +1,50 @@
+-- Offline Sync Migration
+-- Lets browsers sync their local recipes, pantry, meal plans and shopping list
+-- with the server. Each synced row remembers the id the client gave it and the
+-- time of the client edit that produced it (used for last-write-wins).
+
+-- Recipes: client ids plus the loose fields the recipe editor works with
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS client_id VARCHAR(100);
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS client_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS category VARCHAR(50);
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS ingredient_list JSONB;
+
+-- Pantry items: keep the quantity the way the user typed it ("4 cans")
+ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS client_id VARCHAR(100);
+ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS client_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS quantity_text VARCHAR(100);
+
+-- Meal plans: one default plan per user collects the synced calendar entries
+ALTER TABLE meal_plans ADD COLUMN IF NOT EXISTS is_default BOOLEAN DEFAULT false;
+ALTER TABLE meal_plan_entries ADD COLUMN IF NOT EXISTS client_id VARCHAR(100);
+ALTER TABLE meal_plan_entries ADD COLUMN IF NOT EXISTS client_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE meal_plan_entries ADD COLUMN IF NOT EXISTS recipe_snapshot JSONB;
+
+-- Shopping list items: optional structured parts of the item text
+ALTER TABLE shopping_list_items ADD COLUMN IF NOT EXISTS client_id VARCHAR(100);
+ALTER TABLE shopping_list_items ADD COLUMN IF NOT EXISTS client_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE shopping_list_items ADD COLUMN IF NOT EXISTS quantity VARCHAR(50);
+ALTER TABLE shopping_list_items ADD COLUMN IF NOT EXISTS unit VARCHAR(50);
+ALTER TABLE shopping_list_items ADD COLUMN IF NOT EXISTS name VARCHAR(255);
+
+-- Deleted records, so other devices learn about deletions on their next pull
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    entity VARCHAR(50) NOT NULL,
+    client_id VARCHAR(100) NOT NULL,
+    client_deleted_at TIMESTAMP WITH TIME ZONE,
+    deleted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, entity, client_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_recipes_client_id ON recipes(client_id);
+CREATE INDEX IF NOT EXISTS idx_recipes_updated_at ON recipes(updated_at);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_client_id ON pantry_items(client_id);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_updated_at ON pantry_items(updated_at);
+CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_client_id ON meal_plan_entries(client_id);
+CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_updated_at ON meal_plan_entries(updated_at);
+CREATE INDEX IF NOT EXISTS idx_shopping_list_items_client_id ON shopping_list_items(client_id);
+CREATE INDEX IF NOT EXISTS idx_shopping_list_items_updated_at ON shopping_list_items(updated_at);
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_user_entity ON sync_tombstones(user_id, entity, deleted_at);
@@ -0,0 +1,24 @@
+-- Recipe Sharing Migration
+-- Recipes are private, shared with named users, or public. `is_public` is kept
+-- in step with `visibility` for older queries. Forks remember their source.
+
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS visibility VARCHAR(20) NOT NULL DEFAULT 'private'
+    CHECK (visibility IN ('private', 'shared', 'public'));
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS forked_from UUID REFERENCES recipes(id) ON DELETE SET NULL;
+
+UPDATE recipes SET visibility = 'public' WHERE is_public = true AND visibility = 'private';
+
+-- Named users a recipe is shared with; 'edit' lets them change it too
+CREATE TABLE IF NOT EXISTS recipe_shares (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    recipe_id UUID NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+    shared_with_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    permission VARCHAR(20) NOT NULL DEFAULT 'view' CHECK (permission IN ('view', 'edit')),
+    shared_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(recipe_id, shared_with_user_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_recipes_visibility ON recipes(visibility);
+CREATE INDEX IF NOT EXISTS idx_recipe_shares_user ON recipe_shares(shared_with_user_id);
@@ -0,0 +1,51 @@
+-- Households Migration
+-- A household shares one pantry, meal plan and set of shopping/grocery lists.
+-- Each user belongs to at most one household. Rows with a household_id belong
+-- to the household; rows without one are the creating user's personal data.
+
+CREATE TABLE IF NOT EXISTS households (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- owner: manages members and invitations; member: edits shared data; viewer: read-only
+CREATE TABLE IF NOT EXISTS household_members (
+    household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member', 'viewer')),
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (household_id, user_id),
+    UNIQUE (user_id)
+);
+
+CREATE TABLE IF NOT EXISTS household_invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'viewer')),
+    invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Household-owned data
+ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+ALTER TABLE meal_plans ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+ALTER TABLE grocery_lists ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+
+-- Deletions made by one member reach the others
+ALTER TABLE sync_tombstones ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_household_invitations_email ON household_invitations(LOWER(email), status);
+CREATE INDEX IF NOT EXISTS idx_pantry_items_household_id ON pantry_items(household_id);
+CREATE INDEX IF NOT EXISTS idx_meal_plans_household_id ON meal_plans(household_id);
+CREATE INDEX IF NOT EXISTS idx_grocery_lists_household_id ON grocery_lists(household_id);
+CREATE INDEX IF NOT EXISTS idx_shopping_lists_household_id ON shopping_lists(household_id);
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_household ON sync_tombstones(household_id, deleted_at);
@@ -0,0 +1,21 @@
+-- Multiple Shopping Lists Migration
+-- Lists ("Costco run", "Farmers market") sync from the browser like their items:
+-- they keep the client id and edit time, and can be archived instead of deleted.
+
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS client_id VARCHAR(100);
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS client_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE shopping_lists ADD COLUMN IF NOT EXISTS is_archived BOOLEAN DEFAULT false;
+
+-- The oldest list of each user (or household) becomes the default list every
+-- browser already knows as 'default'; items synced before lists existed are in it
+UPDATE shopping_lists
+SET client_id = 'default'
+WHERE client_id IS NULL
+  AND id IN (
+    SELECT DISTINCT ON (COALESCE(household_id, user_id)) id
+    FROM shopping_lists
+    ORDER BY COALESCE(household_id, user_id), created_at
+  );
+
+CREATE INDEX IF NOT EXISTS idx_shopping_lists_client_id ON shopping_lists(client_id);
+CREATE INDEX IF NOT EXISTS idx_shopping_lists_updated_at ON shopping_lists(updated_at);
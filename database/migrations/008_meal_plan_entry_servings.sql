@@ -0,0 +1,6 @@
+-- Meal Plan Entry Servings Migration
+-- A planned meal can be cooked for more or fewer people than its recipe serves.
+-- NULL means the recipe's own servings; grocery lists scale each entry's
+-- ingredients by servings / recipes.servings.
+
+ALTER TABLE meal_plan_entries ADD COLUMN IF NOT EXISTS servings INTEGER CHECK (servings > 0);
@@ -0,0 +1,9 @@
+-- AI Message Metadata Migration
+-- Betsy's conversations are kept server-side. Each user message records the
+-- intent and entities it was understood as, so later turns ("move it to
+-- Thursday") can be resolved against it.
+
+ALTER TABLE ai_messages ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_ai_messages_conversation_created ON ai_messages(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_conversations_user_updated ON ai_conversations(user_id, updated_at DESC);
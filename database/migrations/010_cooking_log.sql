@@ -0,0 +1,24 @@
+-- Cooking Log Migration
+-- Marking a planned meal as cooked takes its ingredients out of the pantry and
+-- records it here: what was cooked, when, for how many, what the pantry gave
+-- and what it was short of. The planned meal itself keeps when it was cooked.
+
+ALTER TABLE meal_plan_entries ADD COLUMN IF NOT EXISTS cooked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS cooking_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    household_id UUID REFERENCES households(id) ON DELETE SET NULL,
+    meal_client_id VARCHAR(255), -- The planned meal's id in the app
+    recipe_id UUID REFERENCES recipes(id) ON DELETE SET NULL,
+    recipe_name VARCHAR(255) NOT NULL,
+    meal_date DATE,
+    meal_type meal_type,
+    servings INTEGER CHECK (servings > 0),
+    used JSONB NOT NULL DEFAULT '[]', -- [{ pantryItemId, name, quantity, unit }]
+    shortfalls JSONB NOT NULL DEFAULT '[]', -- [{ name, quantity, unit }]; quantity null when unmeasured
+    cooked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_cooking_log_user_cooked ON cooking_log(user_id, cooked_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cooking_log_household_cooked ON cooking_log(household_id, cooked_at DESC);
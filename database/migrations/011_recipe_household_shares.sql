@@ -0,0 +1,20 @@
+-- Recipe Household Shares Migration
+-- A recipe can be shared with a whole household as well as with named users.
+-- Each share row names exactly one recipient; household shares reach whoever
+-- is a member at the time, including people who join later.
+
+ALTER TABLE recipe_shares ADD COLUMN IF NOT EXISTS shared_with_household_id UUID REFERENCES households(id) ON DELETE CASCADE;
+ALTER TABLE recipe_shares ALTER COLUMN shared_with_user_id DROP NOT NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'recipe_shares_one_recipient') THEN
+        ALTER TABLE recipe_shares ADD CONSTRAINT recipe_shares_one_recipient
+            CHECK ((shared_with_user_id IS NULL) <> (shared_with_household_id IS NULL));
+    END IF;
+END $$;
+
+-- Create indexes for performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipe_shares_recipe_household
+    ON recipe_shares(recipe_id, shared_with_household_id) WHERE shared_with_household_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_recipe_shares_household ON recipe_shares(shared_with_household_id);
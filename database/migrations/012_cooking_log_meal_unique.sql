@@ -0,0 +1,8 @@
+-- Cooking Log Meal Uniqueness Migration
+-- A planned meal is cooked at most once per household (or user on their own).
+-- The cook endpoint inserts the log row first and relies on this index, so two
+-- requests for the same meal can't both take its ingredients out of the pantry.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cooking_log_meal
+    ON cooking_log ((COALESCE(household_id, user_id)), meal_client_id)
+    WHERE meal_client_id IS NOT NULL;
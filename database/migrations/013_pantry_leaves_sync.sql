@@ -0,0 +1,8 @@
+-- Pantry Leaves Sync Migration
+-- The pantry is kept by its own API now rather than synced from localStorage.
+-- Quantities live in quantity/unit alone; client_id stays so items a browser
+-- imports once from its old local pantry aren't added twice.
+
+ALTER TABLE pantry_items DROP COLUMN IF EXISTS quantity_text;
+
+DELETE FROM sync_tombstones WHERE entity = 'pantry';
@@ -0,0 +1,33 @@
+-- Server Writes Stamp client_updated_at Migration
+-- Sync decides conflicts by client_updated_at, the time of the edit behind a
+-- row. Sync writes set it to the client's edit time; every other write (REST
+-- endpoints, cooking a meal, Betsy) doesn't, so it is stamped here with the
+-- time it happened. An older offline edit then loses to a newer server change.
+
+CREATE OR REPLACE FUNCTION stamp_client_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.client_updated_at = COALESCE(NEW.client_updated_at, CURRENT_TIMESTAMP);
+    ELSIF NEW.client_updated_at IS NOT DISTINCT FROM OLD.client_updated_at THEN
+        NEW.client_updated_at = CURRENT_TIMESTAMP;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS stamp_recipes_client_updated_at ON recipes;
+CREATE TRIGGER stamp_recipes_client_updated_at BEFORE INSERT OR UPDATE ON recipes
+    FOR EACH ROW EXECUTE FUNCTION stamp_client_updated_at();
+
+DROP TRIGGER IF EXISTS stamp_meal_plan_entries_client_updated_at ON meal_plan_entries;
+CREATE TRIGGER stamp_meal_plan_entries_client_updated_at BEFORE INSERT OR UPDATE ON meal_plan_entries
+    FOR EACH ROW EXECUTE FUNCTION stamp_client_updated_at();
+
+DROP TRIGGER IF EXISTS stamp_shopping_lists_client_updated_at ON shopping_lists;
+CREATE TRIGGER stamp_shopping_lists_client_updated_at BEFORE INSERT OR UPDATE ON shopping_lists
+    FOR EACH ROW EXECUTE FUNCTION stamp_client_updated_at();
+
+DROP TRIGGER IF EXISTS stamp_shopping_list_items_client_updated_at ON shopping_list_items;
+CREATE TRIGGER stamp_shopping_list_items_client_updated_at BEFORE INSERT OR UPDATE ON shopping_list_items
+    FOR EACH ROW EXECUTE FUNCTION stamp_client_updated_at();
@@ -1,13 +1,21 @@
 import React, { useState, useEffect } from 'react'
-import { Routes, Route, Link, useLocation } from 'react-router-dom'
+import { Routes, Route, Link, useLocation, useNavigate } from 'react-router-dom'
 import { Recipe } from './types/recipe'
 import { RecipeList } from './components/recipes/RecipeList'
 import { RecipeForm } from './components/recipes/RecipeForm'
 import { MealPlanningPage } from './pages/meal-planning/MealPlanningPage'
 import { ShoppingListPage } from './pages/shopping-lists/ShoppingListPage'
+import PantryPage from './pages/pantry/PantryPage'
 import { BetsyPage } from './pages/assistant/BetsyPage'
 import { BetsyButton } from './components/BetsyChat'
-import { LayoutGrid, BookOpen, Calendar, ShoppingBag, Settings, Menu, X } from 'lucide-react'
+import { UndoRedoControls } from './components/UndoRedoControls'
+import { RequireAuth } from './components/auth/RequireAuth'
+import { LoginPage } from './pages/auth/LoginPage'
+import { RegisterPage } from './pages/auth/RegisterPage'
+import ProfilePage from './pages/ProfilePage'
+import NotFoundPage from './pages/NotFoundPage'
+import { authService, AuthUser } from './services/authService'
+import { LayoutGrid, BookOpen, Calendar, ShoppingBag, Package, Settings, Menu, X, User, LogOut } from 'lucide-react'
 
 // Import background assets
 import kitchenArtwork from './assets/22246ed99a2fab284b1e8aa82ad1cd071e78c525.png'
@@ -25,8 +33,10 @@ const KitchenIcon = () => (
 
 const Layout = ({ children }: { children: React.ReactNode }) => {
   const location = useLocation()
+  const navigate = useNavigate()
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [isMobile, setIsMobile] = useState(false)
+  const [user, setUser] = useState<AuthUser | null>(authService.getCurrentUser())
 
   useEffect(() => {
     const checkMobile = () => setIsMobile(window.innerWidth < 768)
@@ -35,6 +45,15 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
     return () => window.removeEventListener('resize', checkMobile)
   }, [])
 
+  useEffect(() => authService.subscribe(setUser), [])
+
+  const handleLogout = async () => {
+    setMobileMenuOpen(false)
+    await authService.logout()
+    // Full reload so no signed-out user's data stays in memory
+    window.location.assign('/login')
+  }
+
   const isActive = (path: string) => location.pathname === path
 
   const navLinkClass = (path: string) => 
@@ -109,6 +128,30 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
               <Link to="/shopping-lists" className={navLinkClass('/shopping-lists')}>
                 Shopping List
               </Link>
+              <Link to="/pantry" className={navLinkClass('/pantry')}>
+                Pantry
+              </Link>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <UndoRedoControls shortcuts />
+              <button
+                onClick={() => navigate('/profile')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${
+                  isActive('/profile') ? 'bg-[#f0fdfa] text-[#035b49]' : 'text-[#035b49] hover:bg-gray-50'
+                }`}
+                title="Profile"
+              >
+                <User className="w-5 h-5" />
+                <span className="font-bold">{user?.firstName || 'Profile'}</span>
+              </button>
+              <button
+                onClick={handleLogout}
+                className="p-2 rounded-lg text-gray-500 hover:text-[#035b49] hover:bg-gray-50 transition-colors"
+                title="Sign out"
+              >
+                <LogOut className="w-5 h-5" />
+              </button>
             </div>
           </div>
 
@@ -129,12 +172,15 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
               </span>
             </Link>
             
-            <button
-              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-              className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
-            >
-              {mobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
-            </button>
+            <div className="flex items-center gap-1">
+              <UndoRedoControls />
+              <button
+                onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+                className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                {mobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
+              </button>
+            </div>
           </div>
 
           {/* Mobile Menu Dropdown */}
@@ -172,6 +218,29 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
                 <ShoppingBag className="w-5 h-5" />
                 <span>Shopping List</span>
               </Link>
+              <Link 
+                to="/pantry"
+                onClick={() => setMobileMenuOpen(false)}
+                className={mobileNavLinkClass('/pantry')}
+              >
+                <Package className="w-5 h-5" />
+                <span>Pantry</span>
+              </Link>
+              <Link
+                to="/profile" 
+                onClick={() => setMobileMenuOpen(false)}
+                className={mobileNavLinkClass('/profile')}
+              >
+                <User className="w-5 h-5" />
+                <span>{user ? `${user.firstName} ${user.lastName}`.trim() : 'Profile'}</span>
+              </Link>
+              <button
+                onClick={handleLogout}
+                className="w-full flex items-center gap-3 px-4 py-3 transition-colors text-gray-600 hover:bg-gray-50"
+              >
+                <LogOut className="w-5 h-5" />
+                <span>Sign out</span>
+              </button>
             </div>
           )}
         </div>
@@ -206,7 +275,7 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
 
       {/* Mobile Bottom Navigation */}
       <nav className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 shadow-lg z-50">
-        <div className="grid grid-cols-4 h-16">
+        <div className="grid grid-cols-5 h-16">
           <Link
             to="/"
             className={`flex flex-col items-center justify-center gap-1 transition-colors ${
@@ -246,6 +315,16 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
             <ShoppingBag className="w-5 h-5" />
             <span className="text-[10px]">Shopping</span>
           </Link>
+
+          <Link
+            to="/pantry"
+            className={`flex flex-col items-center justify-center gap-1 transition-colors ${
+              isActive('/pantry') ? 'text-[#EA6A47]' : 'text-gray-500'
+            }`}
+          >
+            <Package className="w-5 h-5" />
+            <span className="text-[10px]">Pantry</span>
+          </Link>
         </div>
       </nav>
       
@@ -297,10 +376,15 @@ function App() {
 
   return (
     <Routes>
-      <Route path="/" element={<Layout><BetsyPage /></Layout>} />
-      <Route path="/recipes" element={<Layout><RecipesPage /></Layout>} />
-      <Route path="/meal-planning" element={<Layout><MealPlanningPage /></Layout>} />
-      <Route path="/shopping-lists" element={<Layout><ShoppingListPage /></Layout>} />
+      <Route path="/login" element={<LoginPage />} />
+      <Route path="/register" element={<RegisterPage />} />
+      <Route path="/" element={<RequireAuth><Layout><BetsyPage /></Layout></RequireAuth>} />
+      <Route path="/recipes" element={<RequireAuth><Layout><RecipesPage /></Layout></RequireAuth>} />
+      <Route path="/meal-planning" element={<RequireAuth><Layout><MealPlanningPage /></Layout></RequireAuth>} />
+      <Route path="/shopping-lists" element={<RequireAuth><Layout><ShoppingListPage /></Layout></RequireAuth>} />
+      <Route path="/pantry" element={<RequireAuth><Layout><PantryPage /></Layout></RequireAuth>} />
+      <Route path="/profile" element={<RequireAuth><Layout><ProfilePage /></Layout></RequireAuth>} />
+      <Route path="*" element={<NotFoundPage />} />
     </Routes>
   )
 }
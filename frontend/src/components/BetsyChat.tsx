@@ -2,9 +2,21 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { voiceService } from '../services/voiceService';
 import { shoppingListService, enhancedShoppingListService } from '../services/shoppingListService';
-import { betsyService, BetsyInterpretation } from '../services/betsyService';
+import {
+  betsyService,
+  BetsyInterpretation,
+  BetsyProgress,
+  INITIAL_PROGRESS,
+  applyBetsyEvent,
+  isCancelled,
+  needsConfirmation
+} from '../services/betsyService';
 import { recipeService } from '../services/recipeService';
 import { mealPlanService } from '../services/mealPlanService';
+import { describeCookedMeal } from '../services/cookingService';
+import { preferencesService } from '../services/preferencesService';
+import { historyService } from '../services/historyService';
+import { convertQuantitiesInText } from '../utils/unitConversion';
 
 interface Message {
   id: string;
@@ -31,9 +43,13 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
   const [inputText, setInputText] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Betsy's status and reply while a command streams in, then while it's carried out
+  const [progress, setProgress] = useState<BetsyProgress | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [liveTranscript, setLiveTranscript] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const streamRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -46,7 +62,11 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
           console.error('Failed to load chat history:', e);
         }
       }
-      if (messages.length === 0) {
+      // Pick up the conversation the Betsy page (or another device) left off
+      const conversationId = betsyService.getConversationId();
+      if (conversationId) {
+        loadConversation(conversationId);
+      } else if (messages.length === 0) {
         addBetsyMessage("Hi! I'm Betsy. How can I help?");
       }
       setTimeout(() => inputRef.current?.focus(), 100);
@@ -61,7 +81,12 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, progress]);
+
+  // Closing the chat stops a command that's still streaming
+  useEffect(() => {
+    if (!isOpen) streamRef.current?.abort();
+  }, [isOpen]);
 
   useEffect(() => {
     if (!isOpen) return;
@@ -71,7 +96,7 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
       if (result.isFinal) {
         setIsListening(false);
         setLiveTranscript('');
-        handleUserInput(result.transcript);
+        handleUserInput(result.transcript, true);
       }
     });
 
@@ -98,17 +123,37 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
     }]);
   };
 
+  // Quantities are shown in the user's units, with the original in brackets
   const addBetsyMessage = (content: string, action?: Message['action']) => {
     setMessages(prev => [...prev, {
       id: generateId(),
       role: 'betsy',
-      content,
+      content: convertQuantitiesInText(content, preferencesService.getMeasurementSystem()),
       timestamp: new Date(),
       action
     }]);
+    void betsyService.recordReply(content);
+  };
+
+  const loadConversation = async (conversationId: string) => {
+    try {
+      const stored = await betsyService.getConversationMessages(conversationId);
+      setMessages(stored
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          id: message.id,
+          role: message.role === 'user' ? 'user' : 'betsy',
+          content: message.role === 'user'
+            ? message.content
+            : convertQuantitiesInText(message.content, preferencesService.getMeasurementSystem()),
+          timestamp: new Date(message.created_at)
+        })));
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+    }
   };
 
-  const handleUserInput = async (input: string) => {
+  const handleUserInput = async (input: string, spoken = false) => {
     const trimmed = input.trim();
     if (!trimmed) return;
 
@@ -116,16 +161,68 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
     setIsProcessing(true);
     setInputText('');
 
+    const stream = new AbortController();
+    streamRef.current = stream;
+    setProgress(INITIAL_PROGRESS);
+    setIsStreaming(true);
+
     try {
-      const interpretation = await betsyService.interpret(trimmed);
-      await executeIntent(interpretation);
+      const interpretation = await betsyService.interpretStream(trimmed, {
+        shoppingLists: shoppingListService.getLists().map(list => list.name)
+      }, {
+        signal: stream.signal,
+        onEvent: event => setProgress(prev => applyBetsyEvent(prev || INITIAL_PROGRESS, event))
+      });
+      setIsStreaming(false);
+      // Several things in one command: each step in turn. The Betsy page
+      // shows how each step went and can undo them all.
+      const steps = interpretation.actions && interpretation.actions.length > 1
+        ? interpretation.actions
+        : [interpretation];
+      // Risky steps are confirmed first, with what they would change; the
+      // Betsy page asks in the conversation instead
+      for (const step of steps) {
+        if (!needsConfirmation(step.risk, spoken)) continue;
+        const preview = await betsyService.previewAction(step);
+        if (preview && preview.records.length === 0) continue;
+        if (!window.confirm(`${preview?.summary || step.response} Go ahead?`)) {
+          addBetsyMessage("Okay, I've left everything as it was.");
+          return;
+        }
+      }
+      const runSteps = async () => {
+        for (const [index, step] of steps.entries()) {
+          if (steps.length > 1) {
+            setProgress(prev => ({ ...(prev || INITIAL_PROGRESS), status: `Step ${index + 1} of ${steps.length}...` }));
+          }
+          await executeIntent({ ...interpretation, ...step, actions: undefined });
+        }
+      };
+      // Each command is one step in the undo history; undo and redo move through it instead
+      if (steps.some(step => step.intent === 'undo' || step.intent === 'redo')) {
+        await runSteps();
+      } else {
+        await historyService.record(`"${trimmed}"`, runSteps);
+      }
     } catch (error) {
-      addBetsyMessage("Sorry, something went wrong.");
+      if (isCancelled(error)) {
+        // Nothing was saved on the server, so neither is this
+        setMessages(prev => [...prev, { id: generateId(), role: 'betsy', content: 'Okay, stopped.', timestamp: new Date() }]);
+      } else {
+        addBetsyMessage("Sorry, something went wrong.");
+      }
     } finally {
+      streamRef.current = null;
+      setIsStreaming(false);
+      setProgress(null);
       setIsProcessing(false);
     }
   };
 
+  const cancelStream = () => {
+    streamRef.current?.abort();
+  };
+
   const executeIntent = async (interpretation: BetsyInterpretation) => {
     const { intent, entities, response } = interpretation;
 
@@ -133,13 +230,17 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
       case 'add_shopping_item':
         if (entities.items && entities.items.length > 0) {
           try {
+            const target = shoppingListService.resolveTargetList(entities.listName);
             const addedItems: string[] = [];
             for (const item of entities.items) {
               const itemText = formatShoppingItem(item);
-              await shoppingListService.addShoppingListItem(itemText);
+              await shoppingListService.addShoppingListItem(itemText, target.list.id);
               addedItems.push(itemText);
             }
-            addBetsyMessage(response || `Added ${addedItems.join(', ')} to your list.`, {
+            const message = entities.listName && !target.matched
+              ? `No "${entities.listName}" list, so I added ${addedItems.join(', ')} to ${target.list.name}.`
+              : response || `Added ${addedItems.join(', ')} to ${target.list.name}.`;
+            addBetsyMessage(message, {
               type: 'shopping_list',
               details: `Added: ${addedItems.join(', ')}`,
               success: true
@@ -391,8 +492,9 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
               } else {
                 ingredientsList = await recipeService.extractIngredients(recipe.instructions, recipe.name);
               }
-              await shoppingListService.addIngredientsToList(ingredientsList);
-              addBetsyMessage(`Added ${ingredientsList.length} ingredients from "${recipe.name}".`, {
+              const target = shoppingListService.resolveTargetList(entities.listName);
+              await shoppingListService.addIngredientsToList(ingredientsList, target.list.id);
+              addBetsyMessage(`Added ${ingredientsList.length} ingredients from "${recipe.name}" to ${target.list.name}.`, {
                 type: 'shopping_list', details: `${ingredientsList.length} items`, success: true
               });
             } else {
@@ -539,7 +641,7 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
           const fromMeal = mealPlanService.getPlannedMeal(fromDate, capitalize(entities.fromMealType));
           if (fromMeal) {
             mealPlanService.removePlannedMeal(fromDate, capitalize(entities.fromMealType));
-            mealPlanService.addPlannedMeal(toDate, capitalize(entities.toMealType), fromMeal.recipe);
+            mealPlanService.addPlannedMeal(toDate, capitalize(entities.toMealType), fromMeal.recipe, fromMeal.servings);
             addBetsyMessage(`Moved ${fromMeal.recipe.name}.`, { type: 'meal_plan', details: 'Moved', success: true });
           } else {
             addBetsyMessage(`No meal found for ${entities.fromDay} ${entities.fromMealType}.`);
@@ -567,8 +669,8 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
           if (meal1 && meal2) {
             mealPlanService.removePlannedMeal(date1, slot1);
             mealPlanService.removePlannedMeal(date2, slot2);
-            mealPlanService.addPlannedMeal(date1, slot1, meal2.recipe);
-            mealPlanService.addPlannedMeal(date2, slot2, meal1.recipe);
+            mealPlanService.addPlannedMeal(date1, slot1, meal2.recipe, meal2.servings);
+            mealPlanService.addPlannedMeal(date2, slot2, meal1.recipe, meal1.servings);
             addBetsyMessage(`Swapped meals!`, { type: 'meal_plan', details: 'Swapped', success: true });
           } else {
             const missing = [];
@@ -593,8 +695,8 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
             if (meal1 || meal2) {
               if (meal1) mealPlanService.removePlannedMeal(date1, mealType);
               if (meal2) mealPlanService.removePlannedMeal(date2, mealType);
-              if (meal2) mealPlanService.addPlannedMeal(date1, mealType, meal2.recipe);
-              if (meal1) mealPlanService.addPlannedMeal(date2, mealType, meal1.recipe);
+              if (meal2) mealPlanService.addPlannedMeal(date1, mealType, meal2.recipe, meal2.servings);
+              if (meal1) mealPlanService.addPlannedMeal(date2, mealType, meal1.recipe, meal1.servings);
               swappedCount++;
             }
           }
@@ -609,6 +711,19 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
         }
         break;
 
+      case 'mark_meal_cooked':
+        if (entities.mealType) {
+          const result = await betsyService.markMealCooked(entities.day || 'today', entities.mealType);
+          if (result.success && result.meal && result.cooked) {
+            addBetsyMessage(describeCookedMeal(result.meal.recipe.name, result.cooked), {
+              type: 'meal_plan', details: `Cooked ${result.meal.recipe.name}`, success: true
+            });
+          } else {
+            addBetsyMessage(result.error || `Couldn't mark that meal as cooked.`);
+          }
+        }
+        break;
+
       case 'save_recipe':
         if (entities.recipeName) {
           const existingRecipes = await recipeService.getAllRecipes();
@@ -677,15 +792,29 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
         }
         break;
 
+      case 'undo': {
+        const undone = historyService.undo();
+        addBetsyMessage(undone ? `Undone: ${undone.label}.` : "There's nothing to undo.");
+        break;
+      }
+
+      case 'redo': {
+        const redone = historyService.redo();
+        addBetsyMessage(redone ? `Redone: ${redone.label}.` : "There's nothing to redo.");
+        break;
+      }
+
       case 'help':
         addBetsyMessage(
           "I can help with:\n" +
           "• Add items to shopping list\n" +
           "• Generate/clear meals\n" +
           "• Move/swap meals\n" +
+          "• Mark meals cooked (updates your pantry)\n" +
           "• Import recipes from URLs\n" +
           "• Add recipe ingredients to list\n" +
           "• Search your recipes\n" +
+          "• Undo or redo a change\n" +
           "• Navigate the app"
         );
         break;
@@ -834,12 +963,35 @@ export const BetsyChat: React.FC<BetsyChatProps> = ({ isOpen, onClose }) => {
         {isProcessing && (
           <div style={{ display: 'flex', justifyContent: 'flex-start', marginBottom: '8px' }}>
             <div style={{
+              maxWidth: '85%',
               padding: '8px 12px',
               borderRadius: '12px 12px 12px 0',
               background: '#f3f4f6',
-              color: '#4b5563',
-              fontSize: '0.875rem'
-            }}>Thinking...</div>
+              color: '#1a1a1a',
+              fontSize: '0.875rem',
+              whiteSpace: 'pre-wrap'
+            }}>
+              {progress?.reply && (
+                <div style={{ marginBottom: '4px' }}>
+                  {convertQuantitiesInText(progress.reply, preferencesService.getMeasurementSystem())}
+                </div>
+              )}
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#4b5563', fontStyle: 'italic' }}>
+                <span>{progress?.status || INITIAL_PROGRESS.status}</span>
+                {isStreaming && (
+                  <button type="button" onClick={cancelStream} style={{
+                    background: 'transparent',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '12px',
+                    color: '#4b5563',
+                    fontSize: '0.75rem',
+                    padding: '2px 8px',
+                    cursor: 'pointer',
+                    fontStyle: 'normal'
+                  }}>Stop</button>
+                )}
+              </div>
+            </div>
           </div>
         )}
         <div ref={messagesEndRef} />
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react'
+import { Undo2, Redo2 } from 'lucide-react'
+import { historyService } from '../services/historyService'
+
+// Typing in a field keeps the browser's own undo
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+// The header shows these twice (desktop and mobile); only one listens for keys
+export const UndoRedoControls: React.FC<{ shortcuts?: boolean }> = ({ shortcuts = false }) => {
+  const [, setVersion] = useState(0)
+
+  useEffect(() => historyService.subscribe(() => setVersion(version => version + 1)), [])
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes
+  useEffect(() => {
+    if (!shortcuts) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditable(event.target)) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        historyService.undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        historyService.redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [shortcuts])
+
+  const undoEntry = historyService.peekUndo()
+  const redoEntry = historyService.peekRedo()
+  const buttonClass = 'p-2 rounded-lg transition-colors text-[#035b49] hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-transparent'
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => historyService.undo()}
+        disabled={!undoEntry}
+        className={buttonClass}
+        title={undoEntry ? `Undo: ${undoEntry.label}` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <Undo2 className="w-5 h-5" />
+      </button>
+      <button
+        onClick={() => historyService.redo()}
+        disabled={!redoEntry}
+        className={buttonClass}
+        title={redoEntry ? `Redo: ${redoEntry.label}` : 'Nothing to redo'}
+        aria-label="Redo"
+      >
+        <Redo2 className="w-5 h-5" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react'
+import { authService, AuthSession } from '../../services/authService'
+import { getAuthErrorMessage } from './AuthCard'
+
+const inputClass =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600'
+
+const linkButtonClass =
+  'text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-60 dark:text-blue-400 dark:hover:text-blue-300'
+
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device'
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser'
+  const platform = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : ''
+  return platform ? `${browser} on ${platform}` : browser
+}
+
+// Password change, signed-in devices and "sign out everywhere"
+export function AccountSecurity() {
+  const [sessions, setSessions] = useState<AuthSession[]>([])
+  const [showPasswordForm, setShowPasswordForm] = useState(false)
+  const [passwords, setPasswords] = useState({ current: '', next: '', confirm: '' })
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const loadSessions = () => {
+    authService.getSessions()
+      .then(setSessions)
+      .catch(error => console.warn('Failed to load sessions:', error))
+  }
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (passwords.next.length < 6) {
+      setMessage({ type: 'error', text: 'New password must be at least 6 characters' })
+      return
+    }
+    if (passwords.next !== passwords.confirm) {
+      setMessage({ type: 'error', text: 'New passwords do not match' })
+      return
+    }
+
+    setIsBusy(true)
+    try {
+      await authService.changePassword(passwords.current, passwords.next)
+      setPasswords({ current: '', next: '', confirm: '' })
+      setShowPasswordForm(false)
+      setMessage({ type: 'success', text: 'Password updated. Other devices have been signed out.' })
+      loadSessions()
+    } catch (error) {
+      setMessage({ type: 'error', text: getAuthErrorMessage(error, 'Could not update your password') })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      await authService.revokeSession(sessionId)
+      setSessions(prev => prev.filter(session => session.id !== sessionId))
+    } catch (error) {
+      setMessage({ type: 'error', text: getAuthErrorMessage(error, 'Could not sign out that device') })
+    }
+  }
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('Sign out of Intelligent Kitchen on every device, including this one?')) {
+      return
+    }
+    setIsBusy(true)
+    try {
+      await authService.logoutEverywhere()
+      window.location.assign('/login')
+    } catch (error) {
+      setMessage({ type: 'error', text: getAuthErrorMessage(error, 'Could not sign out everywhere') })
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg dark:bg-gray-800 dark:border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4 dark:text-white">Account Security</h3>
+
+        {message && (
+          <div
+            className={`mb-4 rounded-md p-3 text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                : 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">Password</div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">Changing it signs out your other devices</div>
+              </div>
+              {!showPasswordForm && (
+                <button onClick={() => setShowPasswordForm(true)} className={linkButtonClass}>
+                  Change Password
+                </button>
+              )}
+            </div>
+
+            {showPasswordForm && (
+              <form onSubmit={handleChangePassword} className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Current password</label>
+                  <input
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    value={passwords.current}
+                    onChange={(e) => setPasswords({ ...passwords, current: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">New password</label>
+                  <input
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    value={passwords.next}
+                    onChange={(e) => setPasswords({ ...passwords, next: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Confirm new password</label>
+                  <input
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    value={passwords.confirm}
+                    onChange={(e) => setPasswords({ ...passwords, confirm: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="md:col-span-3 flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setPasswords({ current: '', next: '', confirm: '' })
+                      setShowPasswordForm(false)
+                    }}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isBusy}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-60 dark:bg-blue-700 dark:hover:bg-blue-800"
+                  >
+                    Update Password
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">Signed-in Devices</div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">Sign out a device you no longer use or have lost</div>
+              </div>
+              <button onClick={handleLogoutEverywhere} disabled={isBusy} className={linkButtonClass}>
+                Sign out everywhere
+              </button>
+            </div>
+
+            <ul className="mt-3 divide-y divide-gray-200 dark:divide-gray-700">
+              {sessions.map(session => (
+                <li key={session.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm text-gray-900 dark:text-gray-300">
+                      {describeDevice(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                          This device
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      Last active {new Date(session.lastUsedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <button onClick={() => handleRevoke(session.id)} className={linkButtonClass}>
+                      Sign out
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
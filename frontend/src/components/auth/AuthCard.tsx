@@ -0,0 +1,55 @@
+import React from 'react'
+
+interface AuthCardProps {
+  title: string
+  subtitle: string
+  children: React.ReactNode
+}
+
+// Shared frame for the sign-in and sign-up screens
+export function AuthCard({ title, subtitle, children }: AuthCardProps) {
+  return (
+    <div className="min-h-screen flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8" style={{ backgroundColor: '#f0fdfa' }}>
+      <div className="sm:mx-auto sm:w-full sm:max-w-md text-center">
+        <h1
+          className="text-3xl"
+          style={{
+            color: '#33789f',
+            fontFamily: "'Playfair Display', Georgia, serif",
+            fontStyle: 'italic'
+          }}
+        >
+          Intelligent Kitchen
+        </h1>
+        <h2 className="mt-4 text-xl font-bold text-[#035b49]">{title}</h2>
+        <p className="mt-1 text-sm text-gray-600">{subtitle}</p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10 border-t-4 border-[#d4af37]">
+          {children}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export const authInputClass =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[#0fc7b9] focus:border-[#0fc7b9]'
+
+export const authButtonClass =
+  'w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-bold text-white bg-[#035b49] hover:bg-[#2a6f6f] disabled:opacity-60'
+
+// Pull the most useful message out of an API error
+export function getAuthErrorMessage(error: any, fallback: string): string {
+  const data = error?.response?.data
+  if (data?.details?.length) {
+    return data.details.map((detail: any) => `${detail.path || detail.param}: ${detail.msg}`).join(', ')
+  }
+  return data?.error || fallback
+}
+
+// Only follow in-app paths after signing in
+export function getSafeRedirect(value: string | null): string {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/'
+}
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { authService, AuthUser } from '../../services/authService'
+
+// Checks the stored token with the server once per page load
+let sessionCheck: Promise<AuthUser | null> | null = null
+
+interface RequireAuthProps {
+  children: React.ReactNode
+}
+
+export function RequireAuth({ children }: RequireAuthProps) {
+  const location = useLocation()
+  const [user, setUser] = useState<AuthUser | null>(authService.getCurrentUser())
+  const [checking, setChecking] = useState(authService.hasToken())
+
+  useEffect(() => {
+    const unsubscribe = authService.subscribe(setUser)
+
+    if (authService.hasToken()) {
+      sessionCheck = sessionCheck || authService.restoreSession()
+      sessionCheck.finally(() => setChecking(false))
+    }
+
+    return unsubscribe
+  }, [])
+
+  if (checking && !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{ backgroundColor: '#f0fdfa' }}>
+        <div className="text-center text-[#035b49]">
+          <div className="mx-auto mb-3 h-8 w-8 animate-spin rounded-full border-4 border-[#0fc7b9] border-t-transparent" />
+          Restoring your session...
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    const redirect = encodeURIComponent(location.pathname + location.search)
+    return <Navigate to={`/login?redirect=${redirect}`} replace />
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,325 @@
+import { useEffect, useState } from 'react'
+import {
+  householdService,
+  Household,
+  HouseholdRole,
+  InvitationRole,
+  ReceivedInvitation
+} from '../../services/householdService'
+import { authService } from '../../services/authService'
+import { getAuthErrorMessage } from '../auth/AuthCard'
+
+const inputClass =
+  'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600'
+
+const linkButtonClass =
+  'text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-60 dark:text-blue-400 dark:hover:text-blue-300'
+
+const primaryButtonClass =
+  'px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-60 dark:bg-blue-700 dark:hover:bg-blue-800'
+
+const roleLabels: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  member: 'Member',
+  viewer: 'Viewer'
+}
+
+const roleHints: Record<HouseholdRole, string> = {
+  owner: 'Manages members and invitations',
+  member: 'Edits the shared pantry, meal plan and lists',
+  viewer: 'Can look but not change anything'
+}
+
+// Create or join a household and manage who is in it
+export function HouseholdSettings() {
+  const currentUserId = authService.getCurrentUser()?.id
+  const [household, setHousehold] = useState<Household | null>(null)
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [newName, setNewName] = useState('')
+  const [shareExistingData, setShareExistingData] = useState(true)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<InvitationRole>('member')
+
+  const load = async () => {
+    try {
+      const current = await householdService.getHousehold()
+      setHousehold(current)
+      setInvitations(current ? [] : await householdService.getReceivedInvitations())
+    } catch (error) {
+      setMessage({ type: 'error', text: getAuthErrorMessage(error, 'Could not load your household') })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  // Runs a household action, showing its error if it fails
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsBusy(true)
+    setMessage(null)
+    try {
+      await action()
+    } catch (error) {
+      setMessage({ type: 'error', text: getAuthErrorMessage(error, fallback) })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+    run(async () => {
+      await householdService.createHousehold(newName.trim(), shareExistingData)
+    }, 'Could not create the household')
+  }
+
+  const handleAccept = (invitationId: string) => run(async () => {
+    await householdService.acceptInvitation(invitationId, shareExistingData)
+  }, 'Could not join the household')
+
+  const handleDecline = (invitationId: string) => run(async () => {
+    await householdService.declineInvitation(invitationId)
+    setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId))
+  }, 'Could not decline the invitation')
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!inviteEmail.trim()) return
+    run(async () => {
+      await householdService.inviteMember(inviteEmail.trim(), inviteRole)
+      setInviteEmail('')
+      setMessage({ type: 'success', text: 'Invitation sent. They will see it when they sign in.' })
+      await load()
+    }, 'Could not send the invitation')
+  }
+
+  const handleRevokeInvitation = (invitationId: string) => run(async () => {
+    await householdService.revokeInvitation(invitationId)
+    await load()
+  }, 'Could not withdraw the invitation')
+
+  const handleRoleChange = (userId: string, role: HouseholdRole) => {
+    if (role === 'owner' && !window.confirm('Hand ownership of the household to this member? You will become a member.')) {
+      return
+    }
+    run(async () => {
+      setHousehold(await householdService.updateMemberRole(userId, role))
+    }, 'Could not change their role')
+  }
+
+  const handleRemoveMember = (userId: string) => {
+    if (!window.confirm('Remove this person from the household?')) return
+    run(async () => {
+      await householdService.removeMember(userId)
+      await load()
+    }, 'Could not remove the member')
+  }
+
+  const handleLeave = () => {
+    if (!window.confirm('Leave this household? The shared pantry, meal plan and lists stay with it.')) return
+    run(() => householdService.leaveHousehold(), 'Could not leave the household')
+  }
+
+  const handleDelete = () => {
+    if (!window.confirm('Delete this household for everyone? Shared items go back to whoever added them.')) return
+    run(() => householdService.deleteHousehold(), 'Could not delete the household')
+  }
+
+  const isOwner = household?.role === 'owner'
+
+  const shareCheckbox = (
+    <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+      <input
+        type="checkbox"
+        checked={shareExistingData}
+        onChange={(e) => setShareExistingData(e.target.checked)}
+        className="mr-2"
+      />
+      Bring my pantry, meal plan and shopping lists into the household
+    </label>
+  )
+
+  return (
+    <div className="bg-white shadow rounded-lg dark:bg-gray-800 dark:border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-1 dark:text-white">Household</h3>
+        <p className="text-sm text-gray-500 mb-4 dark:text-gray-400">
+          Share one pantry, meal plan and shopping list with the people you cook for.
+        </p>
+
+        {message && (
+          <div
+            className={`mb-4 rounded-md p-3 text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                : 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading household...</p>
+        ) : household ? (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">{household.name}</div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  You are {roleLabels[household.role].toLowerCase()} · {roleHints[household.role]}
+                </div>
+              </div>
+              {isOwner ? (
+                <button onClick={handleDelete} disabled={isBusy} className={linkButtonClass}>
+                  Delete household
+                </button>
+              ) : (
+                <button onClick={handleLeave} disabled={isBusy} className={linkButtonClass}>
+                  Leave household
+                </button>
+              )}
+            </div>
+
+            <div>
+              <div className="text-sm font-medium text-gray-900 dark:text-white">Members</div>
+              <ul className="mt-2 divide-y divide-gray-200 dark:divide-gray-700">
+                {household.members.map(member => (
+                  <li key={member.userId} className="py-3 flex items-center justify-between">
+                    <div>
+                      <div className="text-sm text-gray-900 dark:text-gray-300">
+                        {member.firstName} {member.lastName}
+                        {member.userId === currentUserId && (
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(you)</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{member.email}</div>
+                    </div>
+                    {isOwner && member.userId !== currentUserId ? (
+                      <div className="flex items-center space-x-3">
+                        <select
+                          value={member.role}
+                          disabled={isBusy}
+                          onChange={(e) => handleRoleChange(member.userId, e.target.value as HouseholdRole)}
+                          className="border border-gray-300 rounded-md py-1 px-2 text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        >
+                          <option value="owner">{roleLabels.owner}</option>
+                          <option value="member">{roleLabels.member}</option>
+                          <option value="viewer">{roleLabels.viewer}</option>
+                        </select>
+                        <button onClick={() => handleRemoveMember(member.userId)} disabled={isBusy} className={linkButtonClass}>
+                          Remove
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-gray-500 dark:text-gray-400">{roleLabels[member.role]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {isOwner && (
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">Invite someone</div>
+                <form onSubmit={handleInvite} className="mt-2 flex flex-col sm:flex-row gap-3">
+                  <input
+                    type="email"
+                    required
+                    placeholder="Email address"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    className={inputClass}
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as InvitationRole)}
+                    className="border border-gray-300 rounded-md py-2 px-3 text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    <option value="member">{roleLabels.member}</option>
+                    <option value="viewer">{roleLabels.viewer}</option>
+                  </select>
+                  <button type="submit" disabled={isBusy} className={primaryButtonClass}>
+                    Invite
+                  </button>
+                </form>
+
+                {household.invitations.length > 0 && (
+                  <ul className="mt-3 divide-y divide-gray-200 dark:divide-gray-700">
+                    {household.invitations.map(invitation => (
+                      <li key={invitation.id} className="py-2 flex items-center justify-between">
+                        <div className="text-sm text-gray-700 dark:text-gray-300">
+                          {invitation.email}
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                            {roleLabels[invitation.role]} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                        <button onClick={() => handleRevokeInvitation(invitation.id)} disabled={isBusy} className={linkButtonClass}>
+                          Withdraw
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {invitations.length > 0 && (
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">Invitations</div>
+                <ul className="mt-2 divide-y divide-gray-200 dark:divide-gray-700">
+                  {invitations.map(invitation => (
+                    <li key={invitation.id} className="py-3 flex items-center justify-between">
+                      <div>
+                        <div className="text-sm text-gray-900 dark:text-gray-300">{invitation.householdName}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {invitation.invitedBy ? `From ${invitation.invitedBy} · ` : ''}Join as {roleLabels[invitation.role].toLowerCase()}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <button onClick={() => handleDecline(invitation.id)} disabled={isBusy} className={linkButtonClass}>
+                          Decline
+                        </button>
+                        <button onClick={() => handleAccept(invitation.id)} disabled={isBusy} className={primaryButtonClass}>
+                          Join
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <form onSubmit={handleCreate} className="space-y-3">
+              <div className="text-sm font-medium text-gray-900 dark:text-white">Start a household</div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <input
+                  type="text"
+                  required
+                  placeholder="e.g. The Smith Family"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  className={inputClass}
+                />
+                <button type="submit" disabled={isBusy} className={primaryButtonClass}>
+                  Create
+                </button>
+              </div>
+            </form>
+
+            {shareCheckbox}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react'
 import { Recipe } from '../../types/recipe'
 import { recipeService } from '../../services/recipeService'
+import { preferencesService } from '../../services/preferencesService'
+import { convertIngredientText, MeasurementSystem } from '../../utils/unitConversion'
+import { NonLinearKind, scaleIngredients, servingsFactor } from '../../utils/recipeScaling'
 
 export interface ShoppingListAddResult {
   success: boolean
@@ -22,7 +25,16 @@ interface RecipeViewModalProps {
   isAIGenerated: boolean
   onSaveRecipe?: (recipe: Recipe) => void
   onReplaceMeal?: () => void
-  onAddToShoppingList?: () => Promise<ShoppingListAddResult>
+  // Receives the servings shown, so the list matches the scaled ingredients
+  onAddToShoppingList?: (servings: number) => Promise<ShoppingListAddResult>
+  // Servings to open at, e.g. a planned meal's; defaults to the recipe's own
+  servings?: number
+  onServingsChange?: (servings: number) => void
+}
+
+const NON_LINEAR_NOTES: Record<NonLinearKind, string> = {
+  seasoning: 'adjust to taste',
+  leavening: "doesn't scale evenly, check before baking"
 }
 
 export const RecipeViewModal: React.FC<RecipeViewModalProps> = ({
@@ -32,18 +44,25 @@ export const RecipeViewModal: React.FC<RecipeViewModalProps> = ({
   isAIGenerated,
   onSaveRecipe,
   onReplaceMeal,
-  onAddToShoppingList
+  onAddToShoppingList,
+  servings: initialServings,
+  onServingsChange
 }) => {
   const [isEditing, setIsEditing] = useState(false)
   const [editedRecipe, setEditedRecipe] = useState<Recipe | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [isAddingToList, setIsAddingToList] = useState(false)
+  const [measurementSystem, setMeasurementSystem] = useState<MeasurementSystem>(preferencesService.getMeasurementSystem())
+  const [showOriginalUnits, setShowOriginalUnits] = useState(false)
+  const [servings, setServings] = useState<number>(initialServings || recipe?.servings || 4)
   const [toast, setToast] = useState<ToastNotification>({
     type: 'info',
     message: '',
     visible: false
   })
 
+  useEffect(() => preferencesService.subscribe(preferences => setMeasurementSystem(preferences.measurementSystem)), [])
+
   useEffect(() => {
     if (!toast.visible) return undefined
 
@@ -60,6 +79,8 @@ export const RecipeViewModal: React.FC<RecipeViewModalProps> = ({
     setEditedRecipe(null)
     setIsSaving(false)
     setIsAddingToList(false)
+    setShowOriginalUnits(false)
+    setServings(initialServings || recipe?.servings || 4)
     setToast({ type: 'info', message: '', visible: false })
   }, [recipe])
 
@@ -102,7 +123,7 @@ export const RecipeViewModal: React.FC<RecipeViewModalProps> = ({
           : [],
         prepTime: recipeToSave.prepTime || 30,
         cookTime: recipeToSave.cookTime || 30,
-        servings: 4,
+        servings: recipeToSave.servings || 4,
         difficulty: 'easy',
         isPublic: false
       })
@@ -140,11 +161,25 @@ export const RecipeViewModal: React.FC<RecipeViewModalProps> = ({
   const displayIngredients = extractIngredientsForDisplay(currentRecipe)
   const ingredientCount = displayIngredients.length
 
+  // Scaled to the servings chosen and shown in the user's units; editing
+  // always works on the recipe's own text
+  const baseServings = currentRecipe.servings || 4
+  const scaledIngredients = scaleIngredients(displayIngredients, servingsFactor(servings, baseServings))
+  const convertedIngredients = scaledIngredients.map(ingredient => convertIngredientText(ingredient.text, measurementSystem))
+  const hasConvertedUnits = convertedIngredients.some((ingredient, index) => ingredient !== scaledIngredients[index].text)
+  const viewIngredients = showOriginalUnits ? scaledIngredients.map(ingredient => ingredient.text) : convertedIngredients
+
+  const handleServingsChange = (next: number) => {
+    if (next < 1) return
+    setServings(next)
+    onServingsChange?.(next)
+  }
+
   const handleAddToShoppingList = async () => {
     if (!onAddToShoppingList) return
     try {
       setIsAddingToList(true)
-      const result = await onAddToShoppingList()
+      const result = await onAddToShoppingList(servings)
       if (result.success) {
         setToast({
           type: 'success',
@@ -283,7 +318,47 @@ export const RecipeViewModal: React.FC<RecipeViewModalProps> = ({
             React.createElement('span', {
               key: 'timing',
               style: { color: '#4b5563', fontSize: '0.875rem' }
-            }, `⏱️ ${currentRecipe.prepTime || 30} min prep • ${currentRecipe.cookTime || 30} min cook`)
+            }, `⏱️ ${currentRecipe.prepTime || 30} min prep • ${currentRecipe.cookTime || 30} min cook`),
+            !isEditing && React.createElement('div', {
+              key: 'servings',
+              style: { display: 'flex', alignItems: 'center', gap: '0.5rem', color: '#4b5563', fontSize: '0.875rem' }
+            }, [
+              React.createElement('button', {
+                key: 'fewer',
+                onClick: () => handleServingsChange(servings - 1),
+                disabled: servings <= 1,
+                'aria-label': 'Fewer servings',
+                style: {
+                  width: '1.75rem',
+                  height: '1.75rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '9999px',
+                  background: '#ffffff',
+                  color: '#1a1a1a',
+                  cursor: servings <= 1 ? 'not-allowed' : 'pointer',
+                  lineHeight: 1
+                }
+              }, '−'),
+              React.createElement('span', {
+                key: 'count',
+                title: servings === baseServings ? undefined : `Recipe makes ${baseServings}`
+              }, `🍽️ ${servings} serving${servings === 1 ? '' : 's'}`),
+              React.createElement('button', {
+                key: 'more',
+                onClick: () => handleServingsChange(servings + 1),
+                'aria-label': 'More servings',
+                style: {
+                  width: '1.75rem',
+                  height: '1.75rem',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '9999px',
+                  background: '#ffffff',
+                  color: '#1a1a1a',
+                  cursor: 'pointer',
+                  lineHeight: 1
+                }
+              }, '+')
+            ])
           ])
         ]),
         React.createElement('button', {
@@ -391,10 +466,27 @@ export const RecipeViewModal: React.FC<RecipeViewModalProps> = ({
             key: 'ingredients',
             style: { marginBottom: '1.5rem' }
           }, [
-            React.createElement('h3', {
-              key: 'title',
-              style: { fontSize: '1.125rem', fontWeight: 'bold', marginBottom: '1rem', color: '#1a1a1a' }
-            }, '🥘 Ingredients'),
+            React.createElement('div', {
+              key: 'header',
+              style: { display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '1rem' }
+            }, [
+              React.createElement('h3', {
+                key: 'title',
+                style: { fontSize: '1.125rem', fontWeight: 'bold', color: '#1a1a1a' }
+              }, '🥘 Ingredients'),
+              hasConvertedUnits && React.createElement('button', {
+                key: 'units',
+                onClick: () => setShowOriginalUnits(prev => !prev),
+                style: {
+                  background: 'none',
+                  border: 'none',
+                  color: '#2563eb',
+                  cursor: 'pointer',
+                  fontSize: '0.875rem',
+                  padding: 0
+                }
+              }, showOriginalUnits ? 'Show in my units' : 'Show original units')
+            ]),
             React.createElement('ul', {
               key: 'list',
               style: {
@@ -402,16 +494,24 @@ export const RecipeViewModal: React.FC<RecipeViewModalProps> = ({
                 padding: 0,
                 margin: 0
               }
-            }, displayIngredients.map((ingredient, index) => 
-                  React.createElement('li', {
+            }, viewIngredients.map((ingredient, index) => {
+                  const nonLinear = scaledIngredients[index].nonLinear
+                  return React.createElement('li', {
                     key: index,
                     style: {
                       padding: '0.5rem 0',
                       borderBottom: '1px solid #e5e7eb',
                       color: '#1a1a1a'
                     }
-                  }, `• ${ingredient}`)
-                )
+                  }, [
+                    `• ${ingredient}`,
+                    nonLinear && React.createElement('span', {
+                      key: 'note',
+                      title: `Scaled from: ${scaledIngredients[index].original}`,
+                      style: { marginLeft: '0.5rem', color: '#b45309', fontSize: '0.8125rem' }
+                    }, `(${NON_LINEAR_NOTES[nonLinear]})`)
+                  ])
+                })
             )
           ]),
 
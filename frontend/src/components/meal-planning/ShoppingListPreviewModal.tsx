@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import { pantryService, PantryItem } from '../../services/pantryService'
+import { RecipeIngredient, ingredientText } from '../../utils/recipeScaling'
+import { addQuantities, formatQuantity, parseQuantity } from '../../utils/unitConversion'
+import { matchPantry, nameWords, needsBuying, PantryIngredient } from '../../utils/pantryMatching'
+
+interface ShoppingListPreviewModalProps {
+  isOpen: boolean
+  ingredients: RecipeIngredient[]
+  contextLabel: string
+  onConfirm: (ingredients: string[]) => Promise<void>
+  onClose: () => void
+}
+
+// The same ingredient from several meals, added up
+interface CombinedIngredient extends PantryIngredient {
+  id: number
+  nameKey: string
+  texts: string[]
+}
+
+function combineIngredients(ingredients: RecipeIngredient[]): CombinedIngredient[] {
+  const combined: CombinedIngredient[] = []
+
+  ingredients.map(ingredientText).filter(Boolean).forEach(text => {
+    const parsed = parseQuantity(text)
+    const name = parsed.name || text
+    const nameKey = nameWords(name).join(' ')
+    const existing = combined.find(entry => {
+      if (entry.nameKey !== nameKey) return false
+      if (entry.amount === null || parsed.amount === null) return entry.amount === parsed.amount
+      return addQuantities({ amount: entry.amount, unit: entry.unit }, { amount: parsed.amount, unit: parsed.unit }, name) !== null
+    })
+
+    if (!existing) {
+      combined.push({ id: combined.length, nameKey, name, amount: parsed.amount, unit: parsed.unit, texts: [text] })
+      return
+    }
+    if (existing.amount !== null && parsed.amount !== null) {
+      const sum = addQuantities({ amount: existing.amount, unit: existing.unit }, { amount: parsed.amount, unit: parsed.unit }, name)
+      existing.amount = sum!.amount
+      existing.unit = sum!.unit
+    }
+    existing.texts.push(text)
+  })
+
+  return combined
+}
+
+const ingredientLabel = (amount: number | null, ingredient: CombinedIngredient) =>
+  amount === null ? ingredient.name : `${formatQuantity({ amount, unit: ingredient.unit })} ${ingredient.name}`
+
+export const ShoppingListPreviewModal: React.FC<ShoppingListPreviewModalProps> = ({
+  isOpen,
+  ingredients,
+  contextLabel,
+  onConfirm,
+  onClose
+}) => {
+  const [pantryItems, setPantryItems] = useState<PantryItem[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [pantryError, setPantryError] = useState(false)
+  const [isAdding, setIsAdding] = useState(false)
+  // Ingredients the user wants to buy in full despite the pantry
+  const [buyAnyway, setBuyAnyway] = useState<Set<number>>(new Set())
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setBuyAnyway(new Set())
+    setPantryError(false)
+    setIsLoading(true)
+    pantryService.getAllItems()
+      .then(({ items }) => setPantryItems(items))
+      .catch(error => {
+        console.error('Error loading pantry for shopping list preview:', error)
+        setPantryItems([])
+        setPantryError(true)
+      })
+      .finally(() => setIsLoading(false))
+  }, [isOpen])
+
+  const combined = useMemo(() => combineIngredients(ingredients), [ingredients])
+
+  // What the pantry could cover with nothing overridden, for the "you already have" list
+  const onHand = useMemo(
+    () => matchPantry(combined, pantryItems).filter(match => match.pantryItem !== null),
+    [combined, pantryItems]
+  )
+
+  const matches = useMemo(
+    () => matchPantry(combined, pantryItems, ingredient => !buyAnyway.has(ingredient.id)),
+    [combined, pantryItems, buyAnyway]
+  )
+
+  const toBuy = matches.filter(needsBuying)
+
+  const toggleBuyAnyway = (id: number) => {
+    setBuyAnyway(previous => {
+      const next = new Set(previous)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleConfirm = async () => {
+    // Untouched ingredients keep their recipe wording; partly covered ones list what's left
+    const items = toBuy.flatMap(match =>
+      match.buy === null || match.buy === match.ingredient.amount
+        ? (match.ingredient.texts.length === 1 ? match.ingredient.texts : [ingredientLabel(match.ingredient.amount, match.ingredient)])
+        : [ingredientLabel(match.buy, match.ingredient)]
+    )
+
+    setIsAdding(true)
+    try {
+      await onConfirm(items)
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-700">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-bold text-slate-100">Shopping list {contextLabel}</h2>
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-slate-200"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {isLoading ? (
+            <p className="text-slate-400">Checking your pantry...</p>
+          ) : (
+            <div className="space-y-6">
+              {pantryError && (
+                <p className="text-sm text-amber-400">Couldn't check your pantry, so everything is listed.</p>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-slate-200 mb-2">To buy ({toBuy.length})</h3>
+                {toBuy.length === 0 ? (
+                  <p className="text-sm text-slate-400">Your pantry has everything.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {toBuy.map(match => (
+                      <li key={match.ingredient.id} className="text-sm text-slate-100">
+                        {ingredientLabel(match.buy ?? match.ingredient.amount, match.ingredient)}
+                        {match.pantryItem && match.have !== null && match.have > 0 && (
+                          <span className="text-slate-400"> (you have {formatQuantity({ amount: match.have, unit: match.ingredient.unit })})</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {onHand.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-slate-200 mb-1">You already have</h3>
+                  <p className="text-xs text-slate-400 mb-2">Untick anything you'd rather buy anyway.</p>
+                  <ul className="space-y-1">
+                    {onHand.map(match => (
+                      <li key={match.ingredient.id}>
+                        <label className="flex items-center gap-2 text-sm text-slate-100 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={!buyAnyway.has(match.ingredient.id)}
+                            onChange={() => toggleBuyAnyway(match.ingredient.id)}
+                          />
+                          <span>
+                            {match.have === null || match.have === match.ingredient.amount
+                              ? ingredientLabel(match.ingredient.amount, match.ingredient)
+                              : `${formatQuantity({ amount: match.have, unit: match.ingredient.unit })} of ${ingredientLabel(match.ingredient.amount, match.ingredient)}`}
+                            <span className="text-slate-400"> from your {match.pantryItem}</span>
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-8 pt-6 border-t border-slate-700">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-slate-300 bg-slate-700 rounded-lg hover:bg-slate-600"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={isLoading || isAdding || toBuy.length === 0}
+              className="px-6 py-2 bg-blue-600 text-slate-100 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isAdding ? 'Adding...' : `Add ${toBuy.length} item${toBuy.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
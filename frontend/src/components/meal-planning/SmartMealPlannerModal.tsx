@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { mealPlanService } from '../../services/mealPlanService'
+import { householdService, Household } from '../../services/householdService'
 
 interface SmartMealPlannerModalProps {
   isOpen: boolean
@@ -65,6 +66,7 @@ export const SmartMealPlannerModal: React.FC<SmartMealPlannerModalProps> = ({
   const [activeTab, setActiveTab] = useState<'basic' | 'preferences' | 'constraints'>('basic')
   const [isGenerating, setIsGenerating] = useState(false)
   const [selectedDuration, setSelectedDuration] = useState(7)
+  const [household, setHousehold] = useState<Household | null>(householdService.getCachedHousehold())
   
   // Calculate week start date (Sunday) to match MealPlanningPage
   const getWeekStart = (date: Date) => {
@@ -88,10 +90,23 @@ export const SmartMealPlannerModal: React.FC<SmartMealPlannerModalProps> = ({
     },
     constraints: [],
     recipeSource: 'mixed',
-    peopleCount: 4,
+    peopleCount: household?.members.length || 4,
     planName: ''
   })
 
+  // Plan for everyone in the household by default
+  useEffect(() => {
+    if (!isOpen) return
+    householdService.getHousehold()
+      .then(current => {
+        setHousehold(current)
+        if (current) {
+          setOptions(prev => ({ ...prev, peopleCount: current.members.length }))
+        }
+      })
+      .catch(error => console.warn('Failed to load household:', error))
+  }, [isOpen])
+
   useEffect(() => {
     const endDate = new Date(options.startDate)
     endDate.setDate(endDate.getDate() + selectedDuration - 1)
@@ -308,6 +323,11 @@ export const SmartMealPlannerModal: React.FC<SmartMealPlannerModalProps> = ({
                   onChange={(e) => setOptions(prev => ({ ...prev, peopleCount: parseInt(e.target.value) || 1 }))}
                   className="w-full px-3 py-2 border border-slate-600 bg-slate-700 text-slate-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
+                {household && (
+                  <p className="mt-1 text-xs text-slate-400">
+                    Planning for {household.name} ({household.members.length} {household.members.length === 1 ? 'person' : 'people'}); everyone's dietary needs are taken into account
+                  </p>
+                )}
               </div>
 
               <div>
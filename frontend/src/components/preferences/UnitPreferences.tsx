@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react'
+import { preferencesService } from '../../services/preferencesService'
+import { MeasurementSystem } from '../../utils/unitConversion'
+import { getAuthErrorMessage } from '../auth/AuthCard'
+
+const systemOptions: Array<{ value: MeasurementSystem; label: string; hint: string }> = [
+  { value: 'us', label: 'US customary', hint: 'Cups, ounces and pounds' },
+  { value: 'metric', label: 'Metric', hint: 'Milliliters, liters, grams and kilograms' },
+  { value: 'uk', label: 'UK', hint: 'Metric, with spoons for small amounts and imperial pints' }
+]
+
+// Which units recipes, shopping lists and Betsy show quantities in
+export function UnitPreferences() {
+  const [measurementSystem, setMeasurementSystem] = useState<MeasurementSystem>(preferencesService.getMeasurementSystem())
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => preferencesService.subscribe(preferences => setMeasurementSystem(preferences.measurementSystem)), [])
+
+  const handleChange = async (system: MeasurementSystem) => {
+    setError(null)
+    try {
+      await preferencesService.setMeasurementSystem(system)
+    } catch (err) {
+      setError(getAuthErrorMessage(err, 'Could not save your units'))
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg dark:bg-gray-800 dark:border-gray-700">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-1 dark:text-white">Units</h3>
+        <p className="text-sm text-gray-500 mb-4 dark:text-gray-400">
+          Quantities in recipes, shopping lists and Betsy's answers are converted to these units. You can always switch back to the original values.
+        </p>
+
+        {error && (
+          <div className="mb-4 rounded-md p-3 text-sm bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {systemOptions.map(option => (
+            <label key={option.value} className="flex items-start text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="measurement-system"
+                value={option.value}
+                checked={measurementSystem === option.value}
+                onChange={() => handleChange(option.value)}
+                className="mt-1 mr-3"
+              />
+              <span>
+                <span className="font-medium text-gray-900 dark:text-white">{option.label}</span>
+                <span className="block text-gray-500 dark:text-gray-400">{option.hint}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
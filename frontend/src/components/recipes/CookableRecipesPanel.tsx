@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import { CookableRecipe } from '../../types/recipe'
+import { recipeService } from '../../services/recipeService'
+import { shoppingListService } from '../../services/shoppingListService'
+
+interface CookableRecipesPanelProps {
+  onView: (recipeId: string) => void
+}
+
+// "What can I cook now?": saved recipes ranked by how much of them the pantry
+// covers, with what each is missing and a way to put that on the shopping list
+export function CookableRecipesPanel({ onView }: CookableRecipesPanelProps) {
+  const [recipes, setRecipes] = useState<CookableRecipe[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [addingId, setAddingId] = useState<string | null>(null)
+  const [addedIds, setAddedIds] = useState<Set<string>>(new Set())
+
+  const handleLoad = async () => {
+    setLoading(true)
+    try {
+      setRecipes(await recipeService.getCookableRecipes())
+      setAddedIds(new Set())
+    } catch (error) {
+      console.error('Failed to load cookable recipes:', error)
+      alert('Could not check your pantry. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAddMissing = async (recipe: CookableRecipe) => {
+    setAddingId(recipe.id)
+    try {
+      const added = await shoppingListService.addIngredientsToList(recipe.missing.map(item => item.text))
+      setAddedIds(prev => new Set(prev).add(recipe.id))
+      alert(`Added ${added.length} item${added.length === 1 ? '' : 's'} for ${recipe.name} to your shopping list.`)
+    } catch (error) {
+      console.error('Failed to add missing ingredients:', error)
+      alert('Could not add these to your shopping list. Please try again.')
+    } finally {
+      setAddingId(null)
+    }
+  }
+
+  return (
+    <div
+      style={{
+        marginBottom: '2rem',
+        padding: '1rem 1.25rem',
+        background: '#fffbeb',
+        border: '1px solid #fde68a',
+        borderRadius: '0.5rem'
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+        <h3 style={{ fontSize: '1.125rem', fontWeight: 'bold', color: '#92400e', margin: 0 }}>
+          What can I cook now?
+        </h3>
+        <button
+          onClick={handleLoad}
+          disabled={loading}
+          style={{
+            flexShrink: 0,
+            background: '#f59e0b',
+            color: 'white',
+            border: 'none',
+            padding: '0.5rem 1rem',
+            borderRadius: '0.375rem',
+            fontSize: '0.875rem',
+            cursor: loading ? 'not-allowed' : 'pointer',
+            opacity: loading ? 0.6 : 1
+          }}
+        >
+          {loading ? 'Checking pantry...' : recipes === null ? 'Check my pantry' : 'Refresh'}
+        </button>
+      </div>
+
+      {recipes !== null && recipes.length === 0 && (
+        <p style={{ fontSize: '0.875rem', color: '#4b5563', marginTop: '0.75rem' }}>
+          Nothing in your pantry goes into your saved recipes yet.
+        </p>
+      )}
+
+      {recipes !== null && recipes.length > 0 && (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '0.75rem 0 0' }}>
+          {recipes.map(recipe => (
+            <li
+              key={recipe.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '1rem',
+                padding: '0.5rem 0',
+                borderTop: '1px solid #fef3c7'
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div
+                  onClick={() => onView(recipe.id)}
+                  style={{ fontWeight: 600, color: '#1a1a1a', cursor: 'pointer', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                >
+                  {recipe.name} · {Math.round(recipe.coverage * 100)}% in your pantry
+                </div>
+                {recipe.expiring.length > 0 && (
+                  <div style={{ fontSize: '0.75rem', color: '#b45309' }}>
+                    Uses soon: {recipe.expiring
+                      .map(item => `${item.name} (${item.daysLeft === 0 ? 'today' : `${item.daysLeft} day${item.daysLeft === 1 ? '' : 's'}`})`)
+                      .join(', ')}
+                  </div>
+                )}
+                <div style={{ fontSize: '0.75rem', color: '#4b5563' }}>
+                  {recipe.missing.length > 0
+                    ? `Missing: ${recipe.missing.map(item => item.text).join(', ')}`
+                    : 'You have everything'}
+                </div>
+              </div>
+              {recipe.missing.length > 0 && (
+                <button
+                  onClick={() => handleAddMissing(recipe)}
+                  disabled={addingId === recipe.id || addedIds.has(recipe.id)}
+                  style={{
+                    flexShrink: 0,
+                    background: addedIds.has(recipe.id) ? '#d1d5db' : '#0fc7b9',
+                    color: 'white',
+                    border: 'none',
+                    padding: '0.5rem 1rem',
+                    borderRadius: '0.375rem',
+                    fontSize: '0.875rem',
+                    cursor: addingId === recipe.id || addedIds.has(recipe.id) ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  {addedIds.has(recipe.id) ? 'Added' : addingId === recipe.id ? 'Adding...' : 'Add missing to list'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
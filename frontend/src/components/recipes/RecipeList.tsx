@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react'
 import { Recipe, RecipeCategory } from '../../types/recipe'
 import { recipeService } from '../../services/recipeService'
+import { historyService } from '../../services/historyService'
 import { shoppingListService } from '../../services/shoppingListService'
 import { RecipeViewModal, ShoppingListAddResult } from '../meal-planning/RecipeViewModal'
+import { scaleIngredientsForShopping, servingsFactor } from '../../utils/recipeScaling'
+import { ShareRecipeModal } from './ShareRecipeModal'
+import { SharedRecipesPanel } from './SharedRecipesPanel'
+import { CookableRecipesPanel } from './CookableRecipesPanel'
 
 interface RecipeListProps {
   onEdit: (recipe: Recipe) => void
@@ -29,6 +34,7 @@ export function RecipeList({ onEdit, onAdd }: RecipeListProps) {
   const [isImporting, setIsImporting] = useState(false)
   const [showRecipeView, setShowRecipeView] = useState(false)
   const [viewingRecipe, setViewingRecipe] = useState<Recipe | null>(null)
+  const [sharingRecipe, setSharingRecipe] = useState<Recipe | null>(null)
 
   useEffect(() => {
     loadRecipes()
@@ -85,7 +91,7 @@ export function RecipeList({ onEdit, onAdd }: RecipeListProps) {
     if (!confirm('Are you sure you want to delete this recipe?')) return
 
     try {
-      await recipeService.deleteRecipe(id)
+      await historyService.record(`Delete ${recipes.find(recipe => recipe.id === id)?.name || 'recipe'}`, () => recipeService.deleteRecipe(id))
       await loadRecipes()
     } catch (error) {
       console.error('Error deleting recipe:', error)
@@ -145,7 +151,7 @@ export function RecipeList({ onEdit, onAdd }: RecipeListProps) {
     return []
   }
 
-  const handleAddRecipeToShoppingList = async (): Promise<ShoppingListAddResult> => {
+  const handleAddRecipeToShoppingList = async (servings?: number): Promise<ShoppingListAddResult> => {
     if (!viewingRecipe) {
       return {
         success: false,
@@ -155,7 +161,10 @@ export function RecipeList({ onEdit, onAdd }: RecipeListProps) {
     }
 
     try {
-      const ingredients = extractIngredientsForShopping(viewingRecipe)
+      const ingredients = scaleIngredientsForShopping(
+        extractIngredientsForShopping(viewingRecipe),
+        servingsFactor(servings, viewingRecipe.servings || 4)
+      )
       if (!ingredients.length) {
         return {
           success: false,
@@ -250,6 +259,16 @@ export function RecipeList({ onEdit, onAdd }: RecipeListProps) {
       ])
     ]),
 
+    React.createElement(SharedRecipesPanel, { key: 'shared-recipes' }),
+
+    React.createElement(CookableRecipesPanel, {
+      key: 'cookable-recipes',
+      onView: (recipeId: string) => {
+        const recipe = recipes.find(saved => saved.id === recipeId)
+        if (recipe) handleViewRecipe(recipe)
+      }
+    }),
+
     // Search and filters
     React.createElement('div', {
       key: 'filters',
@@ -447,6 +466,19 @@ export function RecipeList({ onEdit, onAdd }: RecipeListProps) {
                     cursor: 'pointer'
                   }
                 }, 'Edit'),
+                React.createElement('button', {
+                  key: 'share-btn',
+                  onClick: () => setSharingRecipe(recipe),
+                  style: {
+                    padding: '0.5rem 1rem',
+                    background: '#f0fdfa',
+                    color: '#035b49',
+                    border: '1px solid #0fc7b9',
+                    borderRadius: '0.375rem',
+                    fontSize: '0.875rem',
+                    cursor: 'pointer'
+                  }
+                }, 'Share'),
                 React.createElement('button', {
                   key: 'delete-btn',
                   onClick: () => handleDelete(recipe.id),
@@ -476,6 +508,12 @@ export function RecipeList({ onEdit, onAdd }: RecipeListProps) {
       recipe: viewingRecipe,
       isAIGenerated: false,
       onAddToShoppingList: handleAddRecipeToShoppingList
+    }),
+
+    sharingRecipe && React.createElement(ShareRecipeModal, {
+      key: 'share-recipe-modal',
+      recipe: sharingRecipe,
+      onClose: () => setSharingRecipe(null)
     })
   ])
 }
\ No newline at end of file
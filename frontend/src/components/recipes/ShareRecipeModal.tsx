@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react'
+import { Recipe, RecipeHouseholdShare, RecipeShare, RecipeSharePermission, RecipeVisibility } from '../../types/recipe'
+import { recipeService } from '../../services/recipeService'
+import { householdService, Household } from '../../services/householdService'
+
+interface ShareRecipeModalProps {
+  recipe: Recipe
+  onClose: () => void
+}
+
+const VISIBILITY_OPTIONS: Array<{ value: RecipeVisibility; label: string; hint: string }> = [
+  { value: 'private', label: 'Private', hint: 'Only you can see it' },
+  { value: 'shared', label: 'Shared', hint: 'You and the people or household listed below' },
+  { value: 'public', label: 'Public', hint: 'Anyone can see and copy it' }
+]
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '0.375rem',
+  fontSize: '0.875rem',
+  background: '#ffffff',
+  color: '#1a1a1a'
+}
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.error || fallback
+
+export function ShareRecipeModal({ recipe, onClose }: ShareRecipeModalProps) {
+  const [visibility, setVisibility] = useState<RecipeVisibility>(recipe.visibility || (recipe.isPublic ? 'public' : 'private'))
+  const [shares, setShares] = useState<RecipeShare[]>([])
+  const [householdShares, setHouseholdShares] = useState<RecipeHouseholdShare[]>([])
+  const [household, setHousehold] = useState<Household | null>(null)
+  const [email, setEmail] = useState('')
+  const [permission, setPermission] = useState<RecipeSharePermission>('view')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    recipeService.getShares(recipe.id)
+      .then(result => {
+        setVisibility(result.visibility)
+        setShares(result.shares)
+        setHouseholdShares(result.householdShares)
+      })
+      .catch(err => setError(getErrorMessage(err, 'Sign in and go online to share recipes')))
+      .finally(() => setLoading(false))
+  }, [recipe.id])
+
+  useEffect(() => {
+    householdService.getHousehold()
+      .then(setHousehold)
+      .catch(err => console.warn('Failed to load household:', err))
+  }, [])
+
+  const handleVisibilityChange = async (next: RecipeVisibility) => {
+    const previous = visibility
+    setVisibility(next)
+    setError(null)
+    try {
+      await recipeService.setVisibility(recipe.id, next)
+    } catch (err) {
+      setVisibility(previous)
+      setError(getErrorMessage(err, 'Could not change who can see this recipe'))
+    }
+  }
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+    setError(null)
+    try {
+      const share = await recipeService.shareRecipe(recipe.id, email.trim(), permission)
+      setShares(prev => [...prev.filter(existing => existing.user_id !== share.user_id), share])
+      if (visibility === 'private') {
+        setVisibility('shared')
+      }
+      setEmail('')
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not share this recipe'))
+    }
+  }
+
+  const handleRemove = async (userId: string) => {
+    setError(null)
+    try {
+      await recipeService.removeShare(recipe.id, userId)
+      setShares(prev => prev.filter(share => share.user_id !== userId))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not stop sharing'))
+    }
+  }
+
+  const handleShareWithHousehold = async () => {
+    setError(null)
+    try {
+      const share = await recipeService.shareWithHousehold(recipe.id, permission)
+      setHouseholdShares(prev => [...prev.filter(existing => existing.household_id !== share.household_id), share])
+      if (visibility === 'private') {
+        setVisibility('shared')
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not share this recipe with your household'))
+    }
+  }
+
+  const handleRemoveHousehold = async (householdId: string) => {
+    setError(null)
+    try {
+      await recipeService.removeHouseholdShare(recipe.id, householdId)
+      setHouseholdShares(prev => prev.filter(share => share.household_id !== householdId))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not stop sharing'))
+    }
+  }
+
+  const sharedWithMyHousehold = Boolean(household && householdShares.some(share => share.household_id === household.id))
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 50,
+        padding: '1rem'
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: '#ffffff',
+          borderRadius: '0.5rem',
+          borderTop: '4px solid #d4af37',
+          width: '100%',
+          maxWidth: '32rem',
+          padding: '1.5rem',
+          color: '#1a1a1a'
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+          <h3 style={{ fontSize: '1.25rem', fontWeight: 'bold', color: '#035b49' }}>Share "{recipe.name}"</h3>
+          <button onClick={onClose} style={{ background: 'none', border: 'none', fontSize: '1.5rem', cursor: 'pointer', color: '#6b7280' }}>
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div style={{ background: '#fef2f2', color: '#b91c1c', padding: '0.75rem', borderRadius: '0.375rem', fontSize: '0.875rem', marginBottom: '1rem' }}>
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p style={{ color: '#4b5563' }}>Loading sharing settings...</p>
+        ) : (
+          <>
+            <div style={{ marginBottom: '1.25rem' }}>
+              <div style={{ fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem' }}>Who can see it</div>
+              {VISIBILITY_OPTIONS.map(option => (
+                <label key={option.value} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem', cursor: 'pointer' }}>
+                  <input
+                    type="radio"
+                    name="visibility"
+                    checked={visibility === option.value}
+                    onChange={() => handleVisibilityChange(option.value)}
+                  />
+                  <span style={{ fontSize: '0.875rem' }}>{option.label}</span>
+                  <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>{option.hint}</span>
+                </label>
+              ))}
+            </div>
+
+            <form onSubmit={handleShare} style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+              <input
+                type="email"
+                placeholder="Email address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                style={{ ...inputStyle, flex: 1, minWidth: '12rem' }}
+              />
+              <select
+                value={permission}
+                onChange={(e) => setPermission(e.target.value as RecipeSharePermission)}
+                style={inputStyle}
+              >
+                <option value="view">Can view</option>
+                <option value="edit">Can edit</option>
+              </select>
+              <button
+                type="submit"
+                style={{
+                  background: '#035b49',
+                  color: 'white',
+                  border: 'none',
+                  padding: '0.5rem 1rem',
+                  borderRadius: '0.375rem',
+                  fontSize: '0.875rem',
+                  cursor: 'pointer'
+                }}
+              >
+                Share
+              </button>
+            </form>
+
+            {household && !sharedWithMyHousehold && (
+              <button
+                onClick={handleShareWithHousehold}
+                style={{
+                  background: 'none',
+                  border: '1px solid #035b49',
+                  color: '#035b49',
+                  padding: '0.5rem 1rem',
+                  borderRadius: '0.375rem',
+                  fontSize: '0.875rem',
+                  cursor: 'pointer',
+                  marginBottom: '1rem'
+                }}
+              >
+                Share with everyone in {household.name} ({permission === 'edit' ? 'can edit' : 'can view'})
+              </button>
+            )}
+
+            {householdShares.length > 0 && (
+              <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+                {householdShares.map(share => (
+                  <li
+                    key={share.household_id}
+                    style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '0.5rem 0', borderTop: '1px solid #e5e7eb' }}
+                  >
+                    <div>
+                      <div style={{ fontSize: '0.875rem' }}>Household: {share.name}</div>
+                      <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                        Every member · {share.permission === 'edit' ? 'Can edit' : 'Can view'}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveHousehold(share.household_id)}
+                      style={{ background: 'none', border: 'none', color: '#b91c1c', fontSize: '0.875rem', cursor: 'pointer' }}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {shares.length === 0 && householdShares.length === 0 ? (
+              <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>Not shared with anyone yet.</p>
+            ) : (
+              <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+                {shares.map(share => (
+                  <li
+                    key={share.user_id}
+                    style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '0.5rem 0', borderTop: '1px solid #e5e7eb' }}
+                  >
+                    <div>
+                      <div style={{ fontSize: '0.875rem' }}>{share.first_name} {share.last_name}</div>
+                      <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                        {share.email} · {share.permission === 'edit' ? 'Can edit' : 'Can view'}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRemove(share.user_id)}
+                      style={{ background: 'none', border: 'none', color: '#b91c1c', fontSize: '0.875rem', cursor: 'pointer' }}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react'
+import { SharedRecipe } from '../../types/recipe'
+import { recipeService } from '../../services/recipeService'
+import { authService } from '../../services/authService'
+
+// Recipes other people have shared with this user, with a way to copy them
+export function SharedRecipesPanel() {
+  const [recipes, setRecipes] = useState<SharedRecipe[]>([])
+  const [forkingId, setForkingId] = useState<string | null>(null)
+  const [forkedIds, setForkedIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!authService.getCurrentUser()) return
+    recipeService.getSharedWithMe()
+      .then(setRecipes)
+      .catch(error => console.warn('Failed to load shared recipes:', error))
+  }, [])
+
+  const handleFork = async (id: string) => {
+    setForkingId(id)
+    try {
+      await recipeService.forkRecipe(id)
+      setForkedIds(prev => new Set(prev).add(id))
+    } catch (error) {
+      console.error('Failed to copy recipe:', error)
+      alert('Could not copy this recipe. Please try again.')
+    } finally {
+      setForkingId(null)
+    }
+  }
+
+  if (recipes.length === 0) {
+    return null
+  }
+
+  return (
+    <div
+      style={{
+        marginBottom: '2rem',
+        padding: '1rem 1.25rem',
+        background: '#f0fdfa',
+        border: '1px solid #99f6e4',
+        borderRadius: '0.5rem'
+      }}
+    >
+      <h3 style={{ fontSize: '1.125rem', fontWeight: 'bold', color: '#035b49', marginBottom: '0.75rem' }}>
+        Shared with you ({recipes.length})
+      </h3>
+      <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+        {recipes.map(recipe => (
+          <li
+            key={recipe.id}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '1rem',
+              padding: '0.5rem 0',
+              borderTop: '1px solid #ccfbf1'
+            }}
+          >
+            <div style={{ minWidth: 0 }}>
+              <div style={{ fontWeight: 600, color: '#1a1a1a', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {recipe.name}
+              </div>
+              <div style={{ fontSize: '0.75rem', color: '#4b5563' }}>
+                From {recipe.author_name}{recipe.household_name ? ` to ${recipe.household_name}` : ''} · {recipe.permission === 'edit' ? 'Can edit' : 'Can view'}
+              </div>
+            </div>
+            <button
+              onClick={() => handleFork(recipe.id)}
+              disabled={forkingId === recipe.id || forkedIds.has(recipe.id)}
+              style={{
+                flexShrink: 0,
+                background: forkedIds.has(recipe.id) ? '#d1d5db' : '#0fc7b9',
+                color: 'white',
+                border: 'none',
+                padding: '0.5rem 1rem',
+                borderRadius: '0.375rem',
+                fontSize: '0.875rem',
+                cursor: forkingId === recipe.id || forkedIds.has(recipe.id) ? 'not-allowed' : 'pointer'
+              }}
+            >
+              {forkedIds.has(recipe.id) ? 'Copied' : forkingId === recipe.id ? 'Copying...' : 'Copy to my recipes'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -2,15 +2,13 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
+import { syncService } from './services/syncService'
 import './index.css'
 
 console.log('Main.tsx: Starting React app')
 
-// Add development authentication token for local development
-if (import.meta.env.DEV && !localStorage.getItem('auth_token')) {
-  console.log('Main.tsx: Adding development auth token')
-  localStorage.setItem('auth_token', 'dev-token-for-local-development')
-}
+// Keep localStorage data in step with the server once a user is signed in
+syncService.start()
 
 const root = ReactDOM.createRoot(document.getElementById('root')!)
 root.render(
@@ -1,9 +1,43 @@
 import { useState, useEffect } from 'react'
-import { aiService } from '../services/aiService'
+import { aiService, CostUsage, AIUsageTotals } from '../services/aiService'
+import { authService } from '../services/authService'
+
+const ENDPOINT_LABELS: Record<string, string> = {
+  '/api/ai/betsy-interpret': 'Betsy',
+  '/api/ai/extract-recipe-from-url': 'Recipe import',
+  '/api/ai/extract-ingredients': 'Ingredient extraction',
+  '/api/meal-plans/generate': 'Meal plan generation'
+}
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`
+
+const UsageBar = ({ label, usage }: { label: string; usage: AIUsageTotals }) => {
+  const percent = usage.limit ? Math.min((usage.cost / usage.limit) * 100, 100) : 0
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-indigo-500'
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-900 dark:text-white">{label}</span>
+        <span className="text-gray-500 dark:text-gray-400">
+          {formatCost(usage.cost)}{usage.limit ? ` of ${formatCost(usage.limit)}` : ''}
+        </span>
+      </div>
+      {usage.limit && (
+        <div className="mt-1 h-2 w-full rounded-full bg-gray-200 dark:bg-dark-700">
+          <div className={`h-2 rounded-full ${color}`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        {usage.requests.toLocaleString()} requests · {usage.tokens.toLocaleString()} tokens
+      </div>
+    </div>
+  )
+}
 
 const DashboardPage = () => {
   const [userFirstName, setUserFirstName] = useState('Chef')
-  const [aiStatus, setAiStatus] = useState<any>(null)
+  const [aiUsage, setAiUsage] = useState<CostUsage | null>(null)
   const [aiEnabled, setAiEnabled] = useState(false)
 
   useEffect(() => {
@@ -12,16 +46,9 @@ const DashboardPage = () => {
   }, [])
 
   const loadUserProfile = () => {
-    try {
-      const stored = localStorage.getItem('intelligent-kitchen-user')
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        if (parsed && typeof parsed.firstName === 'string' && parsed.firstName.trim().length > 0) {
-          setUserFirstName(parsed.firstName.trim())
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to load stored user profile:', error)
+    const firstName = authService.getCurrentUser()?.firstName?.trim()
+    if (firstName) {
+      setUserFirstName(firstName)
     }
   }
 
@@ -30,8 +57,7 @@ const DashboardPage = () => {
       const isConfigured = await aiService.isConfigured()
       setAiEnabled(isConfigured)
       if (isConfigured) {
-        const status = await aiService.getHealthStatus()
-        setAiStatus(status)
+        setAiUsage(await aiService.getCostUsage())
       }
     } catch (error) {
       setAiEnabled(false)
@@ -127,7 +153,7 @@ const DashboardPage = () => {
         </div>
 
         {/* AI Status Card */}
-        {aiEnabled && aiStatus && (
+        {aiEnabled && aiUsage && (
           <div className="bg-white overflow-hidden shadow rounded-lg dark:bg-dark-800 dark:border-gray-700">
             <div className="p-5">
               <div className="flex items-center">
@@ -142,14 +168,14 @@ const DashboardPage = () => {
                   <dl>
                     <dt className="text-sm font-medium text-gray-500 truncate dark:text-gray-400">AI Usage Today</dt>
                     <dd className="text-lg font-medium text-gray-900 dark:text-white">
-                      ${aiStatus.services.costMonitor.dailyUsage.cost.toFixed(4)}
+                      {formatCost(aiUsage.dailyUsage.cost)}
                     </dd>
                   </dl>
                 </div>
               </div>
               <div className="mt-2">
                 <div className="text-xs text-gray-500 dark:text-gray-400">
-                  {aiStatus.services.costMonitor.dailyUsage.tokens.toLocaleString()} tokens used
+                  {aiUsage.dailyUsage.tokens.toLocaleString()} tokens used
                 </div>
               </div>
             </div>
@@ -209,6 +235,39 @@ const DashboardPage = () => {
             </div>
           </div>
         </div>
+
+        {aiEnabled && aiUsage && (
+          <div className="bg-white shadow rounded-lg dark:bg-dark-800 dark:border-gray-700">
+            <div className="px-4 py-5 sm:p-6">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">AI Usage</h3>
+              <div className="mt-2">
+                <p className="text-sm text-gray-500 dark:text-gray-400">What Betsy and the other AI features have cost you</p>
+              </div>
+              {aiUsage.budgetExceeded && (
+                <div className="mt-4 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200">
+                  You've reached your {aiUsage.budgetExceeded} AI budget. Betsy and the other AI features will use their
+                  simpler built-in fallbacks until it resets.
+                </div>
+              )}
+              <div className="mt-4 space-y-4">
+                <UsageBar label="Today" usage={aiUsage.dailyUsage} />
+                <UsageBar label="This month" usage={aiUsage.monthlyUsage} />
+              </div>
+              {aiUsage.byEndpoint.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {aiUsage.byEndpoint.map(row => (
+                    <div key={row.endpoint} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-900 dark:text-white">{ENDPOINT_LABELS[row.endpoint] || row.endpoint}</span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {row.requests.toLocaleString()} requests · {formatCost(row.cost)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -1,113 +1,97 @@
 import { useState, useEffect } from 'react'
+import { authService, UserProfile } from '../services/authService'
+import { AccountSecurity } from '../components/auth/AccountSecurity'
+import { HouseholdSettings } from '../components/household/HouseholdSettings'
+import { UnitPreferences } from '../components/preferences/UnitPreferences'
 
-interface StoredUserProfile {
-  firstName: string
-  lastName?: string
-  email?: string
-  dietaryPreferences?: string[]
-  allergies?: string[]
-  familySize?: number
-}
+const dietaryOptions = [
+  { value: 'none', label: 'No restrictions' },
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'gluten-free', label: 'Gluten-Free' },
+  { value: 'dairy-free', label: 'Dairy-Free' },
+  { value: 'keto', label: 'Keto' },
+  { value: 'paleo', label: 'Paleo' }
+]
+
+const healthGoalOptions = [
+  { value: 'maintain', label: 'Maintain' },
+  { value: 'weight_loss', label: 'Weight loss' },
+  { value: 'weight_gain', label: 'Weight gain' },
+  { value: 'muscle_gain', label: 'Muscle gain' },
+  { value: 'fitness', label: 'Fitness' }
+]
+
+const labelFor = (options: Array<{ value: string; label: string }>, value?: string) =>
+  options.find(option => option.value === value)?.label || options[0].label
 
 const ProfilePage = () => {
   const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [profile, setProfile] = useState<UserProfile | null>(null)
   const [formData, setFormData] = useState({
-    name: '',
-    email: '',
-    dietaryPreferences: [] as string[],
-    allergies: [] as string[],
-    familySize: 1
-  })
-
-  const [profile, setProfile] = useState<StoredUserProfile>({
-    firstName: 'Chef',
+    firstName: '',
     lastName: '',
-    email: 'chef@example.com',
-    dietaryPreferences: [],
-    allergies: [],
-    familySize: 1
+    dietaryPreference: 'none',
+    healthGoal: 'maintain'
   })
 
+  const resetForm = (source: UserProfile) => {
+    setFormData({
+      firstName: source.firstName,
+      lastName: source.lastName,
+      dietaryPreference: source.dietaryPreference || 'none',
+      healthGoal: source.healthGoal || 'maintain'
+    })
+  }
+
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem('intelligent-kitchen-user')
-      if (stored) {
-        const parsed = JSON.parse(stored) as StoredUserProfile
-        const nextProfile: StoredUserProfile = {
-          firstName: parsed.firstName || 'Chef',
-          lastName: parsed.lastName || '',
-          email: parsed.email || 'chef@example.com',
-          dietaryPreferences: parsed.dietaryPreferences || [],
-          allergies: parsed.allergies || [],
-          familySize: parsed.familySize || 1
-        }
-        setProfile(nextProfile)
-        setFormData({
-          name: [nextProfile.firstName, nextProfile.lastName].filter(Boolean).join(' ').trim(),
-          email: nextProfile.email || '',
-          dietaryPreferences: [...(nextProfile.dietaryPreferences || [])],
-          allergies: [...(nextProfile.allergies || [])],
-          familySize: nextProfile.familySize || 1
-        })
-      }
-    } catch (error) {
-      console.warn('Failed to load profile from storage:', error)
-    }
+    authService.getProfile()
+      .then(loaded => {
+        setProfile(loaded)
+        resetForm(loaded)
+      })
+      .catch(err => {
+        console.error('Failed to load profile:', err)
+        setError('Could not load your profile')
+      })
   }, [])
 
-  const dietaryOptions = [
-    'Vegetarian', 'Vegan', 'Gluten-Free', 'Dairy-Free', 'Keto', 'Paleo', 'Low-Carb', 'Mediterranean'
-  ]
-
-  const allergyOptions = [
-    'Nuts', 'Dairy', 'Gluten', 'Eggs', 'Soy', 'Shellfish', 'Fish', 'Sesame'
-  ]
-
-  const handleSave = () => {
-    const trimmedName = formData.name.trim()
-    const [firstNameCandidate, ...rest] = trimmedName.length > 0 ? trimmedName.split(' ') : [profile.firstName]
-    const updatedProfile: StoredUserProfile = {
-      firstName: firstNameCandidate || profile.firstName || 'Chef',
-      lastName: rest.join(' ').trim(),
-      email: formData.email || profile.email,
-      dietaryPreferences: [...formData.dietaryPreferences],
-      allergies: [...formData.allergies],
-      familySize: formData.familySize || 1
+  const handleSave = async () => {
+    if (!profile) return
+    if (!formData.firstName.trim() || !formData.lastName.trim()) {
+      setError('First and last name are required')
+      return
     }
 
+    setIsSaving(true)
+    setError(null)
     try {
-      localStorage.setItem('intelligent-kitchen-user', JSON.stringify(updatedProfile))
-    } catch (error) {
-      console.warn('Failed to save profile to storage:', error)
+      const updated = await authService.updateProfile({
+        firstName: formData.firstName.trim(),
+        lastName: formData.lastName.trim(),
+        dietaryPreference: formData.dietaryPreference,
+        healthGoal: formData.healthGoal
+      })
+      const nextProfile = { ...profile, ...updated }
+      setProfile(nextProfile)
+      resetForm(nextProfile)
+      setIsEditing(false)
+    } catch (err) {
+      console.error('Failed to update profile:', err)
+      setError('Could not save your changes')
+    } finally {
+      setIsSaving(false)
     }
-
-    setProfile(updatedProfile)
-    setFormData({
-      name: [updatedProfile.firstName, updatedProfile.lastName].filter(Boolean).join(' ').trim(),
-      email: updatedProfile.email || '',
-      dietaryPreferences: [...(updatedProfile.dietaryPreferences || [])],
-      allergies: [...(updatedProfile.allergies || [])],
-      familySize: updatedProfile.familySize || 1
-    })
-    setIsEditing(false)
   }
 
-  const handleDietaryPreferenceChange = (preference: string) => {
-    setFormData(prev => ({
-      ...prev,
-      dietaryPreferences: prev.dietaryPreferences.includes(preference)
-        ? prev.dietaryPreferences.filter(p => p !== preference)
-        : [...prev.dietaryPreferences, preference]
-    }))
-  }
-
-  const handleAllergyChange = (allergy: string) => {
-    setFormData(prev => ({
-      ...prev,
-      allergies: prev.allergies.includes(allergy)
-        ? prev.allergies.filter(a => a !== allergy)
-        : [...prev.allergies, allergy]
-    }))
+  if (!profile) {
+    return (
+      <div className="py-12 text-center text-gray-600 dark:text-gray-400">
+        {error || 'Loading your profile...'}
+      </div>
+    )
   }
 
   return (
@@ -120,13 +104,7 @@ const ProfilePage = () => {
         {!isEditing && (
           <button
             onClick={() => {
-              setFormData({
-                name: [profile.firstName, profile.lastName].filter(Boolean).join(' ').trim(),
-                email: profile.email || '',
-                dietaryPreferences: [...(profile.dietaryPreferences || [])],
-                allergies: [...(profile.allergies || [])],
-                familySize: profile.familySize || 1
-              })
+              resetForm(profile)
               setIsEditing(true)
             }}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
@@ -156,6 +134,16 @@ const ProfilePage = () => {
                     Active Member
                   </span>
                 </div>
+                {profile.createdAt && (
+                  <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                    Member since {new Date(profile.createdAt).toLocaleDateString()}
+                  </p>
+                )}
+                {profile.lastLogin && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Last sign-in {new Date(profile.lastLogin).toLocaleString()}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -167,86 +155,78 @@ const ProfilePage = () => {
               <h3 className="text-lg leading-6 font-medium text-gray-900 mb-6 dark:text-white">Account Information</h3>
               
               <div className="space-y-6">
+                {error && (
+                  <div className="rounded-md bg-red-50 p-3 text-sm text-red-700 dark:bg-red-900/30 dark:text-red-400">{error}</div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Full Name</label>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">First Name</label>
                     {isEditing ? (
                       <input
                         type="text"
-                        value={formData.name}
-                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        value={formData.firstName}
+                        onChange={(e) => setFormData({ ...formData, firstName: e.target.value })}
                         className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
                       />
                     ) : (
-                      <div className="mt-1 text-sm text-gray-900 dark:text-gray-300">{profile.firstName} {profile.lastName}</div>
+                      <div className="mt-1 text-sm text-gray-900 dark:text-gray-300">{profile.firstName}</div>
                     )}
                   </div>
-                  
+
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Email Address</label>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Last Name</label>
                     {isEditing ? (
                       <input
-                        type="email"
-                        value={formData.email}
-                        onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                        type="text"
+                        value={formData.lastName}
+                        onChange={(e) => setFormData({ ...formData, lastName: e.target.value })}
                         className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
                       />
                     ) : (
-                      <div className="mt-1 text-sm text-gray-900 dark:text-gray-300">{profile.email}</div>
+                      <div className="mt-1 text-sm text-gray-900 dark:text-gray-300">{profile.lastName}</div>
                     )}
                   </div>
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Family Size</label>
-                  {isEditing ? (
-                    <select
-                      value={formData.familySize}
-                      onChange={(e) => setFormData({ ...formData, familySize: parseInt(e.target.value) })}
-                      className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
-                    >
-                      {[1, 2, 3, 4, 5, 6, 7, 8].map(size => (
-                        <option key={size} value={size}>{size} {size === 1 ? 'person' : 'people'}</option>
-                      ))}
-                    </select>
-                  ) : (
-                    <div className="mt-1 text-sm text-gray-900 dark:text-gray-300">{profile.familySize || 1} {(profile.familySize || 1) === 1 ? 'person' : 'people'}</div>
-                  )}
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Email Address</label>
+                  <div className="mt-1 text-sm text-gray-900 dark:text-gray-300">{profile.email}</div>
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Dietary Preferences</label>
-                  <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2">
-                    {dietaryOptions.map(option => (
-                      <label key={option} className="flex items-center">
-                        <input
-                          type="checkbox"
-                          checked={formData.dietaryPreferences.includes(option)}
-                          onChange={() => handleDietaryPreferenceChange(option)}
-                          disabled={!isEditing}
-                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600 dark:focus:ring-blue-600 dark:focus:border-blue-600"
-                        />
-                        <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">{option}</span>
-                      </label>
-                    ))}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Dietary Preference</label>
+                    {isEditing ? (
+                      <select
+                        value={formData.dietaryPreference}
+                        onChange={(e) => setFormData({ ...formData, dietaryPreference: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
+                      >
+                        {dietaryOptions.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <div className="mt-1 text-sm text-gray-900 dark:text-gray-300">{labelFor(dietaryOptions, profile.dietaryPreference)}</div>
+                    )}
                   </div>
-                </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Allergies</label>
-                  <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2">
-                    {allergyOptions.map(allergy => (
-                      <label key={allergy} className="flex items-center">
-                        <input
-                          type="checkbox"
-                          checked={formData.allergies.includes(allergy)}
-                          onChange={() => handleAllergyChange(allergy)}
-                          disabled={!isEditing}
-                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600 dark:focus:ring-blue-600 dark:focus:border-blue-600"
-                        />
-                        <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">{allergy}</span>
-                      </label>
-                    ))}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Health Goal</label>
+                    {isEditing ? (
+                      <select
+                        value={formData.healthGoal}
+                        onChange={(e) => setFormData({ ...formData, healthGoal: e.target.value })}
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
+                      >
+                        {healthGoalOptions.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <div className="mt-1 text-sm text-gray-900 dark:text-gray-300">{labelFor(healthGoalOptions, profile.healthGoal)}</div>
+                    )}
                   </div>
                 </div>
 
@@ -254,13 +234,8 @@ const ProfilePage = () => {
                   <div className="flex justify-end space-x-3">
                     <button
                       onClick={() => {
-                        setFormData({
-                          name: [profile.firstName, profile.lastName].filter(Boolean).join(' ').trim(),
-                          email: profile.email || '',
-                          dietaryPreferences: [...(profile.dietaryPreferences || [])],
-                          allergies: [...(profile.allergies || [])],
-                          familySize: profile.familySize || 1
-                        })
+                        resetForm(profile)
+                        setError(null)
                         setIsEditing(false)
                       }}
                       className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
@@ -269,9 +244,10 @@ const ProfilePage = () => {
                     </button>
                     <button
                       onClick={handleSave}
-                      className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
+                      disabled={isSaving}
+                      className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-60 dark:bg-blue-700 dark:hover:bg-blue-800"
                     >
-                      Save Changes
+                      {isSaving ? 'Saving...' : 'Save Changes'}
                     </button>
                   </div>
                 )}
@@ -281,32 +257,11 @@ const ProfilePage = () => {
         </div>
       </div>
 
-      <div className="bg-white shadow rounded-lg dark:bg-gray-800 dark:border-gray-700">
-        <div className="px-4 py-5 sm:p-6">
-          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4 dark:text-white">Account Security</h3>
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <div className="text-sm font-medium text-gray-900 dark:text-white">Password</div>
-                <div className="text-sm text-gray-500 dark:text-gray-400">Last changed 3 months ago</div>
-              </div>
-              <button className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300">
-                Change Password
-              </button>
-            </div>
-            
-            <div className="flex items-center justify-between">
-              <div>
-                <div className="text-sm font-medium text-gray-900 dark:text-white">Two-Factor Authentication</div>
-                <div className="text-sm text-gray-500 dark:text-gray-400">Add an extra layer of security</div>
-              </div>
-              <button className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300">
-                Enable
-              </button>
-            </div>
-          </div>
-        </div>
-      </div>
+      <UnitPreferences />
+
+      <HouseholdSettings />
+
+      <AccountSecurity />
     </div>
   )
 }
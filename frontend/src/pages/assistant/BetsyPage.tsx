@@ -2,9 +2,25 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { voiceService } from '../../services/voiceService';
 import { shoppingListService, enhancedShoppingListService } from '../../services/shoppingListService';
-import { betsyService, BetsyInterpretation } from '../../services/betsyService';
+import {
+  betsyService,
+  BetsyAction,
+  BetsyConversationMessage,
+  BetsyConversationSummary,
+  BetsyInterpretation,
+  BetsyPreview,
+  BetsyProgress,
+  INITIAL_PROGRESS,
+  applyBetsyEvent,
+  isCancelled,
+  needsConfirmation
+} from '../../services/betsyService';
 import { recipeService } from '../../services/recipeService';
 import { mealPlanService } from '../../services/mealPlanService';
+import { describeCookedMeal } from '../../services/cookingService';
+import { preferencesService } from '../../services/preferencesService';
+import { historyService } from '../../services/historyService';
+import { convertQuantitiesInText } from '../../utils/unitConversion';
 
 interface Message {
   id: string;
@@ -16,21 +32,67 @@ interface Message {
     details: string;
     success: boolean;
   };
+  // The steps of a command that asked for several things
+  batch?: {
+    steps: BatchStep[];
+    // The history entry that undoes every step
+    historyId?: string;
+    undone?: boolean;
+  };
+  // What a risky command would change, asked about before it runs
+  confirmation?: {
+    previews: BetsyPreview[];
+    status: 'pending' | 'confirmed' | 'cancelled';
+  };
+}
+
+interface BatchStep {
+  description: string;
+  status: 'done' | 'failed' | 'skipped';
+  details?: string;
 }
 
+// Commands that move through the undo history rather than adding to it
+const HISTORY_INTENTS = new Set(['undo', 'redo']);
+
+// Answers to "Shall I go ahead?"
+const CONFIRM_REGEX = /^(yes|yeah|yep|sure|ok|okay|confirm|go ahead|do it)\b/;
+const CANCEL_REGEX = /^(no|nope|cancel|stop|don't|never ?mind)\b/;
+
+// Records listed under each preview; the summary gives the full count
+const PREVIEW_RECORDS = 8;
+
+// Steps that only answer; every other step has to report what it did
+const INFORMATIONAL_INTENTS = new Set(['help', 'greeting', 'search_recipe', 'search_recipes']);
+
 const STORAGE_KEY = 'betsy-conversation-history';
 
+const WELCOME_MESSAGE = "Hi! I'm Betsy, your kitchen assistant. I can help you manage your meal plans, recipes, and shopping lists. Just type or tap the microphone to talk to me!\n\nTry saying: \"Add milk to shopping list\" or \"Go to recipes\"";
+
 export const BetsyPage: React.FC = () => {
   const navigate = useNavigate();
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Betsy's status and reply while a command streams in, then while it's carried out
+  const [progress, setProgress] = useState<BetsyProgress | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [liveTranscript, setLiveTranscript] = useState('');
+  const [conversations, setConversations] = useState<BetsyConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(betsyService.getConversationId());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const streamRef = useRef<AbortController | null>(null);
+  // While a command with several steps runs: what the current step did, and
+  // where to go once every step is done
+  const batchRef = useRef<{ lastAction: Message['action'] | null; navigateTo: string | null } | null>(null);
+  // The risky command waiting for a yes or no
+  const pendingRef = useRef<{ messageId: string; text: string; interpretation: BetsyInterpretation } | null>(null);
+  // Re-render when the undo history changes, for the "Undo all" buttons
+  const [, setHistoryVersion] = useState(0);
 
-  // Load conversation history from localStorage
+  // Show the cached thread right away, then the saved conversation from the server
   useEffect(() => {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
@@ -40,10 +102,16 @@ export const BetsyPage: React.FC = () => {
       } catch (e) {
         console.error('Failed to load conversation history:', e);
       }
-    } else {
+    }
+
+    const currentId = betsyService.getConversationId();
+    if (currentId) {
+      openConversation(currentId);
+    } else if (!stored) {
       // Add welcome message
-      addBetsyMessage("Hi! I'm Betsy, your kitchen assistant. I can help you manage your meal plans, recipes, and shopping lists. Just type or tap the microphone to talk to me!\n\nTry saying: \"Add milk to shopping list\" or \"Go to recipes\"");
+      addBetsyMessage(WELCOME_MESSAGE);
     }
+    refreshConversations();
   }, []);
 
   // Save conversation history
@@ -56,7 +124,12 @@ export const BetsyPage: React.FC = () => {
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, progress]);
+
+  // Leaving the page stops a command that's still streaming
+  useEffect(() => () => streamRef.current?.abort(), []);
+
+  useEffect(() => historyService.subscribe(() => setHistoryVersion(version => version + 1)), []);
 
   // Set up voice recognition
   useEffect(() => {
@@ -65,7 +138,7 @@ export const BetsyPage: React.FC = () => {
       if (result.isFinal) {
         setIsListening(false);
         setLiveTranscript('');
-        handleUserInput(result.transcript);
+        handleUserInput(result.transcript, true);
       }
     });
 
@@ -96,18 +169,95 @@ export const BetsyPage: React.FC = () => {
     setMessages(prev => [...prev, msg]);
   };
 
-  const addBetsyMessage = (content: string, action?: Message['action']) => {
+  // Quantities are shown in the user's units, with the original in brackets.
+  // The reply is saved as written so the conversation reads the same in any units.
+  const addBetsyMessage = (content: string, action?: Message['action'], extra?: Pick<Message, 'batch' | 'confirmation'>) => {
     const msg: Message = {
       id: generateId(),
       role: 'betsy',
-      content,
+      content: convertQuantitiesInText(content, preferencesService.getMeasurementSystem()),
       timestamp: new Date(),
-      action
+      action,
+      ...extra
     };
     setMessages(prev => [...prev, msg]);
+    void betsyService.recordReply(content);
+    if (batchRef.current && action) {
+      batchRef.current.lastAction = action;
+    }
+    return msg.id;
+  };
+
+  // Pages open once every step of a batch is done, so later steps still run
+  const goTo = (path: string) => {
+    if (batchRef.current) {
+      batchRef.current.navigateTo = path;
+    } else {
+      setTimeout(() => navigate(path), 500);
+    }
+  };
+
+  const refreshConversations = async () => {
+    try {
+      setConversations(await betsyService.listConversations());
+    } catch (error) {
+      console.warn('Could not load saved conversations:', error);
+    }
+  };
+
+  const toMessages = (stored: BetsyConversationMessage[]): Message[] =>
+    stored
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        id: message.id,
+        role: message.role === 'user' ? 'user' : 'betsy',
+        content: message.role === 'user'
+          ? message.content
+          : convertQuantitiesInText(message.content, preferencesService.getMeasurementSystem()),
+        timestamp: new Date(message.created_at)
+      }));
+
+  const openConversation = async (id: string) => {
+    try {
+      const stored = await betsyService.getConversationMessages(id);
+      betsyService.setConversationId(id);
+      setConversationId(id);
+      setMessages(toMessages(stored));
+    } catch (error: any) {
+      console.error('Failed to open conversation:', error);
+      // Gone on the server (deleted elsewhere): start over
+      if (error.response?.status === 404 && betsyService.getConversationId() === id) {
+        startNewConversation();
+      }
+    }
+  };
+
+  // Earlier conversations stay in the history list
+  const startNewConversation = () => {
+    pendingRef.current = null;
+    betsyService.setConversationId(null);
+    setConversationId(null);
+    setMessages([]);
+    localStorage.removeItem(STORAGE_KEY);
+    addBetsyMessage(WELCOME_MESSAGE);
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    if (!window.confirm('Delete this conversation?')) return;
+
+    try {
+      await betsyService.deleteConversation(id);
+      if (id === conversationId) {
+        startNewConversation();
+      }
+      setConversations(prev => prev.filter(conversation => conversation.id !== id));
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
   };
 
-  const handleUserInput = async (input: string) => {
+  // Spoken commands may have been misheard, so medium-risk ones are asked about first
+  const handleUserInput = async (input: string, spoken = false) => {
     const trimmed = input.trim();
     if (!trimmed) return;
 
@@ -116,29 +266,224 @@ export const BetsyPage: React.FC = () => {
     setInputText('');
 
     try {
-      await processCommand(trimmed.toLowerCase());
+      await processCommand(trimmed.toLowerCase(), spoken);
     } catch (error) {
-      addBetsyMessage("Sorry, something went wrong. Please try again.");
+      if (isCancelled(error)) {
+        // Nothing was saved on the server, so neither is this
+        setMessages(prev => [...prev, { id: generateId(), role: 'betsy', content: 'Okay, stopped.', timestamp: new Date() }]);
+      } else {
+        addBetsyMessage("Sorry, something went wrong. Please try again.");
+      }
     } finally {
+      streamRef.current = null;
+      setIsStreaming(false);
+      setProgress(null);
       setIsProcessing(false);
     }
   };
 
-  const processCommand = async (text: string) => {
+  const cancelStream = () => {
+    streamRef.current?.abort();
+  };
+
+  const processCommand = async (text: string, spoken = false) => {
     // Clear history is handled locally (no LLM needed)
     if (text.toLowerCase().includes('clear') && text.toLowerCase().includes('history')) {
-      setMessages([]);
-      localStorage.removeItem(STORAGE_KEY);
-      addBetsyMessage("I've cleared our conversation history. Fresh start!");
+      startNewConversation();
       return;
     }
 
+    // A yes or no answers the question about a risky command; anything else drops it
+    const pending = pendingRef.current;
+    if (pending) {
+      if (CONFIRM_REGEX.test(text)) {
+        await confirmPending(pending.messageId);
+        return;
+      }
+      if (CANCEL_REGEX.test(text)) {
+        cancelPending(pending.messageId);
+        return;
+      }
+      pendingRef.current = null;
+      settleConfirmation(pending.messageId, 'cancelled');
+    }
+
     // Use LLM to interpret the command
-    const interpretation = await betsyService.interpret(text);
+    // Betsy can put items on a list by name
+    const previousConversationId = betsyService.getConversationId();
+    const stream = new AbortController();
+    streamRef.current = stream;
+    setProgress(INITIAL_PROGRESS);
+    setIsStreaming(true);
+
+    const interpretation = await betsyService.interpretStream(text, {
+      shoppingLists: shoppingListService.getLists().map(list => list.name)
+    }, {
+      signal: stream.signal,
+      onEvent: event => setProgress(prev => applyBetsyEvent(prev || INITIAL_PROGRESS, event))
+    });
+    setIsStreaming(false);
     console.log('[BetsyPage] Interpretation:', interpretation);
 
-    // Execute based on intent
-    await executeIntent(interpretation);
+    // The first message of a chat starts a new saved conversation
+    if (interpretation.conversationId && interpretation.conversationId !== previousConversationId) {
+      setConversationId(interpretation.conversationId);
+      refreshConversations();
+    }
+
+    const previews = await previewRiskySteps(interpretation, spoken);
+    if (previews) {
+      const messageId = addBetsyMessage(
+        `Before I do that: ${previews.map(preview => preview.summary).join(' ')} Shall I go ahead?`,
+        undefined,
+        { confirmation: { previews, status: 'pending' } }
+      );
+      pendingRef.current = { messageId, text, interpretation };
+      return;
+    }
+
+    await carryOut(text, interpretation);
+  };
+
+  // Previews of the steps to ask about first; null when none needs asking or
+  // none would change anything
+  const previewRiskySteps = async (interpretation: BetsyInterpretation, spoken: boolean): Promise<BetsyPreview[] | null> => {
+    const steps = interpretation.actions && interpretation.actions.length > 1 ? interpretation.actions : [interpretation];
+    const previews: BetsyPreview[] = [];
+
+    for (const step of steps) {
+      if (!needsConfirmation(step.risk, spoken)) continue;
+
+      const preview = await betsyService.previewAction(step);
+      if (!preview) {
+        // Nothing to count, so say what will happen
+        previews.push({ summary: step.response, records: [] });
+      } else if (preview.records.length > 0) {
+        previews.push(preview);
+      }
+    }
+    return previews.length > 0 ? previews : null;
+  };
+
+  const settleConfirmation = (messageId: string, status: 'confirmed' | 'cancelled') => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId && message.confirmation
+        ? { ...message, confirmation: { ...message.confirmation, status } }
+        : message
+    ));
+  };
+
+  const confirmPending = async (messageId: string) => {
+    const pending = pendingRef.current;
+    if (!pending || pending.messageId !== messageId) return;
+
+    pendingRef.current = null;
+    settleConfirmation(messageId, 'confirmed');
+    await carryOut(pending.text, pending.interpretation);
+  };
+
+  const cancelPending = (messageId: string) => {
+    if (pendingRef.current?.messageId !== messageId) return;
+
+    pendingRef.current = null;
+    settleConfirmation(messageId, 'cancelled');
+    addBetsyMessage("Okay, I've left everything as it was.");
+  };
+
+  // The confirm button, outside of a command of its own
+  const handleConfirm = async (messageId: string) => {
+    setIsProcessing(true);
+    try {
+      await confirmPending(messageId);
+    } catch (error) {
+      addBetsyMessage("Sorry, something went wrong. Please try again.");
+    } finally {
+      setProgress(null);
+      setIsProcessing(false);
+    }
+  };
+
+  const carryOut = async (text: string, interpretation: BetsyInterpretation) => {
+    // Execute based on intent; each command is one step in the undo history
+    if (interpretation.actions && interpretation.actions.length > 1) {
+      await runActions(text, interpretation, interpretation.actions);
+    } else if (HISTORY_INTENTS.has(interpretation.intent)) {
+      await executeIntent(interpretation);
+    } else {
+      await historyService.record(`"${text}"`, () => executeIntent(interpretation));
+    }
+  };
+
+  // Carries out the steps in order and stops at the first that fails; what
+  // the steps changed is one entry in the undo history, so it can be undone in one go
+  const runActions = async (text: string, interpretation: BetsyInterpretation, actions: BetsyAction[]) => {
+    const latest = historyService.peekUndo();
+    const steps: BatchStep[] = actions.map(action => ({
+      description: action.description || capitalize(action.intent.replace(/_/g, ' ')),
+      status: 'skipped'
+    }));
+    const batch: NonNullable<typeof batchRef.current> = { lastAction: null, navigateTo: null };
+    batchRef.current = batch;
+
+    let failedAt = -1;
+    await historyService.record(`"${text}"`, async () => {
+      for (let index = 0; index < actions.length; index++) {
+        const action = actions[index];
+        const step = steps[index];
+        setProgress(prev => ({ ...(prev || INITIAL_PROGRESS), status: `Step ${index + 1} of ${actions.length}: ${step.description}...` }));
+        batch.lastAction = null;
+
+        try {
+          await executeIntent({ ...interpretation, ...action, actions: undefined });
+          const result = batch.lastAction;
+          step.details = result?.details;
+          step.status = result ? (result.success ? 'done' : 'failed') : (INFORMATIONAL_INTENTS.has(action.intent) ? 'done' : 'failed');
+        } catch (error) {
+          console.error(`[BetsyPage] Step ${index + 1} failed:`, error);
+          step.status = 'failed';
+        }
+
+        if (step.status === 'failed') {
+          failedAt = index;
+          break;
+        }
+      }
+    }).finally(() => {
+      batchRef.current = null;
+    });
+
+    if (failedAt === -1) {
+      if (batch.navigateTo) {
+        const path = batch.navigateTo;
+        setTimeout(() => navigate(path), 500);
+      }
+      addBetsyMessage(`All ${steps.length} steps are done.`, undefined, { batch: { steps } });
+      return;
+    }
+
+    // Only offered when the steps before the failed one changed something
+    const entry = historyService.peekUndo();
+    const historyId = entry && entry !== latest ? entry.id : undefined;
+    addBetsyMessage(
+      `Step ${failedAt + 1} (${steps[failedAt].description.toLowerCase()}) didn't work, so I stopped there.${historyId ? ' "Undo all" puts everything back the way it was.' : ''}`,
+      undefined,
+      { batch: { steps, historyId } }
+    );
+  };
+
+  const undoBatch = (messageId: string, historyId: string) => {
+    if (!historyService.undo(historyId)) return;
+
+    setMessages(prev => prev.map(message =>
+      message.id === messageId && message.batch
+        ? { ...message, batch: { ...message.batch, undone: true } }
+        : message
+    ));
+    addBetsyMessage("Done! I've undone every step of that command.", {
+      type: 'undo',
+      details: 'Restored meals, recipes and shopping lists',
+      success: true
+    });
   };
 
   const executeIntent = async (interpretation: BetsyInterpretation) => {
@@ -148,13 +493,17 @@ export const BetsyPage: React.FC = () => {
       case 'add_shopping_item':
         if (entities.items && entities.items.length > 0) {
           try {
+            const target = shoppingListService.resolveTargetList(entities.listName);
             const addedItems: string[] = [];
             for (const item of entities.items) {
               const itemText = formatShoppingItem(item);
-              await shoppingListService.addShoppingListItem(itemText);
+              await shoppingListService.addShoppingListItem(itemText, target.list.id);
               addedItems.push(itemText);
             }
-            addBetsyMessage(response || `Done! I've added ${addedItems.join(', ')} to your shopping list.`, {
+            const message = entities.listName && !target.matched
+              ? `I couldn't find a "${entities.listName}" list, so I added ${addedItems.join(', ')} to ${target.list.name}.`
+              : response || `Done! I've added ${addedItems.join(', ')} to ${target.list.name}.`;
+            addBetsyMessage(message, {
               type: 'shopping_list',
               details: `Added: ${addedItems.join(', ')}`,
               success: true
@@ -184,7 +533,7 @@ export const BetsyPage: React.FC = () => {
             details: dest.label,
             success: true
           });
-          setTimeout(() => navigate(dest.path), 500);
+          goTo(dest.path);
         } else {
           addBetsyMessage("I'm not sure where you want to go. Try 'recipes', 'shopping list', or 'meal planning'.");
         }
@@ -202,7 +551,7 @@ export const BetsyPage: React.FC = () => {
             details: `${entities.food} for ${entities.mealType}${entities.day ? ` on ${entities.day}` : ''}`,
             success: true
           });
-          setTimeout(() => navigate('/meal-planning'), 500);
+          goTo('/meal-planning');
         } else {
           addBetsyMessage("I need to know what food and which meal. Try 'add pancakes for breakfast'.");
         }
@@ -238,7 +587,7 @@ export const BetsyPage: React.FC = () => {
         }
         break;
 
-      case 'generate_meals':
+      case 'clear_meals':
         if (entities.timeRange) {
           try {
             const result = await betsyService.clearMeals(entities.timeRange);
@@ -283,7 +632,7 @@ export const BetsyPage: React.FC = () => {
             if (result.success) {
               addBetsyMessage(
                 result.mealCount > 0 
-                  ? `Done! I've created ${result.mealCount} meal${result.mealCount === 1 ? '' : 's'} for ${timeLabel}. Go to Meal Planning to see them!`
+                  ? `Done! I've created ${result.mealCount} meal${result.mealCount === 1 ? '' : 's'} for ${timeLabel}${result.plannedFor?.household ? ` for the ${result.plannedFor.household} household (${result.plannedFor.peopleCount} people)` : ''}. Go to Meal Planning to see them!`
                   : `The meal plan was generated. Go to Meal Planning to see the results!`,
                 {
                   type: 'meal_plan',
@@ -430,8 +779,9 @@ export const BetsyPage: React.FC = () => {
               }
               
               if (ingredientsList.length > 0) {
-                await shoppingListService.addIngredientsToList(ingredientsList);
-                addBetsyMessage(`Done! I've added ${ingredientsList.length} ingredients from "${recipe.name}" to your shopping list.`, {
+                const target = shoppingListService.resolveTargetList(entities.listName);
+                await shoppingListService.addIngredientsToList(ingredientsList, target.list.id);
+                addBetsyMessage(`Done! I've added ${ingredientsList.length} ingredients from "${recipe.name}" to ${target.list.name}.`, {
                   type: 'shopping_list',
                   details: `Added ${ingredientsList.length} ingredients from ${recipe.name}`,
                   success: true
@@ -638,7 +988,7 @@ export const BetsyPage: React.FC = () => {
             
             if (fromMeal) {
               mealPlanService.removePlannedMeal(fromDate, capitalize(entities.fromMealType));
-              mealPlanService.addPlannedMeal(toDate, capitalize(entities.toMealType), fromMeal.recipe);
+              mealPlanService.addPlannedMeal(toDate, capitalize(entities.toMealType), fromMeal.recipe, fromMeal.servings);
               addBetsyMessage(`Done! I've moved ${fromMeal.recipe.name} from ${entities.fromDay} ${entities.fromMealType} to ${entities.toDay} ${entities.toMealType}.`, {
                 type: 'meal_plan',
                 details: `Moved meal`,
@@ -666,8 +1016,8 @@ export const BetsyPage: React.FC = () => {
             if (meal1 && meal2) {
               mealPlanService.removePlannedMeal(date1, capitalize(entities.mealType1));
               mealPlanService.removePlannedMeal(date2, capitalize(entities.mealType2));
-              mealPlanService.addPlannedMeal(date1, capitalize(entities.mealType1), meal2.recipe);
-              mealPlanService.addPlannedMeal(date2, capitalize(entities.mealType2), meal1.recipe);
+              mealPlanService.addPlannedMeal(date1, capitalize(entities.mealType1), meal2.recipe, meal2.servings);
+              mealPlanService.addPlannedMeal(date2, capitalize(entities.mealType2), meal1.recipe, meal1.servings);
               addBetsyMessage(`Done! I've swapped ${meal1.recipe.name} with ${meal2.recipe.name}.`, {
                 type: 'meal_plan',
                 details: 'Swapped meals',
@@ -703,8 +1053,8 @@ export const BetsyPage: React.FC = () => {
                 if (meal2) mealPlanService.removePlannedMeal(date2, mealType);
                 
                 // Swap them
-                if (meal2) mealPlanService.addPlannedMeal(date1, mealType, meal2.recipe);
-                if (meal1) mealPlanService.addPlannedMeal(date2, mealType, meal1.recipe);
+                if (meal2) mealPlanService.addPlannedMeal(date1, mealType, meal2.recipe, meal2.servings);
+                if (meal1) mealPlanService.addPlannedMeal(date2, mealType, meal1.recipe, meal1.servings);
                 
                 if (meal1 && meal2) {
                   swappedMeals.push(`${mealType.toLowerCase()}`);
@@ -733,6 +1083,23 @@ export const BetsyPage: React.FC = () => {
         }
         break;
 
+      case 'mark_meal_cooked':
+        if (entities.mealType) {
+          const result = await betsyService.markMealCooked(entities.day || 'today', entities.mealType);
+          if (result.success && result.meal && result.cooked) {
+            addBetsyMessage(`Done! ${describeCookedMeal(result.meal.recipe.name, result.cooked)}`, {
+              type: 'meal_plan',
+              details: `Cooked ${result.meal.recipe.name}`,
+              success: true
+            });
+          } else {
+            addBetsyMessage(result.error || "I had trouble marking that meal as cooked. Please try again.");
+          }
+        } else {
+          addBetsyMessage("I need to know which meal you cooked. Try 'I cooked tonight's dinner'.");
+        }
+        break;
+
       case 'save_recipe':
         if (entities.recipeName) {
           try {
@@ -846,7 +1213,7 @@ export const BetsyPage: React.FC = () => {
             
             if (alreadySaved) {
               addBetsyMessage(`"${alreadySaved.name}" is already in your recipes! I'll take you there.`, { type: 'recipe', details: alreadySaved.name, success: true });
-              navigate('/recipes');
+              goTo('/recipes');
               return;
             }
 
@@ -915,7 +1282,7 @@ export const BetsyPage: React.FC = () => {
         if (entities.recipeName) {
           sessionStorage.setItem('newRecipeName', entities.recipeName);
         }
-        setTimeout(() => navigate('/recipes'), 500);
+        goTo('/recipes');
         break;
 
       case 'web_search_recipe':
@@ -941,6 +1308,24 @@ export const BetsyPage: React.FC = () => {
         }
         break;
 
+      case 'undo': {
+        const undone = historyService.undo();
+        addBetsyMessage(
+          undone ? `Done! Undone: ${undone.label}.` : "There's nothing to undo.",
+          undone ? { type: 'undo', details: `Undid ${undone.label}`, success: true } : undefined
+        );
+        break;
+      }
+
+      case 'redo': {
+        const redone = historyService.redo();
+        addBetsyMessage(
+          redone ? `Done! Redone: ${redone.label}.` : "There's nothing to redo.",
+          redone ? { type: 'undo', details: `Redid ${redone.label}`, success: true } : undefined
+        );
+        break;
+      }
+
       case 'help':
         addBetsyMessage(
           "Here's what I can help you with:\n\n" +
@@ -953,6 +1338,7 @@ export const BetsyPage: React.FC = () => {
           "• \"Generate meals for this week\"\n" +
           "• \"Move Monday breakfast to Tuesday\"\n" +
           "• \"Swap Tuesday dinner with Wednesday dinner\"\n" +
+          "• \"I cooked tonight's dinner\"\n" +
           "• \"Clear all meals this week\"\n\n" +
           "📖 **Recipes**\n" +
           "• \"Import recipe from [URL]\"\n" +
@@ -961,6 +1347,8 @@ export const BetsyPage: React.FC = () => {
           "🧭 **Navigation**\n" +
           "• \"Go to recipes\"\n" +
           "• \"Show me my shopping list\"\n\n" +
+          "↩️ **Changed your mind?**\n" +
+          "• \"Undo that\" or \"Redo\"\n\n" +
           "Just type or tap the microphone!"
         );
         break;
@@ -1043,221 +1431,446 @@ export const BetsyPage: React.FC = () => {
   return React.createElement('div', {
     style: {
       display: 'flex',
-      flexDirection: 'column',
+      gap: '1rem',
       height: 'calc(100vh - 120px)',
-      maxWidth: '800px',
+      maxWidth: '1080px',
       margin: '0 auto'
     }
   }, [
-    // Header
-    React.createElement('div', {
-      key: 'header',
+    // Saved conversations
+    React.createElement('aside', {
+      key: 'history',
       style: {
-        textAlign: 'center',
-        marginBottom: '1rem'
+        width: '240px',
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '0.5rem',
+        padding: '0.75rem',
+        background: '#ffffff',
+        borderRadius: '0.75rem',
+        border: '1px solid #e5e7eb',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        overflowY: 'auto'
       }
     }, [
-      React.createElement('h1', {
+      React.createElement('button', {
+        key: 'new-chat',
+        type: 'button',
+        onClick: startNewConversation,
+        style: {
+          padding: '0.625rem',
+          borderRadius: '0.5rem',
+          border: 'none',
+          background: '#0fc7b9',
+          color: '#ffffff',
+          fontWeight: 'bold',
+          cursor: 'pointer'
+        }
+      }, '+ New chat'),
+      React.createElement('h2', {
         key: 'title',
-        style: { fontSize: '2rem', color: '#1a1a1a', margin: 0, fontFamily: "'Playfair Display', Georgia, serif" }
-      }, 'Betsy'),
-      React.createElement('p', {
-        key: 'subtitle',
-        style: { color: '#4b5563', margin: '0.5rem 0 0 0' }
-      }, 'Your Kitchen Assistant')
+        style: { fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', color: '#64748b', margin: '0.5rem 0 0 0' }
+      }, 'Recent chats'),
+      conversations.length === 0 && React.createElement('p', {
+        key: 'empty',
+        style: { fontSize: '0.875rem', color: '#64748b', margin: 0 }
+      }, 'Your conversations with Betsy will appear here.'),
+      ...conversations.map(conversation =>
+        React.createElement('div', {
+          key: conversation.id,
+          style: {
+            display: 'flex',
+            alignItems: 'flex-start',
+            gap: '0.25rem',
+            padding: '0.5rem',
+            borderRadius: '0.5rem',
+            background: conversation.id === conversationId ? '#ecfdfb' : 'transparent'
+          }
+        }, [
+          React.createElement('button', {
+            key: 'open',
+            type: 'button',
+            onClick: () => openConversation(conversation.id),
+            style: {
+              flex: 1,
+              minWidth: 0,
+              textAlign: 'left',
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              cursor: 'pointer',
+              color: '#1a1a1a'
+            }
+          }, [
+            React.createElement('div', {
+              key: 'title',
+              style: {
+                fontSize: '0.875rem',
+                fontWeight: conversation.id === conversationId ? 'bold' : 'normal',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap'
+              }
+            }, conversation.title),
+            React.createElement('div', {
+              key: 'date',
+              style: { fontSize: '0.6875rem', color: '#64748b' }
+            }, new Date(conversation.updated_at).toLocaleDateString())
+          ]),
+          React.createElement('button', {
+            key: 'delete',
+            type: 'button',
+            onClick: () => handleDeleteConversation(conversation.id),
+            'aria-label': `Delete "${conversation.title}"`,
+            style: { background: 'none', border: 'none', color: '#94a3b8', cursor: 'pointer', padding: 0, lineHeight: 1 }
+          }, '×')
+        ])
+      )
     ]),
 
-    // Messages container
     React.createElement('div', {
-      key: 'messages',
+      key: 'chat',
       style: {
         flex: 1,
-        overflowY: 'auto',
-        padding: '1rem',
-        background: '#ffffff',
-        borderRadius: '0.75rem',
-        marginBottom: '1rem',
-        border: '1px solid #e5e7eb',
-        boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
+        minWidth: 0,
+        display: 'flex',
+        flexDirection: 'column'
       }
     }, [
-      ...messages.map(msg => 
-        React.createElement('div', {
-          key: msg.id,
+      // Header
+      React.createElement('div', {
+        key: 'header',
+        style: {
+          textAlign: 'center',
+          marginBottom: '1rem'
+        }
+      }, [
+        React.createElement('h1', {
+          key: 'title',
+          style: { fontSize: '2rem', color: '#1a1a1a', margin: 0, fontFamily: "'Playfair Display', Georgia, serif" }
+        }, 'Betsy'),
+        React.createElement('p', {
+          key: 'subtitle',
+          style: { color: '#4b5563', margin: '0.5rem 0 0 0' }
+        }, 'Your Kitchen Assistant')
+      ]),
+
+      // Messages container
+      React.createElement('div', {
+        key: 'messages',
+        style: {
+          flex: 1,
+          overflowY: 'auto',
+          padding: '1rem',
+          background: '#ffffff',
+          borderRadius: '0.75rem',
+          marginBottom: '1rem',
+          border: '1px solid #e5e7eb',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
+        }
+      }, [
+        ...messages.map(msg =>
+          React.createElement('div', {
+            key: msg.id,
+            style: {
+              display: 'flex',
+              justifyContent: msg.role === 'user' ? 'flex-end' : 'flex-start',
+              marginBottom: '1rem'
+            }
+          },
+            React.createElement('div', {
+              style: {
+                maxWidth: '80%',
+                padding: '0.75rem 1rem',
+                borderRadius: msg.role === 'user' ? '1rem 1rem 0 1rem' : '1rem 1rem 1rem 0',
+                background: msg.role === 'user' ? '#0fc7b9' : '#f3f4f6',
+                color: msg.role === 'user' ? '#ffffff' : '#1a1a1a'
+              }
+            }, [
+              React.createElement('div', {
+                key: 'content',
+                style: { whiteSpace: 'pre-wrap' }
+              }, msg.content),
+              msg.action && React.createElement('div', {
+                key: 'action',
+                style: {
+                  marginTop: '0.5rem',
+                  padding: '0.5rem',
+                  background: msg.action.success ? 'rgba(16, 185, 129, 0.2)' : 'rgba(239, 68, 68, 0.2)',
+                  borderRadius: '0.375rem',
+                  fontSize: '0.75rem',
+                  color: msg.action.success ? '#10b981' : '#ef4444'
+                }
+              }, `${msg.action.success ? '✓' : '✗'} ${msg.action.details}`),
+              msg.batch && React.createElement('ol', {
+                key: 'batch',
+                style: { margin: '0.5rem 0 0 0', paddingLeft: '1.25rem', fontSize: '0.75rem' }
+              }, msg.batch.steps.map((step, index) =>
+                React.createElement('li', {
+                  key: index,
+                  style: {
+                    color: msg.batch!.undone || step.status === 'skipped'
+                      ? '#64748b'
+                      : step.status === 'done' ? '#10b981' : '#ef4444',
+                    textDecoration: msg.batch!.undone && step.status === 'done' ? 'line-through' : 'none'
+                  }
+                }, `${step.status === 'done' ? '✓' : step.status === 'failed' ? '✗' : '–'} ${step.description}${step.details ? ` (${step.details})` : ''}${step.status === 'skipped' ? ' (not done)' : ''}`)
+              )),
+              msg.batch?.historyId && !msg.batch.undone && historyService.canUndo(msg.batch.historyId) && React.createElement('button', {
+                key: 'undo',
+                type: 'button',
+                onClick: () => undoBatch(msg.id, msg.batch!.historyId!),
+                style: {
+                  marginTop: '0.5rem',
+                  background: 'transparent',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '0.75rem',
+                  color: '#4b5563',
+                  fontSize: '0.75rem',
+                  padding: '0.125rem 0.5rem',
+                  cursor: 'pointer'
+                }
+              }, 'Undo all'),
+              msg.confirmation && React.createElement('div', {
+                key: 'confirmation',
+                style: { marginTop: '0.5rem', fontSize: '0.75rem', color: '#4b5563' }
+              }, [
+                ...msg.confirmation.previews
+                  .filter(preview => preview.records.length > 0)
+                  .map((preview, index) => React.createElement('ul', {
+                    key: index,
+                    style: { margin: '0 0 0.5rem 0', paddingLeft: '1.25rem' }
+                  }, [
+                    ...preview.records.slice(0, PREVIEW_RECORDS).map(record =>
+                      React.createElement('li', { key: record.id }, record.label)
+                    ),
+                    preview.records.length > PREVIEW_RECORDS && React.createElement('li', {
+                      key: 'more',
+                      style: { listStyle: 'none', fontStyle: 'italic' }
+                    }, `...and ${preview.records.length - PREVIEW_RECORDS} more`)
+                  ])),
+                msg.confirmation.status === 'pending' && pendingRef.current?.messageId === msg.id
+                  ? React.createElement('div', {
+                    key: 'buttons',
+                    style: { display: 'flex', gap: '0.5rem' }
+                  }, [
+                    React.createElement('button', {
+                      key: 'confirm',
+                      type: 'button',
+                      disabled: isProcessing,
+                      onClick: () => handleConfirm(msg.id),
+                      style: {
+                        background: '#dc2626',
+                        border: 'none',
+                        borderRadius: '0.75rem',
+                        color: '#ffffff',
+                        fontSize: '0.75rem',
+                        padding: '0.25rem 0.75rem',
+                        cursor: 'pointer'
+                      }
+                    }, 'Yes, go ahead'),
+                    React.createElement('button', {
+                      key: 'cancel',
+                      type: 'button',
+                      disabled: isProcessing,
+                      onClick: () => cancelPending(msg.id),
+                      style: {
+                        background: 'transparent',
+                        border: '1px solid #d1d5db',
+                        borderRadius: '0.75rem',
+                        color: '#4b5563',
+                        fontSize: '0.75rem',
+                        padding: '0.25rem 0.75rem',
+                        cursor: 'pointer'
+                      }
+                    }, 'Cancel')
+                  ])
+                  : React.createElement('div', { key: 'status' },
+                    msg.confirmation.status === 'confirmed' ? 'Confirmed' : msg.confirmation.status === 'cancelled' ? 'Cancelled' : 'No longer waiting')
+              ]),
+              msg.batch?.undone && React.createElement('div', {
+                key: 'undone',
+                style: { marginTop: '0.25rem', fontSize: '0.75rem', color: '#64748b' }
+              }, 'Undone'),
+              React.createElement('div', {
+                key: 'time',
+                style: {
+                  fontSize: '0.625rem',
+                  color: '#64748b',
+                  marginTop: '0.25rem',
+                  textAlign: msg.role === 'user' ? 'right' : 'left'
+                }
+              }, formatTime(msg.timestamp))
+            ])
+          )
+        ),
+        // Live transcript while listening
+        isListening && liveTranscript && React.createElement('div', {
+          key: 'live-transcript',
+          style: {
+            display: 'flex',
+            justifyContent: 'flex-end',
+            marginBottom: '1rem'
+          }
+        },
+          React.createElement('div', {
+            style: {
+              maxWidth: '80%',
+              padding: '0.75rem 1rem',
+              borderRadius: '1rem 1rem 0 1rem',
+              background: '#2a6f6f',
+              color: '#ffffff',
+              fontStyle: 'italic',
+              opacity: 0.8
+            }
+          }, liveTranscript + '...')
+        ),
+        // Processing indicator
+        isProcessing && React.createElement('div', {
+          key: 'processing',
           style: {
             display: 'flex',
-            justifyContent: msg.role === 'user' ? 'flex-end' : 'flex-start',
+            justifyContent: 'flex-start',
             marginBottom: '1rem'
           }
-        }, 
+        },
           React.createElement('div', {
             style: {
               maxWidth: '80%',
               padding: '0.75rem 1rem',
-              borderRadius: msg.role === 'user' ? '1rem 1rem 0 1rem' : '1rem 1rem 1rem 0',
-              background: msg.role === 'user' ? '#0fc7b9' : '#f3f4f6',
-              color: msg.role === 'user' ? '#ffffff' : '#1a1a1a'
+              borderRadius: '1rem 1rem 1rem 0',
+              background: '#f3f4f6',
+              color: '#1a1a1a'
             }
           }, [
+            progress?.reply && React.createElement('div', {
+              key: 'reply',
+              style: { whiteSpace: 'pre-wrap', marginBottom: '0.25rem' }
+            }, convertQuantitiesInText(progress.reply, preferencesService.getMeasurementSystem())),
             React.createElement('div', {
-              key: 'content',
-              style: { whiteSpace: 'pre-wrap' }
-            }, msg.content),
-            msg.action && React.createElement('div', {
-              key: 'action',
+              key: 'status',
               style: {
-                marginTop: '0.5rem',
-                padding: '0.5rem',
-                background: msg.action.success ? 'rgba(16, 185, 129, 0.2)' : 'rgba(239, 68, 68, 0.2)',
-                borderRadius: '0.375rem',
-                fontSize: '0.75rem',
-                color: msg.action.success ? '#10b981' : '#ef4444'
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem',
+                color: '#4b5563',
+                fontStyle: 'italic'
               }
-            }, `${msg.action.success ? '✓' : '✗'} ${msg.action.details}`),
-            React.createElement('div', {
-              key: 'time',
-              style: {
-                fontSize: '0.625rem',
-                color: '#64748b',
-                marginTop: '0.25rem',
-                textAlign: msg.role === 'user' ? 'right' : 'left'
-              }
-            }, formatTime(msg.timestamp))
+            }, [
+              React.createElement('span', { key: 'text' }, progress?.status || INITIAL_PROGRESS.status),
+              isStreaming && React.createElement('button', {
+                key: 'stop',
+                type: 'button',
+                onClick: cancelStream,
+                style: {
+                  background: 'transparent',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '0.75rem',
+                  color: '#4b5563',
+                  fontSize: '0.75rem',
+                  padding: '0.125rem 0.5rem',
+                  cursor: 'pointer',
+                  fontStyle: 'normal'
+                }
+              }, 'Stop')
+            ])
           ])
-        )
-      ),
-      // Live transcript while listening
-      isListening && liveTranscript && React.createElement('div', {
-        key: 'live-transcript',
+        ),
+        React.createElement('div', { key: 'scroll-anchor', ref: messagesEndRef })
+      ]),
+
+      // Input area
+      React.createElement('form', {
+        key: 'input-form',
+        onSubmit: handleSubmit,
         style: {
           display: 'flex',
-          justifyContent: 'flex-end',
-          marginBottom: '1rem'
+          gap: '0.75rem',
+          alignItems: 'center'
         }
-      },
-        React.createElement('div', {
+      }, [
+        // Voice button
+        React.createElement('button', {
+          key: 'voice-btn',
+          type: 'button',
+          onClick: toggleListening,
           style: {
-            maxWidth: '80%',
-            padding: '0.75rem 1rem',
-            borderRadius: '1rem 1rem 0 1rem',
-            background: '#2a6f6f',
-            color: '#ffffff',
-            fontStyle: 'italic',
-            opacity: 0.8
+            background: isListening ? '#EA6A47' : '#0fc7b9',
+            color: 'white',
+            border: 'none',
+            borderRadius: '50%',
+            width: '56px',
+            height: '56px',
+            cursor: 'pointer',
+            fontSize: '1.5rem',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            flexShrink: 0,
+            boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+            transition: 'all 0.2s'
           }
-        }, liveTranscript + '...')
-      ),
-      // Processing indicator
-      isProcessing && React.createElement('div', {
-        key: 'processing',
-        style: {
-          display: 'flex',
-          justifyContent: 'flex-start',
-          marginBottom: '1rem'
-        }
-      },
-        React.createElement('div', {
+        }, isListening ? '🛑' : '🎤'),
+
+        // Text input
+        React.createElement('input', {
+          key: 'text-input',
+          ref: inputRef,
+          type: 'text',
+          value: inputText,
+          onChange: (e) => setInputText(e.target.value),
+          placeholder: isListening ? 'Listening...' : 'Type a message or tap the mic...',
+          disabled: isListening || isProcessing,
           style: {
-            padding: '0.75rem 1rem',
-            borderRadius: '1rem 1rem 1rem 0',
-            background: '#f3f4f6',
-            color: '#4b5563'
+            flex: 1,
+            padding: '1rem',
+            borderRadius: '1.5rem',
+            border: '1px solid #e5e7eb',
+            background: '#ffffff',
+            color: '#1a1a1a',
+            fontSize: '1rem',
+            outline: 'none',
+            boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
           }
-        }, 'Thinking...')
-      ),
-      React.createElement('div', { key: 'scroll-anchor', ref: messagesEndRef })
-    ]),
+        }),
 
-    // Input area
-    React.createElement('form', {
-      key: 'input-form',
-      onSubmit: handleSubmit,
-      style: {
-        display: 'flex',
-        gap: '0.75rem',
-        alignItems: 'center'
-      }
-    }, [
-      // Voice button
-      React.createElement('button', {
-        key: 'voice-btn',
-        type: 'button',
-        onClick: toggleListening,
-        style: {
-          background: isListening ? '#EA6A47' : '#0fc7b9',
-          color: 'white',
-          border: 'none',
-          borderRadius: '50%',
-          width: '56px',
-          height: '56px',
-          cursor: 'pointer',
-          fontSize: '1.5rem',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          flexShrink: 0,
-          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
-          transition: 'all 0.2s'
-        }
-      }, isListening ? '🛑' : '🎤'),
-
-      // Text input
-      React.createElement('input', {
-        key: 'text-input',
-        ref: inputRef,
-        type: 'text',
-        value: inputText,
-        onChange: (e) => setInputText(e.target.value),
-        placeholder: isListening ? 'Listening...' : 'Type a message or tap the mic...',
-        disabled: isListening || isProcessing,
-        style: {
-          flex: 1,
-          padding: '1rem',
-          borderRadius: '1.5rem',
-          border: '1px solid #e5e7eb',
-          background: '#ffffff',
-          color: '#1a1a1a',
-          fontSize: '1rem',
-          outline: 'none',
-          boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
-        }
-      }),
+        // Send button
+        React.createElement('button', {
+          key: 'send-btn',
+          type: 'submit',
+          disabled: !inputText.trim() || isProcessing,
+          style: {
+            background: inputText.trim() ? '#0fc7b9' : '#d1d5db',
+            color: 'white',
+            border: 'none',
+            borderRadius: '50%',
+            width: '56px',
+            height: '56px',
+            cursor: inputText.trim() ? 'pointer' : 'not-allowed',
+            fontSize: '1.5rem',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            flexShrink: 0,
+            boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+            transition: 'all 0.2s'
+          }
+        }, '➤')
+      ]),
 
-      // Send button
-      React.createElement('button', {
-        key: 'send-btn',
-        type: 'submit',
-        disabled: !inputText.trim() || isProcessing,
+      // Listening indicator
+      isListening && React.createElement('div', {
+        key: 'listening-indicator',
         style: {
-          background: inputText.trim() ? '#0fc7b9' : '#d1d5db',
-          color: 'white',
-          border: 'none',
-          borderRadius: '50%',
-          width: '56px',
-          height: '56px',
-          cursor: inputText.trim() ? 'pointer' : 'not-allowed',
-          fontSize: '1.5rem',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          flexShrink: 0,
-          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
-          transition: 'all 0.2s'
+          textAlign: 'center',
+          marginTop: '0.75rem',
+          color: '#EA6A47',
+          fontSize: '0.875rem',
+          fontWeight: 'bold'
         }
-      }, '➤')
-    ]),
-
-    // Listening indicator
-    isListening && React.createElement('div', {
-      key: 'listening-indicator',
-      style: {
-        textAlign: 'center',
-        marginTop: '0.75rem',
-        color: '#EA6A47',
-        fontSize: '0.875rem',
-        fontWeight: 'bold'
-      }
-    }, '🎤 Listening... speak now')
+      }, '🎤 Listening... speak now')
+    ])
   ]);
 };
 
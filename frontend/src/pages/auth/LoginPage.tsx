@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import { Link, Navigate, useSearchParams } from 'react-router-dom'
+import { authService } from '../../services/authService'
+import { AuthCard, authInputClass, authButtonClass, getAuthErrorMessage, getSafeRedirect } from '../../components/auth/AuthCard'
+
+export const LoginPage = () => {
+  const [searchParams] = useSearchParams()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const redirect = getSafeRedirect(searchParams.get('redirect'))
+
+  if (authService.getCurrentUser()) {
+    return <Navigate to={redirect} replace />
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      await authService.login(email.trim(), password)
+      // Full reload so every service starts from this user's data
+      window.location.assign(redirect)
+    } catch (err) {
+      setError(getAuthErrorMessage(err, 'Unable to sign in. Please try again.'))
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AuthCard title="Welcome back" subtitle="Sign in to your kitchen">
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        {error && (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700">Email address</label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className={authInputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700">Password</label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={authInputClass}
+          />
+        </div>
+
+        <button type="submit" disabled={isSubmitting} className={authButtonClass}>
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+
+      <p className="mt-6 text-center text-sm text-gray-600">
+        New here?{' '}
+        <Link
+          to={`/register${redirect !== '/' ? `?redirect=${encodeURIComponent(redirect)}` : ''}`}
+          className="font-bold text-[#035b49] hover:text-[#2a6f6f]"
+        >
+          Create an account
+        </Link>
+      </p>
+    </AuthCard>
+  )
+}
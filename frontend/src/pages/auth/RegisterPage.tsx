@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { Link, Navigate, useSearchParams } from 'react-router-dom'
+import { authService } from '../../services/authService'
+import { AuthCard, authInputClass, authButtonClass, getAuthErrorMessage, getSafeRedirect } from '../../components/auth/AuthCard'
+
+export const RegisterPage = () => {
+  const [searchParams] = useSearchParams()
+  const [formData, setFormData] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+    password: '',
+    confirmPassword: ''
+  })
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const redirect = getSafeRedirect(searchParams.get('redirect'))
+
+  if (authService.getCurrentUser()) {
+    return <Navigate to={redirect} replace />
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (formData.password.length < 6) {
+      setError('Password must be at least 6 characters')
+      return
+    }
+    if (formData.password !== formData.confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await authService.register({
+        firstName: formData.firstName.trim(),
+        lastName: formData.lastName.trim(),
+        email: formData.email.trim(),
+        password: formData.password
+      })
+      // Full reload so every service starts from this user's data
+      window.location.assign(redirect)
+    } catch (err) {
+      setError(getAuthErrorMessage(err, 'Unable to create your account. Please try again.'))
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AuthCard title="Create your account" subtitle="Your recipes, plans and lists, on every device">
+      <form className="space-y-5" onSubmit={handleSubmit}>
+        {error && (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">First name</label>
+            <input
+              id="firstName"
+              name="firstName"
+              autoComplete="given-name"
+              required
+              value={formData.firstName}
+              onChange={handleChange}
+              className={authInputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">Last name</label>
+            <input
+              id="lastName"
+              name="lastName"
+              autoComplete="family-name"
+              required
+              value={formData.lastName}
+              onChange={handleChange}
+              className={authInputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700">Email address</label>
+          <input
+            id="email"
+            name="email"
+            type="email"
+            autoComplete="email"
+            required
+            value={formData.email}
+            onChange={handleChange}
+            className={authInputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700">Password</label>
+          <input
+            id="password"
+            name="password"
+            type="password"
+            autoComplete="new-password"
+            required
+            value={formData.password}
+            onChange={handleChange}
+            className={authInputClass}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">Confirm password</label>
+          <input
+            id="confirmPassword"
+            name="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            required
+            value={formData.confirmPassword}
+            onChange={handleChange}
+            className={authInputClass}
+          />
+        </div>
+
+        <button type="submit" disabled={isSubmitting} className={authButtonClass}>
+          {isSubmitting ? 'Creating account...' : 'Create account'}
+        </button>
+      </form>
+
+      <p className="mt-6 text-center text-sm text-gray-600">
+        Already have an account?{' '}
+        <Link
+          to={`/login${redirect !== '/' ? `?redirect=${encodeURIComponent(redirect)}` : ''}`}
+          className="font-bold text-[#035b49] hover:text-[#2a6f6f]"
+        >
+          Sign in
+        </Link>
+      </p>
+    </AuthCard>
+  )
+}
@@ -4,9 +4,13 @@ import { Recipe } from '../../types/recipe'
 import { mealPlanService } from '../../services/mealPlanService'
 import { recipeService } from '../../services/recipeService'
 import { shoppingListService } from '../../services/shoppingListService'
+import { historyService } from '../../services/historyService'
+import { cookingService, describeCookedMeal } from '../../services/cookingService'
 import { RecipeForm } from '../../components/recipes/RecipeForm'
 import { SmartMealPlannerModal } from '../../components/meal-planning/SmartMealPlannerModal'
 import { RecipeViewModal, ShoppingListAddResult } from '../../components/meal-planning/RecipeViewModal'
+import { ShoppingListPreviewModal } from '../../components/meal-planning/ShoppingListPreviewModal'
+import { RecipeIngredient, scaleIngredientsForShopping, servingsFactor } from '../../utils/recipeScaling'
 
 interface RecipeSelectionModalProps {
   isOpen: boolean
@@ -220,6 +224,14 @@ const RecipeSelectionModal: React.FC<RecipeSelectionModalProps> = ({
   ])
 }
 
+// How each clear action reads in the undo history; meal types read "Clear lunch meals"
+const CLEAR_LABELS: Record<string, string> = {
+  week: 'Clear week',
+  all: 'Clear all meals',
+  ai: 'Clear AI recipes',
+  selected: 'Clear selected days'
+}
+
 export const MealPlanningPage: React.FC = () => {
   const [currentDate, setCurrentDate] = useState(new Date())
   const [filters, setFilters] = useState<MealPlanFilters>(DEFAULT_MEAL_PLAN_FILTERS)
@@ -236,6 +248,12 @@ export const MealPlanningPage: React.FC = () => {
   const [clearAction, setClearAction] = useState<string | null>(null)
   const [isSelectingDays, setIsSelectingDays] = useState(false)
   const [selectedDates, setSelectedDates] = useState<Set<string>>(new Set())
+  // Ingredients waiting to be checked against the pantry before they go on the list
+  const [shoppingPreview, setShoppingPreview] = useState<{
+    ingredients: RecipeIngredient[]
+    contextLabel: string
+    resolve: (result: ShoppingListAddResult) => void
+  } | null>(null)
 
   const toggleDaySelection = (date: string) => {
     setSelectedDates(prev => {
@@ -318,9 +336,40 @@ export const MealPlanningPage: React.FC = () => {
     }
   }
 
-  const handleAddRecipeIngredientsToShoppingList = async (recipe: Recipe): Promise<ShoppingListAddResult> => {
-    const ingredients = extractIngredientsForShopping(recipe as any)
-    return addIngredientsGroupToShoppingList(ingredients, `from "${recipe.name}"`)
+  // Show what the pantry already covers and add the rest once the user confirms;
+  // resolves without a message or error if they cancel
+  const previewIngredientsAgainstPantry = (
+    ingredients: RecipeIngredient[],
+    contextLabel: string
+  ): Promise<ShoppingListAddResult> => {
+    if (ingredients.length === 0) {
+      return addIngredientsGroupToShoppingList(ingredients, contextLabel)
+    }
+    return new Promise(resolve => setShoppingPreview({ ingredients, contextLabel, resolve }))
+  }
+
+  const handleConfirmShoppingPreview = async (ingredients: string[]) => {
+    if (!shoppingPreview) return
+    const result = await addIngredientsGroupToShoppingList(ingredients, shoppingPreview.contextLabel)
+    shoppingPreview.resolve(result)
+    setShoppingPreview(null)
+  }
+
+  const handleCloseShoppingPreview = () => {
+    shoppingPreview?.resolve({ success: false, addedCount: 0 })
+    setShoppingPreview(null)
+  }
+
+  // A planned meal's ingredients, scaled to the servings it's planned for
+  const extractPlannedMealIngredients = (meal: PlannedMeal, servings: number | undefined = meal.servings) =>
+    scaleIngredientsForShopping(
+      extractIngredientsForShopping(meal.recipe as any),
+      servingsFactor(servings, meal.recipe.servings || 4)
+    )
+
+  const handleAddPlannedMealToShoppingList = async (meal: PlannedMeal, servings?: number): Promise<ShoppingListAddResult> => {
+    const ingredients = extractPlannedMealIngredients(meal, servings)
+    return addIngredientsGroupToShoppingList(ingredients, `from "${meal.recipe.name}"`)
   }
 
   const handleAddDayToShoppingList = async (date: string): Promise<ShoppingListAddResult> => {
@@ -335,11 +384,11 @@ export const MealPlanningPage: React.FC = () => {
 
     const ingredients: Array<string | { text?: string; quantity?: string | number | null; unit?: string | null; name?: string | null }> = []
     mealsForDate.forEach(meal => {
-      ingredients.push(...extractIngredientsForShopping(meal.recipe as any))
+      ingredients.push(...extractPlannedMealIngredients(meal))
     })
 
     const friendlyDate = new Date(`${date}T00:00:00`).toLocaleDateString()
-    return addIngredientsGroupToShoppingList(ingredients, `for ${friendlyDate}`)
+    return previewIngredientsAgainstPantry(ingredients, `for ${friendlyDate}`)
   }
 
   const handleAddWeekToShoppingList = async (): Promise<ShoppingListAddResult> => {
@@ -357,10 +406,10 @@ export const MealPlanningPage: React.FC = () => {
 
     const ingredients: Array<string | { text?: string; quantity?: string | number | null; unit?: string | null; name?: string | null }> = []
     weekMeals.forEach(meal => {
-      ingredients.push(...extractIngredientsForShopping(meal.recipe as any))
+      ingredients.push(...extractPlannedMealIngredients(meal))
     })
 
-    return addIngredientsGroupToShoppingList(ingredients, 'for this week')
+    return previewIngredientsAgainstPantry(ingredients, 'for this week')
   }
 
   const handleAddSelectedDaysToShoppingList = async (): Promise<ShoppingListAddResult> => {
@@ -385,14 +434,14 @@ export const MealPlanningPage: React.FC = () => {
 
     const ingredients: Array<string | { text?: string; quantity?: string | number | null; unit?: string | null; name?: string | null }> = []
     selectedMeals.forEach(meal => {
-      ingredients.push(...extractIngredientsForShopping(meal.recipe as any))
+      ingredients.push(...extractPlannedMealIngredients(meal))
     })
 
     const friendlyLabel = sortedDates
       .map(date => new Date(`${date}T00:00:00`).toLocaleDateString())
       .join(', ')
 
-    const result = await addIngredientsGroupToShoppingList(ingredients, `for ${friendlyLabel}`)
+    const result = await previewIngredientsAgainstPantry(ingredients, `for ${friendlyLabel}`)
     if (result.success) {
       resetDaySelection()
     }
@@ -469,8 +518,23 @@ export const MealPlanningPage: React.FC = () => {
     setShowRecipeForm(true)
   }
 
+  // Not recorded in the undo history: the pantry it takes from is on the server
+  const handleMarkMealCooked = async (meal: PlannedMeal) => {
+    if (meal.cookedAt) return
+    if (!confirm(`Mark "${meal.recipe.name}" as cooked? Its ingredients will be taken out of your pantry.`)) return
+
+    try {
+      const cooked = await cookingService.markCooked(meal)
+      loadPlannedMeals()
+      alert(describeCookedMeal(meal.recipe.name, cooked))
+    } catch (error: any) {
+      console.error('Error marking meal as cooked:', error)
+      alert(error.response?.data?.error || 'Failed to mark the meal as cooked. Please try again.')
+    }
+  }
+
   const handleRemoveMeal = (date: string, mealSlot: MealSlot) => {
-    mealPlanService.removePlannedMeal(date, mealSlot)
+    historyService.record(`Remove ${mealSlot} on ${date}`, () => mealPlanService.removePlannedMeal(date, mealSlot))
     loadPlannedMeals()
   }
 
@@ -519,7 +583,8 @@ export const MealPlanningPage: React.FC = () => {
   const handleSaveEditedRecipe = (editedRecipe: Recipe) => {
     if (viewingRecipe) {
       // Update the meal with the edited recipe
-      mealPlanService.addPlannedMeal(viewingRecipe.date, viewingRecipe.mealSlot, editedRecipe)
+      const planned = mealPlanService.getPlannedMeal(viewingRecipe.date, viewingRecipe.mealSlot)
+      mealPlanService.addPlannedMeal(viewingRecipe.date, viewingRecipe.mealSlot, editedRecipe, planned?.servings)
       loadPlannedMeals()
     }
   }
@@ -601,7 +666,14 @@ export const MealPlanningPage: React.FC = () => {
     setShowClearConfirm(true)
   }
 
+  // Every clear can be undone from the header or by asking Betsy
   const executeClearAction = () => {
+    if (!clearAction) return
+    const label = CLEAR_LABELS[clearAction] || `Clear ${clearAction} meals`
+    historyService.record(label, runClearAction)
+  }
+
+  const runClearAction = () => {
     switch (clearAction) {
       case 'week':
         handleClearWeek()
@@ -679,11 +751,11 @@ export const MealPlanningPage: React.FC = () => {
     mealPlanService.removePlannedMeal(sourceDate, sourceMealSlot)
 
     // Add the dragged meal to the target slot
-    mealPlanService.addPlannedMeal(targetDate, targetMealSlot, meal.recipe)
+    mealPlanService.addPlannedMeal(targetDate, targetMealSlot, meal.recipe, meal.servings)
 
     // If there was a meal in the target slot, move it to the source slot
     if (targetMeal) {
-      mealPlanService.addPlannedMeal(sourceDate, sourceMealSlot, targetMeal.recipe)
+      mealPlanService.addPlannedMeal(sourceDate, sourceMealSlot, targetMeal.recipe, targetMeal.servings)
     }
 
     // Reload the planned meals to reflect the changes
@@ -757,6 +829,8 @@ export const MealPlanningPage: React.FC = () => {
     ])
   }
 
+  const viewingMeal = viewingRecipe ? plannedMeals[`${viewingRecipe.date}-${viewingRecipe.mealSlot}`] : undefined
+
   return React.createElement('div', null, [
     // Header
     React.createElement('div', {
@@ -1175,6 +1249,16 @@ export const MealPlanningPage: React.FC = () => {
                 },
                 title: plannedMeal.recipe.name
               }, plannedMeal.recipe.name.length > 100 ? plannedMeal.recipe.name.substring(0, 100) + '...' : plannedMeal.recipe.name),
+              plannedMeal.cookedAt && React.createElement('div', {
+                key: 'cooked-badge',
+                style: {
+                  fontSize: '0.75rem',
+                  color: '#10b981',
+                  fontWeight: 'bold',
+                  textAlign: 'center'
+                },
+                title: `Cooked ${new Date(plannedMeal.cookedAt).toLocaleString()}`
+              }, '✓ Cooked'),
               React.createElement('div', {
                 key: 'actions',
                 className: 'meal-card-actions',
@@ -1211,7 +1295,7 @@ export const MealPlanningPage: React.FC = () => {
                   key: 'add-shopping',
                   onClick: async (e: React.MouseEvent) => {
                     e.stopPropagation()
-                    const result = await handleAddRecipeIngredientsToShoppingList(plannedMeal.recipe)
+                    const result = await handleAddPlannedMealToShoppingList(plannedMeal)
                     if (result.success && result.message) {
                       alert(result.message)
                     } else if (result.error) {
@@ -1234,6 +1318,30 @@ export const MealPlanningPage: React.FC = () => {
                   },
                   title: 'Add to shopping list'
                 }, '🛒'),
+                React.createElement('button', {
+                  key: 'cooked',
+                  onClick: (e: React.MouseEvent) => {
+                    e.stopPropagation()
+                    handleMarkMealCooked(plannedMeal)
+                  },
+                  disabled: !!plannedMeal.cookedAt,
+                  style: {
+                    background: 'transparent',
+                    border: 'none',
+                    fontSize: '1.25rem',
+                    cursor: plannedMeal.cookedAt ? 'default' : 'pointer',
+                    opacity: plannedMeal.cookedAt ? 0.4 : 1,
+                    padding: '0.25rem',
+                    transition: 'transform 0.2s'
+                  },
+                  onMouseEnter: (e) => {
+                    (e.currentTarget as HTMLButtonElement).style.transform = 'scale(1.25)'
+                  },
+                  onMouseLeave: (e) => {
+                    (e.currentTarget as HTMLButtonElement).style.transform = 'scale(1)'
+                  },
+                  title: plannedMeal.cookedAt ? 'Already cooked' : 'Mark as cooked'
+                }, '🍳'),
                 React.createElement('button', {
                   key: 'remove',
                   onClick: (e: React.MouseEvent) => {
@@ -1297,7 +1405,13 @@ export const MealPlanningPage: React.FC = () => {
       isAIGenerated: viewingRecipe ? isAIGenerated(viewingRecipe.recipe) : false,
       onSaveRecipe: handleSaveEditedRecipe,
       onReplaceMeal: handleReplaceMeal,
-      onAddToShoppingList: viewingRecipe ? () => handleAddRecipeIngredientsToShoppingList(viewingRecipe.recipe) : undefined
+      servings: viewingMeal?.servings,
+      onServingsChange: (servings: number) => {
+        if (!viewingRecipe) return
+        mealPlanService.setPlannedMealServings(viewingRecipe.date, viewingRecipe.mealSlot, servings)
+        loadPlannedMeals()
+      },
+      onAddToShoppingList: viewingMeal ? (servings: number) => handleAddPlannedMealToShoppingList(viewingMeal, servings) : undefined
     }),
     // Clear Confirmation Modal
     showClearConfirm && React.createElement('div', {
@@ -1389,6 +1503,14 @@ export const MealPlanningPage: React.FC = () => {
       onClose: () => setShowSmartPlanner(false),
       onMealPlanGenerated: handleSmartMealPlanGenerated,
       currentDate: currentDate
+    }),
+    React.createElement(ShoppingListPreviewModal, {
+      key: 'shopping-list-preview-modal',
+      isOpen: shoppingPreview !== null,
+      ingredients: shoppingPreview?.ingredients || [],
+      contextLabel: shoppingPreview?.contextLabel || '',
+      onConfirm: handleConfirmShoppingPreview,
+      onClose: handleCloseShoppingPreview
     })
   ])
 }
\ No newline at end of file
@@ -1,74 +1,130 @@
 import { useState, useEffect, useCallback } from 'react'
-import { pantryService, PantryItem } from '../../services/pantryService'
+import {
+  pantryService,
+  parsePantryQuantity,
+  PantryItem,
+  PantryItemInput,
+  PantrySummary,
+  PantryUnit,
+  PANTRY_UNITS
+} from '../../services/pantryService'
+
+const today = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+const emptyItem = () => ({
+  name: '',
+  quantity: '1',
+  unit: 'pieces' as PantryUnit,
+  category: '',
+  purchaseDate: today(),
+  expirationDate: ''
+})
+
+const formatQuantity = (item: PantryItem) => {
+  const amount = Number.isInteger(item.quantity) ? item.quantity : parseFloat(item.quantity.toFixed(2))
+  return item.unit === 'pieces' ? `${amount}` : `${amount} ${item.unit}`
+}
+
+const inputClass = 'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600'
 
 const PantryPage = () => {
   const [searchTerm, setSearchTerm] = useState('')
   const [showAddForm, setShowAddForm] = useState(false)
-  const [newItem, setNewItem] = useState({
-    name: '',
-    quantity: '',
-    category: '',
-    expirationDate: ''
-  })
+  const [showBulkForm, setShowBulkForm] = useState(false)
+  const [newItem, setNewItem] = useState(emptyItem)
+  const [bulkText, setBulkText] = useState('')
   const [items, setItems] = useState<PantryItem[]>([])
+  const [summary, setSummary] = useState<PantrySummary | null>(null)
+  const [expiringSoon, setExpiringSoon] = useState<PantryItem[]>([])
+  const [expired, setExpired] = useState<PantryItem[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   const loadPantryItems = useCallback(async () => {
     try {
-      setIsLoading(true)
       setError(null)
-      const pantryItems = await pantryService.getAllItems()
-      setItems(pantryItems)
+      const [pantry, soon, past] = await Promise.all([
+        pantryService.getAllItems(),
+        pantryService.getExpiringSoon(),
+        pantryService.getExpired()
+      ])
+      setItems(pantry.items)
+      setSummary(pantry.summary)
+      setExpiringSoon(soon)
+      setExpired(past)
     } catch (err) {
       console.error('Error loading pantry items:', err)
       setError('Failed to load pantry items. Please try again.')
-    } finally {
-      setIsLoading(false)
     }
   }, [])
 
   useEffect(() => {
-    loadPantryItems()
+    setIsLoading(true)
+    loadPantryItems().finally(() => setIsLoading(false))
   }, [loadPantryItems])
 
-  const filteredItems = items
-    .filter(item => item.name.toLowerCase().includes(searchTerm.toLowerCase()))
-    .map(item => {
-      const expiration = item.expirationDate ? new Date(item.expirationDate) : null
-      const sevenDaysFromNow = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+  const expiringIds = new Set(expiringSoon.map(item => item.id))
+  const expiredIds = new Set(expired.map(item => item.id))
 
-      return {
-        ...item,
-        quantityDisplay: item.quantity || '—',
-        isExpiringSoon: expiration ? expiration <= sevenDaysFromNow : false
-      }
-    })
+  const filteredItems = items.filter(item => item.name.toLowerCase().includes(searchTerm.toLowerCase()))
 
   const handleAddItem = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!newItem.name.trim() || !newItem.quantity.trim()) {
-      alert('Item name and quantity are required.')
+    const quantity = parseFloat(newItem.quantity)
+    if (!newItem.name.trim() || !Number.isFinite(quantity) || quantity < 0) {
+      alert('Item name and a quantity of 0 or more are required.')
       return
     }
 
     try {
       await pantryService.addItem({
         name: newItem.name,
-        quantity: newItem.quantity,
+        quantity,
+        unit: newItem.unit,
         category: newItem.category || undefined,
+        purchaseDate: newItem.purchaseDate || undefined,
         expirationDate: newItem.expirationDate || undefined
       })
       await loadPantryItems()
       setShowAddForm(false)
-      setNewItem({ name: '', quantity: '', category: '', expirationDate: '' })
+      setNewItem(emptyItem())
     } catch (err) {
       console.error('Error adding pantry item:', err)
       alert('Failed to add pantry item. Please try again.')
     }
   }
 
+  // One item per line, e.g. "2 lbs rice" or "1 gallon milk"
+  const handleBulkAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const inputs: PantryItemInput[] = bulkText
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => ({ ...parsePantryQuantity(line), purchaseDate: today() }))
+      .filter(input => input.name)
+
+    if (inputs.length === 0) {
+      alert('Add at least one item, one per line.')
+      return
+    }
+
+    try {
+      await pantryService.addItems(inputs)
+      await loadPantryItems()
+      setShowBulkForm(false)
+      setBulkText('')
+    } catch (err) {
+      console.error('Error adding pantry items:', err)
+      alert('Failed to add pantry items. Please try again.')
+    }
+  }
+
   const handleDeleteItem = async (id: string) => {
     if (!confirm('Remove this pantry item?')) return
 
@@ -81,6 +137,18 @@ const PantryPage = () => {
     }
   }
 
+  const handleRemoveExpired = async () => {
+    if (!confirm(`Remove ${expired.length} expired item${expired.length === 1 ? '' : 's'} from your pantry?`)) return
+
+    try {
+      await pantryService.removeExpired()
+      await loadPantryItems()
+    } catch (err) {
+      console.error('Error removing expired pantry items:', err)
+      alert('Failed to remove expired items. Please try again.')
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -114,17 +182,28 @@ const PantryPage = () => {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Pantry Management</h1>
-          <p className="mt-2 text-gray-600 dark:text-gray-400">Manage your kitchen inventory</p>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Manage your kitchen inventory
+            {summary && ` · ${summary.totalItems} items, ${summary.expiringSoon} expiring soon, ${summary.expired} expired`}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => { setShowBulkForm(true); setShowAddForm(false) }}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Add Several
+          </button>
+          <button
+            onClick={() => { setShowAddForm(true); setShowBulkForm(false) }}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Add Item
+          </button>
         </div>
-        <button
-          onClick={() => setShowAddForm(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Add Item
-        </button>
       </div>
 
       {showAddForm && (
@@ -138,45 +217,72 @@ const PantryPage = () => {
                   type="text"
                   value={newItem.name}
                   onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
-                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
+                  className={inputClass}
                   required
                 />
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</label>
-                <input
-                  type="text"
-                  value={newItem.quantity}
-                  onChange={(e) => setNewItem({ ...newItem, quantity: e.target.value })}
-                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
-                  required
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={newItem.quantity}
+                    onChange={(e) => setNewItem({ ...newItem, quantity: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Unit</label>
+                  <select
+                    value={newItem.unit}
+                    onChange={(e) => setNewItem({ ...newItem, unit: e.target.value as PantryUnit })}
+                    className={inputClass}
+                  >
+                    {PANTRY_UNITS.map(unit => (
+                      <option key={unit} value={unit}>{unit}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Category</label>
                 <select
                   value={newItem.category}
                   onChange={(e) => setNewItem({ ...newItem, category: e.target.value })}
-                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
-                  required
+                  className={inputClass}
                 >
                   <option value="">Select category</option>
                   <option value="produce">Produce</option>
                   <option value="dairy">Dairy</option>
                   <option value="meat">Meat</option>
+                  <option value="bakery">Bakery</option>
                   <option value="pantry">Pantry</option>
                   <option value="frozen">Frozen</option>
                   <option value="beverages">Beverages</option>
                 </select>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Expiration Date</label>
-                <input
-                  type="date"
-                  value={newItem.expirationDate}
-                  onChange={(e) => setNewItem({ ...newItem, expirationDate: e.target.value })}
-                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white dark:focus:ring-blue-600 dark:focus:border-blue-600"
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Purchased</label>
+                  <input
+                    type="date"
+                    value={newItem.purchaseDate}
+                    onChange={(e) => setNewItem({ ...newItem, purchaseDate: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Expiration Date</label>
+                  <input
+                    type="date"
+                    value={newItem.expirationDate}
+                    onChange={(e) => setNewItem({ ...newItem, expirationDate: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
               </div>
             </div>
             <div className="flex justify-end space-x-3">
@@ -198,6 +304,70 @@ const PantryPage = () => {
         </div>
       )}
 
+      {showBulkForm && (
+        <div className="bg-white shadow rounded-lg p-6 dark:bg-gray-800 dark:border-gray-700">
+          <h3 className="text-lg font-medium text-gray-900 mb-1 dark:text-white">Add Several Items</h3>
+          <p className="text-sm text-gray-500 mb-4 dark:text-gray-400">One per line, e.g. "2 lbs rice" or "6 eggs"</p>
+          <form onSubmit={handleBulkAdd} className="space-y-4">
+            <textarea
+              value={bulkText}
+              onChange={(e) => setBulkText(e.target.value)}
+              rows={6}
+              className={inputClass}
+              placeholder={'2 lbs rice\n1 gallon milk\n6 eggs'}
+            />
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setShowBulkForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800"
+              >
+                Add Items
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {(expiringSoon.length > 0 || expired.length > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {expiringSoon.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 dark:bg-yellow-900/20 dark:border-yellow-800">
+              <h3 className="text-sm font-medium text-yellow-800 dark:text-yellow-400">Expiring soon</h3>
+              <ul className="mt-2 space-y-1 text-sm text-yellow-700 dark:text-yellow-300">
+                {expiringSoon.map(item => (
+                  <li key={item.id}>{item.name} · {item.expirationDate}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {expired.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 dark:bg-red-900/20 dark:border-red-800">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium text-red-800 dark:text-red-400">Expired</h3>
+                <button
+                  onClick={handleRemoveExpired}
+                  className="text-sm font-medium text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                >
+                  Remove expired
+                </button>
+              </div>
+              <ul className="mt-2 space-y-1 text-sm text-red-700 dark:text-red-300">
+                {expired.map(item => (
+                  <li key={item.id}>{item.name} · {item.expirationDate}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="bg-white shadow rounded-lg dark:bg-gray-800 dark:border-gray-700">
         <div className="px-4 py-5 sm:p-6">
           <div className="flex justify-between items-center mb-4">
@@ -216,13 +386,14 @@ const PantryPage = () => {
             </div>
           </div>
 
-          <div className="overflow-hidden">
+          <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
               <thead className="bg-gray-50 dark:bg-gray-700">
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-300">Item</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-300">Quantity</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-300">Category</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-300">Purchased</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-300">Expiration</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider dark:text-gray-300">Actions</th>
                 </tr>
@@ -234,13 +405,22 @@ const PantryPage = () => {
                       <div className="text-sm font-medium text-gray-900 dark:text-white">{item.name}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900 dark:text-gray-300">{item.quantityDisplay}</div>
+                      <div className="text-sm text-gray-900 dark:text-gray-300">{formatQuantity(item)}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900 dark:text-gray-300">{item.category || '—'}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className={`text-sm ${item.isExpiringSoon ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-gray-300'}`}>
+                      <div className="text-sm text-gray-900 dark:text-gray-300">{item.purchaseDate || '—'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className={`text-sm ${
+                        expiredIds.has(item.id)
+                          ? 'text-red-600 dark:text-red-400'
+                          : expiringIds.has(item.id)
+                            ? 'text-yellow-600 dark:text-yellow-400'
+                            : 'text-gray-900 dark:text-gray-300'
+                      }`}>
                         {item.expirationDate || '—'}
                       </div>
                     </td>
@@ -273,4 +453,4 @@ const PantryPage = () => {
   )
 }
 
-export default PantryPage
\ No newline at end of file
+export default PantryPage
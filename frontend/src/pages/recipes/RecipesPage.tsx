@@ -2,7 +2,9 @@ import { useState, useEffect, useCallback } from 'react'
 import { RecipeViewModal, ShoppingListAddResult } from '../../components/meal-planning/RecipeViewModal'
 import { shoppingListService } from '../../services/shoppingListService'
 import { recipeService } from '../../services/recipeService'
+import { historyService } from '../../services/historyService'
 import { Recipe, RecipeCategory } from '../../types/recipe'
+import { scaleIngredientsForShopping, servingsFactor } from '../../utils/recipeScaling'
 
 const RecipesPage = () => {
   const [searchTerm, setSearchTerm] = useState('')
@@ -12,6 +14,8 @@ const RecipesPage = () => {
   const [editingRecipe, setEditingRecipe] = useState<any>(null)
   const [showRecipeView, setShowRecipeView] = useState(false)
   const [viewingRecipeDetail, setViewingRecipeDetail] = useState<{ formatted: any; raw: any } | null>(null)
+  // Servings picked on a card or in the recipe view, by recipe id
+  const [servingsByRecipe, setServingsByRecipe] = useState<Record<string, number>>({})
   const [newRecipe, setNewRecipe] = useState({
     name: '',
     description: '',
@@ -178,7 +182,12 @@ const RecipesPage = () => {
     }
   }
 
-  const handleAddRecipeIngredientsToShoppingList = async (recipeId: string | number): Promise<ShoppingListAddResult> => {
+  const setRecipeServings = (recipeId: string | number, servings: number) => {
+    if (servings < 1) return
+    setServingsByRecipe(prev => ({ ...prev, [String(recipeId)]: servings }))
+  }
+
+  const handleAddRecipeIngredientsToShoppingList = async (recipeId: string | number, servings?: number): Promise<ShoppingListAddResult> => {
     try {
       const recipeIdStr = String(recipeId)
 
@@ -191,7 +200,10 @@ const RecipesPage = () => {
         recipeData = details.raw
       }
 
-      const ingredients = buildShoppingIngredientsFromRecipe(recipeData)
+      const ingredients = scaleIngredientsForShopping(
+        buildShoppingIngredientsFromRecipe(recipeData),
+        servingsFactor(servings ?? servingsByRecipe[recipeIdStr], recipeData.servings ?? 4)
+      )
       if (!ingredients.length) {
         return {
           success: false,
@@ -371,7 +383,7 @@ const RecipesPage = () => {
     if (!confirm('Are you sure you want to delete this recipe?')) return
     
     try {
-      await recipeService.deleteRecipe(recipeId)
+      await historyService.record(`Delete ${recipes.find(recipe => recipe.id === recipeId)?.name || 'recipe'}`, () => recipeService.deleteRecipe(recipeId))
       await loadRecipes()
     } catch (error) {
       console.error('Error deleting recipe:', error)
@@ -481,7 +493,21 @@ const RecipesPage = () => {
                     <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                     </svg>
-                    {recipe.servings ?? '—'} servings
+                    <button
+                      onClick={() => setRecipeServings(recipe.id, (servingsByRecipe[recipe.id] ?? recipe.servings ?? 4) - 1)}
+                      className="px-1 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                      aria-label="Fewer servings"
+                    >
+                      −
+                    </button>
+                    {servingsByRecipe[recipe.id] ?? recipe.servings ?? '—'} servings
+                    <button
+                      onClick={() => setRecipeServings(recipe.id, (servingsByRecipe[recipe.id] ?? recipe.servings ?? 4) + 1)}
+                      className="px-1 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                      aria-label="More servings"
+                    >
+                      +
+                    </button>
                   </span>
                 </div>
                 <div className="flex gap-2 items-center justify-between flex-shrink-0">
@@ -987,7 +1013,9 @@ const RecipesPage = () => {
           }}
           recipe={viewingRecipeDetail.formatted}
           isAIGenerated={false}
-          onAddToShoppingList={() => handleAddRecipeIngredientsToShoppingList(viewingRecipeDetail.raw.id)}
+          servings={servingsByRecipe[String(viewingRecipeDetail.raw.id)]}
+          onServingsChange={(servings) => setRecipeServings(viewingRecipeDetail.raw.id, servings)}
+          onAddToShoppingList={(servings) => handleAddRecipeIngredientsToShoppingList(viewingRecipeDetail.raw.id, servings)}
         />
       )}
     </div>
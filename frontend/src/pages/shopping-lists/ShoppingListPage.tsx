@@ -1,14 +1,34 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { shoppingListService, enhancedShoppingListService, ShoppingListTemplate } from '../../services/shoppingListService';
+import { shoppingListService, enhancedShoppingListService, ShoppingListTemplate, DEFAULT_LIST_ID } from '../../services/shoppingListService';
+import { shoppingListEvents, LiveStatus } from '../../services/shoppingListEvents';
 import { aiService } from '../../services/aiService';
 import { recipeService } from '../../services/recipeService';
-import { ShoppingListItem } from '../../types/shoppingList';
+import { ShoppingList, ShoppingListItem } from '../../types/shoppingList';
 import { Recipe } from '../../types/recipe';
 import { voiceService, VoiceCommand } from '../../services/voiceService';
+import { preferencesService } from '../../services/preferencesService';
+import { historyService } from '../../services/historyService';
+import { pantryService, toRestockItems } from '../../services/pantryService';
+import { convertIngredientText, MeasurementSystem } from '../../utils/unitConversion';
 
 interface ShoppingListPageProps {}
 
+const listButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: '1px solid #d1d5db',
+  color: '#374151',
+  padding: '0.5rem 0.75rem',
+  borderRadius: '0.375rem',
+  cursor: 'pointer',
+  fontSize: '0.875rem',
+  minHeight: '44px'
+};
+
+// The change listener may have already re-read the new items from storage
+const appendNewItems = (list: ShoppingListItem[], added: ShoppingListItem[]) =>
+  [...list, ...added.filter(item => !list.some(existing => existing.id === item.id))];
+
 export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
   const navigate = useNavigate();
   const [items, setItems] = useState<ShoppingListItem[]>([]);
@@ -29,6 +49,13 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
   const [voiceTranscript, setVoiceTranscript] = useState('');
   const [voiceError, setVoiceError] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('offline');
+  const [draggedItemId, setDraggedItemId] = useState<string | null>(null);
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [activeListId, setActiveListId] = useState(DEFAULT_LIST_ID);
+  const [showArchived, setShowArchived] = useState(false);
+  const [measurementSystem, setMeasurementSystem] = useState<MeasurementSystem>(preferencesService.getMeasurementSystem());
+  const [showOriginalUnits, setShowOriginalUnits] = useState(false);
 
   useEffect(() => {
     const checkMobile = () => setIsMobile(window.innerWidth < 768);
@@ -49,17 +76,20 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
     checkAIStatus();
     loadTemplates();
 
-    // Subscribe to shopping list changes (for Betsy updates)
+    // Subscribe to shopping list changes (Betsy, sync and other household members)
     // Subscribe to both services since they're separate instances
     const unsubShoppingList = shoppingListService.subscribe(() => {
-      console.log('[ShoppingListPage] Shopping list changed (base), reloading...');
-      loadShoppingList();
+      refreshShoppingList();
     });
     const unsubEnhancedShoppingList = enhancedShoppingListService.subscribe(() => {
-      console.log('[ShoppingListPage] Shopping list changed (enhanced), reloading...');
-      loadShoppingList();
+      refreshShoppingList();
     });
 
+    // Stream edits made on other devices while the list is open
+    const disconnectLive = shoppingListEvents.connect();
+    const unsubLiveStatus = shoppingListEvents.subscribe(setLiveStatus);
+    const unsubPreferences = preferencesService.subscribe(preferences => setMeasurementSystem(preferences.measurementSystem));
+
     const unsubCommand = voiceService.onCommand(async (command) => {
       setVoiceError(null);
       await handleVoiceCommand(command);
@@ -80,6 +110,9 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
     return () => {
       unsubShoppingList();
       unsubEnhancedShoppingList();
+      unsubLiveStatus();
+      unsubPreferences();
+      disconnectLive();
       unsubCommand();
       unsubResult();
       unsubError();
@@ -91,6 +124,7 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
     try {
       setLoading(true);
       setError(null);
+      loadLists();
       const listItems = await enhancedShoppingListService.getShoppingListItems();
       setItems(listItems);
     } catch (err) {
@@ -101,6 +135,21 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
     }
   };
 
+  const loadLists = () => {
+    setLists(shoppingListService.getLists(true));
+    setActiveListId(shoppingListService.getActiveListId());
+  };
+
+  // Re-read the stored list without the loading screen, e.g. after a live update
+  const refreshShoppingList = async () => {
+    try {
+      loadLists();
+      setItems(await enhancedShoppingListService.getShoppingListItems());
+    } catch (err) {
+      console.error('Error refreshing shopping list:', err);
+    }
+  };
+
   const loadTemplates = async () => {
     try {
       const [defaultTemplates, storedTemplates] = await Promise.all([
@@ -200,91 +249,203 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
     }
   };
 
+  // List management: switching, naming and archiving lists
+  const switchList = (listId: string) => {
+    shoppingListService.setActiveListId(listId);
+    setShowArchived(false);
+  };
+
+  const createList = async () => {
+    const name = window.prompt('Name the new list', 'e.g. Costco run');
+    if (!name || !name.trim()) return;
+    try {
+      setError(null);
+      await shoppingListService.createList(name);
+    } catch (err) {
+      setError('Failed to create list');
+      console.error('Error creating list:', err);
+    }
+  };
+
+  const renameList = async (list: ShoppingList) => {
+    const name = window.prompt('Rename list', list.name);
+    if (!name || !name.trim() || name.trim() === list.name) return;
+    try {
+      setError(null);
+      await shoppingListService.renameList(list.id, name);
+    } catch (err) {
+      setError('Failed to rename list');
+      console.error('Error renaming list:', err);
+    }
+  };
+
+  const setListArchived = async (list: ShoppingList, archived: boolean) => {
+    try {
+      setError(null);
+      await shoppingListService.setListArchived(list.id, archived);
+    } catch (err) {
+      setError(archived ? 'Failed to archive list' : 'Failed to restore list');
+      console.error('Error archiving list:', err);
+    }
+  };
+
+  const deleteList = async (list: ShoppingList) => {
+    if (!window.confirm(`Delete "${list.name}" and everything on it?`)) return;
+    try {
+      setError(null);
+      await historyService.record(`Delete "${list.name}"`, () => shoppingListService.deleteList(list.id));
+    } catch (err) {
+      setError('Failed to delete list');
+      console.error('Error deleting list:', err);
+    }
+  };
+
+  const moveItemToList = async (item: ShoppingListItem, listId: string) => {
+    setItems(prev => prev.filter(i => i.id !== item.id));
+
+    try {
+      setError(null);
+      await shoppingListService.moveItemToList(item.id, listId);
+    } catch (err) {
+      setError('Failed to move item');
+      console.error('Error moving item:', err);
+      refreshShoppingList();
+    }
+  };
+
+  const openLists = lists.filter(list => !list.is_archived);
+  const archivedLists = lists.filter(list => list.is_archived);
+  const activeList = lists.find(list => list.id === activeListId);
+
+  // Items keep the text they were added with; only the display is converted
+  const convertedText = (item: ShoppingListItem) => convertIngredientText(item.item_text, measurementSystem);
+  const displayTextOf = (item: ShoppingListItem) => showOriginalUnits ? item.item_text : convertedText(item);
+  const hasConvertedUnits = items.some(item => convertedText(item) !== item.item_text);
+
+  // Edits show up immediately and reach the server through the sync outbox;
+  // if saving fails the list is re-read so the screen matches what was stored
   const addItem = async () => {
     if (!newItemText.trim()) return;
     
     try {
       setError(null);
       const newItem = await shoppingListService.addShoppingListItem(newItemText.trim());
-      setItems([...items, newItem]);
+      setItems(prev => appendNewItems(prev, [newItem]));
       setNewItemText('');
     } catch (err) {
       setError('Failed to add item');
       console.error('Error adding item:', err);
+      refreshShoppingList();
     }
   };
 
   const toggleItem = async (item: ShoppingListItem) => {
+    const is_checked = !item.is_checked;
+    setItems(prev => prev.map(i => i.id === item.id ? { ...i, is_checked } : i));
+
     try {
       setError(null);
-      const updatedItem = await shoppingListService.updateShoppingListItem(
-        item.id, 
-        { is_checked: !item.is_checked }
-      );
-      
-      setItems(items.map(i => i.id === item.id ? updatedItem : i));
+      await shoppingListService.updateShoppingListItem(item.id, { is_checked });
     } catch (err) {
       setError('Failed to update item');
       console.error('Error updating item:', err);
+      refreshShoppingList();
     }
   };
 
   const updateItemText = async (item: ShoppingListItem, newText: string) => {
     if (!newText.trim()) return;
+    const item_text = newText.trim();
+    setItems(prev => prev.map(i => i.id === item.id ? { ...i, item_text } : i));
     
     try {
       setError(null);
-      const updatedItem = await shoppingListService.updateShoppingListItem(
-        item.id, 
-        { item_text: newText.trim() }
-      );
-      
-      setItems(items.map(i => i.id === item.id ? updatedItem : i));
+      await shoppingListService.updateShoppingListItem(item.id, { item_text });
     } catch (err) {
       setError('Failed to update item');
       console.error('Error updating item:', err);
+      refreshShoppingList();
     }
   };
 
   const deleteItem = async (item: ShoppingListItem) => {
+    setItems(prev => prev.filter(i => i.id !== item.id));
+
     try {
       setError(null);
-      await shoppingListService.deleteShoppingListItem(item.id);
-      setItems(items.filter(i => i.id !== item.id));
+      await historyService.record(`Delete ${item.item_text}`, () => shoppingListService.deleteShoppingListItem(item.id));
     } catch (err) {
       setError('Failed to delete item');
       console.error('Error deleting item:', err);
+      refreshShoppingList();
     }
   };
 
   const clearCompleted = async () => {
+    setItems(prev => prev.filter(item => !item.is_checked));
+
     try {
       setError(null);
-      await shoppingListService.clearCompletedItems();
-      setItems(items.filter(item => !item.is_checked));
+      await historyService.record('Clear checked items', () => shoppingListService.clearCompletedItems());
     } catch (err) {
       setError('Failed to clear completed items');
       console.error('Error clearing completed items:', err);
+      refreshShoppingList();
+    }
+  };
+
+  // Checked-off items go into the pantry and off the list. Not undoable:
+  // undo would put them back on the list but leave them in the pantry.
+  const putAwayGroceries = async () => {
+    const checked = items.filter(item => item.is_checked);
+    if (!window.confirm(`Put ${checked.length} checked item${checked.length === 1 ? '' : 's'} away in the pantry?`)) return;
+
+    try {
+      setError(null);
+      const result = await pantryService.restock(checked.flatMap(toRestockItems));
+      setItems(prev => prev.filter(item => !item.is_checked));
+      await shoppingListService.clearCompletedItems();
+      window.alert(`Put away ${result.added + result.merged} item${result.added + result.merged === 1 ? '' : 's'}: ${result.added} new, ${result.merged} topped up.`);
+    } catch (err) {
+      setError('Failed to put groceries away');
+      console.error('Error putting groceries away:', err);
+      refreshShoppingList();
     }
   };
 
   const markAllAsComplete = async () => {
+    setItems(prev => prev.map(item => ({ ...item, is_checked: true })));
+
     try {
       setError(null);
-      const updatedItems = await Promise.all(
-        items.filter(item => !item.is_checked).map(item =>
-          shoppingListService.updateShoppingListItem(item.id, { is_checked: true })
-        )
-      );
-      
-      // Update all items to checked
-      setItems(items.map(item => ({
-        ...item,
-        is_checked: true
-      })));
+      await historyService.record('Check off every item', () => shoppingListService.markAllAsCompleted());
     } catch (err) {
       setError('Failed to mark all items as complete');
       console.error('Error marking all as complete:', err);
+      refreshShoppingList();
+    }
+  };
+
+  // Drop the dragged item in front of the target; positions are renumbered in list order
+  const moveItem = async (draggedId: string, targetId: string) => {
+    if (draggedId === targetId) return;
+
+    const current = itemsRef.current;
+    const dragged = current.find(i => i.id === draggedId);
+    if (!dragged) return;
+    const remaining = current.filter(i => i.id !== draggedId);
+    const targetIndex = remaining.findIndex(i => i.id === targetId);
+    if (targetIndex === -1) return;
+    const reordered = [...remaining.slice(0, targetIndex), dragged, ...remaining.slice(targetIndex)];
+    setItems(reordered.map((item, position) => ({ ...item, position })));
+
+    try {
+      setError(null);
+      await shoppingListService.reorderItems(reordered.map(i => i.id));
+    } catch (err) {
+      setError('Failed to reorder items');
+      console.error('Error reordering items:', err);
+      refreshShoppingList();
     }
   };
 
@@ -342,7 +503,7 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
         return;
       }
 
-      setItems([...items, ...addedItems]);
+      setItems(prev => appendNewItems(prev, addedItems));
       setSelectedRecipes(selectedRecipes.filter(id => id !== recipeId));
     } catch (err: any) {
       setError(err.message || 'Failed to add recipe ingredients');
@@ -376,7 +537,7 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
       
       // Update state once with all new items
       if (allNewItems.length > 0) {
-        setItems(prev => [...prev, ...allNewItems]);
+        setItems(prev => appendNewItems(prev, allNewItems));
       }
       
       setShowRecipeSelector(false);
@@ -444,7 +605,7 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
         if (!normalizedParam) return;
         try {
           const newItem = await shoppingListService.addShoppingListItem(normalizedParam);
-          setItems([...itemsRef.current, newItem]);
+          setItems(prev => appendNewItems(prev, [newItem]));
         } catch (err) {
           console.error('Voice add item failed:', err);
           setError('Voice command failed to add item');
@@ -473,7 +634,7 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
       }
       case 'consolidate_shopping_list': {
         try {
-          const consolidated = await enhancedShoppingListService.consolidateItems();
+          const consolidated = await historyService.record('Consolidate list', () => enhancedShoppingListService.consolidateItems());
           setItems(consolidated.items);
         } catch (err) {
           console.error('Consolidation failed:', err);
@@ -557,6 +718,23 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
             aiEnabled 
               ? (isMobile ? 'AI Available' : 'AI Recipe Integration Available')
               : `AI ${aiStatus === 'checking' ? 'initializing...' : 'unavailable'}`)
+        ]),
+
+        // Live Updates Indicator
+        liveStatus !== 'offline' && React.createElement('div', {
+          key: 'live-status',
+          title: 'Changes made on other devices appear here right away',
+          style: {
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            fontSize: isMobile ? '0.75rem' : '0.875rem',
+            color: liveStatus === 'live' ? '#10b981' : '#64748b'
+          }
+        }, [
+          React.createElement('span', { key: 'live-dot' }, liveStatus === 'live' ? '●' : '○'),
+          React.createElement('span', { key: 'live-text' },
+            liveStatus === 'live' ? 'Live updates on' : 'Connecting live updates...')
         ])
       ]),
       
@@ -633,7 +811,7 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
           key: 'consolidate-btn',
           onClick: async () => {
             try {
-              const consolidated = await enhancedShoppingListService.consolidateItems();
+              const consolidated = await historyService.record('Consolidate list', () => enhancedShoppingListService.consolidateItems());
               setItems(consolidated.items);
             } catch (err) {
               setError('Failed to consolidate list');
@@ -654,6 +832,25 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
           }
         }, ['🔗', 'Consolidate']),
         
+        // Put Away Button
+        items.some(item => item.is_checked) && React.createElement('button', {
+          key: 'put-away-btn',
+          onClick: putAwayGroceries,
+          style: {
+            background: '#10b981',
+            color: 'white',
+            border: 'none',
+            padding: isMobile ? '0.75rem 1rem' : '0.5rem 1rem',
+            borderRadius: '0.375rem',
+            cursor: 'pointer',
+            fontSize: isMobile ? '0.8125rem' : '0.875rem',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.25rem',
+            minHeight: '44px'
+          }
+        }, ['🥫', isMobile ? 'Put Away' : 'Put Away in Pantry']),
+
         // Clear Completed Button
         items.some(item => item.is_checked) && React.createElement('button', {
           key: 'clear-btn',
@@ -1085,6 +1282,102 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
         border: '1px solid #e5e7eb'
       }
     }, [
+      // List switcher
+      React.createElement('div', {
+        key: 'list-bar',
+        style: {
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '0.5rem',
+          marginBottom: '1rem'
+        }
+      }, [
+        React.createElement('select', {
+          key: 'list-select',
+          value: activeListId,
+          onChange: (e) => switchList(e.target.value),
+          'aria-label': 'Shopping list',
+          style: {
+            flex: isMobile ? '1 1 100%' : '0 1 16rem',
+            padding: '0.625rem',
+            border: '1px solid #d1d5db',
+            borderRadius: '0.375rem',
+            background: '#ffffff',
+            color: '#1a1a1a',
+            fontSize: '1rem',
+            fontWeight: 600
+          }
+        }, openLists.map(list =>
+          React.createElement('option', { key: list.id, value: list.id }, list.name)
+        )),
+
+        React.createElement('button', {
+          key: 'new-list-btn',
+          onClick: createList,
+          style: listButtonStyle
+        }, '+ New list'),
+
+        activeList && React.createElement('button', {
+          key: 'rename-list-btn',
+          onClick: () => renameList(activeList),
+          style: listButtonStyle
+        }, 'Rename'),
+
+        activeList && activeList.id !== DEFAULT_LIST_ID && React.createElement('button', {
+          key: 'archive-list-btn',
+          onClick: () => setListArchived(activeList, true),
+          title: 'Hide this list; you can restore it later',
+          style: listButtonStyle
+        }, 'Archive'),
+
+        archivedLists.length > 0 && React.createElement('button', {
+          key: 'archived-toggle-btn',
+          onClick: () => setShowArchived(!showArchived),
+          style: { ...listButtonStyle, border: 'none', color: '#64748b' }
+        }, `${showArchived ? 'Hide' : 'Show'} archived (${archivedLists.length})`)
+      ]),
+
+      // Archived lists
+      showArchived && archivedLists.length > 0 && React.createElement('div', {
+        key: 'archived-lists',
+        style: {
+          marginBottom: '1rem',
+          padding: '0.75rem',
+          background: '#f9fafb',
+          borderRadius: '0.375rem',
+          border: '1px solid #e5e7eb'
+        }
+      }, archivedLists.map(list =>
+        React.createElement('div', {
+          key: list.id,
+          style: {
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '0.5rem',
+            padding: '0.25rem 0'
+          }
+        }, [
+          React.createElement('span', { key: 'name', style: { color: '#4b5563' } }, list.name),
+          React.createElement('div', { key: 'actions', style: { display: 'flex', gap: '0.5rem' } }, [
+            React.createElement('button', {
+              key: 'restore',
+              onClick: async () => {
+                await setListArchived(list, false);
+                switchList(list.id);
+              },
+              style: listButtonStyle
+            }, 'Restore'),
+            React.createElement('button', {
+              key: 'delete',
+              onClick: () => deleteList(list),
+              style: { ...listButtonStyle, color: '#ef4444', borderColor: '#fca5a5' }
+            }, 'Delete')
+          ])
+        ])
+      )),
+
       // Add new item form
       React.createElement('div', {
         key: 'add-item',
@@ -1134,6 +1427,14 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
         }, 'Add')
       ]),
 
+      hasConvertedUnits && React.createElement('div', {
+        key: 'units-toggle',
+        style: { display: 'flex', justifyContent: 'flex-end', marginBottom: '0.5rem' }
+      }, React.createElement('button', {
+        onClick: () => setShowOriginalUnits(prev => !prev),
+        style: { ...listButtonStyle, minHeight: 'auto', padding: '0.25rem 0.75rem' }
+      }, showOriginalUnits ? 'Show in my units' : 'Show original units')),
+
       // Shopping list items
       React.createElement('div', {
         key: 'items',
@@ -1143,6 +1444,20 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
           ? items.map(item =>
               React.createElement('div', {
                 key: item.id,
+                draggable: true,
+                onDragStart: (e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedItemId(item.id);
+                },
+                onDragOver: (e) => {
+                  if (draggedItemId) e.preventDefault();
+                },
+                onDrop: (e) => {
+                  e.preventDefault();
+                  if (draggedItemId) moveItem(draggedItemId, item.id);
+                  setDraggedItemId(null);
+                },
+                onDragEnd: () => setDraggedItemId(null),
                 style: {
                   display: 'flex',
                   alignItems: 'center',
@@ -1152,9 +1467,16 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
                   borderRadius: '0.375rem',
                   marginBottom: '0.5rem',
                   border: '1px solid #e5e7eb',
-                  transition: 'background-color 0.2s'
+                  transition: 'background-color 0.2s',
+                  opacity: draggedItemId === item.id ? 0.5 : 1
                 }
               }, [
+                React.createElement('span', {
+                  key: 'handle',
+                  title: 'Drag to reorder',
+                  style: { cursor: 'grab', color: '#9ca3af', userSelect: 'none' }
+                }, '⋮⋮'),
+
                 React.createElement('input', {
                   key: 'checkbox',
                   type: 'checkbox',
@@ -1171,9 +1493,11 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
                 }),
                 
                 React.createElement('input', {
-                  key: 'text',
+                  // Remount when the text changes elsewhere so the uncontrolled input shows it
+                  key: `text-${displayTextOf(item)}`,
                   type: 'text',
-                  defaultValue: item.item_text,
+                  defaultValue: displayTextOf(item),
+                  title: displayTextOf(item) !== item.item_text ? `Originally: ${item.item_text}` : undefined,
                   onKeyDown: (e) => {
                     if (e.key === 'Enter') {
                       e.currentTarget.blur();
@@ -1181,10 +1505,10 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
                   },
                   onBlur: (e) => {
                     const newText = e.currentTarget.value;
-                    if (newText.trim() && newText !== item.item_text) {
+                    if (newText.trim() && newText !== displayTextOf(item)) {
                       updateItemText(item, newText);
                     } else if (!newText.trim()) {
-                      e.currentTarget.value = item.item_text;
+                      e.currentTarget.value = displayTextOf(item);
                     }
                   },
                   style: {
@@ -1199,6 +1523,31 @@ export const ShoppingListPage: React.FC<ShoppingListPageProps> = () => {
                   }
                 }),
                 
+                openLists.length > 1 && React.createElement('select', {
+                  key: 'move',
+                  value: '',
+                  onChange: (e) => {
+                    if (e.target.value) moveItemToList(item, e.target.value);
+                  },
+                  title: 'Move to another list',
+                  'aria-label': `Move ${item.item_text} to another list`,
+                  style: {
+                    maxWidth: isMobile ? '5.5rem' : '9rem',
+                    padding: '0.5rem',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '0.25rem',
+                    background: '#ffffff',
+                    color: '#374151',
+                    fontSize: '0.75rem',
+                    minHeight: '44px'
+                  }
+                }, [
+                  React.createElement('option', { key: 'placeholder', value: '' }, 'Move to...'),
+                  ...openLists
+                    .filter(list => list.id !== activeListId)
+                    .map(list => React.createElement('option', { key: list.id, value: list.id }, list.name))
+                ]),
+
                 React.createElement('button', {
                   key: 'delete',
                   onClick: () => deleteItem(item),
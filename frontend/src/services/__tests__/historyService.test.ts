@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import { PlannedMeal } from '../../types/mealPlan'
+import { Recipe } from '../../types/recipe'
+import { ShoppingListSnapshot } from '../shoppingListService'
+
+// The kitchen the mocked services read and write
+const kitchen = vi.hoisted(() => ({
+  meals: [] as unknown[],
+  shopping: { lists: [], items: [], activeListId: null } as unknown,
+  recipes: null as unknown[] | null
+}))
+
+vi.mock('../api', () => ({ default: { get: vi.fn(), post: vi.fn() } }))
+vi.mock('../mealPlanService', () => ({
+  mealPlanService: {
+    snapshot: () => structuredClone(kitchen.meals),
+    restore: (meals: unknown[]) => { kitchen.meals = structuredClone(meals) }
+  }
+}))
+vi.mock('../shoppingListService', () => ({
+  shoppingListService: {
+    snapshot: () => structuredClone(kitchen.shopping),
+    restore: (shopping: unknown) => { kitchen.shopping = structuredClone(shopping) }
+  }
+}))
+vi.mock('../recipeService', () => ({
+  recipeService: {
+    snapshot: () => structuredClone(kitchen.recipes),
+    restore: (recipes: unknown[] | null) => { kitchen.recipes = structuredClone(recipes) }
+  }
+}))
+
+const meal = (id: string, recipeName: string) => ({ id, recipeName } as unknown as PlannedMeal)
+const meals = () => kitchen.meals as PlannedMeal[]
+const shopping = () => kitchen.shopping as ShoppingListSnapshot
+
+describe('history service', () => {
+  let historyService: typeof import('../historyService').historyService
+
+  beforeEach(async () => {
+    kitchen.meals = []
+    kitchen.shopping = { lists: [], items: [], activeListId: null }
+    kitchen.recipes = null
+    // A fresh service, so no undo or redo entries carry over
+    vi.resetModules()
+    ;({ historyService } = await import('../historyService'))
+  })
+
+  test('undo and redo put back the snapshots around a change', () => {
+    kitchen.meals = [meal('m1', 'Soup')]
+    const result = historyService.record('Clear week', () => {
+      kitchen.meals = []
+      return 1
+    })
+
+    expect(result).toBe(1)
+    expect(historyService.peekUndo()).toMatchObject({
+      label: 'Clear week',
+      before: { meals: [meal('m1', 'Soup')] },
+      after: { meals: [] }
+    })
+
+    expect(historyService.undo()?.label).toBe('Clear week')
+    expect(meals()).toEqual([meal('m1', 'Soup')])
+    expect(historyService.canUndo()).toBe(false)
+    expect(historyService.canRedo()).toBe(true)
+
+    historyService.redo()
+    expect(meals()).toEqual([])
+    expect(historyService.canRedo()).toBe(false)
+  })
+
+  test('a change that leaves everything as it was is not kept', () => {
+    historyService.record('Nothing', () => { kitchen.meals = [] })
+
+    expect(historyService.canUndo()).toBe(false)
+  })
+
+  test('recording a new change drops what could be redone', () => {
+    historyService.record('Add soup', () => { kitchen.meals = [meal('m1', 'Soup')] })
+    historyService.undo()
+    historyService.record('Add salad', () => { kitchen.meals = [meal('m2', 'Salad')] })
+
+    expect(historyService.canRedo()).toBe(false)
+  })
+
+  test('undo leaves changes made after the entry alone', () => {
+    historyService.record('Add soup', () => { kitchen.meals = [...meals(), meal('m1', 'Soup')] })
+    const soup = historyService.peekUndo()!
+    historyService.record('Add salad', () => { kitchen.meals = [...meals(), meal('m2', 'Salad')] })
+    kitchen.meals = [...meals(), meal('m3', 'Curry')]
+
+    historyService.undo(soup.id)
+
+    expect(meals()).toEqual([meal('m2', 'Salad'), meal('m3', 'Curry')])
+    expect(historyService.canUndo(soup.id)).toBe(false)
+    expect(historyService.peekUndo()?.label).toBe('Add salad')
+  })
+
+  test('the active shopping list only moves back when the change moved it', () => {
+    kitchen.shopping = { lists: [{ id: 'l1' }, { id: 'l2' }], items: [], activeListId: 'l1' }
+    historyService.record('Delete list', () => {
+      kitchen.shopping = { lists: [{ id: 'l1' }], items: [], activeListId: 'l1' }
+    })
+    shopping().activeListId = 'l3'
+
+    historyService.undo()
+
+    expect(shopping().activeListId).toBe('l3')
+    expect(shopping().lists.map(list => list.id)).toEqual(['l1', 'l2'])
+  })
+
+  test('recipes go back to the built-in ones when none were saved before', () => {
+    historyService.record('Save recipe', () => { kitchen.recipes = [{ id: 'r1' } as Recipe] })
+
+    historyService.undo()
+
+    expect(kitchen.recipes).toBeNull()
+  })
+
+  test('waits for an async change before taking the after snapshot', async () => {
+    await historyService.record('Plan week', async () => {
+      await Promise.resolve()
+      kitchen.meals = [meal('m1', 'Soup')]
+    })
+
+    expect(historyService.peekUndo()?.after.meals).toEqual([meal('m1', 'Soup')])
+  })
+
+  test('a change that throws is still kept for what it did', () => {
+    expect(() => historyService.record('Half done', () => {
+      kitchen.meals = [meal('m1', 'Soup')]
+      throw new Error('Server error')
+    })).toThrow('Server error')
+
+    expect(historyService.peekUndo()?.label).toBe('Half done')
+  })
+
+  test('excluded changes inside a recorded change are not undone', () => {
+    kitchen.meals = [meal('m1', 'Soup'), meal('m2', 'Salad')]
+    historyService.record('Cook and clear', () => {
+      historyService.exclude(() => {
+        kitchen.meals = meals().map(planned => planned.id === 'm1' ? meal('m1', 'Soup (cooked)') : planned)
+      })
+      kitchen.meals = meals().filter(planned => planned.id !== 'm2')
+    })
+
+    historyService.undo()
+
+    expect(meals()).toEqual([meal('m1', 'Soup (cooked)'), meal('m2', 'Salad')])
+  })
+
+  test('an excluded change on its own is not kept', () => {
+    historyService.exclude(() => { kitchen.meals = [meal('m1', 'Soup')] })
+
+    expect(historyService.canUndo()).toBe(false)
+  })
+})
@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import api from '../api'
+import { ShoppingListItem } from '../../types/shoppingList'
+import { pantryService, toRestockItems } from '../pantryService'
+
+vi.mock('../api', () => ({ default: { get: vi.fn(), post: vi.fn() } }))
+
+const LEGACY_KEY = 'intelligent-kitchen-pantry'
+
+describe('pantry service', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.mocked(api.post).mockReset()
+  })
+
+  test('imports the old local pantry once, in pantry units', async () => {
+    localStorage.setItem(LEGACY_KEY, JSON.stringify([
+      { id: 'pantry-2', name: 'Brown Rice', quantity: '2 lbs', category: 'grains', updatedAt: '2026-09-01T12:00:00.000Z' },
+      { id: 'pantry-3', name: 'Olive Oil', quantity: '1 bottle', updatedAt: 'not a date' }
+    ]))
+    vi.mocked(api.post).mockResolvedValue({ data: { items: [] } })
+
+    await pantryService.importLocalItems()
+
+    expect(api.post).toHaveBeenCalledWith('/pantry/import', {
+      items: [
+        expect.objectContaining({ clientId: 'pantry-2', name: 'Brown Rice', quantity: 2, unit: 'pounds', updatedAt: '2026-09-01T12:00:00.000Z' }),
+        expect.objectContaining({ clientId: 'pantry-3', name: 'Olive Oil', quantity: 1, unit: 'pieces', updatedAt: undefined })
+      ]
+    })
+    expect(localStorage.getItem(LEGACY_KEY)).toBeNull()
+  })
+
+  test('keeps the local pantry when the import fails', async () => {
+    localStorage.setItem(LEGACY_KEY, JSON.stringify([{ id: 'pantry-1', name: 'Eggs', quantity: '6' }]))
+    vi.mocked(api.post).mockRejectedValue(new Error('Network Error'))
+
+    await expect(pantryService.importLocalItems()).rejects.toThrow('Network Error')
+
+    expect(localStorage.getItem(LEGACY_KEY)).not.toBeNull()
+  })
+
+  test('does nothing without a local pantry', async () => {
+    await pantryService.importLocalItems()
+
+    expect(api.post).not.toHaveBeenCalled()
+  })
+  describe('putting shopping list items away', () => {
+    const item = (fields: Partial<ShoppingListItem>) => ({ id: 'i1', is_checked: true, ...fields } as ShoppingListItem)
+
+    test('uses the structured name, quantity and unit when there are some', () => {
+      expect(toRestockItems(item({ item_text: '475 ml milk', name: 'milk', quantity: '475', unit: 'milliliters' })))
+        .toEqual([{ name: 'milk', quantity: 475, unit: 'milliliters' }])
+    })
+
+    test('restocks each total of a consolidated item', () => {
+      expect(toRestockItems(item({ item_text: '3 + 1 tbsp garlic', name: 'garlic', quantity: null, unit: null }))).toEqual([
+        { name: 'garlic', quantity: 3, unit: null },
+        { name: 'garlic', quantity: 1, unit: 'tablespoons' }
+      ])
+    })
+
+    test('reads items merged without an amount by their name', () => {
+      expect(toRestockItems(item({ item_text: 'milk (x2)' }))).toEqual([{ name: 'milk', quantity: null, unit: null }])
+    })
+
+    test('keeps a "+" that is part of the name', () => {
+      expect(toRestockItems(item({ item_text: '1 jar salt + pepper mix' }))).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,30 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, test } from 'vitest'
+import { enhancedShoppingListService } from '../shoppingListService'
+
+describe('shopping list consolidation', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  test('merged items carry the total in the preferred unit', async () => {
+    await enhancedShoppingListService.addShoppingListItem('1 cup milk')
+    await enhancedShoppingListService.addShoppingListItem('8 fl oz milk')
+
+    const { items } = await enhancedShoppingListService.consolidateItems(undefined, 'metric')
+
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ name: 'milk', quantity: String(parseFloat(items[0].item_text)) })
+    expect(items[0].unit).toBe('milliliters')
+  })
+
+  test('totals that do not add up leave no single quantity or unit', async () => {
+    await enhancedShoppingListService.addShoppingListItem('3 garlic')
+    await enhancedShoppingListService.addShoppingListItem('1 tbsp garlic')
+
+    const { items } = await enhancedShoppingListService.consolidateItems(undefined, 'metric')
+
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ name: 'garlic', quantity: null, unit: null })
+  })
+})
@@ -0,0 +1,205 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import api from '../api'
+import { mergeRecords, syncService, SyncAdapter, SyncEntity, SyncRecord } from '../syncService'
+
+vi.mock('../api', () => ({ default: { get: vi.fn(), post: vi.fn() } }))
+
+const OUTBOX_KEY = 'intelligent-kitchen-sync-outbox'
+const CURSOR_KEY = 'intelligent-kitchen-sync-cursor'
+
+interface Item extends SyncRecord {
+  name: string
+}
+
+// Stands in for a service's records in localStorage
+function memoryAdapter(entity: SyncEntity, records: Item[] | null) {
+  const adapter = {
+    entity,
+    records,
+    getLocalRecords: () => adapter.records,
+    applyRemote: vi.fn((incoming: SyncRecord[], deletedIds: string[]) => {
+      adapter.records = mergeRecords(adapter.records || [], incoming as Item[], deletedIds)
+    })
+  }
+  syncService.register(adapter as SyncAdapter)
+  return adapter
+}
+
+const outbox = () => JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]')
+
+const pulled = (cursor: string, entities = {}) => ({ data: { cursor, entities } })
+
+describe('sync service', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    localStorage.clear()
+    localStorage.setItem('auth_token', 'token')
+    localStorage.setItem(CURSOR_KEY, '2026-10-01T00:00:00.000Z')
+    vi.mocked(api.post).mockReset()
+    vi.mocked(api.get).mockReset()
+    vi.mocked(api.get).mockResolvedValue(pulled('2026-10-01T00:00:00.000Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('merging replaces, appends and drops records by id', () => {
+    const local = [{ id: 'a', name: 'Milk' }, { id: 'b', name: 'Eggs' }]
+    expect(mergeRecords(local, [{ id: 'a', name: 'Oat milk' }, { id: 'c', name: 'Bread' }], ['b'])).toEqual([
+      { id: 'a', name: 'Oat milk' },
+      { id: 'c', name: 'Bread' }
+    ])
+  })
+
+  test('queues upserts for changed records and tombstones for removed ones, latest change only', () => {
+    syncService.trackChanges('shopping-list', [{ id: 'a', name: 'Milk' }, { id: 'b', name: 'Eggs' }], [{ id: 'a', name: 'Oat milk' }])
+    syncService.trackChanges('shopping-list', [{ id: 'a', name: 'Oat milk' }], [{ id: 'a', name: 'Soy milk' }])
+
+    expect(outbox().map(({ op, id, record }) => ({ op, id, name: record?.name }))).toEqual([
+      { op: 'delete', id: 'b', name: undefined },
+      { op: 'upsert', id: 'a', name: 'Soy milk' }
+    ])
+  })
+
+  test('replays the outbox, then pulls from the saved cursor', async () => {
+    memoryAdapter('shopping-list', [{ id: 'a', name: 'Milk' }])
+    syncService.trackChanges('shopping-list', [], [{ id: 'a', name: 'Milk' }])
+    vi.mocked(api.post).mockResolvedValue({ data: { results: [{ entity: 'shopping-list', id: 'a', status: 'applied' }] } })
+    vi.mocked(api.get).mockResolvedValue(pulled('2026-10-02T00:00:00.000Z'))
+
+    await syncService.sync()
+
+    const [url, body, config] = vi.mocked(api.post).mock.calls[0]
+    expect(url).toBe('/sync/changes')
+    expect((body as any).changes.map((change: any) => change.id)).toEqual(['a'])
+    expect((config as any).headers['X-Client-Id']).toBe(syncService.clientId)
+    expect(api.get).toHaveBeenCalledWith('/sync/changes', { params: { since: '2026-10-01T00:00:00.000Z' } })
+    expect(outbox()).toEqual([])
+    expect(localStorage.getItem(CURSOR_KEY)).toBe('2026-10-02T00:00:00.000Z')
+  })
+
+  test('keeps changes made while the push was in flight', async () => {
+    memoryAdapter('shopping-list', [{ id: 'a', name: 'Milk' }])
+    syncService.trackChanges('shopping-list', [], [{ id: 'a', name: 'Milk' }])
+    const applied = { data: { results: [{ entity: 'shopping-list', id: 'a', status: 'applied' }] } }
+    vi.mocked(api.post)
+      .mockImplementationOnce(async () => {
+        vi.setSystemTime(Date.now() + 1000)
+        syncService.trackChanges('shopping-list', [{ id: 'a', name: 'Milk' }], [{ id: 'a', name: 'Oat milk' }])
+        return applied
+      })
+      .mockResolvedValue(applied)
+
+    await syncService.sync()
+
+    const pushedNames = vi.mocked(api.post).mock.calls.map(([, body]) => (body as any).changes[0].record.name)
+    expect(pushedNames).toEqual(['Milk', 'Oat milk'])
+    expect(outbox()).toEqual([])
+  })
+
+  test('a failed push leaves the outbox for the next attempt', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    syncService.trackChanges('shopping-list', [], [{ id: 'a', name: 'Milk' }])
+    vi.mocked(api.post).mockRejectedValue(new Error('Network Error'))
+
+    await syncService.sync()
+
+    expect(outbox().map((entry: any) => entry.id)).toEqual(['a'])
+    expect(api.get).not.toHaveBeenCalled()
+  })
+
+  test('keeps changes the server rejected and stops sending them after five tries', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    syncService.trackChanges('shopping-list', [], [{ id: 'a', name: 'Milk' }, { id: 'b', name: 'Eggs' }])
+    vi.mocked(api.post).mockResolvedValue({
+      data: {
+        results: [
+          { entity: 'shopping-list', id: 'a', status: 'applied' },
+          { entity: 'shopping-list', id: 'b', status: 'error', error: 'value too long' }
+        ]
+      }
+    })
+
+    await syncService.sync()
+
+    expect(api.post).toHaveBeenCalledTimes(1)
+    expect(outbox()).toEqual([expect.objectContaining({ id: 'b', attempts: 1 })])
+
+    for (let attempt = 2; attempt <= 6; attempt++) {
+      await syncService.sync()
+    }
+
+    expect(api.post).toHaveBeenCalledTimes(5)
+    expect(syncService.getStatus()).toMatchObject({ pendingChanges: 0, failedChanges: 1 })
+
+    // Editing the record again gives it a fresh start
+    syncService.trackChanges('shopping-list', [{ id: 'b', name: 'Eggs' }], [{ id: 'b', name: 'Free-range eggs' }])
+    expect(syncService.getStatus()).toMatchObject({ pendingChanges: 1, failedChanges: 0 })
+  })
+
+  test('drops queued changes for entities that no longer sync', async () => {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify([
+      { entity: 'pantry', op: 'upsert', id: 'p1', record: { id: 'p1' }, changedAt: '2026-10-01T00:00:00.000Z' }
+    ]))
+    vi.mocked(api.post).mockResolvedValue({ data: { results: [] } })
+
+    await syncService.sync()
+
+    expect(api.post).not.toHaveBeenCalled()
+    expect(syncService.getStatus().pendingChanges).toBe(0)
+  })
+
+  test('takes the server version when it has a newer edit', async () => {
+    const adapter = memoryAdapter('shopping-list', [{ id: 'a', name: 'Milk' }, { id: 'b', name: 'Eggs' }])
+    syncService.trackChanges('shopping-list', [], [{ id: 'a', name: 'Milk' }, { id: 'b', name: 'Eggs' }])
+    vi.mocked(api.post).mockResolvedValue({
+      data: {
+        results: [
+          { entity: 'shopping-list', id: 'a', status: 'conflict', record: { id: 'a', name: 'Whole milk' } },
+          { entity: 'shopping-list', id: 'b', status: 'conflict', deleted: true }
+        ]
+      }
+    })
+
+    await syncService.sync()
+
+    expect(adapter.records).toEqual([{ id: 'a', name: 'Whole milk' }])
+  })
+
+  test('pulled changes and deletions skip records with edits still queued', async () => {
+    const adapter = memoryAdapter('shopping-list', [{ id: 'a', name: 'Milk' }, { id: 'b', name: 'Eggs' }])
+    syncService.trackChanges('shopping-list', [{ id: 'a', name: 'Milk' }], [{ id: 'a', name: 'Oat milk' }])
+    vi.mocked(api.post).mockRejectedValueOnce(new Error('Network Error'))
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await syncService.sync()
+
+    syncService.applyLiveChanges('shopping-list', [{ id: 'a', name: 'Server milk' } as SyncRecord], ['b'])
+
+    expect(adapter.records).toEqual([{ id: 'a', name: 'Milk' }])
+  })
+
+  test('the first sync on a browser offers local records with their own timestamps', async () => {
+    localStorage.removeItem(CURSOR_KEY)
+    memoryAdapter('recipes', [{ id: 'r1', name: 'Soup', updatedAt: '2026-09-01T12:00:00.000Z' }])
+    vi.mocked(api.post).mockResolvedValue({ data: { results: [] } })
+
+    await syncService.sync()
+
+    const changes = (vi.mocked(api.post).mock.calls[0][1] as any).changes.filter((change: any) => change.entity === 'recipes')
+    expect(changes).toEqual([expect.objectContaining({ entity: 'recipes', id: 'r1', changedAt: '2026-09-01T12:00:00.000Z' })])
+    expect(api.get).toHaveBeenCalledWith('/sync/changes', { params: {} })
+  })
+
+  test('local records with a broken timestamp count as oldest', async () => {
+    localStorage.removeItem(CURSOR_KEY)
+    memoryAdapter('recipes', [{ id: 'r1', name: 'Soup', updatedAt: 'yesterday-ish' }])
+    vi.mocked(api.post).mockResolvedValue({ data: { results: [] } })
+
+    await syncService.sync()
+
+    const changes = (vi.mocked(api.post).mock.calls[0][1] as any).changes.filter((change: any) => change.entity === 'recipes')
+    expect(changes).toEqual([expect.objectContaining({ id: 'r1', changedAt: '1970-01-01T00:00:00.000Z' })])
+  })
+})
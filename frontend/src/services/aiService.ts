@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { ParsedIngredient } from '../utils/ingredientParser';
 import { API_BASE_URL } from '../config/apiConfig';
+import api from './api';
 
 export interface IngredientExtractionResult {
   success: boolean;
@@ -32,23 +33,31 @@ export interface ShoppingListGenerationResult {
   error?: string;
 }
 
+export type ModelTier = 'small' | 'medium' | 'large';
+
 export interface AIHealthStatus {
   status: string;
   services: {
     models: {
-      available: {
-        small: any;
-        medium: any;
-        large: any;
-      };
-      current: {
-        small: string;
-        medium: string;
-        large: string;
-      };
+      current: Record<ModelTier, string>;
+      // The tier each task type starts on
+      taskTiers: Record<string, ModelTier>;
+      // Since the server started
+      stats: Record<ModelTier, {
+        requests: number;
+        successRate: number | null;
+        avgLatencyMs: number | null;
+        escalations: number;
+      }>;
     };
     cache: {
       status: string;
+      enabled?: boolean;
+      store?: 'redis' | 'postgres' | 'memory';
+      totalEntries?: number;
+      // Since the server started; null before the first lookup
+      hitRate?: number | null;
+      byTaskType?: Record<string, { hits: number; misses: number; hitRate: number | null }>;
     };
     costMonitor: {
       enabled: boolean;
@@ -62,17 +71,24 @@ export interface AIHealthStatus {
   timestamp: string;
 }
 
+export interface AIUsageTotals {
+  cost: number;
+  tokens: number;
+  requests: number;
+  limit: number | null;   // USD, null when there is no limit
+}
+
 export interface CostUsage {
-  dailyUsage: {
-    cost: number;
+  dailyUsage: AIUsageTotals & { date: string };
+  monthlyUsage: AIUsageTotals & { month: string };
+  byEndpoint: Array<{
+    endpoint: string;
+    requests: number;
     tokens: number;
-    date: string;
-  };
-  monthlyUsage?: {
     cost: number;
-    tokens: number;
-    month: string;
-  };
+  }>;
+  // The limit the user has reached; AI features use their non-AI fallbacks until it resets
+  budgetExceeded: 'daily' | 'monthly' | null;
 }
 
 export interface RecipeUrlExtractionResult {
@@ -125,7 +141,7 @@ class AIService {
     instructions?: string;
   }): Promise<IngredientExtractionResult> {
     try {
-      const response = await axios.post(`${this.baseURL}/extract-ingredients`, {
+      const response = await api.post('/ai/extract-ingredients', {
         recipeData
       });
       return response.data;
@@ -150,7 +166,7 @@ class AIService {
     parseConfidence?: number;
   }): Promise<IngredientExtractionResult> {
     try {
-      const response = await axios.post(`${this.baseURL}/extract-ingredients`, {
+      const response = await api.post('/ai/extract-ingredients', {
         recipeData: {
           name: recipe.name,
           instructions: recipe.instructions,
@@ -174,7 +190,7 @@ class AIService {
 
   async extractRecipeFromUrl(url: string): Promise<RecipeUrlExtractionResult> {
     try {
-      const response = await axios.post(`${this.baseURL}/extract-recipe-from-url`, { url });
+      const response = await api.post('/ai/extract-recipe-from-url', { url });
       return response.data;
     } catch (error: any) {
       console.error('Failed to extract recipe from URL:', error);
@@ -198,7 +214,7 @@ class AIService {
     servingSize?: number;
   }): Promise<ShoppingListGenerationResult> {
     try {
-      const response = await axios.post(`${this.baseURL}/generate-shopping-list`, {
+      const response = await api.post('/ai/generate-shopping-list', {
         recipes,
         options
       });
@@ -221,7 +237,7 @@ class AIService {
    */
   async getCostUsage(): Promise<CostUsage> {
     try {
-      const response = await axios.get(`${this.baseURL}/cost-usage`);
+      const response = await api.get('/ai/cost-usage');
       return response.data;
     } catch (error) {
       console.error('Failed to get cost usage:', error);
@@ -1,6 +1,43 @@
-import axios from 'axios';
+import axios, { InternalAxiosRequestConfig } from 'axios';
 import { API_BASE_URL } from '../config/apiConfig';
 
+export const TOKEN_KEY = 'auth_token';
+export const REFRESH_TOKEN_KEY = 'intelligent-kitchen-refresh-token';
+
+// One refresh at a time; concurrent 401s wait for the same new token
+let refreshRequest: Promise<string | null> | null = null;
+
+async function requestNewTokens(): Promise<string | null> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    // Plain axios so a failed refresh doesn't loop through the interceptor
+    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+    localStorage.setItem(TOKEN_KEY, response.data.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, response.data.refreshToken);
+    return response.data.token;
+  } catch (error: any) {
+    if (error.response?.status !== 401) {
+      throw error;
+    }
+    // Another tab may have rotated the refresh token first
+    const current = localStorage.getItem(REFRESH_TOKEN_KEY);
+    return current && current !== refreshToken ? localStorage.getItem(TOKEN_KEY) : null;
+  }
+}
+
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshRequest) {
+    refreshRequest = requestNewTokens().finally(() => {
+      refreshRequest = null;
+    });
+  }
+  return refreshRequest;
+}
+
 // Create axios instance with default config
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -13,7 +50,7 @@ const api = axios.create({
 // Add request interceptor to include auth token
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('auth_token');
+    const token = localStorage.getItem(TOKEN_KEY);
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -29,11 +66,34 @@ api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // Handle unauthorized - redirect to login
-      localStorage.removeItem('auth_token');
-      window.location.href = '/login';
+  async (error) => {
+    const config = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+    // Failed sign-in attempts are reported by the login form itself
+    const isAuthRequest = /\/auth\/(login|register|refresh|logout)$/.test(config?.url || '');
+
+    if (error.response?.status !== 401 || isAuthRequest || !config) {
+      return Promise.reject(error);
+    }
+
+    // Short-lived access token ran out: refresh once and replay the request
+    if (!config._retry) {
+      config._retry = true;
+      const newToken = await refreshAccessToken().catch(() => undefined);
+      if (newToken === undefined) {
+        return Promise.reject(error);
+      }
+      if (newToken) {
+        config.headers.Authorization = `Bearer ${newToken}`;
+        return api(config);
+      }
+    }
+
+    // Handle unauthorized - redirect to login, then come back
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    if (window.location.pathname !== '/login') {
+      const redirect = encodeURIComponent(window.location.pathname + window.location.search);
+      window.location.href = `/login?redirect=${redirect}`;
     }
     return Promise.reject(error);
   }
@@ -0,0 +1,252 @@
+import api, { TOKEN_KEY, REFRESH_TOKEN_KEY } from './api'
+import { syncService } from './syncService'
+
+export interface AuthUser {
+  id: string
+  email: string
+  firstName: string
+  lastName: string
+  dietaryPreference?: string
+  healthGoal?: string
+}
+
+export interface UserProfile extends AuthUser {
+  createdAt?: string
+  lastLogin?: string | null
+}
+
+export interface RegisterData {
+  email: string
+  password: string
+  firstName: string
+  lastName: string
+  dietaryPreference?: string
+  healthGoal?: string
+}
+
+export interface AuthSession {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  startedAt: string
+  lastUsedAt: string
+  current: boolean
+}
+
+interface SessionTokens {
+  token: string
+  refreshToken?: string
+}
+
+export interface ProfileUpdate {
+  firstName?: string
+  lastName?: string
+  dietaryPreference?: string
+  healthGoal?: string
+}
+
+type AuthChangeListener = (user: AuthUser | null) => void
+
+const USER_KEY = 'intelligent-kitchen-auth-user'
+
+// Per-user data kept in the browser; cleared when someone else signs in
+const USER_DATA_KEYS = [
+  'intelligent-kitchen-recipes',
+  'intelligent-kitchen-meal-plans',
+  'intelligent-kitchen-meal-filters',
+  // The pantry kept locally before it moved to the server, in case it was never imported
+  'intelligent-kitchen-pantry',
+  'intelligent-kitchen-shopping-list',
+  'intelligent-kitchen-shopping-lists',
+  'intelligent-kitchen-active-shopping-list',
+  'shopping-list-templates',
+  'intelligent-kitchen-preferences',
+  'betsy-conversation-history',
+  'betsy-chat-history',
+  'betsy-conversation-id'
+]
+
+const toAuthUser = (user: any): AuthUser => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName ?? user.first_name ?? '',
+  lastName: user.lastName ?? user.last_name ?? '',
+  dietaryPreference: user.dietaryPreference ?? user.dietary_preference,
+  healthGoal: user.healthGoal ?? user.health_goal
+})
+
+class AuthService {
+  private user: AuthUser | null = null
+  private changeListeners: Set<AuthChangeListener> = new Set()
+
+  constructor() {
+    this.user = this.hasToken() ? this.getStoredUser() : null
+  }
+
+  // The last signed-in user stays stored after the token expires
+  private getStoredUser(): AuthUser | null {
+    try {
+      const stored = localStorage.getItem(USER_KEY)
+      return stored ? JSON.parse(stored) : null
+    } catch {
+      return null
+    }
+  }
+
+  subscribe(listener: AuthChangeListener): () => void {
+    this.changeListeners.add(listener)
+    return () => this.changeListeners.delete(listener)
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener(this.user))
+  }
+
+  getCurrentUser(): AuthUser | null {
+    return this.user
+  }
+
+  hasToken(): boolean {
+    return Boolean(localStorage.getItem(TOKEN_KEY))
+  }
+
+  async login(email: string, password: string): Promise<AuthUser> {
+    const response = await api.post('/auth/login', { email, password })
+    return this.startSession(response.data, response.data.user)
+  }
+
+  async register(data: RegisterData): Promise<AuthUser> {
+    const response = await api.post('/auth/register', data)
+    return this.startSession(response.data, response.data.user)
+  }
+
+  // Check a stored token with the server; returns null when the session is gone.
+  // Without a server answer the last signed-in user is kept for offline use.
+  async restoreSession(): Promise<AuthUser | null> {
+    if (!this.hasToken()) {
+      this.clearSession()
+      return null
+    }
+
+    try {
+      const response = await api.get('/auth/verify')
+      this.setUser(toAuthUser(response.data.user))
+      return this.user
+    } catch (error) {
+      // The api interceptor drops the tokens once the refresh token is refused
+      // (401). Anything else - offline, a 5xx - keeps the stored user signed in.
+      if (!this.hasToken()) {
+        this.clearSession()
+        return null
+      }
+
+      console.warn('Session could not be checked, keeping the stored user:', error)
+      window.addEventListener('online', () => { void this.restoreSession() }, { once: true })
+      return this.user
+    }
+  }
+
+  async logout(): Promise<void> {
+    // Push anything still queued so it isn't lost with the local copy
+    try {
+      await syncService.sync()
+    } catch (error) {
+      console.warn('Final sync before logout failed:', error)
+    }
+
+    // Revoke this device's refresh token on the server
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY)
+    if (refreshToken) {
+      try {
+        await api.post('/auth/logout', { refreshToken })
+      } catch (error) {
+        console.warn('Server logout failed:', error)
+      }
+    }
+
+    this.clearSession()
+    this.clearUserData()
+  }
+
+  // Revoke every session this account has, including this one
+  async logoutEverywhere(): Promise<void> {
+    try {
+      await syncService.sync()
+    } catch (error) {
+      console.warn('Final sync before logout failed:', error)
+    }
+
+    await api.post('/auth/logout-all')
+    this.clearSession()
+    this.clearUserData()
+  }
+
+  // Other devices are signed out; this one receives fresh tokens
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    const response = await api.put('/users/password', { currentPassword, newPassword })
+    this.storeTokens(response.data)
+  }
+
+  async getSessions(): Promise<AuthSession[]> {
+    const response = await api.get('/auth/sessions')
+    return response.data.sessions
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await api.delete(`/auth/sessions/${sessionId}`)
+  }
+
+  async getProfile(): Promise<UserProfile> {
+    const response = await api.get('/users/profile')
+    return response.data
+  }
+
+  async updateProfile(updates: ProfileUpdate): Promise<AuthUser> {
+    const response = await api.put('/users/profile', updates)
+    this.setUser(toAuthUser(response.data.user))
+    return this.user as AuthUser
+  }
+
+  private startSession(tokens: SessionTokens, user: any): AuthUser {
+    const nextUser = toAuthUser(user)
+
+    // A different account on this browser starts from its own server data
+    const previousUser = this.getStoredUser()
+    if (previousUser && previousUser.id !== nextUser.id) {
+      this.clearUserData()
+    }
+
+    this.storeTokens(tokens)
+    this.setUser(nextUser)
+    void syncService.sync()
+    return nextUser
+  }
+
+  private storeTokens(tokens: SessionTokens): void {
+    localStorage.setItem(TOKEN_KEY, tokens.token)
+    if (tokens.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken)
+    }
+  }
+
+  private setUser(user: AuthUser): void {
+    this.user = user
+    localStorage.setItem(USER_KEY, JSON.stringify(user))
+    this.notifyChange()
+  }
+
+  private clearSession(): void {
+    localStorage.removeItem(TOKEN_KEY)
+    localStorage.removeItem(REFRESH_TOKEN_KEY)
+    this.user = null
+    this.notifyChange()
+  }
+
+  private clearUserData(): void {
+    localStorage.removeItem(USER_KEY)
+    USER_DATA_KEYS.forEach(key => localStorage.removeItem(key))
+    syncService.reset()
+  }
+}
+
+export const authService = new AuthService()
@@ -1,93 +1,377 @@
-import axios from 'axios';
-import { API_BASE_URL } from '../config/apiConfig';
 import { mealPlanService } from './mealPlanService';
-
-export interface ShoppingItem {
-  name: string;
-  quantity?: string;
-  unit?: string;
-}
+import { recipeService } from './recipeService';
+import { shoppingListService } from './shoppingListService';
+import { cookingService, plannedMealIngredients, CookedMeal } from './cookingService';
+import { PlannedMeal } from '../types/mealPlan';
+import api, { TOKEN_KEY, refreshAccessToken } from './api';
+import { API_BASE_URL } from '../config/apiConfig';
+import { BetsyEntities, BetsyIntent, BetsyTool, ShoppingItem } from '../types/betsyTools';
+import { validateSchema } from '../utils/jsonSchema';
 
 export interface BetsyInterpretation {
   success: boolean;
-  intent: 'add_shopping_item' | 'navigate' | 'add_meal' | 'remove_shopping_item' | 
-          'clear_shopping_list' | 'clear_meals' | 'generate_meals' | 'import_recipe' |
-          'search_recipe' | 'add_recipe_to_shopping_list' | 'consolidate_shopping_list' |
-          'double_recipe' | 'move_meal' | 'swap_meals' | 'swap_all_meals' | 'save_recipe' | 'delete_recipe' | 'search_recipes' |
-          'create_recipe' | 'web_search_recipe' | 'add_to_shopping_list' |
-          'help' | 'greeting' | 'unknown';
-  entities: {
-    items?: ShoppingItem[];
-    destination?: 'recipes' | 'shopping_list' | 'meal_planning';
-    food?: string;
-    mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-    day?: string;
-    itemName?: string;
-    timeRange?: 'today' | 'this_week' | 'tomorrow';
-    url?: string;
-    query?: string;
-    recipeName?: string;
-    category?: 'Breakfast' | 'Lunch' | 'Dinner' | 'Snack';
-    checkedOnly?: boolean;
-    fromDay?: string;
-    fromMealType?: string;
-    toDay?: string;
-    source?: string;
-    toMealType?: string;
-    day1?: string;
-    mealType1?: string;
-    day2?: string;
-    mealType2?: string;
-    itemText?: string;
-    multiplier?: number;
-  };
+  intent: BetsyIntent;
+  entities: BetsyEntities;
   confidence: number;
   response: string;
+  // The riskiest of the command's steps
+  risk?: BetsyRisk;
+  // Every step, in order, when one command asked for several things; intent
+  // and entities above are the first of them
+  actions?: BetsyAction[];
   metadata?: {
     model?: string;
     processingTimeMs?: number;
     tokensUsed?: number;
     method?: string;
   };
+  // The server-side conversation this exchange was saved to
+  conversationId?: string;
   error?: string;
 }
 
+// One step of a command that asked for several things
+export interface BetsyAction {
+  intent: BetsyInterpretation['intent'];
+  entities: BetsyInterpretation['entities'];
+  response: string;
+  // What the step does, e.g. "Moving Monday lunch to Friday lunch"
+  description?: string | null;
+  risk?: BetsyRisk;
+}
+
+// How careful to be before carrying out an intent (set per intent on the
+// server): 'low' runs straight away, 'medium' asks first when the command was
+// spoken and could have been misheard, 'high' always asks first
+export type BetsyRisk = 'low' | 'medium' | 'high';
+
+export function needsConfirmation(risk: BetsyRisk | undefined, spoken: boolean): boolean {
+  return risk === 'high' || (risk === 'medium' && spoken);
+}
+
+// What a step would change, worked out before it runs
+export interface BetsyPreview {
+  summary: string;  // e.g. "This will remove 14 meals from Oct 20–26."
+  records: { id: string; label: string }[];
+}
+
+export interface BetsyConversationSummary {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+}
+
+export interface BetsyConversationMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  created_at: string;
+}
+
+// What Betsy tells the app while a streamed command is in flight
+export type BetsyStreamEvent =
+  | { type: 'thinking'; message: string }
+  | { type: 'token'; text: string }       // her reply so far
+  | { type: 'acting'; message: string };  // what the app is about to do
+
+export interface BetsyProgress {
+  status: string;
+  reply: string;
+}
+
+export const INITIAL_PROGRESS: BetsyProgress = { status: 'Thinking...', reply: '' };
+
+export function applyBetsyEvent(progress: BetsyProgress, event: BetsyStreamEvent): BetsyProgress {
+  return event.type === 'token'
+    ? { ...progress, reply: event.text }
+    : { ...progress, status: event.message };
+}
+
+// The user stopped a streamed command
+export function isCancelled(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+
+// Dates are YYYY-MM-DD in local time
+const toDate = (date: string) => new Date(`${date}T00:00:00`);
+
+// "Oct 20–26", "Oct 30 – Nov 2" or "Oct 20"
+function formatDateRange(startDate: string, endDate: string): string {
+  const format = (date: string) => toDate(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  if (startDate === endDate) return format(startDate);
+
+  const [start, end] = [toDate(startDate), toDate(endDate)];
+  return start.getMonth() === end.getMonth() && start.getFullYear() === end.getFullYear()
+    ? `${format(startDate)}–${end.getDate()}`
+    : `${format(startDate)} – ${format(endDate)}`;
+}
+
+function describeMeal(meal: PlannedMeal): string {
+  const day = toDate(meal.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  return `${day}, ${meal.mealSlot.toLowerCase()}: ${meal.recipe.name}`;
+}
+
+// The next date falling on a day name ("today" and "tomorrow" too), as the Betsy page plans meals
+function dateForDay(dayName: string): string {
+  const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  const date = new Date();
+  const day = dayName.toLowerCase();
+
+  if (day === 'tomorrow') {
+    date.setDate(date.getDate() + 1);
+  } else if (days.includes(day)) {
+    date.setDate(date.getDate() + (days.indexOf(day) - date.getDay() + 7) % 7);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// The latest date on or before today falling on a day name: meals are marked
+// cooked after the fact, so "tuesday's dinner" on a Thursday is two days ago
+function pastDateForDay(dayName: string): string {
+  const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  const date = new Date();
+  const day = dayName.toLowerCase();
+
+  if (day === 'tomorrow') {
+    date.setDate(date.getDate() + 1);
+  } else if (days.includes(day)) {
+    date.setDate(date.getDate() - (date.getDay() - days.indexOf(day) + 7) % 7);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+export const CONVERSATION_ID_KEY = 'betsy-conversation-id';
+
+const FALLBACK_INTERPRETATION = {
+  success: false,
+  intent: 'unknown' as const,
+  entities: {},
+  confidence: 0,
+  response: "I'm having trouble connecting. Please try again."
+};
+
+// What Betsy says when a step's arguments don't fit its tool
+const UNCHECKED_INTERPRETATION = {
+  success: false,
+  intent: 'unknown' as const,
+  entities: {},
+  confidence: 0,
+  response: "I didn't quite catch all of that. Could you say it another way?"
+};
+
 class BetsyService {
-  private baseURL: string;
+  private tools: Promise<BetsyTool[]> | null = null;
+
+  /**
+   * The conversation Betsy is continuing; shared by the Betsy page and the
+   * chat popup so both pick up the same thread
+   */
+  getConversationId(): string | null {
+    return localStorage.getItem(CONVERSATION_ID_KEY);
+  }
 
-  constructor() {
-    this.baseURL = `${API_BASE_URL}/ai`;
+  setConversationId(conversationId: string | null): void {
+    if (conversationId) {
+      localStorage.setItem(CONVERSATION_ID_KEY, conversationId);
+    } else {
+      localStorage.removeItem(CONVERSATION_ID_KEY);
+    }
   }
 
   /**
-   * Interpret user input using LLM
+   * Interpret user input using LLM. The server keeps the exchange in the
+   * current conversation and uses its recent turns to resolve follow-ups.
    */
   async interpret(input: string, context?: Record<string, any>): Promise<BetsyInterpretation> {
     try {
       console.log('[BetsyService] Interpreting:', input);
       
-      const response = await axios.post(`${this.baseURL}/betsy-interpret`, {
+      const response = await api.post('/ai/betsy-interpret', {
         input,
-        context
+        context,
+        conversationId: this.getConversationId()
       });
 
       console.log('[BetsyService] Response:', response.data);
-      return response.data;
+      if (response.data.conversationId) {
+        this.setConversationId(response.data.conversationId);
+      }
+      return await this.checkArguments(response.data);
     } catch (error: any) {
       console.error('[BetsyService] Error:', error);
       
       // Return a fallback interpretation on error
       return {
-        success: false,
-        intent: 'unknown',
-        entities: {},
-        confidence: 0,
-        response: "I'm having trouble connecting. Please try again.",
+        ...FALLBACK_INTERPRETATION,
         error: error.response?.data?.error || error.message
       };
     }
   }
 
+  /**
+   * interpret(), streamed: onEvent hears Betsy thinking, her reply as she
+   * writes it, and what she's about to do. Aborting `signal` cancels the
+   * command on the server and rejects with an AbortError.
+   */
+  async interpretStream(
+    input: string,
+    context: Record<string, any> | undefined,
+    { onEvent, signal }: { onEvent: (event: BetsyStreamEvent) => void; signal?: AbortSignal }
+  ): Promise<BetsyInterpretation> {
+    try {
+      const response = await this.openStream(input, context, signal);
+      const interpretation = await this.readStream(response, onEvent);
+      if (interpretation.conversationId) {
+        this.setConversationId(interpretation.conversationId);
+      }
+      return await this.checkArguments(interpretation);
+    } catch (error: any) {
+      if (isCancelled(error)) throw error;
+      console.error('[BetsyService] Stream error:', error);
+      return { ...FALLBACK_INTERPRETATION, error: error.message };
+    }
+  }
+
+  /**
+   * Betsy's tools and the JSON Schemas of their arguments, fetched once
+   */
+  getTools(): Promise<BetsyTool[]> {
+    if (!this.tools) {
+      this.tools = api.get('/ai/betsy-tools')
+        .then(response => response.data.tools as BetsyTool[])
+        .catch(error => {
+          // Ask again next time
+          this.tools = null;
+          throw error;
+        });
+    }
+    return this.tools;
+  }
+
+  /**
+   * The interpretation if every step's entities fit its tool's schema, and
+   * otherwise one that does nothing, so the app never acts on arguments it
+   * can't use. The server checks them too; without the schemas (offline,
+   * say) its check stands.
+   */
+  private async checkArguments(interpretation: BetsyInterpretation): Promise<BetsyInterpretation> {
+    if (interpretation.intent === 'unknown' && !interpretation.actions) return interpretation;
+
+    let tools: BetsyTool[];
+    try {
+      tools = await this.getTools();
+    } catch (error) {
+      console.warn('[BetsyService] Tool schemas unavailable:', error);
+      return interpretation;
+    }
+
+    const steps = interpretation.actions || [interpretation];
+    const errors = steps.flatMap(step => {
+      if (step.intent === 'unknown') return [];
+      const tool = tools.find(candidate => candidate.name === step.intent);
+      if (!tool) return [`unknown tool "${step.intent}"`];
+      return validateSchema(tool.parameters, step.entities || {}).map(error => `${step.intent} ${error}`);
+    });
+    if (errors.length === 0) return interpretation;
+
+    console.warn('[BetsyService] Arguments rejected:', errors);
+    return {
+      ...UNCHECKED_INTERPRETATION,
+      conversationId: interpretation.conversationId,
+      error: errors.join('; ')
+    };
+  }
+
+  // fetch rather than the api client, which can't read a response as it arrives
+  private async openStream(input: string, context: Record<string, any> | undefined, signal?: AbortSignal): Promise<Response> {
+    const send = (token: string | null) => fetch(`${API_BASE_URL}/ai/betsy-interpret/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify({ input, context, conversationId: this.getConversationId() }),
+      signal
+    });
+
+    let response = await send(localStorage.getItem(TOKEN_KEY));
+    // Refresh an expired access token once, as the api client does
+    if (response.status === 401) {
+      const token = await refreshAccessToken();
+      if (token) {
+        response = await send(token);
+      }
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Betsy stream failed (${response.status})`);
+    }
+    return response;
+  }
+
+  private async readStream(response: Response, onEvent: (event: BetsyStreamEvent) => void): Promise<BetsyInterpretation> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const type = event.match(/^event: (.*)$/m)?.[1];
+        const data = event.match(/^data: (.*)$/m)?.[1];
+        if (!type || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (type === 'done') return payload;
+        if (type === 'error') throw new Error(payload.error);
+        onEvent({ type, ...payload } as BetsyStreamEvent);
+      }
+    }
+
+    throw new Error('Betsy stream ended before she answered');
+  }
+
+  /**
+   * Save Betsy's reply to the current conversation. Replies are worded here
+   * after acting on an intent, so the server only learns them this way.
+   */
+  async recordReply(content: string): Promise<void> {
+    const conversationId = this.getConversationId();
+    if (!conversationId) return;
+
+    try {
+      await api.post(`/ai/conversations/${conversationId}/messages`, { content });
+    } catch (error) {
+      console.warn('[BetsyService] Could not save reply:', error);
+    }
+  }
+
+  async listConversations(): Promise<BetsyConversationSummary[]> {
+    const response = await api.get('/ai/conversations');
+    return response.data.conversations;
+  }
+
+  async getConversationMessages(conversationId: string): Promise<BetsyConversationMessage[]> {
+    const response = await api.get(`/ai/conversations/${conversationId}`);
+    return response.data.messages;
+  }
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    await api.delete(`/ai/conversations/${conversationId}`);
+    if (this.getConversationId() === conversationId) {
+      this.setConversationId(null);
+    }
+  }
+
   /**
    * Format items for display
    */
@@ -139,20 +423,53 @@ class BetsyService {
     }
   }
 
+  /**
+   * Mark the meal planned for a day and meal type as cooked, taking its
+   * ingredients out of the pantry
+   */
+  async markMealCooked(day: string, mealType: string): Promise<{
+    success: boolean;
+    meal?: PlannedMeal;
+    cooked?: CookedMeal;
+    error?: string;
+  }> {
+    const meal = mealPlanService.getPlannedMeal(pastDateForDay(day), capitalize(mealType));
+    if (!meal) {
+      return { success: false, error: `There's no ${mealType.toLowerCase()} planned for ${day}.` };
+    }
+    if (meal.cookedAt) {
+      return { success: false, meal, error: `${meal.recipe.name} is already marked as cooked.` };
+    }
+
+    try {
+      const cooked = await cookingService.markCooked(meal);
+      return { success: true, meal, cooked };
+    } catch (error: any) {
+      console.error('[BetsyService] Mark meal cooked error:', error);
+      return { success: false, meal, error: error.response?.data?.error || error.message };
+    }
+  }
+
   /**
    * Generate meals using AI for a date range
    */
-  async generateMeals(timeRange: string): Promise<{ success: boolean; mealCount: number; mealPlan?: any; error?: string }> {
+  async generateMeals(timeRange: string): Promise<{
+    success: boolean;
+    mealCount: number;
+    mealPlan?: any;
+    plannedFor?: { peopleCount: number; household: string | null };
+    error?: string;
+  }> {
     try {
       const { startDate, endDate } = this.getDateRangeFromTimeRange(timeRange);
       
       console.log('[BetsyService] Generating meals:', { timeRange, startDate, endDate });
       
-      const response = await axios.post(`${API_BASE_URL}/meal-plans/generate`, {
+      // No peopleCount: the server plans for everyone in the user's household
+      const response = await api.post('/meal-plans/generate', {
         startDate,
         endDate,
-        mealTypes: ['breakfast', 'lunch', 'dinner'],
-        peopleCount: 4
+        mealTypes: ['breakfast', 'lunch', 'dinner']
       }, {
         timeout: 180000 // 3 minutes - AI meal generation can take a while
       });
@@ -170,7 +487,8 @@ class BetsyService {
       return {
         success: response.data.success !== false,
         mealCount,
-        mealPlan
+        mealPlan,
+        plannedFor: response.data.plannedFor
       };
     } catch (error: any) {
       console.error('[BetsyService] Generate meals error:', error);
@@ -182,6 +500,84 @@ class BetsyService {
     }
   }
 
+  /**
+   * The records a step would change, without changing them; null for
+   * intents with nothing to preview
+   */
+  async previewAction(action: Pick<BetsyAction, 'intent' | 'entities'>): Promise<BetsyPreview | null> {
+    const { intent, entities } = action;
+
+    switch (intent) {
+      case 'clear_meals':
+      case 'generate_meals': {
+        if (!entities.timeRange) return null;
+        const { startDate, endDate } = this.getDateRangeFromTimeRange(entities.timeRange);
+        const meals = mealPlanService.getMealPlansForRange(startDate, endDate).flatMap(plan => plan.meals);
+        const range = formatDateRange(startDate, endDate);
+        const count = `${meals.length} meal${meals.length === 1 ? '' : 's'}`;
+        return {
+          summary: intent === 'clear_meals'
+            ? `This will remove ${count} from ${range}.`
+            : `This will replace ${count} already planned for ${range}.`,
+          records: meals.map(meal => ({ id: meal.id, label: describeMeal(meal) }))
+        };
+      }
+
+      case 'swap_all_meals': {
+        if (!entities.day1 || !entities.day2) return null;
+        const [meals1, meals2] = [entities.day1, entities.day2].map(day => {
+          const date = dateForDay(day);
+          return ['Breakfast', 'Lunch', 'Dinner']
+            .map(mealType => mealPlanService.getPlannedMeal(date, mealType))
+            .filter((meal): meal is PlannedMeal => meal !== null);
+        });
+        return {
+          summary: `This will swap ${meals1.length} meal${meals1.length === 1 ? '' : 's'} on ${capitalize(entities.day1)} with ${meals2.length} on ${capitalize(entities.day2)}.`,
+          records: [...meals1, ...meals2].map(meal => ({ id: meal.id, label: describeMeal(meal) }))
+        };
+      }
+
+      case 'mark_meal_cooked': {
+        if (!entities.mealType) return null;
+        const day = entities.day || 'today';
+        const meal = mealPlanService.getPlannedMeal(pastDateForDay(day), capitalize(entities.mealType));
+        if (!meal) {
+          return { summary: `There's no ${entities.mealType} planned for ${day}.`, records: [] };
+        }
+        if (meal.cookedAt) {
+          return { summary: `${describeMeal(meal)} is already marked as cooked.`, records: [] };
+        }
+        return {
+          summary: `This will mark ${describeMeal(meal)} as cooked and take its ingredients out of your pantry.`,
+          records: plannedMealIngredients(meal).map((ingredient, index) => ({ id: `${meal.id}-${index}`, label: ingredient }))
+        };
+      }
+
+      case 'delete_recipe': {
+        if (!entities.recipeName) return null;
+        // The same match the delete itself uses
+        const recipes = await recipeService.getAllRecipes();
+        const recipe = recipes.find(r => r.name.toLowerCase().includes(entities.recipeName!.toLowerCase()));
+        return recipe
+          ? { summary: `This will delete the recipe "${recipe.name}".`, records: [{ id: recipe.id, label: recipe.name }] }
+          : { summary: `There's no recipe called "${entities.recipeName}" to delete.`, records: [] };
+      }
+
+      case 'clear_shopping_list': {
+        if (!entities.checkedOnly) return null;
+        const listId = shoppingListService.getActiveListId();
+        const checked = (await shoppingListService.getShoppingListItems(listId)).filter(item => item.is_checked);
+        return {
+          summary: `This will remove ${checked.length} checked item${checked.length === 1 ? '' : 's'} from ${shoppingListService.getList(listId)?.name || 'your shopping list'}.`,
+          records: checked.map(item => ({ id: item.id, label: item.item_text }))
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
   private getDateRangeFromTimeRange(timeRange: string): { startDate: string; endDate: string } {
     const today = new Date();
     const formatDate = (d: Date) => d.toISOString().split('T')[0];
@@ -0,0 +1,122 @@
+import api from './api'
+import { mealPlanService } from './mealPlanService'
+import { recipeService } from './recipeService'
+import { historyService } from './historyService'
+import { PlannedMeal } from '../types/mealPlan'
+import { ingredientText, scaleIngredientsForShopping, servingsFactor } from '../utils/recipeScaling'
+import { formatQuantity } from '../utils/unitConversion'
+
+// How much of a pantry item a cooked meal used, in the pantry item's unit
+export interface PantryUse {
+  pantryItemId: string
+  name: string
+  quantity: number
+  unit: string
+}
+
+// What the pantry was short of; quantity is null for unmeasured ingredients
+// ("salt to taste") it had none of
+export interface Shortfall {
+  name: string
+  quantity: number | null
+  unit: string | null
+}
+
+export interface CookingLogEntry {
+  id: string
+  mealId?: string
+  recipeId?: string
+  recipeName: string
+  date?: string
+  mealType?: string
+  servings?: number
+  used: PantryUse[]
+  shortfalls: Shortfall[]
+  cookedAt: string
+}
+
+export interface CookedMeal {
+  entry: CookingLogEntry
+  used: PantryUse[]
+  shortfalls: Shortfall[]
+}
+
+export interface CookingLogFilters {
+  from?: string
+  to?: string
+  recipe?: string
+  limit?: number
+}
+
+function fromRow(row: any): CookingLogEntry {
+  return {
+    id: row.id,
+    mealId: row.meal_client_id || undefined,
+    recipeId: row.recipe_id || undefined,
+    recipeName: row.recipe_name,
+    date: row.meal_date || undefined,
+    mealType: row.meal_type || undefined,
+    servings: row.servings || undefined,
+    used: row.used || [],
+    shortfalls: row.shortfalls || [],
+    cookedAt: row.cooked_at
+  }
+}
+
+// A planned meal's ingredient lines, scaled to the servings it's planned for.
+// Recipes without an ingredient list have theirs read out of the instructions.
+export function plannedMealIngredients(meal: PlannedMeal): string[] {
+  const recipe = meal.recipe
+  const ingredients = Array.isArray(recipe.ingredients) && recipe.ingredients.length > 0
+    ? recipe.ingredients
+    : recipeService.parseInstructions(recipe.instructions || '').items.map(item => item.text)
+
+  return scaleIngredientsForShopping(ingredients, servingsFactor(meal.servings, recipe.servings || 4))
+    .map(ingredientText)
+    .filter(Boolean)
+}
+
+// "1 1/2 cups milk", or just "salt" when unmeasured
+export function describeShortfall(shortfall: Shortfall): string {
+  return shortfall.quantity === null
+    ? shortfall.name
+    : `${formatQuantity({ amount: shortfall.quantity, unit: shortfall.unit })} ${shortfall.name}`
+}
+
+// A sentence about a cooked meal for alerts and Betsy's replies
+export function describeCookedMeal(name: string, { used, shortfalls }: CookedMeal): string {
+  const usedText = used.length > 0
+    ? `Took ${used.length} item${used.length === 1 ? '' : 's'} out of your pantry for ${name}.`
+    : `Nothing in your pantry was used for ${name}.`
+  return shortfalls.length > 0
+    ? `${usedText} You were short of: ${shortfalls.map(describeShortfall).join(', ')}.`
+    : usedText
+}
+
+class CookingService {
+  // Takes a planned meal's ingredients out of the pantry, logs it and marks
+  // it cooked. The server refuses a meal that's already been cooked, so this
+  // stays out of the undo history even when a Betsy command is recorded.
+  async markCooked(meal: PlannedMeal): Promise<CookedMeal> {
+    const response = await api.post('/pantry/cook', {
+      mealId: meal.id,
+      recipeId: meal.recipe.id,
+      recipeName: meal.recipe.name,
+      date: meal.date,
+      mealType: meal.mealSlot.toLowerCase(),
+      servings: meal.servings || meal.recipe.servings || undefined,
+      ingredients: plannedMealIngredients(meal)
+    })
+
+    const entry = fromRow(response.data.entry)
+    historyService.exclude(() => mealPlanService.setPlannedMealCooked(meal.date, meal.mealSlot, entry.cookedAt))
+    return { entry, used: response.data.used, shortfalls: response.data.shortfalls }
+  }
+
+  async getCookingLog(filters: CookingLogFilters = {}): Promise<CookingLogEntry[]> {
+    const response = await api.get('/pantry/cooking-log', { params: filters })
+    return response.data.entries.map(fromRow)
+  }
+}
+
+export const cookingService = new CookingService()
@@ -0,0 +1,156 @@
+import { KitchenSnapshot, takeKitchenSnapshot, applyKitchenChange, changeKitchen, sameKitchen } from './kitchenSnapshot'
+
+// One change to meals, recipes or shopping lists, and the kitchen before and after it
+export interface HistoryEntry {
+  id: string
+  label: string
+  before: KitchenSnapshot
+  after: KitchenSnapshot
+  timestamp: string
+}
+
+type HistoryChangeListener = () => void
+
+// Changes kept for undo; each holds two copies of the kitchen
+const MAX_ENTRIES = 30
+
+/**
+ * Undo and redo for changes made by Betsy and by the app's clear and delete
+ * actions. Callers wrap a change in record(); undo puts back, record by
+ * record, what that change touched and leaves later changes alone. History
+ * lasts until the page is reloaded.
+ */
+class HistoryService {
+  private undoStack: HistoryEntry[] = []
+  private redoStack: HistoryEntry[] = []
+  // Changes made inside the record() calls in progress that undo must leave alone
+  private recording = 0
+  private excluded: Array<{ from: KitchenSnapshot; to: KitchenSnapshot }> = []
+  private changeListeners: Set<HistoryChangeListener> = new Set()
+
+  // Subscribe to history changes
+  subscribe(listener: HistoryChangeListener): () => void {
+    this.changeListeners.add(listener)
+    return () => this.changeListeners.delete(listener)
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener())
+  }
+
+  /**
+   * Runs `change` and keeps it as one undoable step called `label`, e.g.
+   * "Clear week". Works for changes that return a promise too. A change that
+   * leaves everything as it was isn't kept.
+   */
+  record<T>(label: string, change: () => T): T {
+    const before = takeKitchenSnapshot()
+    this.recording += 1
+    const finish = () => {
+      this.recording -= 1
+      // What exclude() changed counts as already done before this step
+      const start = this.excluded.reduce((snapshot, { from, to }) => changeKitchen(snapshot, from, to), before)
+      if (this.recording === 0) this.excluded = []
+      this.push(label, start)
+    }
+
+    let result: T
+    try {
+      result = change()
+    } catch (error) {
+      finish()
+      throw error
+    }
+
+    if (result instanceof Promise) {
+      return result.finally(finish) as unknown as T
+    }
+    finish()
+    return result
+  }
+
+  /**
+   * Runs `change` outside the undo history, also when it happens inside a
+   * record(): for changes the server can't take back, like marking a meal
+   * cooked, which takes its ingredients out of the pantry.
+   */
+  exclude<T>(change: () => T): T {
+    const from = takeKitchenSnapshot()
+    const finish = () => {
+      if (this.recording > 0) {
+        this.excluded = [...this.excluded, { from, to: takeKitchenSnapshot() }]
+      }
+    }
+
+    let result: T
+    try {
+      result = change()
+    } catch (error) {
+      finish()
+      throw error
+    }
+
+    if (result instanceof Promise) {
+      return result.finally(finish) as unknown as T
+    }
+    finish()
+    return result
+  }
+
+  private push(label: string, before: KitchenSnapshot): void {
+    const after = takeKitchenSnapshot()
+    if (sameKitchen(before, after)) return
+
+    this.undoStack = [...this.undoStack, {
+      id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+      label,
+      before,
+      after,
+      timestamp: new Date().toISOString()
+    }].slice(-MAX_ENTRIES)
+    this.redoStack = []
+    this.notifyChange()
+  }
+
+  peekUndo(): HistoryEntry | null {
+    return this.undoStack[this.undoStack.length - 1] || null
+  }
+
+  peekRedo(): HistoryEntry | null {
+    return this.redoStack[this.redoStack.length - 1] || null
+  }
+
+  canUndo(entryId?: string): boolean {
+    return entryId ? this.undoStack.some(entry => entry.id === entryId) : this.undoStack.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  // Undoes the latest change, or the one given; null when there's nothing to undo
+  undo(entryId?: string): HistoryEntry | null {
+    const entry = entryId ? this.undoStack.find(candidate => candidate.id === entryId) : this.peekUndo()
+    if (!entry) return null
+
+    applyKitchenChange(entry.after, entry.before)
+    this.undoStack = this.undoStack.filter(candidate => candidate !== entry)
+    this.redoStack = [...this.redoStack, entry]
+    this.notifyChange()
+    return entry
+  }
+
+  // Makes the last undone change again; null when there's nothing to redo
+  redo(): HistoryEntry | null {
+    const entry = this.peekRedo()
+    if (!entry) return null
+
+    applyKitchenChange(entry.before, entry.after)
+    this.redoStack = this.redoStack.slice(0, -1)
+    this.undoStack = [...this.undoStack, entry]
+    this.notifyChange()
+    return entry
+  }
+}
+
+export const historyService = new HistoryService()
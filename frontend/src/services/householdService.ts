@@ -0,0 +1,149 @@
+import api from './api'
+import { syncService } from './syncService'
+import { pantryService } from './pantryService'
+
+export type HouseholdRole = 'owner' | 'member' | 'viewer'
+export type InvitationRole = Exclude<HouseholdRole, 'owner'>
+
+export interface HouseholdMember {
+  userId: string
+  email: string
+  firstName: string
+  lastName: string
+  dietaryPreference?: string
+  role: HouseholdRole
+  joinedAt: string
+}
+
+export interface HouseholdInvitation {
+  id: string
+  email: string
+  role: InvitationRole
+  expiresAt: string
+  createdAt: string
+}
+
+export interface Household {
+  id: string
+  name: string
+  role: HouseholdRole
+  createdAt: string
+  members: HouseholdMember[]
+  invitations: HouseholdInvitation[]
+}
+
+export interface ReceivedInvitation {
+  id: string
+  householdName: string
+  role: InvitationRole
+  invitedBy: string | null
+  expiresAt: string
+  createdAt: string
+}
+
+// Local copies of household-shared data; recipes stay personal
+const SHARED_DATA_KEYS = [
+  'intelligent-kitchen-meal-plans',
+  'intelligent-kitchen-shopping-list',
+  'intelligent-kitchen-shopping-lists',
+  'intelligent-kitchen-active-shopping-list'
+]
+
+class HouseholdService {
+  private household: Household | null = null
+
+  // Last household loaded this session, e.g. to default the number of people
+  getCachedHousehold(): Household | null {
+    return this.household
+  }
+
+  async getHousehold(): Promise<Household | null> {
+    const response = await api.get('/households/current')
+    this.household = response.data.household
+    return this.household
+  }
+
+  async createHousehold(name: string, shareExistingData = true): Promise<Household> {
+    await this.flushLocalChanges()
+    const response = await api.post('/households', { name, shareExistingData })
+    this.household = response.data.household
+    this.reloadSharedData()
+    return response.data.household
+  }
+
+  async renameHousehold(name: string): Promise<Household> {
+    const response = await api.put('/households/current', { name })
+    this.household = response.data.household
+    return response.data.household
+  }
+
+  async deleteHousehold(): Promise<void> {
+    await this.flushLocalChanges()
+    await api.delete('/households/current')
+    this.household = null
+    this.reloadSharedData()
+  }
+
+  async inviteMember(email: string, role: InvitationRole): Promise<HouseholdInvitation> {
+    const response = await api.post('/households/current/invitations', { email, role })
+    return response.data.invitation
+  }
+
+  async revokeInvitation(invitationId: string): Promise<void> {
+    await api.delete(`/households/current/invitations/${invitationId}`)
+  }
+
+  async getReceivedInvitations(): Promise<ReceivedInvitation[]> {
+    const response = await api.get('/households/invitations')
+    return response.data
+  }
+
+  async acceptInvitation(invitationId: string, shareExistingData = true): Promise<Household> {
+    await this.flushLocalChanges()
+    const response = await api.post(`/households/invitations/${invitationId}/accept`, { shareExistingData })
+    this.household = response.data.household
+    this.reloadSharedData()
+    return response.data.household
+  }
+
+  async declineInvitation(invitationId: string): Promise<void> {
+    await api.post(`/households/invitations/${invitationId}/decline`)
+  }
+
+  async updateMemberRole(userId: string, role: HouseholdRole): Promise<Household> {
+    const response = await api.put(`/households/current/members/${userId}`, { role })
+    this.household = response.data.household
+    return response.data.household
+  }
+
+  async removeMember(userId: string): Promise<void> {
+    await api.delete(`/households/current/members/${userId}`)
+  }
+
+  async leaveHousehold(): Promise<void> {
+    await this.flushLocalChanges()
+    await api.post('/households/current/leave')
+    this.household = null
+    this.reloadSharedData()
+  }
+
+  // Push queued edits before the data they belong to changes owner
+  private async flushLocalChanges(): Promise<void> {
+    try {
+      await syncService.sync()
+      await pantryService.importLocalItems()
+    } catch (error) {
+      console.warn('Sync before household change failed:', error)
+    }
+  }
+
+  // The meal plan and shopping list now come from a different owner:
+  // drop the local copies and start again from the server
+  private reloadSharedData(): void {
+    SHARED_DATA_KEYS.forEach(key => localStorage.removeItem(key))
+    syncService.reset()
+    window.location.reload()
+  }
+}
+
+export const householdService = new HouseholdService()
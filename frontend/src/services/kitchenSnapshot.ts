@@ -0,0 +1,71 @@
+import { PlannedMeal } from '../types/mealPlan'
+import { Recipe } from '../types/recipe'
+import { mealPlanService } from './mealPlanService'
+import { shoppingListService, ShoppingListSnapshot } from './shoppingListService'
+import { recipeService } from './recipeService'
+import { SyncRecord, mergeRecords } from './syncService'
+
+// Everything Betsy can change, as it was at one moment
+export interface KitchenSnapshot {
+  meals: PlannedMeal[]
+  shopping: ShoppingListSnapshot
+  recipes: Recipe[] | null
+}
+
+export function takeKitchenSnapshot(): KitchenSnapshot {
+  return {
+    meals: mealPlanService.snapshot(),
+    shopping: shoppingListService.snapshot(),
+    recipes: recipeService.snapshot()
+  }
+}
+
+// Put the kitchen back as it was; what changed since syncs like any other edit
+export function restoreKitchenSnapshot(snapshot: KitchenSnapshot): void {
+  mealPlanService.restore(snapshot.meals)
+  shoppingListService.restore(snapshot.shopping)
+  recipeService.restore(snapshot.recipes)
+}
+
+export function sameKitchen(a: KitchenSnapshot, b: KitchenSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Makes on `current` the record changes that turned `from` into `to`
+function replay<T extends SyncRecord>(current: T[], from: T[], to: T[]): T[] {
+  const before = new Map(from.map(record => [record.id, JSON.stringify(record)]))
+  const kept = new Set(to.map(record => record.id))
+  const changed = to.filter(record => before.get(record.id) !== JSON.stringify(record))
+  const deletedIds = from.filter(record => !kept.has(record.id)).map(record => record.id)
+  return mergeRecords(current, changed, deletedIds)
+}
+
+/**
+ * `current` with the record changes that turned `from` into `to` made on it.
+ * The active shopping list only moves when it moved between `from` and `to`.
+ */
+export function changeKitchen(current: KitchenSnapshot, from: KitchenSnapshot, to: KitchenSnapshot): KitchenSnapshot {
+  const recipes = replay(current.recipes || [], from.recipes || [], to.recipes || [])
+
+  return {
+    meals: replay(current.meals, from.meals, to.meals),
+    shopping: {
+      lists: replay(current.shopping.lists, from.shopping.lists, to.shopping.lists),
+      items: replay(current.shopping.items, from.shopping.items, to.shopping.items),
+      activeListId: from.shopping.activeListId === to.shopping.activeListId
+        ? current.shopping.activeListId
+        : to.shopping.activeListId
+    },
+    // Nothing saved yet: the built-in recipes show again
+    recipes: recipes.length === 0 && to.recipes === null ? null : recipes
+  }
+}
+
+/**
+ * Changes the kitchen the way it changed from `from` to `to`, record by
+ * record, so anything changed in between (on this page, another page or
+ * another device) stays as it is. Undo is applyKitchenChange(after, before).
+ */
+export function applyKitchenChange(from: KitchenSnapshot, to: KitchenSnapshot): void {
+  restoreKitchenSnapshot(changeKitchen(takeKitchenSnapshot(), from, to))
+}
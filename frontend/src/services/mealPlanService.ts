@@ -1,6 +1,7 @@
 import { PlannedMeal, MealPlan, MealPlanFilters, DEFAULT_MEAL_PLAN_FILTERS } from '../types/mealPlan'
 import { Recipe } from '../types/recipe'
 import api from './api'
+import { syncService, mergeRecords } from './syncService'
 
 const STORAGE_KEY = 'intelligent-kitchen-meal-plans'
 const FILTERS_KEY = 'intelligent-kitchen-meal-filters'
@@ -14,6 +15,41 @@ class MealPlanService {
 
   constructor() {
     this.loadFromStorage()
+    syncService.register({
+      entity: 'meal-plans',
+      getLocalRecords: () => localStorage.getItem(STORAGE_KEY) ? MealPlanService.flattenMeals(this.mealPlans) : null,
+      applyRemote: (records, deletedIds) => this.applyRemoteMeals(records as PlannedMeal[], deletedIds)
+    })
+  }
+
+  private static flattenMeals(mealPlans: MealPlan[]): PlannedMeal[] {
+    return mealPlans.flatMap(plan => plan.meals)
+  }
+
+  private static groupMealsByDate(meals: PlannedMeal[]): MealPlan[] {
+    const plansByDate = new Map<string, MealPlan>()
+    for (const meal of meals) {
+      let plan = plansByDate.get(meal.date)
+      if (!plan) {
+        plan = { id: `meal-plan-${meal.date}`, date: meal.date, meals: [] }
+        plansByDate.set(meal.date, plan)
+      }
+      plan.meals.push(meal)
+    }
+    return Array.from(plansByDate.values())
+  }
+
+  // Meals pulled from the server; each slot keeps a single meal
+  private applyRemoteMeals(records: PlannedMeal[], deletedIds: string[]): void {
+    const incomingSlots = new Set(records.map(meal => `${meal.date}:${meal.mealSlot}`))
+    const incomingIds = new Set(records.map(meal => meal.id))
+    const local = MealPlanService.flattenMeals(this.mealPlans).filter(meal =>
+      incomingIds.has(meal.id) || !incomingSlots.has(`${meal.date}:${meal.mealSlot}`)
+    )
+
+    this.mealPlans = MealPlanService.groupMealsByDate(mergeRecords(local, records, deletedIds))
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.mealPlans))
+    this.notifyChange()
   }
 
   // Subscribe to meal plan changes
@@ -49,7 +85,10 @@ class MealPlanService {
 
   private saveToStorage(): void {
     try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      const previous: MealPlan[] = stored ? JSON.parse(stored) : []
       localStorage.setItem(STORAGE_KEY, JSON.stringify(this.mealPlans))
+      syncService.trackChanges('meal-plans', MealPlanService.flattenMeals(previous), MealPlanService.flattenMeals(this.mealPlans))
       localStorage.setItem(FILTERS_KEY, JSON.stringify(this.filters))
       this.notifyChange()
     } catch (error) {
@@ -69,7 +108,7 @@ class MealPlanService {
   }
 
   // Add or update a planned meal
-  addPlannedMeal(date: string, mealSlot: string, recipe: Recipe): PlannedMeal {
+  addPlannedMeal(date: string, mealSlot: string, recipe: Recipe, servings?: number): PlannedMeal {
     let mealPlan = this.getMealPlan(date)
     
     if (!mealPlan) {
@@ -89,7 +128,8 @@ class MealPlanService {
       id: `planned-meal-${Date.now()}-${Math.random()}`,
       date,
       mealSlot: mealSlot as any,
-      recipe
+      recipe,
+      ...(servings ? { servings } : {})
     }
 
     mealPlan.meals.push(plannedMeal)
@@ -97,6 +137,27 @@ class MealPlanService {
     return plannedMeal
   }
 
+  // Cook a planned meal for a different number of people; shopping lists
+  // scale its ingredients to match
+  setPlannedMealServings(date: string, mealSlot: string, servings: number): PlannedMeal | null {
+    const meal = this.getPlannedMeal(date, mealSlot)
+    if (!meal || servings <= 0) return null
+
+    meal.servings = Math.round(servings)
+    this.saveToStorage()
+    return meal
+  }
+
+  // Record when a planned meal was cooked; cookingService does the pantry side
+  setPlannedMealCooked(date: string, mealSlot: string, cookedAt: string): PlannedMeal | null {
+    const meal = this.getPlannedMeal(date, mealSlot)
+    if (!meal) return null
+
+    meal.cookedAt = cookedAt
+    this.saveToStorage()
+    return meal
+  }
+
   // Remove a planned meal
   removePlannedMeal(date: string, mealSlot: string): boolean {
     const mealPlan = this.getMealPlan(date)
@@ -146,6 +207,17 @@ class MealPlanService {
     this.saveToStorage()
   }
 
+  // A copy of every planned meal, to put back with restore()
+  snapshot(): PlannedMeal[] {
+    return JSON.parse(JSON.stringify(MealPlanService.flattenMeals(this.mealPlans)))
+  }
+
+  // Put the meal plan back as it was; the difference syncs like any other edit
+  restore(meals: PlannedMeal[]): void {
+    this.mealPlans = MealPlanService.groupMealsByDate(JSON.parse(JSON.stringify(meals)))
+    this.saveToStorage()
+  }
+
   // Clear meal plans for a specific date range (week)
   clearMealPlansForWeek(startDate: string, endDate: string): void {
     this.mealPlans = this.mealPlans.filter(plan => 
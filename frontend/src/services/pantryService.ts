@@ -1,9 +1,23 @@
+import api from './api'
+import { ShoppingListItem } from '../types/shoppingList'
+import { parseQuantity, convert, getUnitDimension } from '../utils/unitConversion'
+
+// The server's unit_of_measure enum
+export const PANTRY_UNITS = [
+  'pieces', 'cups', 'tablespoons', 'teaspoons', 'ounces', 'pounds', 'grams', 'kilograms', 'liters', 'milliliters'
+] as const
+
+export type PantryUnit = typeof PANTRY_UNITS[number]
+
 export interface PantryItem {
   id: string
   name: string
-  quantity: string
-  category?: string
+  quantity: number
+  unit: PantryUnit
+  purchaseDate?: string
   expirationDate?: string
+  barcode?: string
+  category?: string
   notes?: string
   createdAt: string
   updatedAt: string
@@ -11,136 +25,222 @@ export interface PantryItem {
 
 export interface PantryItemInput {
   name: string
-  quantity: string
-  category?: string
+  quantity: number
+  unit: PantryUnit
+  purchaseDate?: string
   expirationDate?: string
+  barcode?: string
+  category?: string
   notes?: string
 }
 
-const STORAGE_KEY = 'intelligent-kitchen-pantry'
+// Something bought, to put away; the server works out the pantry unit,
+// category and expiration date
+export interface RestockItem {
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  category?: string
+}
+
+export interface RestockResult {
+  items: PantryItem[]
+  added: number
+  merged: number
+}
+
+export interface PantrySummary {
+  totalItems: number
+  expiringSoon: number
+  expired: number
+}
+
+// Where the pantry was kept before it moved to the server
+const LEGACY_STORAGE_KEY = 'intelligent-kitchen-pantry'
+
+// The unit_of_measure for units the enum doesn't have, by dimension
+const FALLBACK_UNITS: Record<string, PantryUnit> = {
+  count: 'pieces',
+  volume: 'milliliters',
+  mass: 'grams'
+}
+
+function fromRow(row: any): PantryItem {
+  return {
+    id: row.id,
+    name: row.name,
+    quantity: parseFloat(row.quantity),
+    unit: row.unit,
+    purchaseDate: row.purchase_date || undefined,
+    expirationDate: row.expiration_date || undefined,
+    barcode: row.barcode || undefined,
+    category: row.category || undefined,
+    notes: row.notes || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function toBody(input: Partial<PantryItemInput>) {
+  return {
+    ...input,
+    name: input.name?.trim(),
+    category: input.category?.trim() || undefined,
+    notes: input.notes?.trim() || undefined,
+    purchaseDate: input.purchaseDate || undefined,
+    expirationDate: input.expirationDate || undefined
+  }
+}
+
+// "2 lbs rice" -> 2 pounds of rice; "1 gallon milk" -> 3785.41 milliliters of milk.
+// Anything without a unit is counted in pieces.
+export function parsePantryQuantity(text: string): Pick<PantryItemInput, 'name' | 'quantity' | 'unit'> {
+  const parsed = parseQuantity(text)
+  const amount = parsed.amount ?? 1
+  const unit = parsed.unit || 'pieces'
+
+  if ((PANTRY_UNITS as readonly string[]).includes(unit)) {
+    return { name: parsed.name, quantity: amount, unit: unit as PantryUnit }
+  }
+
+  const fallback = FALLBACK_UNITS[getUnitDimension(unit) || 'count']
+  const converted = convert(amount, unit, fallback)
+  return {
+    name: parsed.name,
+    quantity: converted === null ? amount : Math.round(converted * 100) / 100,
+    unit: converted === null ? 'pieces' : fallback
+  }
+}
+
+/**
+ * What a bought shopping list item puts in the pantry. The item's own name,
+ * quantity and unit come first; otherwise its text is read, where a
+ * consolidated "2 cups + 500 g flour" gives one entry per total and
+ * "milk (x2)" is milk listed twice without an amount.
+ */
+export function toRestockItems(item: ShoppingListItem): RestockItem[] {
+  const quantity = item.quantity != null && item.quantity !== '' ? parseFloat(String(item.quantity)) : NaN
+  if (item.name && Number.isFinite(quantity)) {
+    return [{ name: item.name, quantity, unit: item.unit || null }]
+  }
+
+  const text = item.item_text.replace(/\s*\(x\d+\)$/, '')
+  const parts = text.split(' + ').map(part => parseQuantity(part))
+  // Only amounts come before the last "+"; otherwise it's part of the name
+  const totals = parts.slice(0, -1).every(part => part.amount !== null && !part.name) ? parts : [parseQuantity(text)]
+  const name = item.name || totals[totals.length - 1].name || item.item_text
+  return totals.map(total => ({ name, quantity: total.amount, unit: total.unit }))
+}
 
 class PantryService {
-  private getStoredItems(): PantryItem[] {
+  private importing: Promise<void> | null = null
+
+  // Items this browser kept locally reach the server before anything is read
+  private ready(): Promise<void> {
+    if (!this.importing) {
+      this.importing = this.importLocalItems().catch(error => {
+        // Offline or server trouble: the local items stay put for the next try
+        console.warn('Failed to import local pantry items:', error)
+        this.importing = null
+      })
+    }
+    return this.importing
+  }
+
+  /**
+   * Sends the pantry this browser kept in localStorage to the server once, then
+   * forgets it. The server matches items on their local id and keeps any it
+   * changed more recently, so running this again adds nothing twice.
+   */
+  async importLocalItems(): Promise<void> {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY)
+    if (!raw) return
+
+    let stored: any[] = []
     try {
-      const raw = localStorage.getItem(STORAGE_KEY)
-      if (raw) {
-        const parsed = JSON.parse(raw)
-        if (Array.isArray(parsed)) {
-          return parsed
-            .filter(item => item && typeof item.id === 'string')
-            .map(item => ({
-              id: item.id,
-              name: item.name || 'Unnamed Item',
-              quantity: item.quantity || '1',
-              category: item.category,
-              expirationDate: item.expirationDate,
-              notes: item.notes,
-              createdAt: item.createdAt || new Date().toISOString(),
-              updatedAt: item.updatedAt || new Date().toISOString()
-            }))
-        }
-      }
+      const parsed = JSON.parse(raw)
+      stored = Array.isArray(parsed) ? parsed.filter(item => item && typeof item.id === 'string' && item.name) : []
     } catch (error) {
       console.warn('Failed to parse stored pantry items:', error)
     }
 
-    return this.getDefaultItems()
-  }
-
-  private saveItems(items: PantryItem[]) {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
-  }
-
-  private getDefaultItems(): PantryItem[] {
-    const now = new Date()
-    const formatDate = (date: Date) => date.toISOString().split('T')[0]
-
-    return [
-      {
-        id: 'pantry-1',
-        name: 'Canned Tomatoes',
-        quantity: '4 cans',
-        category: 'pantry',
-        expirationDate: formatDate(new Date(now.getTime() + 45 * 24 * 60 * 60 * 1000)),
-        createdAt: now.toISOString(),
-        updatedAt: now.toISOString()
-      },
-      {
-        id: 'pantry-2',
-        name: 'Brown Rice',
-        quantity: '2 lbs',
-        category: 'grains',
-        expirationDate: formatDate(new Date(now.getTime() + 120 * 24 * 60 * 60 * 1000)),
-        createdAt: now.toISOString(),
-        updatedAt: now.toISOString()
-      },
-      {
-        id: 'pantry-3',
-        name: 'Olive Oil',
-        quantity: '1 bottle',
-        category: 'pantry',
-        createdAt: now.toISOString(),
-        updatedAt: now.toISOString()
-      }
-    ]
-  }
-
-  async getAllItems(): Promise<PantryItem[]> {
-    return this.getStoredItems()
+    if (stored.length > 0) {
+      await api.post('/pantry/import', {
+        items: stored.map(item => {
+          // Quantities were typed as text, e.g. "2 lbs" or "4 cans"
+          const { quantity, unit } = parsePantryQuantity(String(item.quantity || '1'))
+          const updatedAt = new Date(item.updatedAt)
+          return {
+            clientId: item.id,
+            name: String(item.name).trim(),
+            quantity,
+            unit,
+            category: item.category || undefined,
+            expirationDate: item.expirationDate || undefined,
+            notes: item.notes || undefined,
+            updatedAt: Number.isNaN(updatedAt.getTime()) ? undefined : updatedAt.toISOString()
+          }
+        })
+      })
+    }
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
   }
 
-  async addItem(input: PantryItemInput): Promise<PantryItem> {
-    const items = this.getStoredItems()
-    const now = new Date().toISOString()
-    const newItem: PantryItem = {
-      id: `pantry-${Date.now()}`,
-      name: input.name.trim(),
-      quantity: input.quantity.trim(),
-      category: input.category?.trim() || undefined,
-      expirationDate: input.expirationDate || undefined,
-      notes: input.notes?.trim() || undefined,
-      createdAt: now,
-      updatedAt: now
+  async getAllItems(): Promise<{ items: PantryItem[]; summary: PantrySummary }> {
+    await this.ready()
+    const response = await api.get('/pantry')
+    return {
+      items: response.data.items.map(fromRow),
+      summary: response.data.summary
     }
+  }
 
-    const nextItems = [...items, newItem]
-    this.saveItems(nextItems)
-    return newItem
+  async addItem(input: PantryItemInput): Promise<PantryItem> {
+    const response = await api.post('/pantry', toBody(input))
+    return fromRow(response.data.item)
   }
 
-  async updateItem(id: string, updates: Partial<PantryItemInput>): Promise<PantryItem | null> {
-    const items = this.getStoredItems()
-    const index = items.findIndex(item => item.id === id)
-    if (index === -1) {
-      return null
-    }
+  async addItems(inputs: PantryItemInput[]): Promise<PantryItem[]> {
+    const response = await api.post('/pantry/bulk', { items: inputs.map(toBody) })
+    return response.data.items.map(fromRow)
+  }
 
-    const updatedItem: PantryItem = {
-      ...items[index],
-      ...updates,
-      name: updates.name !== undefined ? updates.name.trim() : items[index].name,
-      quantity: updates.quantity !== undefined ? updates.quantity.trim() : items[index].quantity,
-      category: updates.category !== undefined ? updates.category.trim() : items[index].category,
-      notes: updates.notes !== undefined ? updates.notes.trim() : items[index].notes,
-      expirationDate: updates.expirationDate ?? items[index].expirationDate,
-      updatedAt: new Date().toISOString()
-    }
+  async updateItem(id: string, updates: Partial<PantryItemInput>): Promise<PantryItem> {
+    const response = await api.put(`/pantry/${id}`, toBody(updates))
+    return fromRow(response.data.item)
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    await api.delete(`/pantry/${id}`)
+  }
 
-    const nextItems = [...items]
-    nextItems[index] = updatedItem
-    this.saveItems(nextItems)
-    return updatedItem
+  async getExpiringSoon(): Promise<PantryItem[]> {
+    await this.ready()
+    const response = await api.get('/pantry/expiring/soon')
+    return response.data.map(fromRow)
   }
 
-  async deleteItem(id: string): Promise<boolean> {
-    const items = this.getStoredItems()
-    const filtered = items.filter(item => item.id !== id)
-    if (filtered.length === items.length) {
-      return false
+  async getExpired(): Promise<PantryItem[]> {
+    await this.ready()
+    const response = await api.get('/pantry/expiring/expired')
+    return response.data.map(fromRow)
+  }
+
+  // Adds bought items, topping up what's already there
+  async restock(items: RestockItem[]): Promise<RestockResult> {
+    const response = await api.post('/pantry/restock', { items })
+    return {
+      items: response.data.items.map(fromRow),
+      added: response.data.added,
+      merged: response.data.merged
     }
+  }
 
-    this.saveItems(filtered)
-    return true
+  // Deletes everything past its expiration date; returns how many went
+  async removeExpired(): Promise<number> {
+    const response = await api.delete('/pantry/expired/cleanup')
+    return response.data.deletedCount
   }
 }
 
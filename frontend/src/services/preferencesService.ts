@@ -0,0 +1,96 @@
+import api from './api'
+import { authService } from './authService'
+import { MeasurementSystem } from '../utils/unitConversion'
+
+export interface UserPreferences {
+  measurementSystem: MeasurementSystem
+}
+
+type PreferencesListener = (preferences: UserPreferences) => void
+
+const PREFERENCES_KEY = 'intelligent-kitchen-preferences'
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  measurementSystem: 'us'
+}
+
+// Per-user settings kept in user_preferences on the server. The last values
+// loaded are cached so pages render in the right units before the request
+// returns, and while offline.
+class PreferencesService {
+  private preferences: UserPreferences
+  private listeners: Set<PreferencesListener> = new Set()
+
+  constructor() {
+    this.preferences = this.getStoredPreferences()
+    authService.subscribe(user => {
+      if (user) {
+        void this.load()
+      } else {
+        this.preferences = this.getStoredPreferences()
+        this.notifyChange()
+      }
+    })
+  }
+
+  private getStoredPreferences(): UserPreferences {
+    try {
+      const stored = localStorage.getItem(PREFERENCES_KEY)
+      return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : { ...DEFAULT_PREFERENCES }
+    } catch {
+      return { ...DEFAULT_PREFERENCES }
+    }
+  }
+
+  private store(preferences: UserPreferences): void {
+    this.preferences = preferences
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences))
+    this.notifyChange()
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach(listener => listener(this.preferences))
+  }
+
+  subscribe(listener: PreferencesListener): () => void {
+    this.listeners.add(listener)
+    listener(this.preferences)
+    return () => this.listeners.delete(listener)
+  }
+
+  getPreferences(): UserPreferences {
+    return this.preferences
+  }
+
+  getMeasurementSystem(): MeasurementSystem {
+    return this.preferences.measurementSystem
+  }
+
+  async load(): Promise<UserPreferences> {
+    try {
+      const response = await api.get('/users/preferences')
+      this.store({ ...DEFAULT_PREFERENCES, ...response.data.preferences })
+    } catch (error) {
+      console.warn('Could not load preferences, using the last ones saved:', error)
+    }
+    return this.preferences
+  }
+
+  // Applies right away; reverts if the server rejects it
+  async setMeasurementSystem(measurementSystem: MeasurementSystem): Promise<void> {
+    const previous = this.preferences
+    this.store({ ...previous, measurementSystem })
+
+    if (!authService.getCurrentUser()) return
+
+    try {
+      const response = await api.put('/users/preferences', { measurementSystem })
+      this.store({ ...DEFAULT_PREFERENCES, ...response.data.preferences })
+    } catch (error) {
+      this.store(previous)
+      throw error
+    }
+  }
+}
+
+export const preferencesService = new PreferencesService()
@@ -1,21 +1,41 @@
-import { Recipe, RecipeFormData, RecipeCategory } from '../types/recipe'
+import { Recipe, RecipeFormData, RecipeCategory, CookableRecipe, RecipeShare, RecipeHouseholdShare, RecipeSharePermission, RecipeVisibility, SharedRecipe } from '../types/recipe'
+import api from './api'
 import { aiService } from './aiService'
 import { parseIngredientsFromInstructions, IngredientParseResult } from '../utils/ingredientParser'
+import { syncService, mergeRecords } from './syncService'
 
 const STORAGE_KEY = 'intelligent-kitchen-recipes'
 
 class RecipeService {
-  private getRecipes(): Recipe[] {
+  constructor() {
+    syncService.register({
+      entity: 'recipes',
+      getLocalRecords: () => this.getStoredRecipes(),
+      applyRemote: (records, deletedIds) => {
+        const merged = mergeRecords(this.getRecipes(), records as Recipe[], deletedIds)
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(merged))
+        window.dispatchEvent(new Event('recipes-updated'))
+      }
+    })
+  }
+
+  private getStoredRecipes(): Recipe[] | null {
     try {
       const stored = localStorage.getItem(STORAGE_KEY)
-      return stored ? JSON.parse(stored) : this.getDefaultRecipes()
+      return stored ? JSON.parse(stored) : null
     } catch {
-      return this.getDefaultRecipes()
+      return null
     }
   }
 
+  private getRecipes(): Recipe[] {
+    return this.getStoredRecipes() || this.getDefaultRecipes()
+  }
+
   private saveRecipes(recipes: Recipe[]): void {
+    const previous = this.getStoredRecipes() || []
     localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes))
+    syncService.trackChanges('recipes', previous, recipes)
   }
 
   private getDefaultRecipes(): Recipe[] {
@@ -51,6 +71,20 @@ class RecipeService {
     return this.getRecipes()
   }
 
+  // The saved recipes, to put back with restore(); null before anything was saved
+  snapshot(): Recipe[] | null {
+    return this.getStoredRecipes()
+  }
+
+  // Put the recipes back as they were; the difference syncs like any other edit
+  restore(recipes: Recipe[] | null): void {
+    this.saveRecipes(recipes || [])
+    if (!recipes) {
+      localStorage.removeItem(STORAGE_KEY)
+    }
+    window.dispatchEvent(new Event('recipes-updated'))
+  }
+
   async getRecipeById(id: string): Promise<Recipe | null> {
     const recipes = this.getRecipes()
     return recipes.find(recipe => recipe.id === id) || null
@@ -145,6 +179,61 @@ class RecipeService {
     return true
   }
 
+  // Sharing works on the server copy, so push local edits first
+  async getShares(id: string): Promise<{ visibility: RecipeVisibility; shares: RecipeShare[]; householdShares: RecipeHouseholdShare[] }> {
+    await syncService.sync()
+    const response = await api.get(`/recipes/${encodeURIComponent(id)}/shares`)
+    return {
+      visibility: response.data.visibility,
+      shares: response.data.shares,
+      householdShares: response.data.householdShares || []
+    }
+  }
+
+  async shareRecipe(id: string, email: string, permission: RecipeSharePermission): Promise<RecipeShare> {
+    await syncService.sync()
+    const response = await api.post(`/recipes/${encodeURIComponent(id)}/shares`, { email, permission })
+    return response.data.share
+  }
+
+  async removeShare(id: string, userId: string): Promise<void> {
+    await api.delete(`/recipes/${encodeURIComponent(id)}/shares/${userId}`)
+  }
+
+  // Shares with the household the signed-in user belongs to
+  async shareWithHousehold(id: string, permission: RecipeSharePermission): Promise<RecipeHouseholdShare> {
+    await syncService.sync()
+    const response = await api.post(`/recipes/${encodeURIComponent(id)}/household-shares`, { permission })
+    return response.data.share
+  }
+
+  async removeHouseholdShare(id: string, householdId: string): Promise<void> {
+    await api.delete(`/recipes/${encodeURIComponent(id)}/household-shares/${householdId}`)
+  }
+
+  async setVisibility(id: string, visibility: RecipeVisibility): Promise<void> {
+    await syncService.sync()
+    await api.put(`/recipes/${encodeURIComponent(id)}`, { visibility })
+    await syncService.sync()
+  }
+
+  async getSharedWithMe(): Promise<SharedRecipe[]> {
+    const response = await api.get('/recipes/user/shared-with-me')
+    return response.data.recipes
+  }
+
+  // Copy someone else's recipe into this user's collection; it arrives locally on the next pull
+  async forkRecipe(id: string): Promise<void> {
+    await api.post(`/recipes/${encodeURIComponent(id)}/fork`)
+    await syncService.sync()
+  }
+
+  // Saved recipes ranked by how much of them the pantry covers, best first
+  async getCookableRecipes(limit?: number): Promise<CookableRecipe[]> {
+    const response = await api.get('/recipes/user/cookable', { params: { limit } })
+    return response.data.recipes
+  }
+
   // Extract ingredients from instructions text using AI
   async extractIngredients(instructions: string, recipeName: string = 'Unknown Recipe'): Promise<string[]> {
     try {
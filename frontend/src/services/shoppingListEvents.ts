@@ -0,0 +1,131 @@
+import { API_BASE_URL } from '../config/apiConfig'
+import { TOKEN_KEY } from './api'
+import { syncService, SyncEntity, SyncRecord } from './syncService'
+
+export type LiveStatus = 'connecting' | 'live' | 'offline'
+
+type LiveStatusListener = (status: LiveStatus) => void
+
+interface ShoppingListChangeEvent {
+  type: 'changes'
+  origin: string | null
+  // Same shape as a sync pull: shopping lists, then their items
+  entities: Partial<Record<SyncEntity, { records: SyncRecord[]; deleted: string[] }>>
+}
+
+const MIN_RETRY_MS = 1000
+const MAX_RETRY_MS = 30 * 1000
+
+// Live shopping list updates from the other people sharing the list, over
+// server-sent events. Changes still travel through the sync outbox; the stream
+// only delivers other devices' pushes without waiting for the next pull.
+class ShoppingListEvents {
+  private source: EventSource | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private retryDelay = MIN_RETRY_MS
+  private connections = 0
+  // Bumped on close so an open() still waiting on its catch-up sync gives up
+  private generation = 0
+  private status: LiveStatus = 'offline'
+  private statusListeners: Set<LiveStatusListener> = new Set()
+
+  // Open the stream while anything is showing the list; returns the disconnect
+  connect(): () => void {
+    this.connections += 1
+    if (this.connections === 1) {
+      void this.open()
+    }
+
+    let connected = true
+    return () => {
+      if (!connected) return
+      connected = false
+      this.connections -= 1
+      if (this.connections === 0) {
+        this.close()
+      }
+    }
+  }
+
+  subscribe(listener: LiveStatusListener): () => void {
+    this.statusListeners.add(listener)
+    listener(this.status)
+    return () => this.statusListeners.delete(listener)
+  }
+
+  private setStatus(status: LiveStatus): void {
+    this.status = status
+    this.statusListeners.forEach(listener => listener(status))
+  }
+
+  private async open(): Promise<void> {
+    if (!syncService.isEnabled()) {
+      this.setStatus('offline')
+      return
+    }
+
+    const generation = this.generation
+    this.setStatus('connecting')
+
+    // Catch up on anything missed while disconnected; this also refreshes an
+    // expired access token before it goes into the stream URL
+    await syncService.sync()
+    if (generation !== this.generation || this.source) return
+
+    const token = localStorage.getItem(TOKEN_KEY) || ''
+    const source = new EventSource(
+      `${API_BASE_URL}/shopping-lists/events?access_token=${encodeURIComponent(token)}`
+    )
+    this.source = source
+
+    source.addEventListener('ready', () => {
+      this.retryDelay = MIN_RETRY_MS
+      this.setStatus('live')
+    })
+
+    source.addEventListener('changes', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as ShoppingListChangeEvent
+      if (event.origin === syncService.clientId) return
+      Object.entries(event.entities).forEach(([entity, changes]) => {
+        if (changes) {
+          syncService.applyLiveChanges(entity as SyncEntity, changes.records, changes.deleted)
+        }
+      })
+    })
+
+    // The browser retries on its own with the same, possibly expired, token;
+    // reconnect ourselves instead so each attempt gets a fresh one
+    source.onerror = () => {
+      this.closeSource()
+      this.setStatus('offline')
+      this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.retryTimer || this.connections === 0) return
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      void this.open()
+    }, this.retryDelay)
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS)
+  }
+
+  private closeSource(): void {
+    this.source?.close()
+    this.source = null
+  }
+
+  private close(): void {
+    this.generation += 1
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+    this.closeSource()
+    this.retryDelay = MIN_RETRY_MS
+    this.setStatus('offline')
+  }
+}
+
+export const shoppingListEvents = new ShoppingListEvents()
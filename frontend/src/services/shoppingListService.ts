@@ -1,9 +1,42 @@
-import { ShoppingListItem } from '../types/shoppingList';
+import { ShoppingList, ShoppingListItem } from '../types/shoppingList';
+import { syncService, mergeRecords } from './syncService';
+import { preferencesService } from './preferencesService';
+import {
+  MeasurementSystem,
+  Quantity,
+  addQuantities,
+  formatQuantity,
+  parseQuantity,
+  toPreferredUnit
+} from '../utils/unitConversion';
 
 const STORAGE_KEY = 'intelligent-kitchen-shopping-list';
+const LISTS_KEY = 'intelligent-kitchen-shopping-lists';
+const ACTIVE_LIST_KEY = 'intelligent-kitchen-active-shopping-list';
+
+// Every device knows the first list by this id; the server maps it to the
+// oldest list of the user or household
+export const DEFAULT_LIST_ID = 'default';
+
+const listIdOf = (item: ShoppingListItem) => item.list_id || DEFAULT_LIST_ID;
 
 type ShoppingListChangeListener = () => void;
 
+// Every list and item as they were at one moment, for restore()
+export interface ShoppingListSnapshot {
+  lists: ShoppingList[];
+  items: ShoppingListItem[];
+  activeListId: string;
+}
+
+// List order: position first, then creation time and id so every device
+// settles on the same order when two people add items at the same time
+export function compareListOrder(a: ShoppingListItem, b: ShoppingListItem): number {
+  return a.position - b.position
+    || a.created_at.localeCompare(b.created_at)
+    || a.id.localeCompare(b.id);
+}
+
 class ShoppingListService {
   private changeListeners: Set<ShoppingListChangeListener> = new Set();
 
@@ -18,26 +51,191 @@ class ShoppingListService {
     this.changeListeners.forEach(listener => listener());
   }
 
-  protected getItems(): ShoppingListItem[] {
+  protected readStoredLists(): ShoppingList[] | null {
+    try {
+      const stored = localStorage.getItem(LISTS_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // The default list exists even before anyone named or synced it
+  protected getStoredLists(): ShoppingList[] {
+    const lists = this.readStoredLists() || [];
+    if (lists.some(list => list.id === DEFAULT_LIST_ID)) {
+      return lists;
+    }
+    const epoch = new Date(0).toISOString();
+    return [
+      { id: DEFAULT_LIST_ID, name: 'My Shopping List', is_completed: false, is_archived: false, created_at: epoch, updated_at: epoch },
+      ...lists
+    ];
+  }
+
+  protected saveLists(lists: ShoppingList[]): void {
+    const previous = this.readStoredLists() || [];
+    localStorage.setItem(LISTS_KEY, JSON.stringify(lists));
+    syncService.trackChanges('shopping-lists', previous, lists);
+    this.notifyChange();
+  }
+
+  // Lists pulled from the server. The server drops the items of a deleted
+  // list along with it, so this device forgets them too.
+  protected applyRemoteLists(records: ShoppingList[], deletedIds: string[]): void {
+    const merged = mergeRecords(this.readStoredLists() || [], records, deletedIds);
+    localStorage.setItem(LISTS_KEY, JSON.stringify(merged));
+
+    if (deletedIds.length > 0) {
+      const deleted = new Set(deletedIds);
+      const remaining = this.getItems().filter(item => !deleted.has(listIdOf(item)));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+    }
+    this.notifyChange();
+  }
+
+  protected readStoredItems(): ShoppingListItem[] | null {
     try {
       const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
+      return stored ? JSON.parse(stored) : null;
     } catch {
-      return [];
+      return null;
     }
   }
 
+  protected getItems(): ShoppingListItem[] {
+    return (this.readStoredItems() || []).sort(compareListOrder);
+  }
+
   protected saveItems(items: ShoppingListItem[]): void {
+    const previous = this.getItems();
     localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+    syncService.trackChanges('shopping-list', previous, items);
+    this.notifyChange();
+  }
+
+  // Items pulled from the server, kept in list order
+  protected applyRemoteItems(records: ShoppingListItem[], deletedIds: string[]): void {
+    const merged = mergeRecords(this.getItems(), records, deletedIds).sort(compareListOrder);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(merged));
     this.notifyChange();
   }
 
+  snapshot(): ShoppingListSnapshot {
+    return {
+      lists: this.readStoredLists() || [],
+      items: this.getItems(),
+      activeListId: this.getActiveListId()
+    };
+  }
+
+  // Put every list and item back as they were; the difference syncs like any other edit
+  restore(snapshot: ShoppingListSnapshot): void {
+    this.saveItems(snapshot.items);
+    this.saveLists(snapshot.lists);
+    this.setActiveListId(snapshot.activeListId);
+  }
+
   protected generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 
-  async getShoppingListItems(): Promise<ShoppingListItem[]> {
-    return this.getItems();
+  // Lists to choose from, oldest first; archived ones only when asked for
+  getLists(includeArchived = false): ShoppingList[] {
+    return this.getStoredLists()
+      .filter(list => includeArchived || !list.is_archived)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  getList(listId: string): ShoppingList | undefined {
+    return this.getStoredLists().find(list => list.id === listId);
+  }
+
+  // A list by the name someone said or typed, e.g. "costco" for "Costco run"
+  findListByName(name: string): ShoppingList | undefined {
+    const wanted = name.toLowerCase().replace(/\s+list$/, '').trim();
+    if (!wanted) return undefined;
+    const lists = this.getLists();
+    return lists.find(list => list.name.toLowerCase() === wanted)
+      || lists.find(list => list.name.toLowerCase().includes(wanted));
+  }
+
+  // Where Betsy puts items: the list named in the command, otherwise the active list
+  resolveTargetList(listName?: string | null): { list: ShoppingList; matched: boolean } {
+    const named = listName ? this.findListByName(listName) : undefined;
+    const list = named || this.getList(this.getActiveListId()) || this.getStoredLists()[0];
+    return { list, matched: Boolean(named) };
+  }
+
+  // The list this device is looking at; new items, Betsy and recipe
+  // ingredients go here unless told otherwise
+  getActiveListId(): string {
+    const stored = localStorage.getItem(ACTIVE_LIST_KEY);
+    const list = stored ? this.getList(stored) : undefined;
+    return list && !list.is_archived ? list.id : DEFAULT_LIST_ID;
+  }
+
+  setActiveListId(listId: string): void {
+    localStorage.setItem(ACTIVE_LIST_KEY, listId);
+    this.notifyChange();
+  }
+
+  async createList(name: string): Promise<ShoppingList> {
+    const now = new Date().toISOString();
+    const list: ShoppingList = {
+      id: this.generateId(),
+      name: name.trim() || 'Shopping List',
+      is_completed: false,
+      is_archived: false,
+      created_at: now,
+      updated_at: now
+    };
+    this.saveLists([...this.getStoredLists(), list]);
+    this.setActiveListId(list.id);
+    return list;
+  }
+
+  async updateList(listId: string, updates: Partial<Pick<ShoppingList, 'name' | 'is_completed' | 'is_archived'>>): Promise<ShoppingList> {
+    const lists = this.getStoredLists();
+    const index = lists.findIndex(list => list.id === listId);
+    if (index === -1) {
+      throw new Error('List not found');
+    }
+    if (updates.is_archived && listId === DEFAULT_LIST_ID) {
+      throw new Error('The default list cannot be archived');
+    }
+
+    lists[index] = { ...lists[index], ...updates, updated_at: new Date().toISOString() };
+    this.saveLists(lists);
+    return lists[index];
+  }
+
+  async renameList(listId: string, name: string): Promise<ShoppingList> {
+    return this.updateList(listId, { name: name.trim() || 'Shopping List' });
+  }
+
+  async setListArchived(listId: string, archived: boolean): Promise<ShoppingList> {
+    return this.updateList(listId, { is_archived: archived });
+  }
+
+  // Deletes the list together with its items
+  async deleteList(listId: string): Promise<void> {
+    if (listId === DEFAULT_LIST_ID) {
+      throw new Error('The default list cannot be deleted');
+    }
+    this.saveItems(this.getItems().filter(item => listIdOf(item) !== listId));
+    this.saveLists(this.getStoredLists().filter(list => list.id !== listId));
+  }
+
+  async getShoppingListItems(listId: string = this.getActiveListId()): Promise<ShoppingListItem[]> {
+    return this.getItems().filter(item => listIdOf(item) === listId);
+  }
+
+  // Position after the last item on the list, even if someone else's additions made it longer
+  protected nextPosition(items: ShoppingListItem[], listId: string): number {
+    return items
+      .filter(item => listIdOf(item) === listId)
+      .reduce((last, existing) => Math.max(last, existing.position + 1), 0);
   }
 
   async addShoppingListItem(item: string | {
@@ -45,14 +243,15 @@ class ShoppingListService {
     quantity?: string | number | null;
     unit?: string | null;
     name?: string | null;
-  }): Promise<ShoppingListItem> {
+  }, listId: string = this.getActiveListId()): Promise<ShoppingListItem> {
     const items = this.getItems();
     const baseText = typeof item === 'string' ? item : item.text;
     const newItem: ShoppingListItem = {
       id: this.generateId(),
+      list_id: listId,
       item_text: baseText.trim(),
       is_checked: false,
-      position: items.length,
+      position: this.nextPosition(items, listId),
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       quantity: typeof item === 'object' ? (item.quantity ?? null) : null,
@@ -72,7 +271,7 @@ class ShoppingListService {
     quantityValue?: number | null;
     unit?: string | null;
     name?: string | null;
-  }>): Promise<ShoppingListItem[]> {
+  }>, listId: string = this.getActiveListId()): Promise<ShoppingListItem[]> {
     if (!Array.isArray(ingredients) || ingredients.length === 0) {
       return [];
     }
@@ -90,7 +289,7 @@ class ShoppingListService {
           continue;
         }
         try {
-          const newItem = await this.addShoppingListItem(trimmed);
+          const newItem = await this.addShoppingListItem(trimmed, listId);
           addedItems.push(newItem);
         } catch (error) {
           console.error('Failed to add shopping list item from string ingredient:', error);
@@ -123,7 +322,7 @@ class ShoppingListService {
           quantity: quantityText,
           unit: unitText,
           name: nameText || baseText
-        });
+        }, listId);
         addedItems.push(newItem);
       } catch (error) {
         console.error('Failed to add shopping list item from structured ingredient:', error);
@@ -157,37 +356,51 @@ class ShoppingListService {
     this.saveItems(filteredItems);
   }
 
-  async clearCompletedItems(): Promise<void> {
+  // Put an item at the end of another list
+  async moveItemToList(itemId: string, listId: string): Promise<ShoppingListItem> {
+    if (!this.getList(listId)) {
+      throw new Error('List not found');
+    }
+    const position = this.nextPosition(this.getItems(), listId);
+    return this.updateShoppingListItem(itemId, { list_id: listId, position });
+  }
+
+  async clearCompletedItems(listId: string = this.getActiveListId()): Promise<void> {
     const items = this.getItems();
-    const activeItems = items.filter(item => !item.is_checked);
+    const activeItems = items.filter(item => listIdOf(item) !== listId || !item.is_checked);
     this.saveItems(activeItems);
   }
 
-  async markAllAsCompleted(): Promise<void> {
+  async markAllAsCompleted(listId: string = this.getActiveListId()): Promise<void> {
     const items = this.getItems();
     items.forEach(item => {
+      if (listIdOf(item) !== listId || item.is_checked) return;
       item.is_checked = true;
       item.updated_at = new Date().toISOString();
     });
     this.saveItems(items);
   }
 
-  async reorderItems(itemIds: string[]): Promise<void> {
+  // Only items whose position actually changed are rewritten (and synced).
+  // Items of the list missing from itemIds, e.g. added on another device
+  // mid-drag, keep their place at the end instead of being dropped.
+  async reorderItems(itemIds: string[], listId: string = this.getActiveListId()): Promise<void> {
     const items = this.getItems();
-    const reorderedItems: ShoppingListItem[] = [];
-    
-    itemIds.forEach((id, index) => {
-      const item = items.find(i => i.id === id);
-      if (item) {
-        reorderedItems.push({
-          ...item,
-          position: index,
-          updated_at: new Date().toISOString()
-        });
-      }
-    });
-    
-    this.saveItems(reorderedItems);
+    const listItems = items.filter(item => listIdOf(item) === listId);
+    const byId = new Map(listItems.map(item => [item.id, item]));
+    const ordered = itemIds
+      .map(id => byId.get(id))
+      .filter((item): item is ShoppingListItem => Boolean(item));
+    const listed = new Set(ordered.map(item => item.id));
+    const rest = listItems.filter(item => !listed.has(item.id));
+
+    const reorderedItems = [...ordered, ...rest].map((item, index) =>
+      item.position === index
+        ? item
+        : { ...item, position: index, updated_at: new Date().toISOString() }
+    );
+
+    this.saveItems([...items.filter(item => listIdOf(item) !== listId), ...reorderedItems]);
   }
 }
 
@@ -268,6 +481,20 @@ export const SHOPPING_LIST_TEMPLATES: ShoppingListTemplate[] = [
 
 // Enhanced Shopping List Service Class with Template Support
 class EnhancedShoppingListService extends ShoppingListService {
+  constructor() {
+    super();
+    syncService.register({
+      entity: 'shopping-lists',
+      getLocalRecords: () => this.readStoredLists(),
+      applyRemote: (records, deletedIds) => this.applyRemoteLists(records as ShoppingList[], deletedIds)
+    });
+    syncService.register({
+      entity: 'shopping-list',
+      getLocalRecords: () => this.readStoredItems(),
+      applyRemote: (records, deletedIds) => this.applyRemoteItems(records as ShoppingListItem[], deletedIds)
+    });
+  }
+
   async getTemplates(): Promise<ShoppingListTemplate[]> {
     return SHOPPING_LIST_TEMPLATES;
   }
@@ -296,18 +523,19 @@ class EnhancedShoppingListService extends ShoppingListService {
     await this.setStoredTemplates(filtered);
   }
 
-  async applyTemplate(templateId: string): Promise<ShoppingListItem[]> {
+  async applyTemplate(templateId: string, listId: string = this.getActiveListId()): Promise<ShoppingListItem[]> {
     const templates = await this.getAllTemplates();
     const template = templates.find(t => t.id === templateId);
     if (!template) {
       throw new Error(`Template not found: ${templateId}`);
     }
 
-    const newItems = template.items.map(item => ({
+    const newItems = template.items.map((item, index) => ({
       id: this.generateId(),
+      list_id: listId,
       item_text: item.quantity ? `${item.quantity} ${item.unit ? `${item.unit} ` : ''}${item.name}` : item.name,
       is_checked: false,
-      position: 0,
+      position: index,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       quantity: item.quantity?.toString(),
@@ -315,13 +543,14 @@ class EnhancedShoppingListService extends ShoppingListService {
       name: item.name
     }));
 
-    // Clear existing items and add template items
-    this.saveItems(newItems);
+    // Replace the list's items with the template items
+    const otherItems = this.getItems().filter(item => listIdOf(item) !== listId);
+    this.saveItems([...otherItems, ...newItems]);
     return newItems;
   }
 
-  async saveAsTemplate(name: string, description: string): Promise<ShoppingListTemplate> {
-    const currentItems = this.getItems();
+  async saveAsTemplate(name: string, description: string, listId: string = this.getActiveListId()): Promise<ShoppingListTemplate> {
+    const currentItems = await this.getShoppingListItems(listId);
     
     const newTemplate: ShoppingListTemplate = {
       id: Date.now().toString(36),
@@ -344,8 +573,11 @@ class EnhancedShoppingListService extends ShoppingListService {
     return newTemplate;
   }
 
-  async consolidateItems(): Promise<{ items: ShoppingListItem[]; stats: { originalCount: number; finalCount: number; combinedCount: number; combinedItems: string[] } }> {
-    const items = this.getItems();
+  async consolidateItems(
+    listId: string = this.getActiveListId(),
+    system: MeasurementSystem = preferencesService.getMeasurementSystem()
+  ): Promise<{ items: ShoppingListItem[]; stats: { originalCount: number; finalCount: number; combinedCount: number; combinedItems: string[] } }> {
+    const items = await this.getShoppingListItems(listId);
     const originalCount = items.length;
     
     if (items.length <= 1) {
@@ -358,29 +590,6 @@ class EnhancedShoppingListService extends ShoppingListService {
     // Track which items got combined
     const combinedItems: string[] = [];
 
-    // Extract quantity and name from item text like "2 cups flour" or "3 eggs"
-    const parseItemText = (text: string): { quantity: number; unit: string; name: string } => {
-      // Match patterns like "2 cups flour", "1/2 lb chicken", "3 eggs"
-      const match = text.match(/^([\d.\/]+)\s*([a-zA-Z]*)\s*(.+)$/);
-      if (match) {
-        let qty = 0;
-        const qtyStr = match[1];
-        // Handle fractions like "1/2"
-        if (qtyStr.includes('/')) {
-          const [num, denom] = qtyStr.split('/');
-          qty = parseFloat(num) / parseFloat(denom);
-        } else {
-          qty = parseFloat(qtyStr);
-        }
-        return {
-          quantity: isNaN(qty) ? 0 : qty,
-          unit: match[2].toLowerCase().trim(),
-          name: match[3].toLowerCase().trim()
-        };
-      }
-      return { quantity: 0, unit: '', name: text.toLowerCase().trim() };
-    };
-
     // Normalize ingredient name for matching
     const normalizeName = (name: string) => 
       name.toLowerCase()
@@ -388,60 +597,58 @@ class EnhancedShoppingListService extends ShoppingListService {
         .replace(/\s+/g, ' ')
         .trim();
 
-    const consolidated = new Map<string, { item: ShoppingListItem; parsed: { quantity: number; unit: string; name: string } }>();
+    // Each entry keeps one running total per kind of measure, so "1 cup milk"
+    // and "8 fl oz milk" add up while "2 onions" and "1 cup onion" stay apart
+    const consolidated = new Map<string, { item: ShoppingListItem; name: string; quantities: Quantity[]; count: number }>();
     
     for (const item of items) {
-      // Try to parse from item_text first, fall back to stored fields
-      const parsed = parseItemText(item.item_text);
-      
-      // Use parsed name or stored name for the key
-      const itemName = parsed.name || normalizeName(item.name || item.item_text);
+      const parsed = parseQuantity(item.item_text, system);
+      const itemName = parsed.name || item.name || item.item_text;
       const key = normalizeName(itemName);
+      const quantity = parsed.amount ? { amount: parsed.amount, unit: parsed.unit } : null;
       
-      if (consolidated.has(key)) {
-        const existing = consolidated.get(key)!;
-        const existingParsed = existing.parsed;
-        
-        // Track that this item was combined
-        if (!combinedItems.includes(itemName)) {
-          combinedItems.push(itemName);
-        }
-        
-        // Add quantities if both have numeric quantities and compatible units
-        if (existingParsed.quantity > 0 && parsed.quantity > 0) {
-          // Same unit or one has no unit
-          if (existingParsed.unit === parsed.unit || !existingParsed.unit || !parsed.unit) {
-            existingParsed.quantity += parsed.quantity;
-            const unit = existingParsed.unit || parsed.unit;
-            existing.item.item_text = `${existingParsed.quantity}${unit ? ' ' + unit : ''} ${itemName}`;
-            existing.item.quantity = String(existingParsed.quantity);
-          } else {
-            // Different units - append
-            existing.item.item_text = `${existing.item.item_text} + ${item.item_text}`;
-          }
-        } else if (parsed.quantity > 0) {
-          // Only new item has quantity
-          existingParsed.quantity = parsed.quantity;
-          existingParsed.unit = parsed.unit;
-          existing.item.item_text = item.item_text;
-          existing.item.quantity = String(parsed.quantity);
+      const existing = consolidated.get(key);
+      if (!existing) {
+        consolidated.set(key, { item: { ...item }, name: itemName, quantities: quantity ? [quantity] : [], count: 1 });
+        continue;
+      }
+
+      // Track that this item was combined
+      if (!combinedItems.includes(existing.name)) {
+        combinedItems.push(existing.name);
+      }
+      existing.count += 1;
+
+      if (quantity) {
+        const index = existing.quantities.findIndex(total => addQuantities(total, quantity, itemName) !== null);
+        if (index >= 0) {
+          existing.quantities[index] = addQuantities(existing.quantities[index], quantity, itemName)!;
         } else {
-          // Neither has quantity or only existing has - just note the duplicate
-          if (!existing.item.item_text.includes(item.item_text)) {
-            existing.item.item_text = `${existing.item.item_text} (x2)`;
-          }
+          existing.quantities.push(quantity);
         }
-        existing.item.updated_at = new Date().toISOString();
-      } else {
-        consolidated.set(key, { 
-          item: { ...item }, 
-          parsed 
-        });
       }
     }
 
+    // Rewrite only the combined items, in the preferred measurement system
+    consolidated.forEach(entry => {
+      if (entry.count === 1) return;
+
+      if (entry.quantities.length > 0) {
+        const totals = entry.quantities.map(total => toPreferredUnit(total, system, entry.name));
+        entry.item.item_text = `${totals.map(formatQuantity).join(' + ')} ${entry.name}`;
+        // Several totals ("2 cups + 500 g") don't fit one quantity and unit
+        entry.item.quantity = totals.length === 1 ? String(totals[0].amount) : null;
+        entry.item.unit = totals.length === 1 ? totals[0].unit : null;
+      } else {
+        entry.item.item_text = `${entry.name} (x${entry.count})`;
+      }
+      entry.item.name = entry.name;
+      entry.item.updated_at = new Date().toISOString();
+    });
+
     const result = Array.from(consolidated.values()).map(v => v.item);
-    this.saveItems(result);
+    const otherItems = this.getItems().filter(item => listIdOf(item) !== listId);
+    this.saveItems([...otherItems, ...result]);
     
     return {
       items: result,
@@ -0,0 +1,353 @@
+import api from './api'
+
+// What the server's /sync endpoints accept
+const SYNC_ENTITIES = ['recipes', 'meal-plans', 'shopping-lists', 'shopping-list'] as const
+
+export type SyncEntity = typeof SYNC_ENTITIES[number]
+
+export interface SyncRecord {
+  id: string
+  updatedAt?: string
+  updated_at?: string
+}
+
+export interface SyncAdapter {
+  entity: SyncEntity
+  // Records persisted in localStorage, or null if this browser never saved any
+  getLocalRecords(): SyncRecord[] | null
+  // Write server records into localStorage without queueing them again
+  applyRemote(records: SyncRecord[], deletedIds: string[]): void
+}
+
+interface OutboxEntry {
+  entity: SyncEntity
+  op: 'upsert' | 'delete'
+  id: string
+  record?: SyncRecord
+  changedAt: string
+  // Times the server rejected this change; at MAX_ATTEMPTS it stops being sent
+  attempts?: number
+}
+
+interface PushResult {
+  entity: SyncEntity
+  id: string
+  status: 'applied' | 'conflict' | 'deleted' | 'error'
+  record?: SyncRecord
+  deleted?: boolean
+  error?: string
+}
+
+export interface SyncStatus {
+  online: boolean
+  syncing: boolean
+  pendingChanges: number
+  // Changes the server kept rejecting; they stay local until edited again
+  failedChanges: number
+  lastSyncedAt: string | null
+}
+
+type SyncStatusListener = (status: SyncStatus) => void
+
+const OUTBOX_KEY = 'intelligent-kitchen-sync-outbox'
+const CURSOR_KEY = 'intelligent-kitchen-sync-cursor'
+const LAST_SYNCED_KEY = 'intelligent-kitchen-last-synced'
+const SYNC_INTERVAL_MS = 2 * 60 * 1000
+const FLUSH_DELAY_MS = 1000
+const MAX_BATCH_SIZE = 200
+const MAX_ATTEMPTS = 5
+
+const outboxKey = (entry: { entity: SyncEntity; id: string }) => `${entry.entity}:${entry.id}`
+const hasFailed = (entry: OutboxEntry) => (entry.attempts || 0) >= MAX_ATTEMPTS
+
+// Replace, append and drop records by id; used by every adapter's applyRemote
+export function mergeRecords<T extends SyncRecord>(local: T[], records: T[], deletedIds: string[]): T[] {
+  const deleted = new Set(deletedIds)
+  const merged = local.filter(record => !deleted.has(record.id))
+
+  for (const record of records) {
+    const index = merged.findIndex(existing => existing.id === record.id)
+    if (index === -1) {
+      merged.push(record)
+    } else {
+      merged[index] = record
+    }
+  }
+
+  return merged
+}
+
+class SyncService {
+  // Identifies this tab to the server so live updates it caused aren't echoed back
+  readonly clientId = Date.now().toString(36) + Math.random().toString(36).substr(2)
+  private adapters: Map<SyncEntity, SyncAdapter> = new Map()
+  private statusListeners: Set<SyncStatusListener> = new Set()
+  private inFlight: Promise<void> | null = null
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private syncRequested = false
+  private started = false
+
+  register(adapter: SyncAdapter): void {
+    this.adapters.set(adapter.entity, adapter)
+  }
+
+  subscribe(listener: SyncStatusListener): () => void {
+    this.statusListeners.add(listener)
+    return () => this.statusListeners.delete(listener)
+  }
+
+  getStatus(): SyncStatus {
+    return {
+      online: navigator.onLine,
+      syncing: this.inFlight !== null,
+      pendingChanges: this.readOutbox().filter(entry => !hasFailed(entry)).length,
+      failedChanges: this.readOutbox().filter(hasFailed).length,
+      lastSyncedAt: localStorage.getItem(LAST_SYNCED_KEY)
+    }
+  }
+
+  private notifyStatus(): void {
+    const status = this.getStatus()
+    this.statusListeners.forEach(listener => listener(status))
+  }
+
+  // Syncing needs a signed-in user; without one everything stays local
+  isEnabled(): boolean {
+    return Boolean(localStorage.getItem('auth_token'))
+  }
+
+  start(): void {
+    if (this.started) return
+    this.started = true
+
+    window.addEventListener('online', () => {
+      this.notifyStatus()
+      void this.sync()
+    })
+    window.addEventListener('offline', () => this.notifyStatus())
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        void this.sync()
+      }
+    })
+    setInterval(() => void this.sync(), SYNC_INTERVAL_MS)
+
+    void this.sync()
+  }
+
+  // Queue the difference between two versions of an entity's records
+  trackChanges<T extends SyncRecord>(entity: SyncEntity, previous: T[], next: T[]): void {
+    const changedAt = new Date().toISOString()
+    const previousById = new Map(previous.map(record => [record.id, record]))
+    const nextIds = new Set<string>()
+    const entries: OutboxEntry[] = []
+
+    for (const record of next) {
+      nextIds.add(record.id)
+      const before = previousById.get(record.id)
+      if (!before || JSON.stringify(before) !== JSON.stringify(record)) {
+        entries.push({ entity, op: 'upsert', id: record.id, record, changedAt })
+      }
+    }
+
+    for (const record of previous) {
+      if (!nextIds.has(record.id)) {
+        entries.push({ entity, op: 'delete', id: record.id, changedAt })
+      }
+    }
+
+    if (entries.length > 0) {
+      this.enqueue(entries)
+    }
+  }
+
+  // Push queued changes, then pull whatever changed on the server
+  sync(): Promise<void> {
+    if (!this.isEnabled() || !navigator.onLine) {
+      return Promise.resolve()
+    }
+
+    if (this.inFlight) {
+      // Changes queued mid-sync go out in a follow-up round
+      this.syncRequested = true
+      return this.inFlight
+    }
+
+    this.inFlight = this.runSync().finally(() => {
+      this.inFlight = null
+      this.notifyStatus()
+      if (this.syncRequested) {
+        this.syncRequested = false
+        void this.sync()
+      }
+    })
+    this.notifyStatus()
+
+    return this.inFlight
+  }
+
+  // Forget the cursor and queued changes, e.g. when a different user signs in
+  reset(): void {
+    localStorage.removeItem(OUTBOX_KEY)
+    localStorage.removeItem(CURSOR_KEY)
+    localStorage.removeItem(LAST_SYNCED_KEY)
+    this.notifyStatus()
+  }
+
+  // Changes another device pushed, delivered live instead of on the next pull
+  applyLiveChanges(entity: SyncEntity, records: SyncRecord[], deletedIds: string[]): void {
+    const adapter = this.adapters.get(entity)
+    if (!adapter) return
+    this.applyUnlessPending(adapter, records, deletedIds)
+  }
+
+  private async runSync(): Promise<void> {
+    try {
+      if (!localStorage.getItem(CURSOR_KEY)) {
+        this.queueLocalRecords()
+      }
+
+      await this.push()
+      await this.pull()
+      localStorage.setItem(LAST_SYNCED_KEY, new Date().toISOString())
+    } catch (error) {
+      // Offline or server trouble: the outbox keeps everything for the next attempt
+      console.warn('Sync failed, will retry later:', error)
+    }
+  }
+
+  // First sync on this browser: offer everything stored locally to the server.
+  // Records carry their own timestamps so newer server copies still win.
+  private queueLocalRecords(): void {
+    const queued = new Set(this.readOutbox().map(outboxKey))
+    const entries: OutboxEntry[] = []
+    this.adapters.forEach(adapter => {
+      const records = adapter.getLocalRecords() || []
+      for (const record of records) {
+        if (queued.has(`${adapter.entity}:${record.id}`)) continue
+        // Records without a usable timestamp count as older than any server edit
+        const timestamp = new Date(record.updatedAt || record.updated_at || 0)
+        entries.push({
+          entity: adapter.entity,
+          op: 'upsert',
+          id: record.id,
+          record,
+          changedAt: (Number.isNaN(timestamp.getTime()) ? new Date(0) : timestamp).toISOString()
+        })
+      }
+    })
+
+    if (entries.length > 0) {
+      this.enqueue(entries, false)
+    }
+  }
+
+  private async push(): Promise<void> {
+    // Each change goes out once per sync; one the server rejected waits for the next
+    const sent = new Set<string>()
+    const unsent = () => this.readOutbox()
+      .filter(entry => !hasFailed(entry) && !sent.has(`${outboxKey(entry)}@${entry.changedAt}`))
+      .slice(0, MAX_BATCH_SIZE)
+
+    let batch = unsent()
+    while (batch.length > 0) {
+      const response = await api.post('/sync/changes', { changes: batch }, {
+        headers: { 'X-Client-Id': this.clientId }
+      })
+      const results: PushResult[] = response.data.results || []
+
+      results.forEach(result => this.handlePushResult(result))
+
+      // Drop what the server took, unless it was edited again while the
+      // request was in flight; keep rejected changes to try again
+      const rejected = new Set(results.filter(result => result.status === 'error').map(outboxKey))
+      const pushed = new Map(batch.map(entry => [outboxKey(entry), entry.changedAt]))
+      this.writeOutbox(this.readOutbox().flatMap(entry => {
+        const key = outboxKey(entry)
+        if (pushed.get(key) !== entry.changedAt) return [entry]
+        return rejected.has(key) ? [{ ...entry, attempts: (entry.attempts || 0) + 1 }] : []
+      }))
+
+      batch.forEach(entry => sent.add(`${outboxKey(entry)}@${entry.changedAt}`))
+      batch = unsent()
+    }
+  }
+
+  private handlePushResult(result: PushResult): void {
+    const adapter = this.adapters.get(result.entity)
+    if (!adapter) return
+
+    if (result.status === 'conflict') {
+      // The server has a newer edit; take its version
+      if (result.deleted) {
+        adapter.applyRemote([], [result.id])
+      } else if (result.record) {
+        adapter.applyRemote([result.record], [])
+      }
+    } else if (result.status === 'error') {
+      console.error(`Sync rejected ${result.entity} ${result.id}:`, result.error)
+    }
+  }
+
+  private async pull(): Promise<void> {
+    const since = localStorage.getItem(CURSOR_KEY)
+    const response = await api.get('/sync/changes', { params: since ? { since } : {} })
+    const { cursor, entities } = response.data as {
+      cursor: string
+      entities: Record<string, { records: SyncRecord[]; deleted: string[] }>
+    }
+
+    this.adapters.forEach(adapter => {
+      const changes = entities[adapter.entity]
+      if (changes) {
+        this.applyUnlessPending(adapter, changes.records, changes.deleted)
+      }
+    })
+
+    localStorage.setItem(CURSOR_KEY, cursor)
+  }
+
+  // Local edits still waiting in the outbox take precedence until they're pushed
+  private applyUnlessPending(adapter: SyncAdapter, records: SyncRecord[], deletedIds: string[]): void {
+    const pending = new Set(this.readOutbox().map(outboxKey))
+    const incoming = records.filter(record => !pending.has(`${adapter.entity}:${record.id}`))
+    const deleted = deletedIds.filter(id => !pending.has(`${adapter.entity}:${id}`))
+    if (incoming.length > 0 || deleted.length > 0) {
+      adapter.applyRemote(incoming, deleted)
+    }
+  }
+
+  private enqueue(entries: OutboxEntry[], scheduleFlush = true): void {
+    // Keep only the latest change per record
+    const keys = new Set(entries.map(outboxKey))
+    const outbox = this.readOutbox().filter(entry => !keys.has(outboxKey(entry)))
+    this.writeOutbox([...outbox, ...entries])
+    this.notifyStatus()
+
+    if (scheduleFlush) {
+      if (this.flushTimer) clearTimeout(this.flushTimer)
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null
+        void this.sync()
+      }, FLUSH_DELAY_MS)
+    }
+  }
+
+  private readOutbox(): OutboxEntry[] {
+    try {
+      const stored = localStorage.getItem(OUTBOX_KEY)
+      const outbox: OutboxEntry[] = stored ? JSON.parse(stored) : []
+      // Changes to entities that stopped syncing (the pantry has its own API
+      // now) would get the whole batch rejected
+      return outbox.filter(entry => (SYNC_ENTITIES as readonly string[]).includes(entry.entity))
+    } catch {
+      return []
+    }
+  }
+
+  private writeOutbox(outbox: OutboxEntry[]): void {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox))
+  }
+}
+
+export const syncService = new SyncService()
@@ -0,0 +1,90 @@
+// The arguments of each of Betsy's tools (the "entities" of an intent). The
+// server describes the same tools as JSON Schemas in
+// backend/src/services/ai/betsyTools.js and serves them at /ai/betsy-tools;
+// keep the two in step.
+
+export type BetsyMealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+export type BetsyTimeRange = 'today' | 'this_week' | 'tomorrow';
+export type BetsyRecipeCategory = 'Breakfast' | 'Lunch' | 'Dinner' | 'Snack';
+
+export interface ShoppingItem {
+  name: string;
+  quantity?: string;
+  unit?: string;
+}
+
+export interface BetsyToolArguments {
+  add_shopping_item: { items: ShoppingItem[]; listName?: string };
+  navigate: { destination: 'recipes' | 'shopping_list' | 'meal_planning' };
+  add_meal: { food: string; mealType: BetsyMealType; day?: string };
+  remove_shopping_item: { itemName: string };
+  clear_shopping_list: { checkedOnly?: boolean };
+  mark_all_completed: Record<string, never>;
+  consolidate_shopping_list: Record<string, never>;
+  clear_meals: { timeRange: BetsyTimeRange; mealType?: BetsyMealType };
+  generate_meals: { timeRange: BetsyTimeRange };
+  move_meal: { fromDay: string; fromMealType: BetsyMealType; toDay: string; toMealType: BetsyMealType };
+  swap_meals: { day1: string; mealType1: BetsyMealType; day2: string; mealType2: BetsyMealType };
+  swap_all_meals: { day1: string; day2: string };
+  mark_meal_cooked: { mealType: BetsyMealType; day?: string | null };
+  import_recipe: { url: string; category?: BetsyRecipeCategory };
+  search_recipe: { query: string; category?: BetsyRecipeCategory };
+  add_recipe_to_shopping_list: { recipeName: string; listName?: string };
+  double_recipe: { recipeName: string; multiplier?: number };
+  save_recipe: { recipeName: string };
+  delete_recipe: { recipeName: string };
+  search_recipes: { query: string };
+  undo: Record<string, never>;
+  redo: Record<string, never>;
+  help: Record<string, never>;
+  greeting: Record<string, never>;
+  // Only Betsy's pattern matcher produces these
+  add_to_shopping_list: { itemText: string };
+  web_search_recipe: { query: string; source?: string | null };
+  create_recipe: { recipeName?: string | null };
+}
+
+export type BetsyToolName = keyof BetsyToolArguments;
+
+// 'unknown' is Betsy not knowing what to do; the app does nothing with it
+export type BetsyIntent = BetsyToolName | 'unknown';
+
+// The entities of any intent: code that switches on the intent reads the
+// fields that intent's tool has
+export type BetsyEntities = Partial<
+  BetsyToolArguments['add_shopping_item'] &
+  BetsyToolArguments['navigate'] &
+  BetsyToolArguments['add_meal'] &
+  BetsyToolArguments['remove_shopping_item'] &
+  BetsyToolArguments['clear_shopping_list'] &
+  BetsyToolArguments['clear_meals'] &
+  BetsyToolArguments['move_meal'] &
+  BetsyToolArguments['swap_meals'] &
+  BetsyToolArguments['mark_meal_cooked'] &
+  BetsyToolArguments['import_recipe'] &
+  BetsyToolArguments['add_recipe_to_shopping_list'] &
+  BetsyToolArguments['double_recipe'] &
+  BetsyToolArguments['add_to_shopping_list'] &
+  BetsyToolArguments['web_search_recipe']
+>;
+
+// A JSON Schema, as far as Betsy's tools use it
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+export interface BetsyTool {
+  name: BetsyToolName;
+  description: string;
+  parameters: JsonSchema;
+}
@@ -7,6 +7,8 @@ export interface PlannedMeal {
   date: string // YYYY-MM-DD format
   mealSlot: MealSlot
   recipe: Recipe
+  servings?: number // how many this meal is cooked for; the recipe's own servings when unset
+  cookedAt?: string // ISO timestamp, once it's been cooked and taken out of the pantry
 }
 
 export interface MealPlan {
@@ -1,5 +1,9 @@
 export type RecipeCategory = 'Dinner' | 'Lunch' | 'Breakfast' | 'Snack' | 'Dessert' | 'Beverage'
 
+export type RecipeVisibility = 'private' | 'shared' | 'public'
+
+export type RecipeSharePermission = 'view' | 'edit'
+
 export interface Recipe {
   id: string
   name: string
@@ -20,6 +24,62 @@ export interface Recipe {
   difficulty?: string
   mealType?: string
   isPublic?: boolean
+  visibility?: RecipeVisibility
+  forkedFrom?: string
+}
+
+// Someone this user's recipe is shared with
+export interface RecipeShare {
+  user_id: string
+  email: string
+  first_name: string
+  last_name: string
+  permission: RecipeSharePermission
+  created_at: string
+}
+
+// A household this user's recipe is shared with; covers every member
+export interface RecipeHouseholdShare {
+  household_id: string
+  name: string
+  permission: RecipeSharePermission
+  created_at: string
+}
+
+// A recipe another user has shared with this one or their household (server row)
+export interface SharedRecipe {
+  id: string
+  name: string
+  description?: string | null
+  author_name: string
+  permission: RecipeSharePermission
+  meal_type?: string | null
+  prep_time?: number | null
+  cook_time?: number | null
+  servings?: number
+  shared_at: string
+  household_name?: string | null
+}
+
+// Something a cookable recipe needs that the pantry doesn't have enough of;
+// quantity is null for unmeasured ingredients ("salt to taste")
+export interface MissingIngredient {
+  name: string
+  quantity: number | null
+  unit: string | null
+  text: string
+}
+
+// A saved recipe ranked by how much of it the pantry covers
+export interface CookableRecipe {
+  id: string
+  name: string
+  mealType: string | null
+  coverage: number // 0 to 1
+  score: number // coverage plus a boost for using what expires soon
+  ingredientCount: number
+  missing: MissingIngredient[]
+  expiring: { name: string; daysLeft: number }[] // pantry items it uses that expire within a week
 }
 
 export interface RecipeFormData {
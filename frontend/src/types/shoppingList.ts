@@ -1,5 +1,7 @@
 export interface ShoppingListItem {
   id: string;
+  // The list the item is on; items saved before there were lists are on the default list
+  list_id?: string;
   item_text: string;
   is_checked: boolean;
   position: number;
@@ -12,12 +14,11 @@ export interface ShoppingListItem {
 
 export interface ShoppingList {
   id: string;
-  user_id: string;
   name: string;
   is_completed: boolean;
+  is_archived: boolean;
   created_at: string;
   updated_at: string;
-  items?: ShoppingListItem[];
 }
 
 export interface CreateShoppingListRequest {
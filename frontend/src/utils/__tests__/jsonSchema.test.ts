@@ -0,0 +1,52 @@
+// utils/jsonSchema.ts mirrors backend/src/utils/jsonSchema.js; both must give the same answers
+import { createRequire } from 'module'
+import { describe, expect, test } from 'vitest'
+import { JsonSchema } from '../../types/betsyTools'
+import { validateSchema } from '../jsonSchema'
+
+const require = createRequire(import.meta.url)
+const backend = require('../../../../backend/src/utils/jsonSchema.js')
+
+const mealSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', minLength: 1 },
+    mealType: { type: 'string', enum: ['breakfast', 'lunch', 'dinner', 'snack'] },
+    servings: { type: 'integer', minimum: 1, maximum: 20 },
+    notes: { type: ['string', 'null'] },
+    ingredients: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, amount: { type: 'number' } },
+        required: ['name'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['date', 'mealType'],
+  additionalProperties: false
+}
+
+const schemaCases: Array<[string, JsonSchema, unknown]> = [
+  ['a valid value', mealSchema, { date: '2026-10-18', mealType: 'dinner', servings: 4, notes: null, ingredients: [{ name: 'Rice', amount: 1.5 }] }],
+  ['the wrong type', mealSchema, []],
+  ['null for an object', mealSchema, null],
+  ['missing required properties', mealSchema, {}],
+  ['an option outside the enum', mealSchema, { date: '2026-10-18', mealType: 'brunch' }],
+  ['an empty string', mealSchema, { date: '', mealType: 'lunch' }],
+  ['numbers out of range', mealSchema, { date: 'today', mealType: 'lunch', servings: 0 }],
+  ['a fraction for an integer', mealSchema, { date: 'today', mealType: 'lunch', servings: 2.5 }],
+  ['unknown properties', mealSchema, { date: 'today', mealType: 'lunch', colour: 'red' }],
+  ['too few items', mealSchema, { date: 'today', mealType: 'lunch', ingredients: [] }],
+  ['bad items', mealSchema, { date: 'today', mealType: 'lunch', ingredients: [{ amount: 'lots' }, 'Rice'] }],
+  ['undefined optional properties', mealSchema, { date: 'today', mealType: 'lunch', servings: undefined }],
+  ['a schema without a type', { enum: [1, 'one'] }, 2]
+]
+
+describe('validateSchema', () => {
+  test.each(schemaCases)('agrees with the backend on %s', (_label, schema, value) => {
+    expect(validateSchema(schema, value)).toEqual(backend.validateSchema(schema, value))
+  })
+})
@@ -0,0 +1,60 @@
+// utils/pantryMatching.ts mirrors backend/src/utils/pantryMatching.js; both must give the same answers
+import { createRequire } from 'module'
+import { describe, expect, test } from 'vitest'
+import { matchPantry, nameMatchScore, nameWords, needsBuying } from '../pantryMatching'
+
+const require = createRequire(import.meta.url)
+const backend = require('../../../../backend/src/utils/pantryMatching.js')
+
+const nameCases: Array<[string, string]> = [
+  ['2 large eggs', 'Egg'],
+  ['extra virgin olive oil', 'olive oil'],
+  ['Tomatoes, diced (canned)', 'tomato'],
+  ['Chopped fresh parsley leaves', 'parsley'],
+  ['Green peppers', 'red pepper'],
+  ['Glass noodles', 'noodles'],
+  ['Potatoes', 'sweet potato'],
+  ['', 'Salt']
+]
+
+const pantry = [
+  { name: 'Eggs', quantity: 6, unit: null },
+  { name: 'Olive oil', quantity: '0.5', unit: 'l' },
+  { name: 'Flour', quantity: 1, unit: 'kg' },
+  { name: 'Plain flour', quantity: 200, unit: 'g' },
+  { name: 'Salt', quantity: 0, unit: 'g' },
+  { name: 'Milk', quantity: 2, unit: 'cups' }
+]
+
+const ingredients = [
+  { name: '2 large eggs', amount: 2, unit: null },
+  { name: 'Extra virgin olive oil', amount: 3, unit: 'tbsp' },
+  { name: 'Plain flour', amount: 500, unit: 'g' },
+  { name: 'Flour', amount: 1, unit: 'kg' },
+  { name: 'Salt', amount: null, unit: null },
+  { name: 'Milk', amount: 300, unit: 'ml' },
+  { name: 'Saffron', amount: 1, unit: 'pinch' },
+  { name: 'Eggs', amount: 10, unit: null }
+]
+
+describe('pantry matching', () => {
+  test.each(nameCases)('name matching agrees with the backend on %s / %s', (a, b) => {
+    expect(nameWords(a)).toEqual(backend.nameWords(a))
+    expect(nameMatchScore(a, b)).toBe(backend.nameMatchScore(a, b))
+  })
+
+  test('matchPantry and needsBuying agree with the backend', () => {
+    const matches = matchPantry(structuredClone(ingredients), structuredClone(pantry))
+    const backendMatches = backend.matchPantry(structuredClone(ingredients), structuredClone(pantry))
+
+    expect(matches).toEqual(backendMatches)
+    expect(matches.map(needsBuying)).toEqual(backendMatches.map(backend.needsBuying))
+  })
+
+  test('matchPantry agrees with the backend when ingredients are left out', () => {
+    const skipEggs = (ingredient: { name: string }) => !/egg/i.test(ingredient.name)
+
+    expect(matchPantry(structuredClone(ingredients), structuredClone(pantry), skipEggs))
+      .toEqual(backend.matchPantry(structuredClone(ingredients), structuredClone(pantry), skipEggs))
+  })
+})
@@ -1,3 +1,5 @@
+import { findUnit } from './unitConversion';
+
 const FRACTION_MAP: Record<string, string> = {
   '½': '1/2',
   '⅓': '1/3',
@@ -18,6 +20,8 @@ const UNITS = [
   'tablespoons?',
   'tbsp',
   'cups?',
+  'fl\\.?\\s*oz\\.?',
+  'fluid\\s+ounces?',
   'ounces?',
   'oz',
   'pints?',
@@ -103,6 +107,8 @@ export interface ParsedIngredient {
   quantity: string | null;
   quantityValue: number | null;
   unit: string | null;
+  // Canonical unit from unitConversion, e.g. "tablespoons" for "Tbsp"
+  normalizedUnit?: string | null;
   name: string;
   category?: string | null;
   preparation?: string | null;
@@ -175,6 +181,7 @@ function parseLine(line: string): ParsedIngredient | null {
     quantity,
     quantityValue: quantityStringToNumber(quantity),
     unit,
+    normalizedUnit: findUnit(unit),
     name
   };
 }
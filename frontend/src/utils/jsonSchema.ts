@@ -0,0 +1,73 @@
+// Minimal JSON Schema validation for Betsy's tool arguments: type (one or
+// several), enum, properties, required, additionalProperties, items,
+// minItems, minimum, maximum and minLength.
+// backend/src/utils/jsonSchema.js does the same check on the server.
+
+import { JsonSchema } from '../types/betsyTools';
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+// Every way `value` breaks `schema`, as "path: problem" strings; [] when it fits
+export function validateSchema(schema: JsonSchema, value: unknown, path = 'arguments'): string[] {
+  const types = schema.type ? ([] as string[]).concat(schema.type) : null;
+  if (types && !types.some(type => matchesType(value, type))) {
+    return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path}: must not be empty`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: needs at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(schema.items, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const properties = schema.properties || {};
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required || []) {
+      if (record[name] === undefined) {
+        errors.push(`${path}.${name}: is required`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(record)) {
+      if (properties[name]) {
+        if (propertyValue !== undefined) {
+          errors.push(...validateSchema(properties[name], propertyValue, `${path}.${name}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
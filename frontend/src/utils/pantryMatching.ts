@@ -0,0 +1,154 @@
+// Matching recipe ingredients to what's already in the pantry, so only the
+// rest goes on the shopping list. Names match loosely ("2 large eggs" uses the
+// pantry's "Egg", "extra virgin olive oil" its "olive oil") and amounts convert
+// between units. Mirrors backend/src/utils/pantryMatching.js.
+
+import { convert, findUnit } from './unitConversion';
+
+export interface PantryIngredient {
+  name: string;
+  amount: number | null;
+  unit: string | null;
+}
+
+export interface PantryStock {
+  name: string;
+  quantity: number | string;
+  unit: string | null;
+}
+
+export interface PantryMatch<T extends PantryIngredient = PantryIngredient> {
+  ingredient: T;
+  // The pantry item it uses, or null
+  pantryItem: string | null;
+  // How much the pantry covers and how much is left to buy, in the
+  // ingredient's unit; both null for unmeasured ingredients
+  have: number | null;
+  buy: number | null;
+  // How much each pantry item gives, in its own unit
+  uses: Array<{ item: PantryStock; amount: number }>;
+}
+
+// Words that describe an ingredient without changing what it is
+const DESCRIPTORS = new Set([
+  'fresh', 'large', 'medium', 'small', 'whole', 'chopped', 'diced', 'minced', 'sliced', 'grated',
+  'shredded', 'crushed', 'dried', 'ground', 'raw', 'cooked', 'boneless', 'skinless', 'organic',
+  'frozen', 'canned', 'extra', 'virgin', 'unsalted', 'salted', 'ripe', 'leaf', 'of'
+]);
+
+function singular(word: string): string {
+  if (word.length <= 3 || word.endsWith('ss')) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes') || word.endsWith('ches') || word.endsWith('shes')) return word.slice(0, -2);
+  if (word === 'leaves') return 'leaf';
+  return word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+// "Tomatoes, diced (canned)" -> ['tomato']
+export function nameWords(name: string | null | undefined): string[] {
+  const words = String(name || '')
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .split(',')[0]
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singular);
+  const kept = words.filter(word => !DESCRIPTORS.has(word));
+  return kept.length > 0 ? kept : words;
+}
+
+// Same word, allowing one typo in longer words ("tomatoe", "parmesean")
+function sameWord(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 5 || Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// 2 for the same thing, 1 when one is a more specific kind of the other
+// ("olive oil" and "oil"), 0 when they differ. The last word names what it
+// is, so "chicken" never matches "chicken broth".
+export function nameMatchScore(a: string, b: string): number {
+  const wordsA = nameWords(a);
+  const wordsB = nameWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+  if (!sameWord(wordsA[wordsA.length - 1], wordsB[wordsB.length - 1])) return 0;
+
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  if (!shorter.every(word => longer.some(other => sameWord(word, other)))) return 0;
+  return shorter.length === longer.length ? 2 : 1;
+}
+
+// Take the pantry off each ingredient. Each pantry item is used up once
+// across the list; unmeasured ingredients ("salt to taste") count as covered
+// when any pantry item matches. `usePantryFor` can leave ingredients out.
+export function matchPantry<T extends PantryIngredient>(
+  ingredients: T[],
+  pantryItems: PantryStock[],
+  usePantryFor: (ingredient: T) => boolean = () => true
+): PantryMatch<T>[] {
+  const remaining = pantryItems.map(item => ({
+    item,
+    amount: parseFloat(String(item.quantity)) || 0,
+    unit: findUnit(item.unit) || 'pieces'
+  }));
+
+  return ingredients.map(ingredient => {
+    const amount = ingredient.amount && ingredient.amount > 0 ? ingredient.amount : null;
+    const unit = ingredient.unit || 'pieces';
+    const candidates = usePantryFor(ingredient)
+      ? remaining
+        .map(stock => ({ stock, score: nameMatchScore(ingredient.name, stock.item.name) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(({ stock }) => stock)
+      : [];
+
+    if (amount === null) {
+      const stock = candidates.find(candidate => candidate.amount > 0) || candidates[0];
+      return { ingredient, pantryItem: stock ? stock.item.name : null, have: null, buy: null, uses: [] };
+    }
+
+    let needed = amount;
+    let pantryItem: string | null = null;
+    const uses: PantryMatch<T>['uses'] = [];
+    for (const stock of candidates) {
+      if (needed <= 0) break;
+      const available = convert(stock.amount, stock.unit, unit, ingredient.name);
+      if (!available || available <= 0) continue;
+
+      const used = Math.min(available, needed);
+      needed -= used;
+      const taken = Math.min(convert(used, unit, stock.unit, ingredient.name) ?? 0, stock.amount);
+      stock.amount -= taken;
+      uses.push({ item: stock.item, amount: Math.round(taken * 1000) / 1000 });
+      pantryItem = pantryItem || stock.item.name;
+    }
+
+    const buy = Math.round(needed * 1000) / 1000;
+    return { ingredient, pantryItem, have: Math.round((amount - needed) * 1000) / 1000, buy, uses };
+  });
+}
+
+// Whether a match still leaves something to buy
+export function needsBuying(match: PantryMatch<PantryIngredient>): boolean {
+  return match.pantryItem === null || (match.buy !== null && match.buy > 0);
+}
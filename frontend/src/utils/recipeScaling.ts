@@ -0,0 +1,108 @@
+// Scaling recipe ingredients to a different number of servings. Measured
+// amounts move to the most readable unit of the same system ("12 tsp" becomes
+// "1/4 cup"), counted ones round to what you can buy, and seasonings and
+// leavening are flagged because they don't grow in step with the rest.
+// backend/src/utils/recipeScaling.js does the same for grocery lists.
+
+import { formatQuantity, getUnitDimension, MeasurementSystem, parseQuantity, toPreferredUnit } from './unitConversion';
+
+export type RecipeIngredient = string | {
+  text?: string;
+  quantity?: string | number | null;
+  unit?: string | null;
+  name?: string | null;
+};
+
+export type NonLinearKind = 'seasoning' | 'leavening';
+
+export interface ScaledIngredient {
+  text: string;
+  original: string;
+  // Set when the amount was scaled but the result should be checked by taste
+  // or by the recipe's chemistry
+  nonLinear: NonLinearKind | null;
+}
+
+// Counted ingredients that only come whole
+const WHOLE_ITEMS_REGEX = /\b(eggs?|yolks?|egg whites?|cloves?|bay lea(f|ves))\b/i;
+
+const LEAVENING_REGEX = /\b(baking powder|baking soda|bicarbonate|yeast|cream of tartar)\b/i;
+
+const SEASONING_REGEX = new RegExp('\\b(' + [
+  'salt', 'black pepper', 'white pepper', 'peppercorns?', 'cayenne', 'chil[il] (powder|flakes)',
+  'red pepper flakes', 'paprika', 'cumin', 'coriander', 'cinnamon', 'nutmeg', 'ground cloves',
+  'ground ginger', 'turmeric', 'curry powder', 'garam masala', 'dried (herbs|oregano|thyme|basil|rosemary)',
+  'spices?', 'seasoning', 'extract', 'hot sauce'
+].join('|') + ')\\b', 'i');
+
+// Metric and UK units stay metric when scaled; everything else uses US cups and spoons
+const UNIT_SYSTEMS: Record<string, MeasurementSystem> = {
+  milliliters: 'metric',
+  liters: 'metric',
+  grams: 'metric',
+  kilograms: 'metric',
+  imperial_pints: 'uk'
+};
+
+export function getNonLinearKind(name: string): NonLinearKind | null {
+  if (LEAVENING_REGEX.test(name)) return 'leavening';
+  if (SEASONING_REGEX.test(name)) return 'seasoning';
+  return null;
+}
+
+// How much to multiply a recipe by to make `servings`; recipes without a
+// serving count stay as written
+export function servingsFactor(servings: number | null | undefined, baseServings: number | null | undefined): number {
+  if (!servings || !baseServings || servings <= 0 || baseServings <= 0) return 1;
+  return servings / baseServings;
+}
+
+// The line a recipe ingredient is shown as, "1 1/2 cups milk"
+export function ingredientText(ingredient: RecipeIngredient): string {
+  if (typeof ingredient === 'string') return ingredient.trim();
+  return ingredient.text?.trim() || [ingredient.quantity, ingredient.unit, ingredient.name]
+    .filter(part => part !== null && part !== undefined && String(part).trim().length > 0)
+    .map(part => String(part).trim())
+    .join(' ');
+}
+
+function roundCount(amount: number, name: string): number {
+  return WHOLE_ITEMS_REGEX.test(name)
+    ? Math.max(Math.round(amount), 1)
+    : Math.max(Math.round(amount * 2) / 2, 0.5);
+}
+
+// Scale one ingredient line. Lines without an amount ("salt to taste") are
+// left alone.
+export function scaleIngredientText(text: string, factor: number): ScaledIngredient {
+  const parsed = parseQuantity(text);
+  if (factor === 1 || !parsed.amount || !parsed.name) {
+    return { text, original: text, nonLinear: null };
+  }
+
+  const amount = parsed.amount * factor;
+  const dimension = getUnitDimension(parsed.unit);
+  const scaled = parsed.unit && dimension !== 'count'
+    ? toPreferredUnit({ amount, unit: parsed.unit }, UNIT_SYSTEMS[parsed.unit] || 'us', parsed.name)
+    : { amount: roundCount(amount, parsed.name), unit: parsed.unit };
+
+  return {
+    text: `${formatQuantity(scaled)} ${parsed.name}`,
+    original: text,
+    nonLinear: getNonLinearKind(parsed.name)
+  };
+}
+
+export function scaleIngredients(ingredients: RecipeIngredient[] | undefined, factor: number): ScaledIngredient[] {
+  return (ingredients || [])
+    .map(ingredientText)
+    .filter(text => text.length > 0)
+    .map(text => scaleIngredientText(text, factor));
+}
+
+// Ingredients to put on a shopping list for `factor` times the recipe. At the
+// recipe's own size they're passed through untouched.
+export function scaleIngredientsForShopping(ingredients: RecipeIngredient[] | undefined, factor: number): RecipeIngredient[] {
+  if (factor === 1) return ingredients || [];
+  return scaleIngredients(ingredients, factor).map(ingredient => ingredient.text);
+}